@@ -0,0 +1,112 @@
+/**
+ * MindBoat Companion - background service worker
+ *
+ * Watches the active tab, whether it plays sound, and window focus and reports
+ * them to every connected MindBoat page that has asked for reports (i.e. has a
+ * voyage in progress).
+ * Nothing is stored and nothing is sent anywhere else.
+ */
+
+const EXTENSION_SOURCE = 'mindboat-extension';
+const APP_SOURCE = 'mindboat-app';
+const PROTOCOL_VERSION = 1;
+
+// Connected MindBoat pages (content script ports and externally_connectable ports)
+// mapped to whether they want tab reports
+const appPorts = new Map();
+
+function handlePort(port) {
+  appPorts.set(port, false);
+
+  port.onMessage.addListener((message) => {
+    if (!message || message.source !== APP_SOURCE) return;
+
+    if (message.type === 'start_reporting') {
+      appPorts.set(port, true);
+      reportActiveTab('tab_activated');
+    } else if (message.type === 'stop_reporting') {
+      appPorts.set(port, false);
+    } else if (message.type === 'ping') {
+      port.postMessage({ source: EXTENSION_SOURCE, version: PROTOCOL_VERSION, type: 'hello' });
+    }
+  });
+
+  port.onDisconnect.addListener(() => {
+    appPorts.delete(port);
+  });
+
+  port.postMessage({ source: EXTENSION_SOURCE, version: PROTOCOL_VERSION, type: 'hello' });
+}
+
+chrome.runtime.onConnect.addListener(handlePort);
+chrome.runtime.onConnectExternal.addListener(handlePort);
+
+function broadcast(type, tab, focused) {
+  const message = {
+    source: EXTENSION_SOURCE,
+    version: PROTOCOL_VERSION,
+    type,
+    url: tab ? tab.url : undefined,
+    title: tab ? tab.title : undefined,
+    tabId: tab ? tab.id : undefined,
+    windowId: tab ? tab.windowId : undefined,
+    audible: tab ? Boolean(tab.audible) : undefined,
+    focused,
+    timestamp: Date.now(),
+  };
+
+  for (const [port, reporting] of appPorts) {
+    if (!reporting) continue;
+    try {
+      port.postMessage(message);
+    } catch {
+      appPorts.delete(port);
+    }
+  }
+}
+
+function isReporting() {
+  for (const reporting of appPorts.values()) {
+    if (reporting) return true;
+  }
+  return false;
+}
+
+async function reportActiveTab(type) {
+  if (!isReporting()) return;
+
+  const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+  if (tab) broadcast(type, tab, true);
+}
+
+chrome.tabs.onActivated.addListener(async ({ tabId }) => {
+  if (!isReporting()) return;
+
+  try {
+    const tab = await chrome.tabs.get(tabId);
+    broadcast('tab_activated', tab, true);
+  } catch (error) {
+    console.warn('MindBoat Companion: could not read activated tab', error);
+  }
+});
+
+chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+  // Only navigation and playback in the tab the user is looking at matter
+  if (!tab.active || (!changeInfo.url && changeInfo.audible === undefined)) return;
+  if (!isReporting()) return;
+
+  broadcast('tab_updated', tab, true);
+});
+
+chrome.windows.onFocusChanged.addListener(async (windowId) => {
+  if (!isReporting()) return;
+
+  if (windowId === chrome.windows.WINDOW_ID_NONE) {
+    // Focus moved to another application
+    broadcast('window_focus', null, false);
+    return;
+  }
+
+  const [tab] = await chrome.tabs.query({ active: true, windowId });
+  if (tab) broadcast('window_focus', tab, true);
+});
@@ -0,0 +1,68 @@
+/**
+ * MindBoat Companion - content script
+ *
+ * Runs inside the MindBoat page and relays messages between the page
+ * (window.postMessage) and the background service worker (runtime port).
+ */
+
+const EXTENSION_SOURCE = 'mindboat-extension';
+const APP_SOURCE = 'mindboat-app';
+const PROTOCOL_VERSION = 1;
+
+let port = null;
+
+function announce() {
+  window.postMessage({ source: EXTENSION_SOURCE, version: PROTOCOL_VERSION, type: 'hello' }, window.location.origin);
+}
+
+function connect() {
+  port = chrome.runtime.connect({ name: 'mindboat-content' });
+
+  // Background -> page
+  port.onMessage.addListener((message) => {
+    window.postMessage(message, window.location.origin);
+  });
+
+  // The browser stops the service worker when idle or when a port reaches its
+  // lifetime cap, and the new worker no longer knows this page wanted reports.
+  // Reconnect right away and say hello so the page re-sends start_reporting.
+  port.onDisconnect.addListener(() => {
+    port = null;
+    try {
+      connect();
+      announce();
+    } catch (error) {
+      // The extension was reloaded or removed - this content script is orphaned
+      console.warn('MindBoat Companion: could not reconnect', error);
+    }
+  });
+}
+
+function sendToBackground(message) {
+  if (!port) connect();
+  try {
+    port.postMessage(message);
+  } catch {
+    // Port died between checks - reconnect once
+    connect();
+    port.postMessage(message);
+  }
+}
+
+// Page -> background
+window.addEventListener('message', (event) => {
+  if (event.source !== window || event.origin !== window.location.origin) return;
+
+  const data = event.data;
+  if (!data || data.source !== APP_SOURCE) return;
+
+  if (data.type === 'ping') {
+    announce();
+    return;
+  }
+
+  sendToBackground(data);
+});
+
+connect();
+announce();
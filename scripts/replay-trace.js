@@ -0,0 +1,76 @@
+/**
+ * Replay a detection trace headlessly
+ *
+ * Usage:
+ *   npm run replay -- <trace.json> [--profile relaxed|standard|strict] [--config overrides.json] [--json]
+ *
+ * --profile replays with a preset's thresholds instead of the ones the voyage ran with.
+ * --config takes a JSON file shaped like ReplayOptions ({ "thresholds": {...}, "fusion": {...} }).
+ * --json prints the full report for diffing between detection changes.
+ */
+
+import { readFileSync } from 'node:fs';
+import { createServer } from 'vite';
+
+const args = process.argv.slice(2);
+const option = (name) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const tracePath = args.find((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'));
+
+if (!tracePath) {
+  console.error('Usage: npm run replay -- <trace.json> [--profile name] [--config overrides.json] [--json]');
+  process.exit(1);
+}
+
+const formatTime = (ms) => new Date(ms).toISOString().slice(11, 19);
+const formatRow = (d) =>
+  `  ${formatTime(d.startedAt)} → ${d.endedAt ? formatTime(d.endedAt) : 'open    '}  ` +
+  `${d.type.padEnd(20)} ${(d.source || '-').padEnd(18)} ${d.resolution || '-'}`;
+
+// Vite compiles the TypeScript sources so the replay runs the app's own detection code
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'error'
+});
+
+try {
+  const { replayTrace } = await server.ssrLoadModule('/src/utils/detectionReplay.ts');
+  const { SENSITIVITY_PRESETS } = await server.ssrLoadModule('/src/config/sensitivity.ts');
+
+  const trace = JSON.parse(readFileSync(tracePath, 'utf8'));
+  const profile = option('--profile');
+  const configPath = option('--config');
+  const overrides = configPath ? JSON.parse(readFileSync(configPath, 'utf8')) : {};
+
+  if (profile && !SENSITIVITY_PRESETS[profile]) {
+    throw new Error(`Unknown profile "${profile}"`);
+  }
+
+  const report = replayTrace(trace, {
+    ...overrides,
+    thresholds: { ...(profile ? SENSITIVITY_PRESETS[profile] : {}), ...overrides.thresholds }
+  });
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Voyage ${trace.voyageId}${trace.destinationName ? ` (${trace.destinationName})` : ''}`);
+    console.log(`${trace.signals.length} signals, thresholds:`, report.thresholds);
+    console.log(`\nReplayed distractions (${report.summary.replayed}):`);
+    report.distractions.forEach(d => console.log(formatRow(d)));
+    console.log(`\nRecorded distractions (${report.summary.recorded}):`);
+    report.recorded.forEach(d => console.log(formatRow(d)));
+    console.log(
+      `\nDistracted time: replayed ${Math.round(report.summary.replayedDistractedMs / 1000)}s, ` +
+      `recorded ${Math.round(report.summary.recordedDistractedMs / 1000)}s`
+    );
+  }
+} catch (error) {
+  console.error('Replay failed:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
@@ -7,16 +7,25 @@ import { CreateDestination } from './components/onboarding/CreateDestination';
 import { VoyagePreparation } from './components/sailing/VoyagePreparation';
 import { SailingMode } from './components/sailing/SailingMode';
 import { VoyageComplete } from './components/sailing/VoyageComplete';
+import { VoyageRecoveryModal } from './components/sailing/VoyageRecoveryModal';
 import { GrandMap } from './components/visualization/GrandMap';
+import { SettingsScreen } from './components/settings/SettingsScreen';
+import { NotesInbox } from './components/notes/NotesInbox';
 import { NotificationSystem } from './components/ui/NotificationSystem';
 import { useUserStore } from './stores/userStore';
 import { useDestinationStore } from './stores/destinationStore';
 import { useVoyageStore } from './stores/voyageStore';
 import { useNotificationStore } from './stores/notificationStore';
-import type { Destination } from './types';
+import { useSiteRuleStore } from './stores/siteRuleStore';
+import { useRetentionStore } from './stores/retentionStore';
+import { SyncQueueService } from './services/SyncQueueService';
+import { VoiceNoteService } from './services/VoiceNoteService';
+import { UserService } from './services/UserService';
+import { ReflectionService } from './services/ReflectionService';
+import type { Destination, VoyageContract } from './types';
 import { setupDebugTool } from './utils/debugDistraction';
 
-type AppState = 'auth' | 'lighthouse' | 'destinations' | 'voyage-prep' | 'sailing' | 'voyage-complete' | 'map';
+type AppState = 'auth' | 'lighthouse' | 'destinations' | 'voyage-prep' | 'sailing' | 'voyage-complete' | 'map' | 'settings' | 'notes';
 
 function App() {
   const {
@@ -30,12 +39,25 @@ function App() {
   } = useUserStore();
 
   const { destinations, loadDestinations } = useDestinationStore();
-  const { currentVoyage, voyageHistory, startVoyage, endVoyage } = useVoyageStore();
-  const { showSuccess, showError } = useNotificationStore();
+  const {
+    currentVoyage,
+    voyageHistory,
+    startVoyage,
+    endVoyage,
+    recoverableVoyage,
+    checkForInterruptedVoyage,
+    resumeInterruptedVoyage,
+    endInterruptedVoyage,
+    abandonInterruptedVoyage
+  } = useVoyageStore();
+  const { showSuccess, showError, showInfo } = useNotificationStore();
+  const loadSiteRules = useSiteRuleStore(state => state.loadRules);
+  const loadRetentionSettings = useRetentionStore(state => state.loadSettings);
 
   const [appState, setAppState] = useState<AppState>('auth');
   const [selectedDestination, setSelectedDestination] = useState<Destination | null>(null);
   const [completedVoyageId, setCompletedVoyageId] = useState<string | null>(null);
+  const [prepDestination, setPrepDestination] = useState<Destination | null>(null); // Preselected in voyage prep
   const [initializationComplete, setInitializationComplete] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
@@ -90,6 +112,58 @@ function App() {
     }
   }, [isAuthenticated, user, lighthouseGoal, currentVoyage, authMode, initializationComplete]);
 
+  // Replay offline writes for signed-in users; demo data never leaves the browser
+  useEffect(() => {
+    if (isAuthenticated && authMode === 'supabase') {
+      SyncQueueService.start();
+    } else {
+      SyncQueueService.stop();
+    }
+  }, [isAuthenticated, authMode]);
+
+  // Reconcile a voyage that was interrupted by a crash or reload
+  const userId = user?.id;
+  useEffect(() => {
+    if (!initializationComplete || !isAuthenticated || !userId) return;
+
+    checkForInterruptedVoyage(userId);
+  }, [initializationComplete, isAuthenticated, userId, checkForInterruptedVoyage]);
+
+  // Load the user's own distracting/work site rules and data retention settings
+  useEffect(() => {
+    if (!isAuthenticated || !userId) return;
+
+    loadSiteRules(userId);
+    // Browser-kept voice note audio follows the current transcript retention
+    loadRetentionSettings(userId).then(() =>
+      VoiceNoteService.purgeExpiredBrowserAudio(useRetentionStore.getState().settings.transcripts_days)
+    );
+  }, [isAuthenticated, userId, loadSiteRules, loadRetentionSettings]);
+
+  // Keep the profile's time zone current for the nightly reflection job, then
+  // mention yesterday's reflection once if the job has written it
+  useEffect(() => {
+    if (!isAuthenticated || !userId || authMode !== 'supabase') return;
+
+    const announceReflection = async () => {
+      const timeZone = await UserService.syncTimeZone(userId);
+      const reflection = await ReflectionService.getYesterdayReflection(userId, timeZone);
+      if (!reflection?.reflection_text) return;
+
+      const announcedKey = `reflection-announced-${userId}`;
+      if (localStorage.getItem(announcedKey) === reflection.date) return;
+
+      showInfo(
+        reflection.tomorrow_suggestion || "Your seagull wrote up yesterday's voyages.",
+        "Yesterday's reflection",
+        { duration: 8000 }
+      );
+      localStorage.setItem(announcedKey, reflection.date);
+    };
+
+    announceReflection();
+  }, [isAuthenticated, userId, authMode, showInfo]);
+
   // Show auth errors as notifications (keep this as it's important)
   useEffect(() => {
     if (authError && initializationComplete) {
@@ -162,14 +236,14 @@ function App() {
     setAppState('voyage-prep');
   };
 
-  const handleStartVoyage = async (destination: Destination, plannedDuration: number) => {
+  const handleStartVoyage = async (destination: Destination, plannedDuration: number, contract: VoyageContract | null) => {
     if (!user) return;
 
     setSelectedDestination(destination);
 
     try {
       // Start the voyage in the store
-      await startVoyage(destination.id, user.id, plannedDuration);
+      await startVoyage(destination.id, user.id, plannedDuration, contract);
 
       // Transition to sailing mode
       setAppState('sailing');
@@ -208,12 +282,44 @@ function App() {
     }
   };
 
+  const handleRecoveryChoice = async (choice: 'resume' | 'end' | 'abandon') => {
+    if (!recoverableVoyage) return;
+
+    if (choice === 'resume') {
+      const destination = destinations.find(d => d.id === recoverableVoyage.voyage.destination_id)
+        || recoverableVoyage.voyage.destination;
+
+      if (!destination) {
+        showError(
+          'The destination for this voyage could not be found. Please end or abandon it instead.',
+          'Voyage Recovery'
+        );
+        return;
+      }
+
+      setSelectedDestination(destination);
+      const resumedVoyage = await resumeInterruptedVoyage();
+      if (resumedVoyage) {
+        setAppState('sailing');
+      }
+    } else if (choice === 'end') {
+      const endedVoyage = await endInterruptedVoyage();
+      if (endedVoyage) {
+        setCompletedVoyageId(endedVoyage.id);
+        setAppState('voyage-complete');
+      }
+    } else {
+      await abandonInterruptedVoyage();
+    }
+  };
+
   const handleVoyageCompleteNext = () => {
     setAppState('map');
   };
 
   const handleBackToPrep = () => {
     setSelectedDestination(null);
+    setPrepDestination(null);
     setAppState('voyage-prep');
   };
 
@@ -221,6 +327,24 @@ function App() {
     setAppState('map');
   };
 
+  const handleOpenSettings = () => {
+    setAppState('settings');
+  };
+
+  const handleOpenNotes = () => {
+    setAppState('notes');
+  };
+
+  const handleOpenNoteVoyage = (voyageId: string) => {
+    setCompletedVoyageId(voyageId);
+    setAppState('voyage-complete');
+  };
+
+  const handleOpenNoteDestination = (destinationId: string) => {
+    setPrepDestination(destinations.find(d => d.id === destinationId) || null);
+    setAppState('voyage-prep');
+  };
+
   const handleManageDestinations = () => {
     setAppState('destinations');
   };
@@ -246,6 +370,9 @@ function App() {
              onStartVoyage={handleStartVoyage}
              onViewMap={handleViewMap}
              onManageDestinations={handleManageDestinations}
+             onOpenSettings={handleOpenSettings}
+             onOpenNotes={handleOpenNotes}
+             initialDestination={prepDestination}
            />
          );
        
@@ -271,6 +398,22 @@ function App() {
              onBack={handleBackToPrep}
            />
          );
+
+       case 'settings':
+         return (
+           <SettingsScreen
+             onBack={handleBackToPrep}
+           />
+         );
+
+       case 'notes':
+         return (
+           <NotesInbox
+             onBack={handleBackToPrep}
+             onOpenVoyage={handleOpenNoteVoyage}
+             onOpenDestination={handleOpenNoteDestination}
+           />
+         );
       
       default:
         return null;
@@ -296,6 +439,12 @@ function App() {
         {renderCurrentState()}
       </div>
 
+      {/* Recovery prompt for a voyage interrupted by a crash or reload */}
+      <VoyageRecoveryModal
+        recoverableVoyage={recoverableVoyage}
+        onChoice={handleRecoveryChoice}
+      />
+
       {/* Notification System */}
       <NotificationSystem />
 
@@ -1,21 +1,22 @@
-import React, { useState } from 'react';
-import { Compass, CheckCircle, Circle, Mail as Sail, Mountain, BookOpen, Palette } from 'lucide-react';
-import { designSystem, getButtonStyle, getPanelStyle, getIconContainerStyle, getInnerGlowStyle } from '../styles/designSystem';
+import React, { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, Circle, Mail as Sail, Archive, ArchiveRestore, FileText, Mic, Clock, Loader2 } from 'lucide-react';
 import { ControlPanel } from './ControlPanel';
 import { SailingSummaryPanel } from './SailingSummaryPanel';
+import { useDestinationStore } from '../stores/destinationStore';
+import { useUserStore } from '../stores/userStore';
+import { DestinationService } from '../services/DestinationService';
+import { VoyageService } from '../services/VoyageService';
+import { NoteService, type InboxNote } from '../services/NoteService';
+import type { Destination, DestinationStatus, Voyage } from '../types';
 
-interface Task {
-  id: string;
-  title: string;
-  description: string;
-  completed: boolean;
-  category: 'writing' | 'design' | 'learning' | 'personal';
-  imageUrl: string;
-  details: string;
+interface DestinationStats {
+  voyageCount: number;
+  totalFocusTime: number; // minutes
+  lastVisited: string | null;
 }
 
 interface SailingSummaryData {
-  imageUrl: string;
+  imageUrl?: string;
   summaryText: string;
 }
 
@@ -24,79 +25,114 @@ interface JourneyPanelProps {
   onClose?: () => void;
 }
 
-const mockTasks: Task[] = [
-  {
-    id: '1',
-    title: 'write PS',
-    description: 'Personal Statement',
-    completed: false,
-    category: 'writing',
-    imageUrl: 'https://images.pexels.com/photos/261763/pexels-photo-261763.jpeg?auto=compress&cs=tinysrgb&w=800',
-    details: 'Since you need to apply for school, you need to write a personal statement. What are your requirements?'
-  },
-  {
-    id: '2',
-    title: 'Design UI',
-    description: 'Interface Design',
-    completed: false,
-    category: 'design',
-    imageUrl: 'https://images.pexels.com/photos/196644/pexels-photo-196644.jpeg?auto=compress&cs=tinysrgb&w=800',
-    details: 'Create user interface prototypes, including interaction design and visual hierarchy. Focus on user experience and usability.'
-  },
-  {
-    id: '3',
-    title: 'Learn React',
-    description: 'Frontend Learning',
-    completed: true,
-    category: 'learning',
-    imageUrl: 'https://images.pexels.com/photos/574071/pexels-photo-574071.jpeg?auto=compress&cs=tinysrgb&w=800',
-    details: 'Deep dive into React framework, master core concepts of component-based development and state management.'
-  },
-  {
-    id: '4',
-    title: 'Morning Meditation',
-    description: 'Meditation Practice',
-    completed: false,
-    category: 'personal',
-    imageUrl: 'https://images.pexels.com/photos/1051838/pexels-photo-1051838.jpeg?auto=compress&cs=tinysrgb&w=800',
-    details: 'Daily morning meditation practice to cultivate inner peace and focus, preparing for the day ahead.'
-  }
-];
-
-const getCategoryIcon = (category: Task['category']) => {
-  switch (category) {
-    case 'writing':
-      return <BookOpen className="w-4 h-4" />;
-    case 'design':
-      return <Palette className="w-4 h-4" />;
-    case 'learning':
-      return <Mountain className="w-4 h-4" />;
-    case 'personal':
-      return <Compass className="w-4 h-4" />;
-    default:
-      return <Circle className="w-4 h-4" />;
+const EMPTY_STATS: DestinationStats = { voyageCount: 0, totalFocusTime: 0, lastVisited: null };
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const getStatus = (destination: Destination): DestinationStatus => destination.status ?? 'active';
+
+/**
+ * Summary of the latest voyage toward a destination, for the sailing summary panel
+ */
+const summarizeLatestVoyage = (destination: Destination, voyage: Voyage | undefined, stats: DestinationStats) => {
+  if (!voyage) {
+    return `No finished voyages toward ${destination.destination_name} yet. The seagull will have more to say after your first one.`;
   }
+
+  const distractions = voyage.distraction_count || 0;
+  return `On your last voyage you sailed ${formatDuration(voyage.actual_duration || 0)} toward ${destination.destination_name}` +
+    `${distractions > 0 ? `, changing course ${distractions} time${distractions === 1 ? '' : 's'}` : ' without changing course once'}. ` +
+    `That makes ${formatDuration(stats.totalFocusTime)} across ${stats.voyageCount} voyage${stats.voyageCount === 1 ? '' : 's'}. ` +
+    'Keep it up—the journey itself is the reward!';
 };
 
 export const JourneyPanel: React.FC<JourneyPanelProps> = ({
   isVisible,
   onClose
 }) => {
-  const [selectedTask, setSelectedTask] = useState<Task>(mockTasks[0]);
-  const [tasks, setTasks] = useState<Task[]>(mockTasks);
+  const { user } = useUserStore();
+  const { destinations, updateDestinationStatus } = useDestinationStore();
+  const [stats, setStats] = useState<Record<string, DestinationStats>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [voyages, setVoyages] = useState<Voyage[]>([]);
+  const [notes, setNotes] = useState<InboxNote[]>([]);
+  const [isLoadingDetails, setIsLoadingDetails] = useState(false);
   const [showControlPanel, setShowControlPanel] = useState(false);
   const [showSummaryPanel, setShowSummaryPanel] = useState(false);
   const [summaryData, setSummaryData] = useState<SailingSummaryData | null>(null);
   const [isLoadingSummary, setIsLoadingSummary] = useState(false);
 
-  const toggleTaskCompletion = (taskId: string) => {
-    setTasks(prev => prev.map(task => 
-      task.id === taskId ? { ...task, completed: !task.completed } : task
-    ));
+  const isDemo = !user || user.id.startsWith('demo-');
+
+  // Active destinations first, then completed; archived ones only on request
+  const listedDestinations = useMemo(() => {
+    const order: Record<DestinationStatus, number> = { active: 0, completed: 1, archived: 2 };
+    return destinations
+      .filter(destination => showArchived || getStatus(destination) !== 'archived')
+      .sort((a, b) => order[getStatus(a)] - order[getStatus(b)]);
+  }, [destinations, showArchived]);
+
+  const archivedCount = destinations.filter(destination => getStatus(destination) === 'archived').length;
+  const selectedDestination = destinations.find(destination => destination.id === selectedId) ?? listedDestinations[0] ?? null;
+  const selectedStats = (selectedDestination && stats[selectedDestination.id]) || EMPTY_STATS;
+
+  // Focus time and last voyage for every destination
+  useEffect(() => {
+    if (!isVisible || !user || isDemo) return;
+
+    DestinationService.getUserDestinationsWithStats(user.id)
+      .then(withStats => setStats(Object.fromEntries(withStats.map(dest => [dest.id, {
+        voyageCount: dest.voyage_count,
+        totalFocusTime: dest.total_focus_time,
+        lastVisited: dest.last_visited,
+      }]))))
+      .catch(error => console.warn('Failed to load destination stats:', error));
+  }, [isVisible, user, isDemo, destinations.length]);
+
+  // Voyages and notes of the selected destination
+  const selectedDestinationId = selectedDestination?.id;
+  useEffect(() => {
+    setVoyages([]);
+    setNotes([]);
+    if (!isVisible || !user || isDemo || !selectedDestinationId) return;
+
+    let cancelled = false;
+    setIsLoadingDetails(true);
+
+    Promise.all([
+      VoyageService.getDestinationVoyages(selectedDestinationId),
+      NoteService.getDestinationNotes(user.id, selectedDestinationId),
+    ])
+      .then(([destinationVoyages, destinationNotes]) => {
+        if (cancelled) return;
+        setVoyages(destinationVoyages);
+        setNotes(destinationNotes);
+      })
+      .catch(error => console.warn('Failed to load destination details:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoadingDetails(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isVisible, user, isDemo, selectedDestinationId]);
+
+  const setStatus = (destination: Destination, status: DestinationStatus) => {
+    updateDestinationStatus(destination.id, status);
   };
 
   const handleStartJourney = async () => {
-    console.log('Starting journey with task:', selectedTask.title);
+    if (!selectedDestination) return;
+    console.log('Starting journey toward:', selectedDestination.destination_name);
     
     try {
       // Send webhook via backend proxy
@@ -136,43 +172,19 @@ export const JourneyPanel: React.FC<JourneyPanelProps> = ({
     setIsLoadingSummary(true);
     
     try {
-      // Simulate API call to backend for summary data
-      // Replace this with actual API call
-      const response = await fetch('/api/sailing-summary', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          taskId: selectedTask.id,
-          sessionData: {
-            // Include any session data needed for summary generation
-            startTime: new Date().toISOString(),
-            taskTitle: selectedTask.title,
-            taskCategory: selectedTask.category
-          }
-        })
-      });
+      const [latestVoyage] = selectedDestination && !isDemo
+        ? await VoyageService.getDestinationVoyages(selectedDestination.id, 1)
+        : [];
 
-      if (response.ok) {
-        const data = await response.json();
-        setSummaryData({
-          imageUrl: data.imageUrl,
-          summaryText: data.summaryText
-        });
-      } else {
-        // Fallback to mock data if API fails
-        setSummaryData({
-          imageUrl: 'https://images.pexels.com/photos/1001682/pexels-photo-1001682.jpeg?auto=compress&cs=tinysrgb&w=800',
-          summaryText: "Today, you sailed 2.5 hours toward the continent of your thesis. Along the way, you were easily drawn to social media notifications, spending 45 minutes on it. If you'd like to dive deeper into your reflections, check out the Seagull's Human Observation Log. Keep it up—the journey itself is the reward!"
-        });
-      }
+      setSummaryData({
+        summaryText: selectedDestination
+          ? summarizeLatestVoyage(selectedDestination, latestVoyage, selectedStats)
+          : 'Your journey continues. Every moment of focus is a step toward your lighthouse.'
+      });
     } catch (error) {
-      console.error('Failed to fetch summary data:', error);
-      // Fallback to mock data
+      console.error('Failed to load voyage summary:', error);
       setSummaryData({
-        imageUrl: 'https://images.pexels.com/photos/1001682/pexels-photo-1001682.jpeg?auto=compress&cs=tinysrgb&w=800',
-        summaryText: "Today, you sailed 2.5 hours toward the continent of your thesis. Along the way, you were easily drawn to social media notifications, spending 45 minutes on it. If you'd like to dive deeper into your reflections, check out the Seagull's Human Observation Log. Keep it up—the journey itself is the reward!"
+        summaryText: 'Your journey continues. Every moment of focus is a step toward your lighthouse.'
       });
     } finally {
       setIsLoadingSummary(false);
@@ -201,7 +213,7 @@ export const JourneyPanel: React.FC<JourneyPanelProps> = ({
             {/* No overlay - let the 3D scene show through seamlessly */}
           </div>
 
-          {/* Right side - Task Panel - width increased from 600px to 900px (1.5x) */}
+          {/* Right side - Destination Panel - width increased from 600px to 900px (1.5x) */}
           <div className="w-[900px] p-8 flex items-center justify-center">
             <div className="relative w-full max-w-[820px] bg-gradient-to-br from-slate-500/20 via-slate-400/15 to-slate-600/25 
                             backdrop-blur-2xl border border-white/25 rounded-3xl p-10
@@ -236,88 +248,213 @@ export const JourneyPanel: React.FC<JourneyPanelProps> = ({
 
                 {/* Main content area - Increased spacing and column widths */}
                 <div className="flex-1 flex gap-8">
-                  {/* Left column - To Do List - Increased width from w-48 to w-64 */}
+                  {/* Left column - Destinations */}
                   <div className="w-64 space-y-3">
                     <h3 className="text-lg font-playfair font-medium text-white mb-4">
-                      to do list
+                      destinations
                     </h3>
                     
-                    <div className="space-y-2">
-                      {tasks.map((task) => (
-                        <button
-                          key={task.id}
-                          onClick={() => setSelectedTask(task)}
-                          className={`w-full text-left p-4 rounded-xl transition-all duration-300 
-                                      border backdrop-blur-md font-inter text-sm
-                                      ${selectedTask.id === task.id 
-                                        ? 'bg-gradient-to-br from-slate-500/30 via-slate-400/25 to-slate-600/35 border-white/30 text-white shadow-md' 
-                                        : 'bg-gradient-to-br from-slate-500/15 via-slate-400/10 to-slate-600/20 border-white/20 text-white/80 hover:from-slate-500/20 hover:via-slate-400/15 hover:to-slate-600/25 hover:border-white/30'
-                                      }`}
-                        >
-                          <div className="flex items-center gap-2 mb-1">
+                    <div className="space-y-2 max-h-[480px] overflow-y-auto pr-1">
+                      {listedDestinations.length === 0 && (
+                        <p className="text-white/60 font-inter text-sm">
+                          No destinations yet. Create one in Voyage Preparation to start sailing.
+                        </p>
+                      )}
+                      {listedDestinations.map((destination) => {
+                        const status = getStatus(destination);
+                        const destinationStats = stats[destination.id] || EMPTY_STATS;
+
+                        return (
+                          <div
+                            key={destination.id}
+                            role="button"
+                            tabIndex={0}
+                            onClick={() => setSelectedId(destination.id)}
+                            onKeyDown={(e) => e.key === 'Enter' && setSelectedId(destination.id)}
+                            className={`w-full text-left p-4 rounded-xl transition-all duration-300 cursor-pointer
+                                        border backdrop-blur-md font-inter text-sm
+                                        ${selectedDestination?.id === destination.id 
+                                          ? 'bg-gradient-to-br from-slate-500/30 via-slate-400/25 to-slate-600/35 border-white/30 text-white shadow-md' 
+                                          : 'bg-gradient-to-br from-slate-500/15 via-slate-400/10 to-slate-600/20 border-white/20 text-white/80 hover:from-slate-500/20 hover:via-slate-400/15 hover:to-slate-600/25 hover:border-white/30'
+                                        } ${status === 'archived' ? 'opacity-60' : ''}`}
+                          >
+                            <div className="flex items-center gap-2 mb-1">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setStatus(destination, status === 'completed' ? 'active' : 'completed');
+                                }}
+                                disabled={status === 'archived'}
+                                className="text-white/60 hover:text-white transition-colors"
+                                title={status === 'completed' ? 'Mark as not reached yet' : 'Mark as reached'}
+                              >
+                                {status === 'completed' ? (
+                                  <CheckCircle className="w-4 h-4 text-green-400" />
+                                ) : status === 'archived' ? (
+                                  <Archive className="w-4 h-4" />
+                                ) : (
+                                  <Circle className="w-4 h-4" />
+                                )}
+                              </button>
+                              <span
+                                className="w-2.5 h-2.5 rounded-full"
+                                style={{ backgroundColor: destination.color_theme }}
+                              />
+                            </div>
+                            <div className={status === 'completed' ? 'line-through opacity-60' : ''}>
+                              <div className="font-medium">{destination.destination_name}</div>
+                            </div>
+                            <div className="text-xs text-white/60 mt-1">
+                              {formatDuration(destinationStats.totalFocusTime)} focused
+                              {' · '}
+                              {destinationStats.lastVisited
+                                ? `last voyage ${formatDate(destinationStats.lastVisited)}`
+                                : 'no voyages yet'}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {archivedCount > 0 && (
+                      <button
+                        onClick={() => setShowArchived(!showArchived)}
+                        className="text-white/60 hover:text-white font-inter text-xs transition-colors"
+                      >
+                        {showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+                      </button>
+                    )}
+                  </div>
+
+                  {/* Right column - Destination Details */}
+                  {selectedDestination && (
+                    <div className="flex-1 space-y-6">
+                      <div>
+                        <div className="flex items-start justify-between gap-4 mb-3">
+                          <h3 className="text-xl font-playfair font-medium text-white">
+                            {selectedDestination.destination_name} - {selectedDestination.original_task}
+                          </h3>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            {getStatus(selectedDestination) !== 'archived' && (
+                              <button
+                                onClick={() => setStatus(
+                                  selectedDestination,
+                                  getStatus(selectedDestination) === 'completed' ? 'active' : 'completed'
+                                )}
+                                className="px-3 py-1.5 rounded-lg border border-white/25 text-white/80 hover:text-white hover:border-white/40 font-inter text-xs transition-colors flex items-center gap-1"
+                              >
+                                <CheckCircle className="w-3.5 h-3.5" />
+                                {getStatus(selectedDestination) === 'completed' ? 'Reopen' : 'Mark completed'}
+                              </button>
+                            )}
                             <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                toggleTaskCompletion(task.id);
-                              }}
-                              className="text-white/60 hover:text-white transition-colors"
+                              onClick={() => setStatus(
+                                selectedDestination,
+                                getStatus(selectedDestination) === 'archived' ? 'active' : 'archived'
+                              )}
+                              className="px-3 py-1.5 rounded-lg border border-white/25 text-white/80 hover:text-white hover:border-white/40 font-inter text-xs transition-colors flex items-center gap-1"
                             >
-                              {task.completed ? (
-                                <CheckCircle className="w-4 h-4 text-green-400" />
+                              {getStatus(selectedDestination) === 'archived' ? (
+                                <><ArchiveRestore className="w-3.5 h-3.5" /> Unarchive</>
                               ) : (
-                                <Circle className="w-4 h-4" />
+                                <><Archive className="w-3.5 h-3.5" /> Archive</>
                               )}
                             </button>
-                            {getCategoryIcon(task.category)}
                           </div>
-                          <div className={task.completed ? 'line-through opacity-60' : ''}>
-                            <div className="font-medium">{task.title}</div>
-                            <div className="text-xs text-white/60 mt-1">{task.description}</div>
-                          </div>
-                        </button>
-                      ))}
-                    </div>
-                  </div>
+                        </div>
+                        <p className="text-white/80 font-inter text-base leading-relaxed">
+                          {selectedDestination.description}
+                        </p>
+                        <p className="text-white/60 font-inter text-sm mt-2">
+                          {formatDuration(selectedStats.totalFocusTime)} focused across {selectedStats.voyageCount} voyage{selectedStats.voyageCount === 1 ? '' : 's'}
+                        </p>
+                      </div>
 
-                  {/* Right column - Task Details - Now has more space */}
-                  <div className="flex-1 space-y-6">
-                    <div>
-                      <h3 className="text-xl font-playfair font-medium text-white mb-3">
-                        {selectedTask.title} - {selectedTask.description}:
-                      </h3>
-                      <p className="text-white/80 font-inter text-base leading-relaxed">
-                        {selectedTask.details}
-                      </p>
-                    </div>
+                      {/* Voyages and notes for this destination */}
+                      <div className="relative rounded-2xl overflow-hidden bg-gradient-to-br from-slate-500/15 via-slate-400/10 to-slate-600/20 
+                                      border border-white/20 shadow-lg h-64 overflow-y-auto p-4 font-inter text-sm text-white/80">
+                        <div
+                          className="absolute top-0 left-0 right-0 h-1"
+                          style={{ backgroundColor: selectedDestination.color_theme }}
+                        />
+                        {isDemo ? (
+                          <p className="text-white/60">Voyages and notes are saved with your account. Demo mode keeps none.</p>
+                        ) : isLoadingDetails ? (
+                          <div className="flex justify-center py-8">
+                            <Loader2 className="w-6 h-6 text-white/70 animate-spin" />
+                          </div>
+                        ) : (
+                          <div className="space-y-5">
+                            <div>
+                              <h4 className="text-white font-medium mb-2">Voyages</h4>
+                              {voyages.length === 0 ? (
+                                <p className="text-white/60">No finished voyages yet.</p>
+                              ) : (
+                                <ul className="space-y-1.5">
+                                  {voyages.map(voyage => (
+                                    <li key={voyage.id} className="flex items-center justify-between gap-3">
+                                      <span className="flex items-center gap-2">
+                                        <Clock className="w-3.5 h-3.5 text-white/50" />
+                                        {new Date(voyage.start_time).toLocaleString(undefined, {
+                                          month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit'
+                                        })}
+                                      </span>
+                                      <span className="text-white/60">
+                                        {formatDuration(voyage.actual_duration || 0)}
+                                        {' · '}
+                                        {voyage.distraction_count} distraction{voyage.distraction_count === 1 ? '' : 's'}
+                                        {voyage.status === 'abandoned' && ' · abandoned'}
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </div>
 
-                    {/* Task illustration - Increased height from h-48 to h-64 */}
-                    <div className="relative rounded-2xl overflow-hidden bg-gradient-to-br from-slate-500/15 via-slate-400/10 to-slate-600/20 
-                                    border border-white/20 shadow-lg">
-                      <img
-                        src={selectedTask.imageUrl}
-                        alt={selectedTask.title}
-                        className="w-full h-64 object-cover"
-                      />
-                      <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent"></div>
-                    </div>
+                            <div>
+                              <h4 className="text-white font-medium mb-2">Notes</h4>
+                              {notes.length === 0 ? (
+                                <p className="text-white/60">No notes captured while sailing here.</p>
+                              ) : (
+                                <ul className="space-y-2">
+                                  {notes.map(note => (
+                                    <li key={note.id} className="flex items-start gap-2">
+                                      {note.type === 'voice'
+                                        ? <Mic className="w-3.5 h-3.5 mt-0.5 text-white/50 flex-shrink-0" />
+                                        : <FileText className="w-3.5 h-3.5 mt-0.5 text-white/50 flex-shrink-0" />}
+                                      <span>
+                                        {note.content}
+                                        <span className="text-white/50 text-xs ml-2">{formatDate(note.created_at)}</span>
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                      </div>
 
-                    {/* Start Journey Button - Removed justify-center to align with container edges */}
-                    <div className="pt-4">
-                      <button
-                        onClick={handleStartJourney}
-                        className="w-full px-6 py-3 bg-gradient-to-r from-blue-400/30 to-purple-400/30
-                                   hover:from-blue-400/40 hover:to-purple-400/40 text-white rounded-xl 
-                                   transition-all duration-300 font-inter font-medium text-base
-                                   shadow-[0_8px_24px_rgba(0,0,0,0.12),0_2px_8px_rgba(0,0,0,0.08)] backdrop-blur-md
-                                   border border-white/25 hover:border-white/35
-                                   transform hover:scale-[1.02] active:scale-[0.98]
-                                   flex items-center justify-center gap-2"
-                      >
-                        <Sail className="w-5 h-5" />
-                        Start Journey
-                      </button>
+                      {/* Start Journey Button - Removed justify-center to align with container edges */}
+                      <div className="pt-4">
+                        <button
+                          onClick={handleStartJourney}
+                          disabled={getStatus(selectedDestination) !== 'active'}
+                          className="w-full px-6 py-3 bg-gradient-to-r from-blue-400/30 to-purple-400/30
+                                     hover:from-blue-400/40 hover:to-purple-400/40 text-white rounded-xl 
+                                     transition-all duration-300 font-inter font-medium text-base
+                                     shadow-[0_8px_24px_rgba(0,0,0,0.12),0_2px_8px_rgba(0,0,0,0.08)] backdrop-blur-md
+                                     border border-white/25 hover:border-white/35
+                                     transform hover:scale-[1.02] active:scale-[0.98]
+                                     flex items-center justify-center gap-2
+                                     disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+                        >
+                          <Sail className="w-5 h-5" />
+                          Start Journey
+                        </button>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
               </div>
 
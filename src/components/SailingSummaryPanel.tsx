@@ -3,7 +3,7 @@ import { X, ExternalLink } from 'lucide-react';
 import { designSystem } from '../styles/designSystem';
 
 interface SailingSummaryData {
-  imageUrl: string;
+  imageUrl?: string;
   summaryText: string;
 }
 
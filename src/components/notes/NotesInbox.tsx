@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowLeft, Inbox, Search, FileText, Mic, Tag, X, Sparkles, MapPin, Anchor, Loader2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { VoiceNotePlayer } from './VoiceNotePlayer';
+import { useNoteStore } from '../../stores/noteStore';
+import { useDestinationStore } from '../../stores/destinationStore';
+import { useUserStore } from '../../stores/userStore';
+import type { InboxNote, NoteFilters } from '../../services/NoteService';
+
+interface NotesInboxProps {
+  onBack: () => void;
+  onOpenVoyage: (voyageId: string) => void;
+  onOpenDestination: (destinationId: string) => void;
+}
+
+const STATUS_TABS: { status: NonNullable<NoteFilters['status']>; label: string }[] = [
+  { status: 'inbox', label: 'Inbox' },
+  { status: 'filed', label: 'Filed' },
+  { status: 'all', label: 'All notes' },
+];
+
+// Wait for typing to settle before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const NotesInbox: React.FC<NotesInboxProps> = ({ onBack, onOpenVoyage, onOpenDestination }) => {
+  const { user } = useUserStore();
+  const { destinations } = useDestinationStore();
+  const { notes, filters, isLoading, error, loadNotes, updateTags, attachToDestination, promoteToDestination } = useNoteStore();
+  const [query, setQuery] = useState(filters.query || '');
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const timeout = setTimeout(() => {
+      if (query !== (filters.query || '')) loadNotes(user.id, { ...filters, query });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [user, query, filters, loadNotes]);
+
+  // Load once on open with the last filters
+  useEffect(() => {
+    if (user) loadNotes(user.id);
+  }, [user, loadNotes]);
+
+  const allTags = useMemo(
+    () => Array.from(new Set(notes.flatMap(note => note.tags || []))).sort(),
+    [notes]
+  );
+
+  const setFilters = (changes: Partial<NoteFilters>) => {
+    if (user) loadNotes(user.id, { ...filters, query, ...changes });
+  };
+
+  const handleAddTag = (note: InboxNote) => {
+    const draft = tagDrafts[note.id]?.trim();
+    if (!draft) return;
+
+    updateTags(note.id, [...(note.tags || []), ...draft.split(',')]);
+    setTagDrafts(drafts => ({ ...drafts, [note.id]: '' }));
+  };
+
+  const handlePromote = async (note: InboxNote) => {
+    if (!user) return;
+
+    setPromotingId(note.id);
+    await promoteToDestination(note.id, user.id);
+    setPromotingId(null);
+  };
+
+  const renderNote = (note: InboxNote) => (
+    <motion.div
+      key={note.id}
+      layout
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, x: -20 }}
+    >
+      <Card className="p-5">
+        <div className="flex items-start space-x-3">
+          {note.type === 'voice'
+            ? <Mic className="w-5 h-5 text-purple-500 flex-shrink-0 mt-0.5" />
+            : <FileText className="w-5 h-5 text-purple-500 flex-shrink-0 mt-0.5" />}
+          <div className="flex-1 min-w-0">
+            <p className="text-gray-800 whitespace-pre-wrap">{note.content}</p>
+            {note.type === 'voice' && <VoiceNotePlayer note={note} />}
+
+            {/* Where the note came from */}
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs text-gray-500">
+              <span>{new Date(note.created_at).toLocaleString()}</span>
+              <button
+                onClick={() => onOpenVoyage(note.voyage.id)}
+                className="flex items-center hover:text-blue-600 transition-colors"
+              >
+                <Anchor className="w-3 h-3 mr-1" />
+                Voyage{note.voyage.destination ? ` to ${note.voyage.destination.destination_name}` : ''}
+              </button>
+              {note.destination && (
+                <button
+                  onClick={() => onOpenDestination(note.destination!.id)}
+                  className="flex items-center font-medium hover:underline"
+                  style={{ color: note.destination.color_theme }}
+                >
+                  <MapPin className="w-3 h-3 mr-1" />
+                  {note.promoted_at ? 'Became' : 'Filed under'} {note.destination.destination_name}
+                </button>
+              )}
+            </div>
+
+            {/* Tags */}
+            <div className="flex flex-wrap items-center gap-2 mt-3">
+              {(note.tags || []).map(tag => (
+                <span key={tag} className="flex items-center px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full text-xs">
+                  #{tag}
+                  <button
+                    onClick={() => updateTags(note.id, (note.tags || []).filter(t => t !== tag))}
+                    className="ml-1 hover:text-red-500"
+                    title="Remove tag"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              <input
+                value={tagDrafts[note.id] || ''}
+                onChange={(e) => setTagDrafts(drafts => ({ ...drafts, [note.id]: e.target.value }))}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddTag(note)}
+                onBlur={() => handleAddTag(note)}
+                placeholder="+ tag"
+                className="w-20 px-2 py-0.5 text-xs border border-dashed border-gray-300 rounded-full focus:outline-none focus:border-purple-400"
+              />
+            </div>
+
+            {/* Filing */}
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              <select
+                value={note.destination_id || ''}
+                onChange={(e) => attachToDestination(
+                  note.id,
+                  destinations.find(d => d.id === e.target.value) || null
+                )}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Not filed</option>
+                {destinations.map(destination => (
+                  <option key={destination.id} value={destination.id}>
+                    {destination.destination_name}
+                  </option>
+                ))}
+              </select>
+              {!note.destination_id && (
+                <Button
+                  onClick={() => handlePromote(note)}
+                  variant="outline"
+                  size="sm"
+                  icon={Sparkles}
+                  loading={promotingId === note.id}
+                  disabled={promotingId !== null}
+                >
+                  Make it a destination
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-indigo-900 p-4 overflow-y-auto">
+      <div className="max-w-3xl mx-auto py-8">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -30 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between mb-8"
+        >
+          <div>
+            <h1 className="text-4xl font-bold text-white mb-2 flex items-center">
+              <Inbox className="w-10 h-10 mr-3" />
+              Explorer's Notes
+            </h1>
+            <p className="text-xl text-purple-200">Ideas you caught while wandering, ready to come back</p>
+          </div>
+          <Button
+            onClick={onBack}
+            variant="outline"
+            icon={ArrowLeft}
+            className="text-white border-white hover:bg-white/10"
+          >
+            Back to Sailing
+          </Button>
+        </motion.div>
+
+        {/* Search and filters */}
+        <Card className="p-4 mb-6">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search your notes..."
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            {STATUS_TABS.map(({ status, label }) => (
+              <button
+                key={status}
+                onClick={() => setFilters({ status })}
+                className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                  (filters.status || 'all') === status
+                    ? 'bg-purple-600 text-white'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+
+            {(allTags.length > 0 || filters.tag) && <Tag className="w-4 h-4 text-gray-400 ml-2" />}
+            {filters.tag && !allTags.includes(filters.tag) && (
+              <button
+                onClick={() => setFilters({ tag: undefined })}
+                className="px-2 py-0.5 rounded-full text-xs bg-purple-600 text-white"
+              >
+                #{filters.tag}
+              </button>
+            )}
+            {allTags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setFilters({ tag: filters.tag === tag ? undefined : tag })}
+                className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                  filters.tag === tag ? 'bg-purple-600 text-white' : 'bg-purple-100 text-purple-700 hover:bg-purple-200'
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        </Card>
+
+        {error && (
+          <Card className="p-4 mb-6 bg-red-50 border-red-200">
+            <p className="text-sm text-red-700">{error}</p>
+          </Card>
+        )}
+
+        {isLoading && notes.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 text-white animate-spin" />
+          </div>
+        ) : notes.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-gray-600">
+              {query || filters.tag
+                ? 'No notes match your search.'
+                : filters.status === 'inbox'
+                  ? 'Your inbox is empty. Notes you capture while exploring land here.'
+                  : 'No notes yet. Capture inspiration in exploration mode and it will show up here.'}
+            </p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            <AnimatePresence>
+              {notes.map(renderNote)}
+            </AnimatePresence>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Loader2 } from 'lucide-react';
+import { VoiceNoteService } from '../../services/VoiceNoteService';
+import type { ExplorationNote } from '../../types';
+
+interface VoiceNotePlayerProps {
+  note: ExplorationNote;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const VoiceNotePlayer: React.FC<VoiceNotePlayerProps> = ({ note }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+
+  // Object URLs for browser-kept audio hold the blob in memory until revoked
+  useEffect(() => () => {
+    if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+  }, [url]);
+
+  const confidence = note.transcript_confidence != null && (
+    <span className="text-xs text-gray-500" title="Speech recognition confidence for the transcript">
+      {Math.round(note.transcript_confidence * 100)}% transcript confidence
+    </span>
+  );
+
+  if (!note.audio_path) {
+    return (
+      <div className="flex flex-wrap items-center gap-3 mt-2">
+        {note.audio_expires_at && <span className="text-xs text-gray-400">Recording deleted after retention period</span>}
+        {confidence}
+      </div>
+    );
+  }
+
+  // Signed URLs are only fetched when the user asks to listen
+  const handleLoad = async () => {
+    setIsLoading(true);
+    const playbackUrl = await VoiceNoteService.getPlaybackUrl(note);
+    setIsLoading(false);
+
+    if (playbackUrl) {
+      setUrl(playbackUrl);
+    } else {
+      setIsUnavailable(true);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mt-2">
+      {url ? (
+        <audio src={url} controls autoPlay className="h-8 max-w-full" />
+      ) : isUnavailable ? (
+        <span className="text-xs text-gray-400">Recording unavailable on this device</span>
+      ) : (
+        <button
+          onClick={handleLoad}
+          disabled={isLoading}
+          className="flex items-center px-3 py-1 bg-purple-50 text-purple-700 rounded-full text-xs hover:bg-purple-100 transition-colors"
+        >
+          {isLoading ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Play className="w-3 h-3 mr-1" />}
+          Play recording{note.audio_duration_ms ? ` (${formatDuration(note.audio_duration_ms)})` : ''}
+        </button>
+      )}
+      {confidence}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { DistractionService } from '../../services/DistractionService';
+import type { DistractionEvent, DistractionResolution } from '../../types';
+
+interface DistractionTimelineProps {
+  events: DistractionEvent[];
+  voyageStart: Date;
+  voyageEnd: Date;
+}
+
+const RESOLUTION_STYLES: Record<DistractionResolution | 'open', { color: string; label: string }> = {
+  return_to_course: { color: 'bg-green-500', label: 'Returned to course' },
+  exploring: { color: 'bg-purple-500', label: 'Explored' },
+  timed_out: { color: 'bg-orange-400', label: 'No response' },
+  voyage_ended: { color: 'bg-gray-400', label: 'Voyage ended' },
+  voyage_paused: { color: 'bg-yellow-400', label: 'Voyage paused' },
+  open: { color: 'bg-red-400', label: 'Never closed' },
+};
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const DistractionTimeline: React.FC<DistractionTimelineProps> = ({
+  events,
+  voyageStart,
+  voyageEnd
+}) => {
+  const totalMs = Math.max(1, voyageEnd.getTime() - voyageStart.getTime());
+  const intervals = DistractionService.toIntervals(events, voyageStart, voyageEnd);
+  const usedStyles = new Set(intervals.map(interval => (interval.isOpen ? 'open' : interval.resolution || 'open')));
+
+  return (
+    <div>
+      <div className="relative h-8 bg-blue-100 rounded-lg overflow-hidden">
+        {intervals.map((interval, index) => {
+          const style = RESOLUTION_STYLES[interval.isOpen ? 'open' : interval.resolution || 'open'];
+          const left = ((interval.start.getTime() - voyageStart.getTime()) / totalMs) * 100;
+          const width = ((interval.end.getTime() - interval.start.getTime()) / totalMs) * 100;
+          const seconds = Math.round((interval.end.getTime() - interval.start.getTime()) / 1000);
+
+          return (
+            <motion.div
+              key={interval.id}
+              initial={{ opacity: 0, scaleY: 0 }}
+              animate={{ opacity: 1, scaleY: 1 }}
+              transition={{ delay: index * 0.05 }}
+              className={`absolute top-0 bottom-0 ${style.color}`}
+              // Keep very short distractions visible
+              style={{ left: `${left}%`, width: `max(${width}%, 3px)` }}
+              title={`${interval.type.replace(/_/g, ' ')} · ${formatClock(interval.start)} · ${seconds}s · ${style.label}`}
+            />
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{formatClock(voyageStart)}</span>
+        <span>{formatClock(voyageEnd)}</span>
+      </div>
+
+      {intervals.length > 0 && (
+        <div className="flex flex-wrap gap-4 mt-3 text-xs text-gray-600">
+          {Array.from(usedStyles).map(key => (
+            <span key={key} className="flex items-center">
+              <span className={`w-3 h-3 rounded-sm mr-1 ${RESOLUTION_STYLES[key].color}`} />
+              {RESOLUTION_STYLES[key].label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ScrollText } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { MIN_JUSTIFICATION_LENGTH } from '../../config/contract';
+
+interface EarlyEndModalProps {
+  isOpen: boolean;
+  remainingMinutes: number;
+  onConfirm: (justification: string) => void;
+  onCancel: () => void;
+}
+
+export const EarlyEndModal: React.FC<EarlyEndModalProps> = ({
+  isOpen,
+  remainingMinutes,
+  onConfirm,
+  onCancel
+}) => {
+  const [justification, setJustification] = useState('');
+  const trimmed = justification.trim();
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+        >
+          <motion.div
+            initial={{ scale: 0.9, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.9, y: 20 }}
+            className="bg-white rounded-2xl shadow-2xl p-6 max-w-md w-full"
+          >
+            <div className="flex items-center space-x-3 mb-4">
+              <ScrollText className="w-6 h-6 text-blue-600" />
+              <h3 className="text-xl font-semibold text-gray-800">Break the contract?</h3>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              This is a strict voyage with {remainingMinutes} minute{remainingMinutes === 1 ? '' : 's'} left.
+              Write down why you are ending early - it is kept with the voyage.
+            </p>
+            <textarea
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              rows={4}
+              autoFocus
+              placeholder="I am ending early because..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {trimmed.length < MIN_JUSTIFICATION_LENGTH
+                ? `At least ${MIN_JUSTIFICATION_LENGTH - trimmed.length} more characters`
+                : 'Reason recorded when you end the voyage'}
+            </p>
+            <div className="flex space-x-3 mt-4">
+              <Button variant="outline" className="flex-1" onClick={onCancel}>
+                Keep sailing
+              </Button>
+              <Button
+                className="flex-1"
+                disabled={trimmed.length < MIN_JUSTIFICATION_LENGTH}
+                onClick={() => onConfirm(trimmed)}
+              >
+                End voyage
+              </Button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -1,20 +1,28 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Compass, Mic, FileText, ArrowLeft, Save, X } from 'lucide-react';
+import { Compass, Mic, FileText, ArrowLeft, Save, X, Timer } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
 import { supabase } from '../../lib/supabase';
+import { SyncQueueService } from '../../services/SyncQueueService';
+import { VoiceNoteService, type VoiceNoteRecording } from '../../services/VoiceNoteService';
 import { useVoyageStore } from '../../stores/voyageStore';
+import { useUserStore } from '../../stores/userStore';
 import { useNotificationStore } from '../../stores/notificationStore';
+import { EXPLORATION_SETTINGS } from '../../config/exploration';
 
 interface ExplorationModeProps {
   isActive: boolean;
+  remainingMs: number; // Exploring time left in the voyage's budget
+  budgetMs: number;
   onReturnToCourse: () => void;
   onCaptureInspiration: (content: string, type: 'text' | 'voice') => void;
 }
 
 export const ExplorationMode: React.FC<ExplorationModeProps> = ({
   isActive,
+  remainingMs,
+  budgetMs,
   onReturnToCourse,
   onCaptureInspiration
 }) => {
@@ -25,30 +33,86 @@ export const ExplorationMode: React.FC<ExplorationModeProps> = ({
   const [isSaving, setIsSaving] = useState(false);
 
   const { currentVoyage } = useVoyageStore();
+  const { user } = useUserStore();
   const { showError } = useNotificationStore();
 
+  const saveVoiceNote = useCallback(async (recording: VoiceNoteRecording) => {
+    const content = recording.transcript || 'Voice note recorded during exploration';
+
+    if (currentVoyage && user) {
+      // Audio is deleted when the transcript retention period ends
+      const audioPath = await VoiceNoteService.saveAudio(user.id, recording);
+
+      const noteRow = {
+        voyage_id: currentVoyage.id,
+        content,
+        type: 'voice',
+        transcript_confidence: recording.confidence,
+        audio_path: audioPath,
+        audio_mime_type: audioPath ? recording.mimeType : null,
+        audio_duration_ms: audioPath ? recording.durationMs : null,
+        created_at: new Date().toISOString()
+      };
+
+      if (currentVoyage.id.startsWith('local-')) {
+        // Local voyage - queue the note until the voyage is synced
+        SyncQueueService.enqueueInsert('exploration_notes', noteRow);
+      } else {
+        const { error } = await supabase
+          .from('exploration_notes')
+          .insert(noteRow);
+
+        if (error) {
+          console.warn('Failed to save voice note to database, queueing for sync:', error);
+          SyncQueueService.enqueueInsert('exploration_notes', noteRow);
+        }
+      }
+    }
+
+    onCaptureInspiration(content, 'voice');
+  }, [currentVoyage, user, onCaptureInspiration]);
+
+  // Don't keep the microphone open once exploring ends, but keep what was said
+  useEffect(() => {
+    if (isActive || !VoiceNoteService.isRecording()) return;
+
+    setIsRecording(false);
+    VoiceNoteService.stopRecording()
+      .then(recording => recording && saveVoiceNote(recording))
+      .catch(error => {
+        console.error('Error saving voice note:', error);
+        showError('Failed to save voice note.', 'Save Error');
+      });
+  }, [isActive, saveVoiceNote, showError]);
+
   const handleCaptureInspiration = async () => {
     if (captureType === 'text' && textNote.trim()) {
       setIsSaving(true);
 
       try {
         // Save to database if we have a current voyage
-        if (currentVoyage && !currentVoyage.id.startsWith('local-')) {
-          const { error } = await supabase
-            .from('exploration_notes')
-            .insert({
-              voyage_id: currentVoyage.id,
-              content: textNote.trim(),
-              type: 'text'
-            });
+        if (currentVoyage) {
+          const noteRow = {
+            voyage_id: currentVoyage.id,
+            content: textNote.trim(),
+            type: 'text',
+            created_at: new Date().toISOString()
+          };
 
-          if (error) {
-            console.warn('Failed to save note to database:', error);
-            // Remove verbose warning - local save still works
+          if (currentVoyage.id.startsWith('local-')) {
+            // Local voyage - queue the note until the voyage is synced
+            SyncQueueService.enqueueInsert('exploration_notes', noteRow);
+          } else {
+            const { error } = await supabase
+              .from('exploration_notes')
+              .insert(noteRow);
+
+            if (error) {
+              console.warn('Failed to save note to database, queueing for sync:', error);
+              SyncQueueService.enqueueInsert('exploration_notes', noteRow);
+            }
           }
           // Remove verbose success notifications - inspiration capture is self-evident
-        } else {
-          // Local voyage or no database connection - no notification needed
         }
 
         // Also call the parent callback for local handling
@@ -67,54 +131,46 @@ export const ExplorationMode: React.FC<ExplorationModeProps> = ({
     }
   };
 
+  const handleClosePanel = () => {
+    // Closing mid-recording discards the recording
+    if (isRecording) {
+      VoiceNoteService.stopRecording();
+      setIsRecording(false);
+    }
+    setShowCapturePanel(false);
+  };
+
   const handleVoiceCapture = async () => {
     if (!isRecording) {
-      setIsRecording(true);
-      setIsSaving(true);
-
-      // In a real implementation, this would start voice recording
-      setTimeout(() => {
-        setIsRecording(false);
-
-        // Save voice note (for now, just a placeholder)
-        const saveVoiceNote = async () => {
-          try {
-            if (currentVoyage && !currentVoyage.id.startsWith('local-')) {
-              const { error } = await supabase
-                .from('exploration_notes')
-                .insert({
-                  voyage_id: currentVoyage.id,
-                  content: 'Voice note recorded during exploration',
-                  type: 'voice'
-                });
-
-              if (error) {
-                console.warn('Failed to save voice note to database:', error);
-                // Remove verbose warning - local save still works
-              }
-              // Remove verbose success notifications - voice capture is self-evident
-            } else {
-              // Local voyage - no notification needed
-            }
+      if (await VoiceNoteService.startRecording()) {
+        setIsRecording(true);
+      } else {
+        showError('Could not access the microphone. Check your browser permissions.', 'Voice Note');
+      }
+      return;
+    }
 
-            onCaptureInspiration('Voice note captured', 'voice');
-          } catch (error) {
-            console.error('Error saving voice note:', error);
-            showError('Failed to save voice note.', 'Save Error');
-            onCaptureInspiration('Voice note captured', 'voice');
-          } finally {
-            setIsSaving(false);
-          }
-        };
+    setIsRecording(false);
+    setIsSaving(true);
 
-        saveVoiceNote();
-        setShowCapturePanel(false);
-      }, 3000);
+    try {
+      const recording = await VoiceNoteService.stopRecording();
+      if (recording) await saveVoiceNote(recording);
+    } catch (error) {
+      console.error('Error saving voice note:', error);
+      showError('Failed to save voice note.', 'Save Error');
+    } finally {
+      setIsSaving(false);
+      setShowCapturePanel(false);
     }
   };
 
   if (!isActive) return null;
 
+  const remainingSeconds = Math.ceil(remainingMs / 1000);
+  const countdown = `${Math.floor(remainingSeconds / 60)}:${String(remainingSeconds % 60).padStart(2, '0')}`;
+  const isNearlySpent = remainingMs <= EXPLORATION_SETTINGS.nudgeBeforeMs;
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -136,10 +192,14 @@ export const ExplorationMode: React.FC<ExplorationModeProps> = ({
               <div>
                 <h3 className="font-semibold text-purple-800">Exploration Mode Active</h3>
                 <p className="text-sm text-purple-600">
-                  Feel free to explore! Distraction detection is paused.
+                  Feel free to explore! Distraction detection is paused until you return or the budget runs out.
                 </p>
               </div>
             </div>
+            <div className={`flex items-center space-x-2 font-mono text-lg ${isNearlySpent ? 'text-red-600' : 'text-purple-700'}`}>
+              <Timer className="w-5 h-5" />
+              <span>{countdown}</span>
+            </div>
             <Button
               onClick={onReturnToCourse}
               variant="outline"
@@ -150,6 +210,12 @@ export const ExplorationMode: React.FC<ExplorationModeProps> = ({
               Return to Course
             </Button>
           </div>
+          <div className="mt-3 h-1.5 bg-purple-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all ${isNearlySpent ? 'bg-red-500' : 'bg-purple-600'}`}
+              style={{ width: `${budgetMs > 0 ? (remainingMs / budgetMs) * 100 : 0}%` }}
+            />
+          </div>
         </Card>
       </div>
 
@@ -178,7 +244,7 @@ export const ExplorationMode: React.FC<ExplorationModeProps> = ({
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-lg font-semibold">Capture Your Discovery</h3>
                 <Button
-                  onClick={() => setShowCapturePanel(false)}
+                  onClick={handleClosePanel}
                   variant="ghost"
                   size="sm"
                   icon={X}
@@ -236,14 +302,16 @@ export const ExplorationMode: React.FC<ExplorationModeProps> = ({
                       onClick={handleVoiceCapture}
                       className={`w-20 h-20 rounded-full ${isRecording ? 'bg-red-500 hover:bg-red-600' : 'bg-purple-600 hover:bg-purple-700'
                         }`}
-                      disabled={isRecording || isSaving}
-                      loading={isSaving && !isRecording}
+                      disabled={isSaving}
+                      loading={isSaving}
                     >
                       <Mic className="w-8 h-8" />
                     </Button>
                   </motion.div>
                   <p className="text-sm text-gray-600">
-                    {isRecording ? 'Recording... (3s demo)' : 'Tap to start recording'}
+                    {isRecording
+                      ? 'Recording... tap again to save'
+                      : isSaving ? 'Saving voice note...' : 'Tap to start recording'}
                   </p>
                 </div>
               )}
@@ -1,16 +1,18 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Anchor, Volume2, VolumeX, Settings, ArrowLeft, Compass } from 'lucide-react';
+import { Anchor, Volume2, VolumeX, Settings, ArrowLeft, Compass, Pause, Play } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
 import { CameraView } from './CameraView';
 import { EnhancedDistractionAlert } from './EnhancedDistractionAlert';
 import { ExplorationMode } from './ExplorationMode';
 import { SeagullCompanion } from './SeagullCompanion';
+import { ScreenSharingLostBanner } from './ScreenSharingLostBanner';
+import { EarlyEndModal } from './EarlyEndModal';
 import { WeatherSystem } from './WeatherSystem';
 import { VoiceInteractionPanel } from './VoiceInteractionPanel';
 import { VoiceRecordingControls } from './VoiceRecordingControls';
-import { useVoyageStore } from '../../stores/voyageStore';
+import { useVoyageStore, VOYAGE_HEARTBEAT_INTERVAL_MS } from '../../stores/voyageStore';
 import { useAdvancedDistraction } from '../../hooks/useAdvancedDistraction';
 import { useAudio } from '../../hooks/useAudio';
 import { useVoiceInteraction } from '../../hooks/useVoiceInteraction';
@@ -22,6 +24,9 @@ import {
   createPrecisionInterval
 } from '../../utils/precisionTimer';
 import { GeminiService } from '../../services/GeminiService';
+import { getContractPenalty, getContractWeather } from '../../config/contract';
+import { EXPLORATION_SETTINGS, getExplorationBudgetMs } from '../../config/exploration';
+import type { ExplorationEndReason } from '../../types';
 import type { Destination } from '../../types';
 
 interface SailingModeProps {
@@ -40,6 +45,8 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
   const [cameraPermissionGranted, setCameraPermissionGranted] = useState(false);
   const [showVoicePanel, setShowVoicePanel] = useState(false);
+  const [showEarlyEndPrompt, setShowEarlyEndPrompt] = useState(false);
+  const [explorationNudge, setExplorationNudge] = useState<string | null>(null);
 
   // Ref to track previous distraction state to prevent repetitive logs
   const prevDistractionStateRef = useRef({ isDistracted: false, isVoiceEnabled: false });
@@ -48,12 +55,25 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
   const currentVoyage = useVoyageStore(state => state.currentVoyage);
   const distractionCount = useVoyageStore(state => state.distractionCount);
   const endVoyage = useVoyageStore(state => state.endVoyage);
+  const isPaused = useVoyageStore(state => state.isPaused);
+  const pauseVoyage = useVoyageStore(state => state.pauseVoyage);
+  const resumeVoyage = useVoyageStore(state => state.resumeVoyage);
+  const sendHeartbeat = useVoyageStore(state => state.sendHeartbeat);
+  const startExploring = useVoyageStore(state => state.startExploring);
+  const endExploring = useVoyageStore(state => state.endExploring);
+  const getExploringMs = useVoyageStore(state => state.getExploringMs);
 
-  const { showSuccess } = useNotificationStore();
+  const { showSuccess, showWarning } = useNotificationStore();
+
+  // Strict voyages carry their contract; regular voyages sail under fair skies
+  const contract = currentVoyage?.contract?.strict ? currentVoyage.contract : null;
+  const fairWeather = getContractWeather(contract, distractionCount);
+  const explorationBudgetMs = getExplorationBudgetMs(currentVoyage);
 
   // High-precision timer
   const timerRef = useRef<ReturnType<typeof createPrecisionInterval>>();
   const startTimeRef = useRef<number>(0);
+  const elapsedBeforePauseRef = useRef<number | null>(null); // Sailing time accumulated before the last pause
   const boatPosition = useRef({ x: 50, y: 50 });
   const trail = useRef<Array<{ x: number; y: number; timestamp: number }>>([]);
   const seagullTimerRef = useRef<NodeJS.Timeout>();
@@ -65,22 +85,45 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
 
     if (choice === 'exploring') {
       setIsExploring(true);
-      if (weatherMood !== 'cloudy') {
-        setWeatherMood('cloudy');
-        setAudioWeatherMood('cloudy');
+      startExploring();
+      // Exploring clouds over fair weather but does not lift a contract's storm
+      const exploringWeather = fairWeather === 'sunny' ? 'cloudy' : fairWeather;
+      if (weatherMood !== exploringWeather) {
+        setWeatherMood(exploringWeather);
+        setAudioWeatherMood(exploringWeather);
       }
     } else {
       setIsExploring(false);
+      endExploring('returned');
     }
-  }, [weatherMood]);
+  }, [weatherMood, fairWeather, startExploring, endExploring]);
 
-  const handleReturnToCourse = useCallback(() => {
+  const returnFromExploring = useCallback((reason: ExplorationEndReason) => {
     setIsExploring(false);
-    if (weatherMood !== 'sunny') {
-      setWeatherMood('sunny');
-      setAudioWeatherMood('sunny');
+    setExplorationNudge(null);
+    endExploring(reason);
+    if (weatherMood !== fairWeather) {
+      setWeatherMood(fairWeather);
+      setAudioWeatherMood(fairWeather);
     }
-  }, [weatherMood]);
+  }, [weatherMood, fairWeather, endExploring]);
+
+  const handleReturnToCourse = useCallback(() => returnFromExploring('returned'), [returnFromExploring]);
+
+  // Exploring time is budgeted for the whole voyage
+  const isExploringAllowed = useCallback(() => {
+    if (getExploringMs() < explorationBudgetMs) return true;
+
+    showWarning(
+      'This voyage\'s exploring time is used up. Back to your course!',
+      'Exploration Budget Spent'
+    );
+    return false;
+  }, [explorationBudgetMs, getExploringMs, showWarning]);
+
+  const handleVoiceDistractionChoice = useCallback((choice: 'return_to_course' | 'exploring') => {
+    handleDistractionChoice(choice === 'exploring' && !isExploringAllowed() ? 'return_to_course' : choice);
+  }, [handleDistractionChoice, isExploringAllowed]);
 
   const handleCaptureInspiration = useCallback((content: string, type: 'text' | 'voice') => {
     const newNote = {
@@ -104,6 +147,7 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
     isDistracted,
     distractionType,
     isMonitoring,
+    screenSharing,
     handleDistractionResponse
   } = useAdvancedDistraction({
     isExploring,
@@ -133,7 +177,7 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
   } = useVoiceInteraction({
     isVoyageActive: !!currentVoyage,
     isExploring,
-    onDistractionResponse: handleDistractionChoice,
+    onDistractionResponse: handleVoiceDistractionChoice,
     onInspirationCaptured: handleCaptureInspiration
   });
 
@@ -167,12 +211,25 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
     };
   }, [startAmbientSound, stopAmbientSound]);
 
-  // High-precision timer effect
+  // High-precision timer effect (stopped while the voyage is paused)
   useEffect(() => {
-    if (currentVoyage?.id) {
+    if (currentVoyage?.id && elapsedBeforePauseRef.current === null) {
+      // A voyage restored after a reload has already been sailing for a while
+      const { totalPausedMs, pausedAt } = useVoyageStore.getState();
+      const openPauseMs = pausedAt ? Date.now() - pausedAt : 0;
+      elapsedBeforePauseRef.current = Math.max(
+        0,
+        Date.now() - new Date(currentVoyage.start_time).getTime() - totalPausedMs - openPauseMs
+      );
+      setElapsedTime(elapsedBeforePauseRef.current);
+    }
+
+    if (currentVoyage?.id && !isPaused) {
       startTimeRef.current = new Date(currentVoyage.start_time).getTime();
+      const elapsedBeforePause = elapsedBeforePauseRef.current ?? 0;
 
-      timerRef.current = createPrecisionInterval((elapsedMs) => {
+      timerRef.current = createPrecisionInterval((segmentMs) => {
+        const elapsedMs = elapsedBeforePause + segmentMs;
         setElapsedTime(elapsedMs);
 
         // Show milestone notifications at precise intervals
@@ -195,10 +252,22 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
 
     return () => {
       if (timerRef.current) {
+        elapsedBeforePauseRef.current = (elapsedBeforePauseRef.current ?? 0) + timerRef.current.getElapsedTime();
         timerRef.current.stop();
+        timerRef.current = undefined;
       }
     };
-  }, [currentVoyage?.id, currentVoyage?.start_time, showSuccess]);
+  }, [currentVoyage?.id, currentVoyage?.start_time, isPaused, showSuccess]);
+
+  // Heartbeat so an interrupted voyage can be ended at the last moment it was alive
+  useEffect(() => {
+    if (!currentVoyage?.id) return;
+
+    sendHeartbeat();
+    const heartbeatInterval = setInterval(sendHeartbeat, VOYAGE_HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(heartbeatInterval);
+  }, [currentVoyage?.id, sendHeartbeat]);
 
   // Enhanced distraction alert effect with voice integration
   useEffect(() => {
@@ -232,17 +301,41 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
       console.log('🚨 [SAILING] ✅ Clearing distraction alert');
       setShowDistractionAlert(false);
 
-      if (weatherMood !== 'sunny') {
-        setWeatherMood('sunny');
-        setAudioWeatherMood('sunny');
+      if (weatherMood !== fairWeather) {
+        setWeatherMood(fairWeather);
+        setAudioWeatherMood(fairWeather);
       }
     }
-  }, [isDistracted, isExploring, showDistractionAlert, distractionType, isVoiceEnabled, handleVoiceDistractionAlert, weatherMood, setAudioWeatherMood]);
+  }, [isDistracted, isExploring, showDistractionAlert, distractionType, isVoiceEnabled, handleVoiceDistractionAlert, weatherMood, fairWeather, setAudioWeatherMood]);
+
+  // Nudge near the end of the exploration budget and return to course when it runs out
+  // The budget clock stops while the voyage is paused
+  useEffect(() => {
+    if (!isExploring || isPaused) return;
+
+    const remainingMs = Math.max(0, explorationBudgetMs - getExploringMs());
+    const nudgeTimeout = remainingMs > EXPLORATION_SETTINGS.nudgeBeforeMs
+      ? setTimeout(() => {
+          const minutes = Math.ceil(EXPLORATION_SETTINGS.nudgeBeforeMs / 60000);
+          setExplorationNudge(`Only ${minutes} minute${minutes === 1 ? '' : 's'} of exploring left, captain. Note down what you found - we set sail again soon!`);
+          setShowSeagull(true);
+        }, remainingMs - EXPLORATION_SETTINGS.nudgeBeforeMs)
+      : undefined;
+    const returnTimeout = setTimeout(() => {
+      showWarning('Exploration budget spent - your boat is back on course.', 'Back on Course');
+      returnFromExploring('budget_exhausted');
+    }, remainingMs);
+
+    return () => {
+      clearTimeout(nudgeTimeout);
+      clearTimeout(returnTimeout);
+    };
+  }, [isExploring, isPaused, explorationBudgetMs, getExploringMs, returnFromExploring, showWarning]);
 
   // Boat animation effect
   useEffect(() => {
     const animateBoat = () => {
-      if (!isDistracted && !isExploring) {
+      if (!isDistracted && !isExploring && !isPaused) {
         // Move boat forward when focused
         boatPosition.current.x += 0.1;
         if (boatPosition.current.x > 90) {
@@ -266,9 +359,9 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
 
     const animationInterval = setInterval(animateBoat, 100);
     return () => clearInterval(animationInterval);
-  }, [isDistracted, isExploring]);
+  }, [isDistracted, isExploring, isPaused]);
 
-  const handleEndVoyage = useCallback(async () => {
+  const handleEndVoyage = useCallback(async (justification?: string) => {
     console.log('🎤 [SAILING] Ending voyage - stopping voice recording...');
 
     // Stop continuous voice recording if it's running
@@ -284,10 +377,34 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
       await announceVoyageCompletion(destination.destination_name, duration);
     }
 
-    await endVoyage();
+    await endVoyage(justification);
     onEndVoyage();
   }, [endVoyage, onEndVoyage, isVoiceEnabled, destination, elapsedTime, announceVoyageCompletion]);
 
+  const plannedDurationMs = (currentVoyage?.planned_duration ?? 0) * 60000;
+
+  // Ending a strict voyage before its planned time needs a written reason
+  const handleEndVoyageRequest = useCallback(() => {
+    if (contract && elapsedTime < plannedDurationMs) {
+      setShowEarlyEndPrompt(true);
+      return;
+    }
+    handleEndVoyage();
+  }, [contract, elapsedTime, plannedDurationMs, handleEndVoyage]);
+
+  const handleTogglePause = useCallback(async () => {
+    if (isPaused) {
+      await resumeVoyage();
+      // The pause closed the exploration interval; carry on exploring in a new one
+      if (isExploring) startExploring();
+      showSuccess('Back on course - monitoring resumed.', 'Voyage Resumed');
+    } else {
+      setShowDistractionAlert(false);
+      await pauseVoyage();
+      showSuccess('Your boat is anchored. Paused time will not count against your focus.', 'Voyage Paused');
+    }
+  }, [isPaused, isExploring, pauseVoyage, resumeVoyage, startExploring, showSuccess]);
+
   // Update handleDistractionChoice to use handleDistractionResponse
   const handleDistractionChoiceWithResponse = useCallback(async (choice: 'return_to_course' | 'exploring') => {
     console.log('🚨 [SAILING] Handling distraction choice with response:', choice);
@@ -295,9 +412,10 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
     // Clear the distraction alert immediately when user responds
     setShowDistractionAlert(false);
 
-    await handleDistractionResponse(choice);
-    await handleDistractionChoice(choice);
-  }, [handleDistractionResponse, handleDistractionChoice]);
+    const allowedChoice = choice === 'exploring' && !isExploringAllowed() ? 'return_to_course' : choice;
+    await handleDistractionResponse(allowedChoice);
+    await handleDistractionChoice(allowedChoice);
+  }, [handleDistractionResponse, handleDistractionChoice, isExploringAllowed]);
 
   // Handle camera stream changes
   const handleCameraStream = useCallback((stream: MediaStream | null) => {
@@ -421,6 +539,20 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
               <span className="text-white text-sm">🧭 Exploring</span>
             </div>
           )}
+          {contract && (
+            <div className={`${distractionCount > contract.distraction_budget ? 'bg-red-500/80' : 'bg-white/20'} backdrop-blur-sm rounded-lg px-4 py-2`}>
+              <span className="text-white text-sm">
+                📜 Contract: {Math.min(distractionCount, contract.distraction_budget)}/{contract.distraction_budget} distractions
+                {distractionCount > contract.distraction_budget &&
+                  ` · −${getContractPenalty(contract, distractionCount)} pts`}
+              </span>
+            </div>
+          )}
+          {isPaused && (
+            <div className="bg-yellow-500/80 backdrop-blur-sm rounded-lg px-4 py-2">
+              <span className="text-white text-sm">⚓ Paused</span>
+            </div>
+          )}
           {inspirationNotes.length > 0 && (
             <div className="bg-green-500/80 backdrop-blur-sm rounded-lg px-4 py-2">
               <span className="text-white text-sm">💡 {inspirationNotes.length} notes</span>
@@ -431,6 +563,13 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
               <span className="text-white text-sm">📷 AI Monitoring</span>
             </div>
           )}
+          {screenSharing.state === 'active' && (
+            <div className="bg-green-500/80 backdrop-blur-sm rounded-lg px-4 py-2">
+              <span className="text-white text-sm">
+                🖥️ {screenSharing.surfaces.length > 1 ? `${screenSharing.surfaces.length} screens` : 'Screen'} shared
+              </span>
+            </div>
+          )}
           {isVoiceEnabled && (
             <div className="bg-blue-500/80 backdrop-blur-sm rounded-lg px-4 py-2">
               <span className="text-white text-sm">🎤 Voice Assistant</span>
@@ -451,6 +590,14 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
         />
 
         <div className="flex items-center space-x-2">
+          <Button
+            onClick={handleTogglePause}
+            variant="ghost"
+            size="sm"
+            className={`text-white hover:bg-white/20 ${isPaused ? 'bg-white/20' : ''}`}
+          >
+            {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+          </Button>
           <Button
             onClick={toggleMute}
             variant="ghost"
@@ -478,6 +625,8 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
         </div>
       </div>
 
+      <ScreenSharingLostBanner status={screenSharing} />
+
       {/* Voice Interaction Panel */}
       <VoiceInteractionPanel
         isVisible={showVoicePanel}
@@ -535,8 +684,8 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
                     </div>
                     <div className="col-span-2">
                       <span className="font-medium text-gray-700">Mode:</span>
-                      <span className={`ml-2 ${isExploring ? 'text-purple-600' : 'text-blue-600'}`}>
-                        {isExploring ? 'Exploration' : 'Focus'}
+                      <span className={`ml-2 ${isPaused ? 'text-yellow-600' : isExploring ? 'text-purple-600' : 'text-blue-600'}`}>
+                        {isPaused ? 'Paused' : isExploring ? 'Exploration' : 'Focus'}
                       </span>
                     </div>
 
@@ -598,9 +747,18 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
                   </div>
                 )}
 
-                <div className="border-t pt-4">
+                <div className="border-t pt-4 space-y-2">
                   <Button
-                    onClick={handleEndVoyage}
+                    onClick={handleTogglePause}
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    icon={isPaused ? Play : Pause}
+                  >
+                    {isPaused ? 'Resume Voyage' : 'Pause Voyage'}
+                  </Button>
+                  <Button
+                    onClick={handleEndVoyageRequest}
                     variant="outline"
                     size="sm"
                     className="w-full"
@@ -626,9 +784,21 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
         isExploring={isExploring}
       />
 
+      <EarlyEndModal
+        isOpen={showEarlyEndPrompt}
+        remainingMinutes={Math.ceil((plannedDurationMs - elapsedTime) / 60000)}
+        onConfirm={(justification) => {
+          setShowEarlyEndPrompt(false);
+          handleEndVoyage(justification);
+        }}
+        onCancel={() => setShowEarlyEndPrompt(false)}
+      />
+
       {/* Exploration Mode */}
       <ExplorationMode
         isActive={isExploring}
+        remainingMs={Math.max(0, explorationBudgetMs - getExploringMs())}
+        budgetMs={explorationBudgetMs}
         onReturnToCourse={handleReturnToCourse}
         onCaptureInspiration={handleCaptureInspiration}
       />
@@ -638,7 +808,11 @@ export const SailingMode: React.FC<SailingModeProps> = ({ destination, onEndVoya
         isVisible={showSeagull}
         voyageTime={elapsedTime}
         distractionCount={distractionCount}
-        onDismiss={() => setShowSeagull(false)}
+        message={explorationNudge}
+        onDismiss={() => {
+          setShowSeagull(false);
+          setExplorationNudge(null);
+        }}
       />
 
       {/* Bottom Info */}
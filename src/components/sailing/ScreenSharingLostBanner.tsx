@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { MonitorOff } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { ScreenshotService, type ScreenSharingStatus } from '../../services/ScreenshotService';
+
+interface ScreenSharingLostBannerProps {
+  status: ScreenSharingStatus;
+}
+
+const LOST_REASONS: Record<NonNullable<ScreenSharingStatus['lost']>['reason'], string> = {
+  track_ended: 'stopped sharing',
+  blank_frames: 'is only showing a black picture',
+};
+
+export const ScreenSharingLostBanner: React.FC<ScreenSharingLostBannerProps> = ({ status }) => {
+  const [isResharing, setIsResharing] = useState(false);
+
+  if (status.state !== 'lost' || !status.lost) return null;
+
+  const handleReshare = async () => {
+    setIsResharing(true);
+    await ScreenshotService.addScreenSurface();
+    setIsResharing(false);
+  };
+
+  return (
+    <div className="absolute top-20 inset-x-0 flex justify-center z-30 pointer-events-none">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="pointer-events-auto bg-white/95 backdrop-blur-sm rounded-xl shadow-lg px-5 py-4 max-w-md"
+      >
+        <div className="flex items-start space-x-3">
+          <MonitorOff className="w-6 h-6 text-orange-500 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-semibold text-gray-800">Screen sharing lost</p>
+            <p className="text-sm text-gray-600 mt-1">
+              "{status.lost.surface}" {LOST_REASONS[status.lost.reason]}. Screen checks are paused until you share again.
+            </p>
+            <div className="flex space-x-2 mt-3">
+              <Button size="sm" onClick={handleReshare} loading={isResharing}>
+                Share again
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => ScreenshotService.dismissSharingLost()}>
+                {status.surfaces.length > 0 ? 'Keep the others' : 'Continue without'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
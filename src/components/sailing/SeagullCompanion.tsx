@@ -8,6 +8,7 @@ interface SeagullCompanionProps {
   isVisible: boolean;
   voyageTime: number;
   distractionCount: number;
+  message?: string | null; // Shown instead of a random message, above exploration mode
   onDismiss: () => void;
 }
 
@@ -15,6 +16,7 @@ export const SeagullCompanion: React.FC<SeagullCompanionProps> = ({
   isVisible,
   voyageTime,
   distractionCount,
+  message,
   onDismiss
 }) => {
   const [currentMessage, setCurrentMessage] = useState('');
@@ -49,7 +51,10 @@ export const SeagullCompanion: React.FC<SeagullCompanionProps> = ({
   };
 
   useEffect(() => {
-    if (isVisible) {
+    if (isVisible && message) {
+      setCurrentMessage(message);
+      setShowMessage(true);
+    } else if (isVisible) {
       let messageType: keyof typeof seagullMessages = 'welcome';
       
       if (voyageTime > 1800) { // 30 minutes
@@ -65,7 +70,7 @@ export const SeagullCompanion: React.FC<SeagullCompanionProps> = ({
       setCurrentMessage(randomMessage);
       setShowMessage(true);
     }
-  }, [isVisible, voyageTime, distractionCount]);
+  }, [isVisible, voyageTime, distractionCount, message]);
 
   const handleDismiss = () => {
     setShowMessage(false);
@@ -81,7 +86,7 @@ export const SeagullCompanion: React.FC<SeagullCompanionProps> = ({
           initial={{ opacity: 0, x: 100 }}
           animate={{ opacity: 1, x: 0 }}
           exit={{ opacity: 0, x: 100 }}
-          className="fixed bottom-4 right-4 z-30 max-w-sm"
+          className={`fixed bottom-4 right-4 ${message ? 'z-50' : 'z-30'} max-w-sm`}
         >
           <Card className="p-4 bg-gradient-to-br from-blue-50 to-cyan-50 border-blue-200 shadow-lg">
             <div className="flex items-start space-x-3">
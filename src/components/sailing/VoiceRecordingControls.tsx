@@ -14,6 +14,9 @@ import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
 import { VoiceService } from '../../services/VoiceService';
 import { VoiceTranscriptService } from '../../services/VoiceTranscriptService';
+import { useRetentionStore } from '../../stores/retentionStore';
+import { useUserStore } from '../../stores/userStore';
+import { RETENTION_OPTIONS, formatRetention } from '../../config/retention';
 import type { VoiceRecordingSettings } from '../../types';
 
 interface VoiceRecordingControlsProps {
@@ -30,13 +33,15 @@ export const VoiceRecordingControls: React.FC<VoiceRecordingControlsProps> = ({
     const [isRecording, setIsRecording] = useState(false);
     const [showSettings, setShowSettings] = useState(false);
     const [recordingStatus, setRecordingStatus] = useState<{ isRecording: boolean; transcriptStatus?: { segmentCounter?: number } } | null>(null);
+    const { user } = useUserStore();
+    const transcriptsDays = useRetentionStore(state => state.settings.transcripts_days);
+    const updateRetention = useRetentionStore(state => state.updateSettings);
     const [settings, setSettings] = useState<VoiceRecordingSettings>({
         enabled: false,
         continuous: true,
         saveTranscripts: true,
         autoAnalyze: true,
-        privacyMode: false,
-        retentionDays: 30
+        privacyMode: false
     });
 
     // Update recording status periodically
@@ -280,14 +285,17 @@ export const VoiceRecordingControls: React.FC<VoiceRecordingControlsProps> = ({
                                         </div>
                                     </div>
                                     <select
-                                        value={settings.retentionDays}
-                                        onChange={(e) => handleSettingsChange({ retentionDays: parseInt(e.target.value) })}
+                                        value={transcriptsDays ?? ''}
+                                        onChange={(e) => user && updateRetention(user.id, {
+                                            transcripts_days: e.target.value ? Number(e.target.value) : null
+                                        })}
                                         className="border border-gray-300 rounded px-3 py-1 text-sm"
                                     >
-                                        <option value={7}>7 days</option>
-                                        <option value={30}>30 days</option>
-                                        <option value={90}>90 days</option>
-                                        <option value={365}>1 year</option>
+                                        {RETENTION_OPTIONS.map(days => (
+                                            <option key={days ?? 'forever'} value={days ?? ''}>
+                                                {formatRetention(days)}
+                                            </option>
+                                        ))}
                                     </select>
                                 </div>
 
@@ -1,13 +1,20 @@
 import React from 'react';
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Trophy, Clock, AlertTriangle, MapPin, ArrowRight, Loader2, TrendingUp, Target, Mic } from 'lucide-react';
+import { Trophy, Clock, AlertTriangle, MapPin, ArrowRight, Loader2, TrendingUp, Target, Mic, Download, ScrollText } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
 import { VoiceAnalysis } from './VoiceAnalysis';
+import { DistractionTimeline } from './DistractionTimeline';
+import { DistractionService } from '../../services/DistractionService';
+import { DetectionTraceService } from '../../services/DetectionTraceService';
+import { VoyageService } from '../../services/VoyageService';
+import { ExplorationService } from '../../services/ExplorationService';
+import { getContractPenalty, getDistractionsOverBudget } from '../../config/contract';
 import { formatPreciseDuration } from '../../utils/precisionTimer';
+import { useVoyageStore } from '../../stores/voyageStore';
 import { supabase } from '../../lib/supabase';
-import type { Destination } from '../../types';
+import type { Destination, DistractionEvent, ExplorationInterval, Voyage } from '../../types';
 
 interface VoyageCompleteProps {
   voyageId: string;
@@ -18,9 +25,13 @@ interface VoyageAssessmentData {
   voyage: {
     voyage: {
       id: string;
+      start_time?: string;
+      end_time?: string;
       actual_duration: number;
+      actual_duration_ms?: number;
       distraction_count: number;
       planned_duration: number;
+      planned_duration_ms?: number;
       focus_quality_score: number;
       total_distraction_time: number;
       avg_distraction_duration: number;
@@ -67,6 +78,44 @@ export const VoyageComplete: React.FC<VoyageCompleteProps> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showVoiceAnalysis, setShowVoiceAnalysis] = useState(false);
+  const [timelineEvents, setTimelineEvents] = useState<DistractionEvent[]>([]);
+  const [explorationIntervals, setExplorationIntervals] = useState<ExplorationInterval[]>([]);
+  const [contractOutcome, setContractOutcome] = useState<Pick<Voyage, 'contract' | 'early_end_justification' | 'exploring_ms' | 'weather_mood'> | null>(null);
+  // Voyages not yet synced are only known to the store
+  const localVoyage = useVoyageStore(state =>
+    voyageId.startsWith('local-') ? state.voyageHistory.find(voyage => voyage.id === voyageId) ?? null : null
+  );
+
+  // Distraction intervals for the timeline
+  useEffect(() => {
+    if (!voyageId || voyageId.startsWith('local-')) return;
+
+    DistractionService.getVoyageDistractions(voyageId).then(setTimelineEvents);
+  }, [voyageId]);
+
+  // Exploration stretches, counted apart from focused and distracted time
+  useEffect(() => {
+    if (!voyageId || voyageId.startsWith('local-')) return;
+
+    ExplorationService.getVoyageIntervals(voyageId).then(setExplorationIntervals);
+  }, [voyageId]);
+
+  // Strict contract terms, for the penalty on the focus score
+  useEffect(() => {
+    if (!voyageId) return;
+
+    if (voyageId.startsWith('local-')) {
+      setContractOutcome(localVoyage);
+      return;
+    }
+
+    VoyageService.getContractOutcome(voyageId).then(setContractOutcome);
+  }, [voyageId, localVoyage]);
+
+  const handleExportTrace = async () => {
+    const trace = await DetectionTraceService.exportVoyageTrace(voyageId);
+    if (trace) DetectionTraceService.downloadTrace(trace);
+  };
 
   useEffect(() => {
     const fetchAssessmentData = async (retryCount = 0) => {
@@ -237,6 +286,9 @@ export const VoyageComplete: React.FC<VoyageCompleteProps> = ({
   const voyage = voyageData.voyage;
   const destination = voyageData.destination;
   const hasExplorationNotes = exploration_notes && exploration_notes.length > 0;
+  const contract = contractOutcome?.contract?.strict ? contractOutcome.contract : null;
+  const contractPenalty = getContractPenalty(contract, voyage.distraction_count || 0);
+  const focusScore = Math.max(0, (voyage.focus_quality_score || 0) - contractPenalty);
 
   const formatPreciseDurationFromMs = (milliseconds: number) => {
     // Use high-precision formatting directly from milliseconds
@@ -278,7 +330,6 @@ export const VoyageComplete: React.FC<VoyageCompleteProps> = ({
     return (voyage.planned_duration || 0) * 60 * 1000;
   };
   const getPerformanceMessage = () => {
-    const focusScore = voyage.focus_quality_score || 0;
     const distractionCount = voyage.distraction_count || 0;
 
     if (focusScore >= 95) {
@@ -297,14 +348,26 @@ export const VoyageComplete: React.FC<VoyageCompleteProps> = ({
   };
 
   const getPerformanceColor = () => {
-    const focusScore = voyage.focus_quality_score || 0;
-
     if (focusScore >= 85) return 'text-green-600';
     if (focusScore >= 75) return 'text-blue-600';
     if (focusScore >= 60) return 'text-yellow-600';
     return 'text-orange-600';
   };
 
+  // Split sailing time into focused, distracted and exploring
+  const sailingMs = getActualDuration();
+  const exploringMs = explorationIntervals.length > 0
+    ? ExplorationService.totalDurationMs(explorationIntervals, voyage.end_time ? new Date(voyage.end_time) : new Date())
+    : contractOutcome?.exploring_ms || 0;
+  const distractedMs = (distractions.summary.total_time || 0) * 1000;
+  const focusedMs = Math.max(0, sailingMs - distractedMs - exploringMs);
+  const timeSplit = [
+    { label: 'Focused', ms: focusedMs, color: 'bg-green-500' },
+    { label: 'Distracted', ms: distractedMs, color: 'bg-orange-500' },
+    { label: 'Exploring', ms: exploringMs, color: 'bg-purple-500' },
+  ];
+  const splitTotalMs = focusedMs + distractedMs + exploringMs;
+
   const formatSeconds = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -369,9 +432,12 @@ export const VoyageComplete: React.FC<VoyageCompleteProps> = ({
               <div className="text-center">
                 <TrendingUp className="w-8 h-8 text-green-500 mx-auto mb-2" />
                 <p className="text-2xl font-bold text-gray-800">
-                  {voyage.focus_quality_score || 0}%
+                  {focusScore}%
                 </p>
                 <p className="text-sm text-gray-600">Focus Quality</p>
+                {contractPenalty > 0 && (
+                  <p className="text-xs text-red-600">−{contractPenalty} contract penalty</p>
+                )}
               </div>
 
               <div className="text-center">
@@ -384,6 +450,74 @@ export const VoyageComplete: React.FC<VoyageCompleteProps> = ({
             </div>
           </Card>
 
+          {/* Time Split */}
+          {splitTotalMs > 0 && (
+            <Card className="p-6">
+              <h3 className="text-xl font-semibold mb-4">Time at Sea</h3>
+              <div className="flex h-3 rounded-full overflow-hidden bg-gray-100">
+                {timeSplit.map(({ label, ms, color }) => ms > 0 && (
+                  <div key={label} className={color} style={{ width: `${(ms / splitTotalMs) * 100}%` }} />
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-4 mt-4 text-center">
+                {timeSplit.map(({ label, ms, color }) => (
+                  <div key={label}>
+                    <div className="flex items-center justify-center space-x-2">
+                      <span className={`w-2 h-2 rounded-full ${color}`} />
+                      <span className="text-sm text-gray-600">{label}</span>
+                    </div>
+                    <p className="text-lg font-bold text-gray-800">{formatPreciseDuration(ms)}</p>
+                  </div>
+                ))}
+              </div>
+              {explorationIntervals.length > 0 && (
+                <p className="text-xs text-gray-500 mt-3">
+                  {explorationIntervals.length} exploration{explorationIntervals.length === 1 ? '' : 's'}
+                  {explorationIntervals.some(interval => interval.end_reason === 'budget_exhausted') &&
+                    ' - the exploration budget ran out'}
+                </p>
+              )}
+            </Card>
+          )}
+
+          {/* Strict Contract */}
+          {contract && contractOutcome && (
+            <Card className="p-6">
+              <div className="flex items-center space-x-2 mb-4">
+                <ScrollText className="w-5 h-5 text-blue-600" />
+                <h3 className="text-xl font-semibold">Voyage Contract</h3>
+              </div>
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-lg font-bold text-gray-800">
+                    {voyage.distraction_count}/{contract.distraction_budget}
+                  </p>
+                  <p className="text-xs text-gray-600">Distraction budget</p>
+                </div>
+                <div>
+                  <p className="text-lg font-bold text-gray-800">
+                    {Math.round((contractOutcome.exploring_ms || 0) / 60000)}/{contract.exploring_cap_minutes} min
+                  </p>
+                  <p className="text-xs text-gray-600">Exploring used</p>
+                </div>
+                <div>
+                  <p className={`text-lg font-bold ${contractPenalty > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {contractPenalty > 0 ? `−${contractPenalty}` : '0'} pts
+                  </p>
+                  <p className="text-xs text-gray-600">
+                    {getDistractionsOverBudget(contract, voyage.distraction_count || 0)} over budget × {contract.penalty_per_distraction}
+                  </p>
+                </div>
+              </div>
+              {contractOutcome.early_end_justification && (
+                <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs font-medium text-gray-500 mb-1">Ended early because</p>
+                  <p className="text-sm text-gray-700">{contractOutcome.early_end_justification}</p>
+                </div>
+              )}
+            </Card>
+          )}
+
           {/* Performance Message */}
           <Card className="p-6 text-center">
             <h3 className="text-xl font-semibold mb-3">Voyage Assessment</h3>
@@ -392,6 +526,31 @@ export const VoyageComplete: React.FC<VoyageCompleteProps> = ({
             </p>
           </Card>
 
+          {/* Distraction Timeline */}
+          {voyage.start_time && voyage.end_time && (
+            <Card className="p-6">
+              <h3 className="text-xl font-semibold mb-4">Voyage Timeline</h3>
+              <DistractionTimeline
+                events={timelineEvents}
+                voyageStart={new Date(voyage.start_time)}
+                voyageEnd={new Date(voyage.end_time)}
+              />
+              {timelineEvents.length === 0 && (
+                <p className="text-sm text-gray-500 mt-2">Clear sailing - no distractions on this voyage.</p>
+              )}
+              {/* Raw signals for tuning detection offline with `npm run replay` */}
+              {import.meta.env.DEV && !voyageId.startsWith('local-') && (
+                <button
+                  onClick={handleExportTrace}
+                  className="flex items-center mt-4 text-xs text-gray-500 hover:text-blue-600 transition-colors"
+                >
+                  <Download className="w-3 h-3 mr-1" />
+                  Export detection trace
+                </button>
+              )}
+            </Card>
+          )}
+
           {/* Detailed Statistics */}
           {distractions.summary.total_count > 0 && (
             <Card className="p-6">
@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Anchor, Play, Camera, Mic, Monitor, CheckCircle, AlertCircle, Plus, ArrowLeft, Map } from 'lucide-react';
+import { Anchor, Play, Camera, Mic, Monitor, CheckCircle, AlertCircle, Plus, ArrowLeft, Map, Settings, X, Inbox } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
 import { Input } from '../ui/Input';
@@ -8,29 +8,60 @@ import { useDestinationStore } from '../../stores/destinationStore';
 import { useDistraction } from '../../hooks/useDistraction';
 import { useUserStore } from '../../stores/userStore';
 import { ScreenshotService } from '../../services/ScreenshotService';
-import type { Destination } from '../../types';
+import {
+  SENSITIVITY_PROFILE_DESCRIPTIONS,
+  resolveSensitivityThresholds
+} from '../../config/sensitivity';
+import { DEFAULT_VOYAGE_CONTRACT, CONTRACT_LIMITS } from '../../config/contract';
+import type { Destination, SensitivityProfile, SensitivityThresholds, VoyageContract } from '../../types';
+
+const SENSITIVITY_PROFILES: SensitivityProfile[] = ['relaxed', 'standard', 'strict', 'custom'];
+
+const THRESHOLD_FIELDS: { key: keyof SensitivityThresholds; label: string }[] = [
+  { key: 'tabSwitchGraceMs', label: 'Away from tab' },
+  { key: 'idleThresholdMs', label: 'No input (idle)' },
+  { key: 'readingAllowanceMs', label: 'Extra while reading' },
+  { key: 'cameraAbsenceThresholdMs', label: 'Away from camera' },
+  { key: 'screenshotIntervalMs', label: 'Screen check every' },
+];
+
+const CONTRACT_FIELDS: { key: keyof typeof CONTRACT_LIMITS; label: string }[] = [
+  { key: 'distraction_budget', label: 'Distraction budget' },
+  { key: 'exploring_cap_minutes', label: 'Exploring cap (minutes)' },
+  { key: 'penalty_per_distraction', label: 'Penalty per extra distraction (points)' },
+];
 
 interface VoyagePreparationProps {
-  onStartVoyage: (destination: Destination, plannedDuration: number) => void;
+  onStartVoyage: (destination: Destination, plannedDuration: number, contract: VoyageContract | null) => void;
   onViewMap?: () => void;
   onManageDestinations?: () => void;
+  onOpenSettings?: () => void;
+  onOpenNotes?: () => void;
+  initialDestination?: Destination | null; // Skip straight to its voyage settings
 }
 
 export const VoyagePreparation: React.FC<VoyagePreparationProps> = ({ 
   onStartVoyage, 
   onViewMap,
-  onManageDestinations 
+  onManageDestinations,
+  onOpenSettings,
+  onOpenNotes,
+  initialDestination = null
 }) => {
-  const [selectedDestination, setSelectedDestination] = useState<Destination | null>(null);
+  const [selectedDestination, setSelectedDestination] = useState<Destination | null>(initialDestination);
   const [plannedDuration, setPlannedDuration] = useState(25); // Default 25 minutes
-  const [permissionsStep, setPermissionsStep] = useState(false);
+  const [contract, setContract] = useState<VoyageContract | null>(null); // null = regular voyage
+  const [permissionsStep, setPermissionsStep] = useState(initialDestination !== null);
   const [showAddDestination, setShowAddDestination] = useState(false);
   const [newTask, setNewTask] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [isRequestingPermissions, setIsRequestingPermissions] = useState(false);
   
-  const { destinations, createDestination, isLoading } = useDestinationStore();
+  const { destinations: allDestinations, createDestination, updateDestinationSensitivity, isLoading } = useDestinationStore();
+  // Archived destinations are put away; they stay on the Journey panel only
+  const destinations = allDestinations.filter(destination => destination.status !== 'archived');
   const { user } = useUserStore();
+  const [screenSharing, setScreenSharing] = useState(() => ScreenshotService.getSharingStatus());
   const { requestPermissions, permissionsGranted } = useDistraction();
 
   const handleDestinationSelect = (destination: Destination) => {
@@ -38,6 +69,8 @@ export const VoyagePreparation: React.FC<VoyagePreparationProps> = ({
     setPermissionsStep(true);
   };
 
+  useEffect(() => ScreenshotService.subscribeToSharing(setScreenSharing), []);
+
   const handleRequestPermissions = async () => {
     setIsRequestingPermissions(true);
     
@@ -60,11 +93,34 @@ export const VoyagePreparation: React.FC<VoyagePreparationProps> = ({
     }
   };
 
+  const handleSensitivityChange = async (
+    profile: SensitivityProfile,
+    thresholds?: Partial<SensitivityThresholds>
+  ) => {
+    if (!selectedDestination) return;
+
+    // Switching to custom starts from the values currently in effect
+    const customThresholds = profile === 'custom'
+      ? thresholds || resolveSensitivityThresholds(selectedDestination)
+      : undefined;
+
+    const updated = await updateDestinationSensitivity(selectedDestination.id, profile, customThresholds);
+    if (updated) {
+      setSelectedDestination(updated);
+    }
+  };
+
   const handleStartSailing = () => {
     if (!selectedDestination) return;
     
     // Call the parent's onStartVoyage function
-    onStartVoyage(selectedDestination, plannedDuration);
+    onStartVoyage(selectedDestination, plannedDuration, contract);
+  };
+
+  const handleContractChange = (key: keyof typeof CONTRACT_LIMITS, value: number) => {
+    if (!contract) return;
+    const { min, max } = CONTRACT_LIMITS[key];
+    setContract({ ...contract, [key]: Math.min(max, Math.max(min, Math.round(value) || 0)) });
   };
 
   const handleCreateDestination = async () => {
@@ -143,6 +199,92 @@ export const VoyagePreparation: React.FC<VoyagePreparationProps> = ({
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Detection Sensitivity
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                  {SENSITIVITY_PROFILES.map(profile => (
+                    <button
+                      key={profile}
+                      onClick={() => handleSensitivityChange(profile)}
+                      className={`px-3 py-2 rounded-lg border text-sm font-medium capitalize transition-colors ${
+                        (selectedDestination.sensitivity_profile || 'standard') === profile
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {profile}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  {SENSITIVITY_PROFILE_DESCRIPTIONS[selectedDestination.sensitivity_profile || 'standard']}
+                  {' '}- saved for {selectedDestination.destination_name}
+                </p>
+
+                {selectedDestination.sensitivity_profile === 'custom' && (
+                  <div className="grid grid-cols-2 gap-3 mt-3">
+                    {THRESHOLD_FIELDS.map(({ key, label }) => (
+                      <label
+                        // Remount when the saved value changes so clamped values show up
+                        key={`${key}-${resolveSensitivityThresholds(selectedDestination)[key]}`}
+                        className="block text-xs text-gray-600"
+                      >
+                        {label} (seconds)
+                        <input
+                          type="number"
+                          min="0"
+                          defaultValue={Math.round(resolveSensitivityThresholds(selectedDestination)[key] / 1000)}
+                          onBlur={(e) => handleSensitivityChange('custom', {
+                            ...resolveSensitivityThresholds(selectedDestination),
+                            [key]: Number(e.target.value) * 1000
+                          })}
+                          className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="border-t pt-6">
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={contract !== null}
+                    onChange={(e) => setContract(e.target.checked ? { ...DEFAULT_VOYAGE_CONTRACT } : null)}
+                    className="mt-1 rounded text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    <span className="block text-lg font-medium">Strict voyage contract</span>
+                    <span className="block text-sm text-gray-600">
+                      Commit to your terms before you sail. Ending early needs a written reason,
+                      exploring is capped, and every distraction past your budget darkens the
+                      weather and costs focus score.
+                    </span>
+                  </span>
+                </label>
+
+                {contract && (
+                  <div className="grid grid-cols-3 gap-3 mt-4">
+                    {CONTRACT_FIELDS.map(({ key, label }) => (
+                      <label key={key} className="block text-xs text-gray-600">
+                        {label}
+                        <input
+                          type="number"
+                          min={CONTRACT_LIMITS[key].min}
+                          max={CONTRACT_LIMITS[key].max}
+                          value={contract[key]}
+                          onChange={(e) => handleContractChange(key, Number(e.target.value))}
+                          className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               <div className="border-t pt-6">
                 <h3 className="text-lg font-medium mb-4">Sensor Permissions</h3>
                 <p className="text-sm text-gray-600 mb-4">
@@ -172,11 +314,34 @@ export const VoyagePreparation: React.FC<VoyagePreparationProps> = ({
                     icon={Monitor}
                     title="Screen Sharing"
                     description="Advanced content analysis for better distraction detection"
-                    granted={ScreenshotService.isPermissionGranted()}
+                    granted={screenSharing.surfaces.length > 0}
                   />
+                  {screenSharing.surfaces.map(surface => (
+                    <div key={surface.id} className="flex items-center justify-between pl-11 pr-3 text-sm text-gray-600">
+                      <span className="truncate">
+                        {surface.kind === 'window' ? 'Window' : 'Screen'}: {surface.label}
+                      </span>
+                      <button
+                        onClick={() => ScreenshotService.removeScreenSurface(surface.id)}
+                        className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                        title="Stop sharing"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  {screenSharing.surfaces.length > 0 && (
+                    <button
+                      onClick={() => ScreenshotService.addScreenSurface()}
+                      className="flex items-center pl-11 text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add another screen or window
+                    </button>
+                  )}
                 </div>
 
-                {(!permissionsGranted.camera || !permissionsGranted.microphone || !ScreenshotService.isPermissionGranted()) && (
+                {(!permissionsGranted.camera || !permissionsGranted.microphone || screenSharing.surfaces.length === 0) && (
                   <Button
                     onClick={handleRequestPermissions}
                     loading={isRequestingPermissions}
@@ -247,6 +412,26 @@ export const VoyagePreparation: React.FC<VoyagePreparationProps> = ({
                 View Map
               </Button>
             )}
+            {onOpenNotes && (
+              <Button
+                onClick={onOpenNotes}
+                variant="outline"
+                icon={Inbox}
+                className="text-white border-white hover:bg-white/10"
+              >
+                Notes
+              </Button>
+            )}
+            {onOpenSettings && (
+              <Button
+                onClick={onOpenSettings}
+                variant="outline"
+                icon={Settings}
+                className="text-white border-white hover:bg-white/10"
+              >
+                Settings
+              </Button>
+            )}
           </div>
         </motion.div>
 
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { LifeBuoy, Play, Flag, XCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import type { RecoverableVoyage } from '../../stores/voyageStore';
+
+type RecoveryChoice = 'resume' | 'end' | 'abandon';
+
+interface VoyageRecoveryModalProps {
+  recoverableVoyage: RecoverableVoyage | null;
+  onChoice: (choice: RecoveryChoice) => Promise<void>;
+}
+
+export const VoyageRecoveryModal: React.FC<VoyageRecoveryModalProps> = ({
+  recoverableVoyage,
+  onChoice
+}) => {
+  const [pendingChoice, setPendingChoice] = useState<RecoveryChoice | null>(null);
+
+  const handleChoice = async (choice: RecoveryChoice) => {
+    setPendingChoice(choice);
+    try {
+      await onChoice(choice);
+    } finally {
+      setPendingChoice(null);
+    }
+  };
+
+  const formatTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <AnimatePresence>
+      {recoverableVoyage && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+        >
+          <motion.div
+            initial={{ scale: 0.8, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.8, opacity: 0 }}
+            transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+          >
+            <Card className="max-w-md w-full p-8 text-center">
+              <LifeBuoy className="w-16 h-16 text-orange-500 mx-auto mb-6" />
+
+              <h2 className="text-2xl font-bold mb-4 text-gray-800">
+                Unfinished Voyage Found
+              </h2>
+
+              <p className="text-gray-600 mb-2">
+                Your voyage to{' '}
+                <strong>{recoverableVoyage.voyage.destination?.destination_name || 'your destination'}</strong>{' '}
+                was interrupted before it reached port.
+              </p>
+
+              <div className="text-sm text-gray-500 mb-6 space-y-1">
+                <p>Set sail: {formatTime(recoverableVoyage.voyage.start_time)}</p>
+                <p>Last signal: {formatTime(recoverableVoyage.lastHeartbeatAt)}</p>
+              </div>
+
+              <div className="space-y-3">
+                <Button
+                  onClick={() => handleChoice('resume')}
+                  className="w-full"
+                  size="lg"
+                  icon={Play}
+                  loading={pendingChoice === 'resume'}
+                  disabled={pendingChoice !== null}
+                >
+                  Resume Voyage
+                </Button>
+
+                <Button
+                  onClick={() => handleChoice('end')}
+                  variant="outline"
+                  className="w-full"
+                  size="lg"
+                  icon={Flag}
+                  loading={pendingChoice === 'end'}
+                  disabled={pendingChoice !== null}
+                >
+                  End at Last Signal
+                </Button>
+
+                <Button
+                  onClick={() => handleChoice('abandon')}
+                  variant="ghost"
+                  className="w-full"
+                  size="lg"
+                  icon={XCircle}
+                  loading={pendingChoice === 'abandon'}
+                  disabled={pendingChoice !== null}
+                >
+                  Abandon Voyage
+                </Button>
+              </div>
+
+              <p className="text-xs text-gray-500 mt-4">
+                Time while MindBoat was closed is never counted as focus time
+              </p>
+            </Card>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
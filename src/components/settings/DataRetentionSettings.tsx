@@ -0,0 +1,104 @@
+import React, { useEffect } from 'react';
+import { Database, RefreshCw } from 'lucide-react';
+import { Card } from '../ui/Card';
+import { useRetentionStore } from '../../stores/retentionStore';
+import { useUserStore } from '../../stores/userStore';
+import { RETENTION_KINDS, RETENTION_OPTIONS, formatRetention } from '../../config/retention';
+import type { DataUsage, DataUsageEntry, RetentionKind } from '../../types';
+
+// Stored data counted under each retention setting
+const USAGE_BY_KIND: Record<RetentionKind, (keyof DataUsage)[]> = {
+  transcripts_days: ['transcripts', 'voice_note_audio'],
+  detection_results_days: ['detection_results'],
+  screenshot_analysis_days: ['screenshot_analyses'],
+  exploration_notes_days: ['exploration_notes'],
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const summarizeUsage = (entries: DataUsageEntry[]) => {
+  const count = entries.reduce((sum, entry) => sum + entry.count, 0);
+  if (count === 0) return 'Nothing stored';
+
+  const bytes = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  const oldest = entries
+    .map(entry => entry.oldest)
+    .filter((date): date is string => !!date)
+    .sort()[0];
+
+  return `${count} item${count === 1 ? '' : 's'} · ${formatBytes(bytes)}${
+    oldest ? ` · oldest from ${new Date(oldest).toLocaleDateString()}` : ''
+  }`;
+};
+
+export const DataRetentionSettings: React.FC = () => {
+  const { user } = useUserStore();
+  const { settings, usage, isLoading, error, loadUsage, updateSettings } = useRetentionStore();
+
+  useEffect(() => {
+    if (user) loadUsage(user.id);
+  }, [user, loadUsage]);
+
+  const isDemo = !!user?.id.startsWith('demo-');
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-3">
+          <Database className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-semibold text-gray-800">Data Retention</h2>
+        </div>
+        {!isDemo && (
+          <button
+            onClick={() => user && loadUsage(user.id)}
+            disabled={isLoading}
+            className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+            title="Refresh stored data"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Choose how long MindBoat keeps what it captures. Older data is deleted every night.
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <div className="space-y-3">
+        {RETENTION_KINDS.map(({ kind, label, description }) => (
+          <div key={kind} className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-lg">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-800">{label}</p>
+              <p className="text-xs text-gray-500">{description}</p>
+              <p className="text-xs text-gray-600 mt-1">
+                {isDemo
+                  ? 'Demo mode stores nothing on the server'
+                  : usage
+                    ? summarizeUsage(USAGE_BY_KIND[kind].map(key => usage[key]))
+                    : isLoading ? 'Checking stored data...' : ''}
+              </p>
+            </div>
+            <select
+              value={settings[kind] ?? ''}
+              onChange={(e) => user && updateSettings(user.id, {
+                [kind]: e.target.value ? Number(e.target.value) : null
+              })}
+              className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-700 text-sm flex-shrink-0"
+            >
+              {RETENTION_OPTIONS.map(days => (
+                <option key={days ?? 'forever'} value={days ?? ''}>
+                  {formatRetention(days)}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { EyeOff, Plus, Shield, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { usePrivacyStore } from '../../stores/privacyStore';
+import { PRIVACY_RESOLUTIONS, REDACTION_MODE_DESCRIPTIONS } from '../../config/privacy';
+import type { RedactionMode } from '../../types';
+
+const REDACTION_MODES: RedactionMode[] = ['full', 'screen_only', 'camera_only'];
+
+const MODE_LABELS: Record<RedactionMode, string> = {
+  full: 'Screen + camera',
+  screen_only: 'Screen only',
+  camera_only: 'Camera only',
+};
+
+const REGION_FIELDS = [
+  { key: 'x', label: 'Left %' },
+  { key: 'y', label: 'Top %' },
+  { key: 'width', label: 'Width %' },
+  { key: 'height', label: 'Height %' },
+] as const;
+
+type RegionField = typeof REGION_FIELDS[number]['key'];
+
+export const PrivacySettings: React.FC = () => {
+  const {
+    redaction,
+    setRedactionMode,
+    setMaxWidth,
+    setBlackOutCamera,
+    addBlurRegion,
+    removeBlurRegion
+  } = usePrivacyStore();
+  const [regionLabel, setRegionLabel] = useState('');
+  const [region, setRegion] = useState<Record<RegionField, string>>({
+    x: '0', y: '0', width: '25', height: '100'
+  });
+
+  const handleAddRegion = () => {
+    addBlurRegion({
+      label: regionLabel,
+      x: Number(region.x) / 100,
+      y: Number(region.y) / 100,
+      width: Number(region.width) / 100,
+      height: Number(region.height) / 100,
+    });
+    setRegionLabel('');
+  };
+
+  const regionsApply = redaction.mode !== 'camera_only';
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center space-x-3 mb-2">
+        <Shield className="w-6 h-6 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-800">Screenshot Privacy</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Choose what the vision model sees. Redaction happens in your browser before anything is sent,
+        and is saved on this device only.
+      </p>
+
+      {/* What gets sent */}
+      <div className="mb-6">
+        <h3 className="text-sm font-semibold text-gray-700 mb-3">What gets sent</h3>
+        <div className="grid grid-cols-3 gap-2">
+          {REDACTION_MODES.map(mode => (
+            <button
+              key={mode}
+              onClick={() => setRedactionMode(mode)}
+              className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                redaction.mode === mode
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">{REDACTION_MODE_DESCRIPTIONS[redaction.mode]}</p>
+
+        {redaction.mode === 'full' && (
+          <label className="flex items-center mt-3 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={redaction.blackOutCamera}
+              onChange={(e) => setBlackOutCamera(e.target.checked)}
+              className="mr-2"
+            />
+            Black out the camera picture-in-picture
+          </label>
+        )}
+      </div>
+
+      {/* Resolution */}
+      <div className="mb-6">
+        <h3 className="text-sm font-semibold text-gray-700 mb-3">Privacy resolution</h3>
+        <select
+          value={redaction.maxWidth ?? ''}
+          onChange={(e) => setMaxWidth(e.target.value ? Number(e.target.value) : null)}
+          className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-700"
+        >
+          {PRIVACY_RESOLUTIONS.map(width => (
+            <option key={width ?? 'full'} value={width ?? ''}>
+              {width ? `Downscale to ${width}px wide` : 'Full resolution'}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-2">
+          Lower resolutions keep small text like emails and chat messages unreadable while apps stay recognizable.
+        </p>
+      </div>
+
+      {/* Blurred regions */}
+      <div className={regionsApply ? '' : 'opacity-50'}>
+        <h3 className="flex items-center text-sm font-semibold text-gray-700 mb-3">
+          <EyeOff className="w-4 h-4 mr-2" />
+          Blurred screen regions ({redaction.blurRegions.length})
+        </h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Pixelate fixed areas of your screen, like a chat sidebar or password manager. Positions are
+          percentages of the whole captured image - when you share several screens they sit side by side.
+        </p>
+
+        <div className="flex gap-4 mb-4">
+          {/* Preview of the screen with the regions marked */}
+          <div className="relative w-40 h-24 flex-shrink-0 border border-gray-300 rounded bg-gray-50 overflow-hidden">
+            {redaction.blurRegions.map(r => (
+              <div
+                key={r.id}
+                className="absolute bg-gray-500/60"
+                style={{
+                  left: `${r.x * 100}%`,
+                  top: `${r.y * 100}%`,
+                  width: `${r.width * 100}%`,
+                  height: `${r.height * 100}%`
+                }}
+              />
+            ))}
+          </div>
+
+          <div className="space-y-2 flex-1 min-w-0">
+            {redaction.blurRegions.map(r => (
+              <div key={r.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-700 truncate">
+                  {r.label || 'Region'}
+                  <span className="text-xs text-gray-500 ml-2">
+                    {Math.round(r.x * 100)}%, {Math.round(r.y * 100)}% · {Math.round(r.width * 100)}×{Math.round(r.height * 100)}%
+                  </span>
+                </p>
+                <button
+                  onClick={() => removeBlurRegion(r.id)}
+                  className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                  title="Remove region"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {redaction.blurRegions.length === 0 && (
+              <p className="text-sm text-gray-400">No regions blurred yet</p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-2 mb-3">
+          {REGION_FIELDS.map(({ key, label }) => (
+            <label key={key} className="block text-xs text-gray-600">
+              {label}
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={region[key]}
+                onChange={(e) => setRegion(prev => ({ ...prev, [key]: e.target.value }))}
+                className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          <Input
+            placeholder="Label (optional), e.g. Slack sidebar"
+            value={regionLabel}
+            onChange={setRegionLabel}
+            className="flex-1"
+          />
+          <Button
+            onClick={handleAddRegion}
+            disabled={!regionsApply || Number(region.width) <= 0 || Number(region.height) <= 0}
+            icon={Plus}
+          >
+            Add Region
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
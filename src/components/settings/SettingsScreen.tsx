@@ -0,0 +1,53 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Settings } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { SiteRulesSettings } from './SiteRulesSettings';
+import { PrivacySettings } from './PrivacySettings';
+import { DataRetentionSettings } from './DataRetentionSettings';
+
+interface SettingsScreenProps {
+  onBack: () => void;
+}
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-indigo-900 p-4">
+      <div className="max-w-4xl mx-auto py-8">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -30 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between mb-8"
+        >
+          <div>
+            <h1 className="text-4xl font-bold text-white mb-2 flex items-center">
+              <Settings className="w-10 h-10 mr-3" />
+              Ship Settings
+            </h1>
+            <p className="text-xl text-blue-200">Tune how MindBoat keeps you on course</p>
+          </div>
+          <Button
+            onClick={onBack}
+            variant="outline"
+            icon={ArrowLeft}
+            className="text-white border-white hover:bg-white/10"
+          >
+            Back to Sailing
+          </Button>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="space-y-6"
+        >
+          <SiteRulesSettings />
+          <PrivacySettings />
+          <DataRetentionSettings />
+        </motion.div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Ban, CheckCircle, Globe, Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { useSiteRuleStore } from '../../stores/siteRuleStore';
+import { useUserStore } from '../../stores/userStore';
+import { SITE_RULE_CATEGORIES } from '../../services/SiteRuleService';
+import type { SiteRule, SiteRuleCategory } from '../../types';
+
+const CATEGORY_LABELS: Record<SiteRuleCategory, string> = {
+  social_media: 'Social media',
+  entertainment: 'Entertainment',
+  shopping: 'Shopping',
+  news_browsing: 'News',
+  irrelevant_browsing: 'Other distraction',
+};
+
+export const SiteRulesSettings: React.FC = () => {
+  const { user } = useUserStore();
+  const { rules, addRule, deleteRule, isLoading } = useSiteRuleStore();
+  const [pattern, setPattern] = useState('');
+  const [ruleType, setRuleType] = useState<SiteRule['rule_type']>('block');
+  const [category, setCategory] = useState<SiteRuleCategory>('social_media');
+  const [note, setNote] = useState('');
+
+  const handleAddRule = async () => {
+    if (!user || !pattern.trim()) return;
+
+    const rule = await addRule(user.id, pattern, ruleType, ruleType === 'block' ? category : undefined, note);
+    if (rule) {
+      setPattern('');
+      setNote('');
+    }
+  };
+
+  const blockRules = rules.filter(rule => rule.rule_type === 'block');
+  const allowRules = rules.filter(rule => rule.rule_type === 'allow');
+
+  const renderRule = (rule: SiteRule) => (
+    <motion.div
+      key={rule.id}
+      layout
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, x: -20 }}
+      className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+    >
+      <div className="min-w-0">
+        <p className="font-mono text-sm text-gray-800 truncate">{rule.pattern}</p>
+        <p className="text-xs text-gray-500">
+          {rule.rule_type === 'block' && rule.category ? CATEGORY_LABELS[rule.category] : 'Work'}
+          {rule.note && ` · ${rule.note}`}
+        </p>
+      </div>
+      <button
+        onClick={() => deleteRule(rule.id)}
+        className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+        title="Delete rule"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </motion.div>
+  );
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center space-x-3 mb-2">
+        <Globe className="w-6 h-6 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-800">Site Rules</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Your rules are checked first, then your destination's related apps, then MindBoat's defaults.
+        Use <code className="bg-gray-100 px-1 rounded">reddit.com</code> for a whole site,{' '}
+        <code className="bg-gray-100 px-1 rounded">linkedin.com/feed</code> for a section, or{' '}
+        <code className="bg-gray-100 px-1 rounded">youtube.com/*tutorial*</code> with wildcards.
+      </p>
+
+      {/* Add Rule Form */}
+      <div className="space-y-3 mb-6">
+        <div className="flex gap-3">
+          <Input
+            placeholder="e.g., youtube.com/watch"
+            value={pattern}
+            onChange={setPattern}
+            className="flex-1"
+          />
+          <select
+            value={ruleType}
+            onChange={(e) => setRuleType(e.target.value as SiteRule['rule_type'])}
+            className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-700"
+          >
+            <option value="block">Distracting</option>
+            <option value="allow">Work</option>
+          </select>
+          {ruleType === 'block' && (
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as SiteRuleCategory)}
+              className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-700"
+            >
+              {SITE_RULE_CATEGORIES.map(value => (
+                <option key={value} value={value}>{CATEGORY_LABELS[value]}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="flex gap-3">
+          <Input
+            placeholder="Note (optional)"
+            value={note}
+            onChange={setNote}
+            className="flex-1"
+          />
+          <Button
+            onClick={handleAddRule}
+            disabled={!pattern.trim()}
+            loading={isLoading}
+            icon={Plus}
+          >
+            Add Rule
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div>
+          <h3 className="flex items-center text-sm font-semibold text-red-600 mb-3">
+            <Ban className="w-4 h-4 mr-2" />
+            Distracting ({blockRules.length})
+          </h3>
+          <div className="space-y-2">
+            <AnimatePresence>
+              {blockRules.map(renderRule)}
+            </AnimatePresence>
+            {blockRules.length === 0 && (
+              <p className="text-sm text-gray-400">No distracting sites added yet</p>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="flex items-center text-sm font-semibold text-green-600 mb-3">
+            <CheckCircle className="w-4 h-4 mr-2" />
+            Work ({allowRules.length})
+          </h3>
+          <div className="space-y-2">
+            <AnimatePresence>
+              {allowRules.map(renderRule)}
+            </AnimatePresence>
+            {allowRules.length === 0 && (
+              <p className="text-sm text-gray-400">No work sites added yet</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,295 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { BookOpen, ChevronLeft, ChevronRight, Star, Sparkles, Loader2, Anchor } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { useReflectionStore } from '../../stores/reflectionStore';
+import { useUserStore } from '../../stores/userStore';
+import { addDays, getBrowserTimeZone, getLocalDate, getMonthWeeksRange, getWeekStart } from '../../utils/timezone';
+import type { DailyReflection, WeeklyReflection } from '../../services/ReflectionService';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Parse YYYY-MM-DD as a local date so it is displayed as the same calendar day
+const toLocalDate = (date: string) => new Date(`${date}T00:00:00`);
+
+const formatDay = (date: string) =>
+  toLocalDate(date).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' });
+
+const formatMonth = (month: string) =>
+  toLocalDate(`${month}-01`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+const shiftMonth = (month: string, delta: number) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1 + delta, 1)).toISOString().slice(0, 7);
+};
+
+const RatingStars: React.FC<{ value: number | null; onChange: (rating: number | null) => void }> = ({ value, onChange }) => (
+  <div className="flex items-center space-x-1">
+    {[1, 2, 3, 4, 5].map(rating => (
+      <button
+        key={rating}
+        type="button"
+        // Clicking the current rating clears it
+        onClick={() => onChange(value === rating ? null : rating)}
+        title={`Rate this day ${rating} of 5`}
+      >
+        <Star className={`w-4 h-4 ${value && rating <= value ? 'text-yellow-500 fill-yellow-400' : 'text-gray-300'}`} />
+      </button>
+    ))}
+  </div>
+);
+
+const JournalEditor: React.FC<{ reflection: DailyReflection; userId: string }> = ({ reflection, userId }) => {
+  const saveJournal = useReflectionStore(state => state.saveJournal);
+  const [entry, setEntry] = useState(reflection.journal_entry || '');
+  const [rating, setRating] = useState<number | null>(reflection.journal_rating);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty = entry.trim() !== (reflection.journal_entry || '') || rating !== reflection.journal_rating;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    await saveJournal(userId, reflection.date, { journal_entry: entry, journal_rating: rating });
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-gray-800">Your log</p>
+        <RatingStars value={rating} onChange={setRating} />
+      </div>
+      <textarea
+        value={entry}
+        onChange={(e) => setEntry(e.target.value)}
+        rows={3}
+        placeholder="How did the day feel from the helm?"
+        className="w-full px-3 py-2 border border-amber-200 rounded-lg bg-white text-sm text-gray-700 resize-none focus:outline-none focus:ring-2 focus:ring-amber-300"
+      />
+      <div className="flex justify-end mt-2">
+        <Button size="sm" onClick={handleSave} disabled={!isDirty} loading={isSaving}>
+          Save entry
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const WeeklyDigest: React.FC<{ weekly: WeeklyReflection }> = ({ weekly }) => (
+  <Card className="p-5 bg-gradient-to-r from-blue-50 to-indigo-50 border-blue-200">
+    <p className="text-sm font-semibold text-blue-800 mb-2">Weekly digest</p>
+    <p className="text-gray-700 whitespace-pre-line">{weekly.reflection_text}</p>
+    {weekly.highlights.length > 0 && (
+      <ul className="mt-3 space-y-1 text-sm text-gray-700 list-disc list-inside">
+        {weekly.highlights.map(highlight => <li key={highlight}>{highlight}</li>)}
+      </ul>
+    )}
+    {weekly.tomorrow_suggestion && (
+      <p className="mt-3 text-sm text-blue-700">Next week: {weekly.tomorrow_suggestion}</p>
+    )}
+  </Card>
+);
+
+export const CaptainsLog: React.FC = () => {
+  const { user } = useUserStore();
+  const {
+    reflections,
+    weeklyReflections,
+    generatingWeek,
+    isLoading,
+    error,
+    loadMonth,
+    generateWeeklyReflection
+  } = useReflectionStore();
+
+  const today = useMemo(() => getLocalDate(getBrowserTimeZone()), []);
+  const [month, setMonth] = useState(today.slice(0, 7));
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) loadMonth(user.id, month);
+  }, [user, month, loadMonth]);
+
+  const reflectionsByDate = useMemo(
+    () => Object.fromEntries(reflections.map(reflection => [reflection.date, reflection])),
+    [reflections]
+  );
+
+  const { from, to } = getMonthWeeksRange(month);
+  const calendarDays: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) calendarDays.push(day);
+
+  // Weeks with at least one reflection, newest first, each followed by its days
+  const weeks = useMemo(() => {
+    const byWeek = new Map<string, DailyReflection[]>();
+    for (const reflection of reflections) {
+      const weekStart = getWeekStart(reflection.date);
+      byWeek.set(weekStart, [...(byWeek.get(weekStart) || []), reflection]);
+    }
+    return [...byWeek.entries()];
+  }, [reflections]);
+
+  const selectDay = (date: string) => {
+    setSelectedDate(date);
+    document.getElementById(`log-${date}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  if (user?.id.startsWith('demo-')) {
+    return (
+      <Card className="p-6 text-center">
+        <BookOpen className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <p className="text-gray-500 text-lg">The Captain's Log needs an account</p>
+        <p className="text-gray-400">Reflections are written from voyages saved to your account. Demo mode keeps none.</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold flex items-center">
+            <BookOpen className="w-6 h-6 mr-2" />
+            Captain's Log
+          </h3>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setMonth(shiftMonth(month, -1))}
+              className="p-2 text-gray-500 hover:text-blue-600 transition-colors"
+              title="Previous month"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span className="font-medium text-gray-800 w-36 text-center">{formatMonth(month)}</span>
+            <button
+              onClick={() => setMonth(shiftMonth(month, 1))}
+              disabled={month >= today.slice(0, 7)}
+              className="p-2 text-gray-500 hover:text-blue-600 transition-colors disabled:opacity-30 disabled:hover:text-gray-500"
+              title="Next month"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-7 gap-1 text-center">
+          {WEEKDAYS.map(weekday => (
+            <div key={weekday} className="text-xs font-medium text-gray-500 py-1">{weekday}</div>
+          ))}
+          {calendarDays.map(day => {
+            const reflection = reflectionsByDate[day];
+            const inMonth = day.startsWith(month);
+
+            return (
+              <button
+                key={day}
+                onClick={() => reflection && selectDay(day)}
+                disabled={!reflection}
+                className={`relative h-10 rounded-lg text-sm transition-colors ${
+                  reflection
+                    ? 'bg-blue-100 text-blue-900 hover:bg-blue-200 font-medium'
+                    : 'text-gray-400 cursor-default'
+                } ${inMonth ? '' : 'opacity-40'} ${selectedDate === day ? 'ring-2 ring-blue-500' : ''} ${
+                  day === today ? 'border border-blue-400' : ''
+                }`}
+                title={reflection ? `${reflection.voyage_count} voyage${reflection.voyage_count === 1 ? '' : 's'}, ${reflection.total_focus_time}m` : undefined}
+              >
+                {Number(day.slice(8))}
+                {reflection?.journal_entry && (
+                  <span className="absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full bg-amber-500" />
+                )}
+              </button>
+            );
+          })}
+        </div>
+        <p className="text-xs text-gray-500 mt-3">
+          Days with a reflection are highlighted; a dot marks days with your own entry.
+        </p>
+      </Card>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {isLoading && reflections.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 text-white animate-spin" />
+        </div>
+      ) : weeks.length === 0 ? (
+        <Card className="p-6 text-center">
+          <Anchor className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500 text-lg">No reflections in {formatMonth(month)}</p>
+          <p className="text-gray-400">The seagull writes one after each day you sail.</p>
+        </Card>
+      ) : (
+        weeks.map(([weekStart, days]) => {
+          const weekEnd = addDays(weekStart, 6);
+          const weekly = weeklyReflections[weekStart];
+          // Template digests (LLM unavailable or rate limited) can be written again
+          const canWriteDigest = !weekly || weekly.generation_source !== 'llm';
+
+          return (
+            <div key={weekStart} className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="text-lg font-semibold text-white">
+                  Week of {toLocalDate(weekStart).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                </h4>
+                {canWriteDigest && user && (weekEnd < today ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    icon={Sparkles}
+                    loading={generatingWeek === weekStart}
+                    disabled={!!generatingWeek}
+                    onClick={() => generateWeeklyReflection(user.id, weekStart)}
+                    className="text-white border-white hover:bg-white/10"
+                  >
+                    {weekly ? 'Rewrite weekly digest' : 'Write weekly digest'}
+                  </Button>
+                ) : (
+                  <span className="text-sm text-blue-200">Weekly digest after Sunday</span>
+                ))}
+              </div>
+
+              {weekly && <WeeklyDigest weekly={weekly} />}
+
+              {days.map(reflection => (
+                <motion.div
+                  key={reflection.id}
+                  id={`log-${reflection.date}`}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                >
+                  <Card className={`p-6 ${selectedDate === reflection.date ? 'ring-2 ring-blue-400' : ''}`}>
+                    <div className="mb-3">
+                      <p className="font-semibold text-gray-800">{formatDay(reflection.date)}</p>
+                      <p className="text-sm text-gray-500">
+                        {reflection.voyage_count} voyage{reflection.voyage_count === 1 ? '' : 's'} · {reflection.total_focus_time}m focused
+                      </p>
+                    </div>
+
+                    {reflection.reflection_text && (
+                      <p className="text-gray-700 italic whitespace-pre-line">{reflection.reflection_text}</p>
+                    )}
+                    {reflection.highlights?.length > 0 && (
+                      <ul className="mt-3 space-y-1 text-sm text-gray-700 list-disc list-inside">
+                        {reflection.highlights.map(highlight => <li key={highlight}>{highlight}</li>)}
+                      </ul>
+                    )}
+                    {reflection.pattern_observed && (
+                      <p className="mt-3 text-sm text-gray-600">Pattern: {reflection.pattern_observed}</p>
+                    )}
+                    {reflection.tomorrow_suggestion && (
+                      <p className="mt-1 text-sm text-blue-700">Next day: {reflection.tomorrow_suggestion}</p>
+                    )}
+
+                    {user && <JournalEditor reflection={reflection} userId={user.id} />}
+                  </Card>
+                </motion.div>
+              ))}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
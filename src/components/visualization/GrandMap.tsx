@@ -1,8 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Map, Calendar, Clock, TrendingUp, ArrowLeft, Target, Compass, Star, Award } from 'lucide-react';
+import { Map, Calendar, Clock, TrendingUp, ArrowLeft, Target, Compass, Star, Award, BookOpen } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
+import { CaptainsLog } from './CaptainsLog';
 import { useVoyageStore } from '../../stores/voyageStore';
 import { useUserStore } from '../../stores/userStore';
 import { useDestinationStore } from '../../stores/destinationStore';
@@ -17,7 +18,7 @@ export const GrandMap: React.FC<GrandMapProps> = ({ onBack }) => {
   const { user, lighthouseGoal } = useUserStore();
   const { destinations } = useDestinationStore();
   const [selectedVoyage, setSelectedVoyage] = useState<Voyage | null>(null);
-  const [activeTab, setActiveTab] = useState<'overview' | 'destinations' | 'progress'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'destinations' | 'progress' | 'log'>('overview');
 
   useEffect(() => {
     if (user) {
@@ -167,7 +168,8 @@ export const GrandMap: React.FC<GrandMapProps> = ({ onBack }) => {
             {[
               { id: 'overview', label: 'Overview', icon: TrendingUp },
               { id: 'destinations', label: 'Destinations', icon: Compass },
-              { id: 'progress', label: 'Progress', icon: Target }
+              { id: 'progress', label: 'Progress', icon: Target },
+              { id: 'log', label: "Captain's Log", icon: BookOpen }
             ].map(({ id, label, icon: Icon }) => (
               <button
                 key={id}
@@ -478,6 +480,17 @@ export const GrandMap: React.FC<GrandMapProps> = ({ onBack }) => {
               )}
             </motion.div>
           )}
+
+          {activeTab === 'log' && (
+            <motion.div
+              key="log"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+            >
+              <CaptainsLog />
+            </motion.div>
+          )}
         </AnimatePresence>
       </div>
     </div>
@@ -0,0 +1,24 @@
+/**
+ * Activity Model Settings
+ *
+ * utils/activityModel decides which input counts as someone working, reading
+ * or gone. Raw events are filtered first, so a nudged mouse or a stray key
+ * does not keep a voyage "busy", while the slow scroll-and-pause rhythm of
+ * reading earns the destination's reading allowance on top of the idle threshold.
+ *
+ * CUSTOMIZABLE: Adjust the values below.
+ */
+
+export const ACTIVITY_SETTINGS = {
+  // Pointer moves within this gap belong to the same gesture
+  pointerGestureGapMs: 1000,
+  // A gesture must end this far from where it started - wiggling in place does not count
+  pointerMinDisplacementPx: 120,
+  // Typing counts once this many keys land within the burst window
+  typingBurstKeys: 3,
+  typingBurstWindowMs: 10 * 1000,
+  // Keys that move through a document rather than write in it
+  readingKeys: ['PageDown', 'PageUp', 'ArrowDown', 'ArrowUp', 'Home', 'End', ' '],
+  // How long the model remembers individual inputs (cadence is measured over this window)
+  historyWindowMs: 5 * 60 * 1000,
+};
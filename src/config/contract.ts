@@ -0,0 +1,49 @@
+/**
+ * Strict Voyage Contract
+ *
+ * A strict voyage fixes its terms before it starts: how many distractions are
+ * allowed, how long 'exploring' may last, and what each distraction past the
+ * budget costs. The terms are stored on the voyage row and cannot change mid-voyage.
+ *
+ * CUSTOMIZABLE: Adjust the defaults and limits below.
+ */
+
+import type { VoyageContract } from '../types';
+
+export type ContractWeather = 'sunny' | 'cloudy' | 'rainy' | 'stormy';
+
+export const DEFAULT_VOYAGE_CONTRACT: VoyageContract = {
+  strict: true,
+  distraction_budget: 3,
+  exploring_cap_minutes: 5,
+  penalty_per_distraction: 10,
+};
+
+export const CONTRACT_LIMITS = {
+  distraction_budget: { min: 0, max: 20 },
+  exploring_cap_minutes: { min: 0, max: 60 },
+  penalty_per_distraction: { min: 1, max: 50 },
+};
+
+// Ending a strict voyage early needs at least this much explanation
+export const MIN_JUSTIFICATION_LENGTH = 20;
+
+// Weather once the budget is exceeded by 1, 2, 3+ distractions
+const OVER_BUDGET_WEATHER: ContractWeather[] = ['cloudy', 'rainy', 'stormy'];
+
+export const getDistractionsOverBudget = (contract: VoyageContract | null | undefined, distractionCount: number): number =>
+  contract?.strict ? Math.max(0, distractionCount - contract.distraction_budget) : 0;
+
+/**
+ * Focus score points lost to distractions past the budget
+ */
+export const getContractPenalty = (contract: VoyageContract | null | undefined, distractionCount: number): number =>
+  contract?.strict ? getDistractionsOverBudget(contract, distractionCount) * contract.penalty_per_distraction : 0;
+
+/**
+ * Fair-weather mood for the voyage - worsens with every distraction past the budget
+ */
+export const getContractWeather = (contract: VoyageContract | null | undefined, distractionCount: number): ContractWeather => {
+  const over = getDistractionsOverBudget(contract, distractionCount);
+  return over === 0 ? 'sunny' : OVER_BUDGET_WEATHER[Math.min(over, OVER_BUDGET_WEATHER.length) - 1];
+};
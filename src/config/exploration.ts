@@ -0,0 +1,26 @@
+/**
+ * Exploration Budget
+ *
+ * Exploration mode pauses distraction detection, so every voyage gets a budget
+ * of exploring time. A strict contract's exploring cap becomes the budget;
+ * other voyages use the default below. When the budget runs out the boat
+ * returns to course on its own.
+ *
+ * CUSTOMIZABLE: Adjust the default budget and when the seagull warns you.
+ */
+
+import type { Voyage, VoyageContract } from '../types';
+
+export const EXPLORATION_SETTINGS = {
+  defaultBudgetMinutes: 10,
+  nudgeBeforeMs: 60 * 1000, // Seagull nudge this long before the budget runs out
+};
+
+/**
+ * Budget to store on a voyage when it starts
+ */
+export const getInitialExplorationBudgetMinutes = (contract: VoyageContract | null | undefined): number =>
+  contract?.strict ? contract.exploring_cap_minutes : EXPLORATION_SETTINGS.defaultBudgetMinutes;
+
+export const getExplorationBudgetMs = (voyage: Pick<Voyage, 'exploration_budget_minutes' | 'contract'> | null | undefined): number =>
+  (voyage?.exploration_budget_minutes ?? getInitialExplorationBudgetMinutes(voyage?.contract)) * 60000;
@@ -0,0 +1,69 @@
+/**
+ * Detector Fusion Settings
+ *
+ * Every detector (tab visibility, idle, URL, browser extension, screenshot,
+ * camera) reports observations; utils/distractionFusion weighs them into a
+ * single distraction state. The recording settings at the bottom decide how
+ * fused distractions become distraction events.
+ *
+ * CUSTOMIZABLE: Raise a source's weight to trust it more. Sources with a
+ * half-life are point samples whose evidence fades; sources without one
+ * describe a current state that holds until the detector reports again.
+ */
+
+import type { UrlEvaluation } from '../services/SiteRuleService';
+
+export type ObservationSource =
+  | 'tab_visibility'
+  | 'idle'
+  | 'url'
+  | 'browser_extension'
+  | 'screenshot'
+  | 'camera';
+
+export interface FusionSourceSettings {
+  weight: number; // 0-1, multiplied by the observation's own confidence
+  halfLifeMs: number | null; // null = no decay while the observation is current
+  maxAgeMs: number | null; // older observations are ignored
+}
+
+export interface FusionConfig {
+  sources: Record<ObservationSource, FusionSourceSettings>;
+  enterScore: number; // fused score (-1 focused .. 1 distracted) needed to become distracted
+  exitScore: number; // score at or below which a distraction clears (lower than enterScore to avoid flapping)
+  minEvidence: number; // total weight required before a distraction can be declared
+  enterDebounceMs: number; // how long the decision must hold before the state changes
+  exitDebounceMs: number;
+}
+
+export const FUSION_CONFIG: FusionConfig = {
+  sources: {
+    tab_visibility: { weight: 1.0, halfLifeMs: null, maxAgeMs: null },
+    browser_extension: { weight: 1.0, halfLifeMs: null, maxAgeMs: null },
+    url: { weight: 0.9, halfLifeMs: null, maxAgeMs: null },
+    idle: { weight: 0.7, halfLifeMs: null, maxAgeMs: null },
+    screenshot: { weight: 0.8, halfLifeMs: 2 * 60 * 1000, maxAgeMs: 5 * 60 * 1000 },
+    camera: { weight: 0.6, halfLifeMs: 2 * 60 * 1000, maxAgeMs: 5 * 60 * 1000 },
+  },
+  enterScore: 0.25,
+  exitScore: 0,
+  minEvidence: 0.3,
+  enterDebounceMs: 0, // Detectors already apply their own grace periods
+  exitDebounceMs: 3000,
+};
+
+// How much to trust each kind of URL verdict (keyed by SiteRuleService's UrlEvaluation source)
+export const URL_VERDICT_CONFIDENCE: Record<UrlEvaluation['source'], number> = {
+  user_rule: 1,
+  related_apps: 0.9,
+  default_category: 0.8,
+  default_blocklist: 0.8,
+  default_allowlist: 0.7,
+  none: 0.5, // Unrecognized sites
+};
+
+// Configuration for distraction debouncing - a new event opens at most this often
+export const DISTRACTION_DEBOUNCE_MS = 10000; // 10 seconds - can be modified
+
+// An open distraction nobody responds to is closed as timed out after this long
+export const DISTRACTION_RESPONSE_TIMEOUT_MS = 10 * 60 * 1000;
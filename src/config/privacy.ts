@@ -0,0 +1,50 @@
+/**
+ * Screenshot Redaction
+ *
+ * Controls what leaves the browser when a capture is sent to the vision model.
+ * Redaction runs on the canvas before the image is encoded, so blurred regions
+ * and hidden camera frames never reach the provider.
+ *
+ * CUSTOMIZABLE: The defaults reproduce the original, unredacted capture.
+ */
+
+import type { RedactionMode, RedactionSettings } from '../types';
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  mode: 'full',
+  maxWidth: null,
+  blurRegions: [],
+  blackOutCamera: false,
+};
+
+// Widths offered as "privacy resolutions" - small text becomes unreadable well before apps do
+export const PRIVACY_RESOLUTIONS: Array<number | null> = [null, 1280, 960, 640];
+
+// Blurred regions are pixelated into blocks this many pixels wide
+export const REDACTION_BLOCK_SIZE = 24;
+
+export const REDACTION_MODE_DESCRIPTIONS: Record<RedactionMode, string> = {
+  full: 'Screen with your camera in the corner',
+  screen_only: 'Screen only - the camera frame is never sent',
+  camera_only: 'Camera only - nothing on your screen is sent',
+};
+
+/**
+ * Extra instructions appended to the analysis prompt so the model doesn't
+ * mistake redaction for a distraction
+ */
+export const getRedactionPromptNote = (settings: RedactionSettings): string => {
+  const notes: string[] = [];
+
+  if (settings.mode === 'camera_only') {
+    notes.push('This image contains ONLY the camera view - there is no screen content. Set "contentRelevant" to true and judge only the camera view.');
+  } else if (settings.mode === 'screen_only' || settings.blackOutCamera) {
+    notes.push('There is no camera view in this image. Set "personPresent" and "appearsFocused" to true and judge only the screen.');
+  }
+
+  if (settings.mode !== 'camera_only' && settings.blurRegions.length > 0) {
+    notes.push('Some areas of the screen are pixelated for privacy. Ignore them; they are not a sign of distraction.');
+  }
+
+  return notes.length > 0 ? `\n\nPRIVACY NOTE:\n${notes.join('\n')}` : '';
+};
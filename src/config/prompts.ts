@@ -5,34 +5,19 @@
  * and destination generation quality. Each prompt is clearly marked for easy modification.
  */
 
+import type { SiteRuleCategory } from '../types';
+
 // ============================================================================
 // DESTINATION GENERATION PROMPTS
 // ============================================================================
 
 /**
  * CUSTOMIZABLE: Main prompt for generating destinations from user tasks
- * 
- * This prompt transforms user tasks into creative, inspiring destination names.
- * You can modify this to change the style, language, or creativity level.
+ *
+ * Sent by the generate-destination edge function, so it is defined in
+ * supabase/functions/_shared/prompts.ts - edit it there.
  */
-export const DESTINATION_GENERATION_PROMPT = `
-Transform this user task into a magical sailing destination:
-
-Task: "{task}"
-
-Return a JSON object with:
-- destinationName: A creative, inspiring destination name (preferably in Chinese, but English is fine)
-- description: A poetic 2-sentence description of this place
-- relatedApps: Array of 3-5 relevant applications/websites that would be used for this task
-- colorTheme: A hex color that represents this destination
-
-Examples:
-- Task: "Write research paper" → "学术大陆" (Academic Continent)
-- Task: "Learn piano" → "艺术琴泉" (Artistic Piano Springs)  
-- Task: "Build app" → "代码峡湾" (Code Fjords)
-
-Make it magical and inspiring while being practical. Focus on creating a sense of adventure and purpose.
-`.trim();
+export { DESTINATION_GENERATION_PROMPT, fillPrompt } from '../../supabase/functions/_shared/prompts';
 
 /**
  * CUSTOMIZABLE: Prompt for suggesting related applications
@@ -182,6 +167,23 @@ Return a JSON response with:
 Be practical - brief moments of checking messages, looking up references, or adjusting position are normal parts of work.
 `.trim();
 
+/**
+ * Repair prompt sent once when an analysis reply fails validation
+ * 
+ * It is appended to the original analysis prompt, so the model sees the
+ * expected JSON shape again alongside what was wrong with its last reply.
+ */
+export const ANALYSIS_REPAIR_PROMPT = `
+Your previous reply could not be used:
+{errors}
+
+Previous reply:
+{previousResponse}
+
+Reply again with ONLY the JSON object described above - no markdown, no commentary.
+Use exactly the allowed values for enum fields and a number from 0 to 100 for confidenceLevel.
+`.trim();
+
 // ============================================================================
 // BLACKLIST CONFIGURATION
 // ============================================================================
@@ -217,6 +219,43 @@ export const DISTRACTION_BLACKLIST = [
   'buzzfeed.com', '9gag.com', 'imgur.com', 'pinterest.com/pin'
 ];
 
+/**
+ * CUSTOMIZABLE: Distraction category reported for well-known sites
+ * 
+ * Checked before DISTRACTION_BLACKLIST; users can override any of these
+ * with their own site rules in Settings.
+ */
+export const DISTRACTION_CATEGORY_MAPPING: Record<string, SiteRuleCategory> = {
+  // Social media domains
+  'facebook.com': 'social_media',
+  'twitter.com': 'social_media',
+  'x.com': 'social_media',
+  'instagram.com': 'social_media',
+  'tiktok.com': 'social_media',
+  'linkedin.com/feed': 'social_media',
+  'reddit.com': 'social_media',
+
+  // Entertainment
+  'youtube.com/watch': 'entertainment',
+  'netflix.com': 'entertainment',
+  'hulu.com': 'entertainment',
+  'twitch.tv': 'entertainment',
+  'spotify.com': 'entertainment',
+
+  // Shopping
+  'amazon.com': 'shopping',
+  'ebay.com': 'shopping',
+  'aliexpress.com': 'shopping',
+  'etsy.com': 'shopping',
+
+  // News
+  'cnn.com': 'news_browsing',
+  'bbc.com': 'news_browsing',
+  'news.google.com': 'news_browsing',
+  'reuters.com': 'news_browsing',
+  'nytimes.com': 'news_browsing',
+};
+
 /**
  * CUSTOMIZABLE: Apps and websites that should always be considered productive
  * 
@@ -0,0 +1,51 @@
+/**
+ * Data Retention
+ *
+ * How long MindBoat keeps what it captures. A nightly database job deletes
+ * data older than each user's settings; users without saved settings get the
+ * defaults below, which must match the column defaults in the
+ * `retention_settings` migration.
+ *
+ * CUSTOMIZABLE: Adjust the defaults and the choices offered in Settings.
+ */
+
+import type { RetentionKind, RetentionSettings } from '../types';
+
+export const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  transcripts_days: 30,
+  detection_results_days: 30,
+  screenshot_analysis_days: 7,
+  exploration_notes_days: null,
+};
+
+// Choices in Settings; null keeps data until it is deleted by hand
+export const RETENTION_OPTIONS: Array<number | null> = [1, 7, 30, 90, 365, null];
+
+export const RETENTION_KINDS: { kind: RetentionKind; label: string; description: string }[] = [
+  {
+    kind: 'transcripts_days',
+    label: 'Voice transcripts',
+    description: 'Voyage transcripts, their analysis, and voice note recordings (the note text stays)',
+  },
+  {
+    kind: 'detection_results_days',
+    label: 'Detection results',
+    description: 'Tab switches and screen checks recorded during voyages',
+  },
+  {
+    kind: 'screenshot_analysis_days',
+    label: 'Screenshot analyses',
+    description: 'What the vision model said about each screen check; the verdict itself is kept',
+  },
+  {
+    kind: 'exploration_notes_days',
+    label: 'Exploration notes',
+    description: 'Notes captured while exploring, including ones filed under a destination',
+  },
+];
+
+export const formatRetention = (days: number | null): string => {
+  if (days === null) return 'Keep forever';
+  if (days === 365) return '1 year';
+  return days === 1 ? '1 day' : `${days} days`;
+};
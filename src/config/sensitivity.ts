@@ -0,0 +1,79 @@
+/**
+ * Detection Sensitivity Profiles
+ *
+ * Each destination picks a profile that tunes the detectors for the kind of
+ * work it involves. A reading session tolerates long stretches without input
+ * and looking away from the camera; a coding session usually does not.
+ *
+ * CUSTOMIZABLE: Adjust the preset values below. `standard` keeps the
+ * detector defaults used before profiles existed, plus a short reading allowance.
+ */
+
+import { DISTRACTION_THRESHOLDS } from './prompts';
+import type { Destination, SensitivityProfile, SensitivityThresholds } from '../types';
+
+export const SENSITIVITY_PRESETS: Record<Exclude<SensitivityProfile, 'custom'>, SensitivityThresholds> = {
+  relaxed: {
+    tabSwitchGraceMs: 30 * 1000,
+    idleThresholdMs: 5 * 60 * 1000,
+    readingAllowanceMs: 10 * 60 * 1000,
+    cameraAbsenceThresholdMs: DISTRACTION_THRESHOLDS.CAMERA_ABSENCE_THRESHOLD,
+    screenshotIntervalMs: 2 * DISTRACTION_THRESHOLDS.SCREENSHOT_INTERVAL,
+  },
+  standard: {
+    tabSwitchGraceMs: 5 * 1000,
+    idleThresholdMs: 90 * 1000,
+    readingAllowanceMs: 3 * 60 * 1000,
+    cameraAbsenceThresholdMs: 0, // Flag on the first analysis that shows a camera issue
+    screenshotIntervalMs: DISTRACTION_THRESHOLDS.SCREENSHOT_INTERVAL,
+  },
+  strict: {
+    tabSwitchGraceMs: 3 * 1000,
+    idleThresholdMs: 60 * 1000,
+    readingAllowanceMs: 0, // Reading breaks count like any other pause
+    cameraAbsenceThresholdMs: 0,
+    screenshotIntervalMs: DISTRACTION_THRESHOLDS.SCREENSHOT_INTERVAL / 2,
+  },
+};
+
+export const SENSITIVITY_PROFILE_DESCRIPTIONS: Record<SensitivityProfile, string> = {
+  relaxed: 'Reading or thinking away from the keyboard - long idle and camera allowances',
+  standard: 'Balanced defaults for most desk work',
+  strict: 'Short allowances and frequent checks for tasks that need the screen',
+  custom: 'Your own values for each threshold',
+};
+
+// Lower bounds keep custom values from hammering the vision model or firing instantly
+export const SENSITIVITY_MINIMUMS: SensitivityThresholds = {
+  tabSwitchGraceMs: 1000,
+  idleThresholdMs: 15 * 1000,
+  readingAllowanceMs: 0,
+  cameraAbsenceThresholdMs: 0,
+  screenshotIntervalMs: 15 * 1000,
+};
+
+/**
+ * Resolve the thresholds a destination's profile stands for
+ * Custom profiles fall back to `standard` for any value they leave out.
+ */
+export const resolveSensitivityThresholds = (
+  destination?: Pick<Destination, 'sensitivity_profile' | 'sensitivity_thresholds'> | null
+): SensitivityThresholds => {
+  const profile = destination?.sensitivity_profile || 'standard';
+
+  if (profile !== 'custom') {
+    return SENSITIVITY_PRESETS[profile] || SENSITIVITY_PRESETS.standard;
+  }
+
+  const custom = destination?.sensitivity_thresholds || {};
+  const resolved = { ...SENSITIVITY_PRESETS.standard };
+
+  (Object.keys(resolved) as (keyof SensitivityThresholds)[]).forEach(key => {
+    const value = custom[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      resolved[key] = Math.max(SENSITIVITY_MINIMUMS[key], value);
+    }
+  });
+
+  return resolved;
+};
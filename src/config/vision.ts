@@ -0,0 +1,54 @@
+/**
+ * Vision Model Configuration
+ *
+ * Selects which vision model backs screenshot and camera analysis.
+ * Set these in your .env file:
+ *
+ * - VITE_VISION_PROVIDER: 'gemini' (default), 'local' or 'mock'
+ * - VITE_LOCAL_VISION_URL: Base URL of a local model server (e.g. http://localhost:11434)
+ * - VITE_LOCAL_VISION_API: 'openai' for OpenAI-compatible servers, 'ollama' for Ollama
+ * - VITE_LOCAL_VISION_MODEL: Model name served by the local server (e.g. llava)
+ * - VITE_LOCAL_VISION_API_KEY: Optional bearer token for the local server
+ */
+
+export type VisionProviderName = 'gemini' | 'local' | 'mock';
+
+export type LocalVisionApi = 'openai' | 'ollama';
+
+export interface VisionProviderConfig {
+  provider: VisionProviderName;
+  gemini: {
+    apiKey?: string;
+    model: string;
+  };
+  local: {
+    baseUrl: string;
+    api: LocalVisionApi;
+    model: string;
+    apiKey?: string;
+  };
+  // Shared generation settings - low temperature keeps analysis consistent
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+const parseProviderName = (value: string | undefined): VisionProviderName => {
+  if (value === 'local' || value === 'mock') return value;
+  return 'gemini';
+};
+
+export const VISION_PROVIDER_CONFIG: VisionProviderConfig = {
+  provider: parseProviderName(import.meta.env.VITE_VISION_PROVIDER),
+  gemini: {
+    apiKey: import.meta.env.VITE_GEMINI_API_KEY,
+    model: 'gemini-2.0-flash-exp',
+  },
+  local: {
+    baseUrl: (import.meta.env.VITE_LOCAL_VISION_URL || 'http://localhost:11434').replace(/\/+$/, ''),
+    api: import.meta.env.VITE_LOCAL_VISION_API === 'openai' ? 'openai' : 'ollama',
+    model: import.meta.env.VITE_LOCAL_VISION_MODEL || 'llava',
+    apiKey: import.meta.env.VITE_LOCAL_VISION_API_KEY,
+  },
+  temperature: 0.1,
+  maxOutputTokens: 1000,
+};
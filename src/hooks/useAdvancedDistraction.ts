@@ -3,24 +3,64 @@
  * 
  * This hook implements comprehensive distraction detection using:
  * 1. Tab switching detection via Page Visibility API
- * 2. Combined screenshot + camera analysis every 60 seconds
- * 3. URL blacklist checking (independent)
- * 4. Activity and idle monitoring
+ * 2. Combined screenshot + camera analysis every 60 seconds (skipped when the screen is unchanged)
+ * 3. URL checking against the user's site rules, the destination's apps, then the default lists
+ *    (other tabs' URLs arrive from the companion browser extension when it is installed)
+ * 4. Activity and idle monitoring (typing bursts, pointer gestures, scrolling, window focus and
+ *    media playback, with a reading allowance from the destination's profile)
  * 
- * All detection methods work together to provide comprehensive distraction monitoring.
- * Detection results are stored in Supabase regardless of whether distraction is detected.
+ * Detectors do not decide on their own: each reports observations to the fusion engine
+ * (utils/distractionFusion), whose weighted, debounced verdict drives the UI and the
+ * distraction events recorded for the voyage.
+ * Thresholds come from the destination's sensitivity profile, read when the voyage starts.
+ * Monitoring is suspended while the voyage is paused or the user is exploring.
+ * Detection results are stored in Supabase regardless of whether distraction is detected,
+ * along with the raw URL, idle, response and monitoring signals needed to replay the voyage.
+ * Grace, debounce, idle and timeout rules come from utils/detectionTiming, shared with the replay.
  */
 
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { useVoyageStore } from '../stores/voyageStore';
 import { useUserStore } from '../stores/userStore';
-import { GeminiService } from '../services/GeminiService';
+import { GeminiService, type ScreenshotAnalysisResult } from '../services/GeminiService';
 import { DetectionResultService } from '../services/DetectionResultService';
+import { SiteRuleService } from '../services/SiteRuleService';
+import { ExtensionBridgeService, type ExtensionTabEvent } from '../services/ExtensionBridgeService';
+import { ScreenshotService, type ScreenSharingStatus } from '../services/ScreenshotService';
+import { useSiteRuleStore } from '../stores/siteRuleStore';
+import { resolveSensitivityThresholds, SENSITIVITY_MINIMUMS } from '../config/sensitivity';
+import { getRedactionPromptNote } from '../config/privacy';
+import { usePrivacyStore } from '../stores/privacyStore';
+import { URL_VERDICT_CONFIDENCE, type ObservationSource } from '../config/fusion';
 import {
-  DISTRACTION_BLACKLIST,
-  PRODUCTIVITY_WHITELIST
-} from '../config/prompts';
-import type { Destination, DistractionDetectionEvent } from '../types';
+  fuseObservations,
+  hasCameraIssue,
+  visionObservations,
+  INITIAL_FUSED_STATE,
+  type DetectorObservation,
+  type FusedDistractionState,
+  type VisionVerdict
+} from '../utils/distractionFusion';
+import {
+  assessActivity,
+  createActivityModel,
+  getActivityCadence,
+  isReadingLike,
+  recordActivityInput,
+  type ActivityInput,
+  type ActivityModelState,
+  type ActivityStatus
+} from '../utils/activityModel';
+import {
+  fusionRecheckAt,
+  fusionTransition,
+  idleObservation,
+  tabGraceEndsAt,
+  tabObservation,
+  tabReturnOutcome
+} from '../utils/detectionTiming';
+import type { StoredTraceSignal } from '../utils/detectionReplay';
+import type { Destination, DistractionDetectionEvent, DistractionSource, SensitivityThresholds } from '../types';
 
 interface UseAdvancedDistractionProps {
   isExploring?: boolean;
@@ -28,38 +68,6 @@ interface UseAdvancedDistractionProps {
   cameraStream?: MediaStream | null;
 }
 
-// Enhanced distraction type mapping
-const ENHANCED_DISTRACTION_MAPPING = {
-  // Social media domains
-  'facebook.com': 'social_media',
-  'twitter.com': 'social_media',
-  'x.com': 'social_media',
-  'instagram.com': 'social_media',
-  'tiktok.com': 'social_media',
-  'linkedin.com/feed': 'social_media',
-  'reddit.com': 'social_media',
-
-  // Entertainment
-  'youtube.com/watch': 'entertainment',
-  'netflix.com': 'entertainment',
-  'hulu.com': 'entertainment',
-  'twitch.tv': 'entertainment',
-  'spotify.com': 'entertainment',
-
-  // Shopping
-  'amazon.com': 'shopping',
-  'ebay.com': 'shopping',
-  'aliexpress.com': 'shopping',
-  'etsy.com': 'shopping',
-
-  // News
-  'cnn.com': 'news_browsing',
-  'bbc.com': 'news_browsing',
-  'news.google.com': 'news_browsing',
-  'reuters.com': 'news_browsing',
-  'nytimes.com': 'news_browsing',
-};
-
 // Tab switching detection state
 interface TabSwitchDetectionState {
   isDistracted: boolean;
@@ -77,13 +85,28 @@ interface CombinedDetectionState {
   lastCameraAnalysis: unknown;
   lastScreenshotAnalysis: unknown;
   isActive: boolean;
+  skippedAnalyses: number; // Captures not sent to the model because nothing changed
 }
 
+// How close an extension tab report must be to a visibility change to explain it
+const EXTENSION_EVENT_WINDOW_MS = 2000;
+
+// How often the activity model is checked for idleness
+const IDLE_CHECK_INTERVAL_MS = 5000;
+
+// Media element events that can start or stop playback
+const MEDIA_EVENTS = ['play', 'pause', 'ended', 'volumechange'];
+
+// Audible video or audio on the page (the muted camera preview does not count)
+const isPageMediaPlaying = () =>
+  Array.from(document.querySelectorAll<HTMLMediaElement>('video, audio'))
+    .some(media => !media.paused && !media.ended && !media.muted && media.volume > 0);
+
 interface UrlDetectionState {
   isDistracted: boolean;
   startTime: number | null;
   currentUrl: string;
-  distractionType: 'blacklisted_content' | 'irrelevant_browsing' | null;
+  distractionType: DistractionDetectionEvent['type'] | null;
 }
 
 export const useAdvancedDistraction = ({
@@ -92,14 +115,25 @@ export const useAdvancedDistraction = ({
   cameraStream = null
 }: UseAdvancedDistractionProps) => {
 
-  const hasTriggeredDistractionRef = useRef(false);
-
-  const { isVoyageActive, recordDistraction, currentVoyage } = useVoyageStore(state => ({
+  // Only the voyage's id: the voyage object is replaced mid-voyage (e.g. contract weather),
+  // and depending on it would restart every detector
+  const { isVoyageActive: isVoyageInProgress, isPaused, recordDistraction, resolveDistraction, voyageId } = useVoyageStore(state => ({
     isVoyageActive: state.isVoyageActive,
+    isPaused: state.isPaused,
     recordDistraction: state.recordDistraction,
-    currentVoyage: state.currentVoyage,
+    resolveDistraction: state.resolveDistraction,
+    voyageId: state.currentVoyage?.id,
   }));
-  const { user } = useUserStore();
+  // A paused voyage is treated as inactive by every detector
+  const isVoyageActive = isVoyageInProgress && !isPaused;
+  const userId = useUserStore(state => state.user?.id);
+  const lighthouseGoal = useUserStore(state => state.user?.lighthouse_goal);
+  const siteRules = useSiteRuleStore(state => state.rules);
+
+  // Sensitivity thresholds are fixed for the whole voyage once it starts
+  const [thresholds, setThresholds] = useState<SensitivityThresholds>(() =>
+    resolveSensitivityThresholds(currentDestination)
+  );
 
   // Tab switching detection state
   const [tabSwitchState, setTabSwitchState] = useState<TabSwitchDetectionState>({
@@ -117,7 +151,8 @@ export const useAdvancedDistraction = ({
     error: null,
     lastCameraAnalysis: null,
     lastScreenshotAnalysis: null,
-    isActive: false
+    isActive: false,
+    skippedAnalyses: 0
   });
 
   const [urlState, setUrlState] = useState<UrlDetectionState>({
@@ -127,6 +162,16 @@ export const useAdvancedDistraction = ({
     distractionType: null
   });
 
+  // Last active tab reported by the companion extension
+  const [extensionTab, setExtensionTab] = useState<ExtensionTabEvent | null>(null);
+
+  // Shared screens and windows, and whether one was lost mid-voyage
+  const [screenSharing, setScreenSharing] = useState<ScreenSharingStatus>(() => ScreenshotService.getSharingStatus());
+
+  // Fused verdict over the latest observation from every detector
+  const [fusedState, setFusedState] = useState<FusedDistractionState>(INITIAL_FUSED_STATE);
+  const observationsRef = useRef(new Map<ObservationSource, DetectorObservation>());
+
   // Combined state
   const [isMonitoring, setIsMonitoring] = useState(false);
 
@@ -139,16 +184,26 @@ export const useAdvancedDistraction = ({
   const isExploringRef = useRef(isExploring);
   const isVoyageActiveRef = useRef(isVoyageActive);
   const destinationRef = useRef(currentDestination);
+  const siteRulesRef = useRef(siteRules);
+  const thresholdsRef = useRef(thresholds);
+  const cameraIssueSinceRef = useRef<number | null>(null);
+  const lastUsableAnalysisRef = useRef<{ analysis: ScreenshotAnalysisResult; distractionDetected: boolean } | null>(null);
   const lastUrlRef = useRef(window.location.href);
-  const lastActivityTime = useRef<number>(Date.now());
-  const idleTimeoutRef = useRef<NodeJS.Timeout>();
+  const lastExtensionUrlRef = useRef<string | null>(null);
+  const lastExtensionEventAtRef = useRef(0);
+  const activityModelRef = useRef(createActivityModel(Date.now()));
+  const extensionAudibleRef = useRef(false);
+  const idleCheckInterval = useRef<NodeJS.Timeout>();
+  const [activityStatus, setActivityStatus] = useState<ActivityStatus>('active');
 
   // Sync refs with props
   useEffect(() => {
     isExploringRef.current = isExploring;
     isVoyageActiveRef.current = isVoyageActive;
     destinationRef.current = currentDestination;
-  }, [isExploring, isVoyageActive, currentDestination]);
+    siteRulesRef.current = siteRules;
+    thresholdsRef.current = thresholds;
+  }, [isExploring, isVoyageActive, currentDestination, siteRules, thresholds]);
 
   // Debug logging function - memoized to prevent infinite loops
   const debugLog = useCallback((category: string, message: string, data?: any) => {
@@ -157,6 +212,75 @@ export const useAdvancedDistraction = ({
     }
   }, []); // Empty dependency array to prevent recreation
 
+  // Read the destination's sensitivity profile when a voyage starts
+  useEffect(() => {
+    if (!voyageId) return;
+
+    const voyageThresholds = resolveSensitivityThresholds(destinationRef.current);
+    debugLog('SYSTEM', 'Sensitivity thresholds for voyage', {
+      profile: destinationRef.current?.sensitivity_profile || 'standard',
+      ...voyageThresholds
+    });
+    setThresholds(voyageThresholds);
+    cameraIssueSinceRef.current = null;
+    lastUsableAnalysisRef.current = null;
+  }, [voyageId, debugLog]);
+
+  // Re-run fusion over the current observations
+  const refuse = useCallback(() => {
+    setFusedState(prev => fuseObservations(Array.from(observationsRef.current.values()), prev, Date.now()));
+  }, []);
+
+  // Report a detector's latest opinion to the fusion engine
+  const observe = useCallback((observation: DetectorObservation) => {
+    observationsRef.current.set(observation.source, observation);
+    refuse();
+  }, [refuse]);
+
+  // Withdraw a detector's opinion (it no longer has one)
+  const forget = useCallback((source: ObservationSource) => {
+    if (observationsRef.current.delete(source)) refuse();
+  }, [refuse]);
+
+  // Keep a raw signal for detection replay
+  const recordSignal = useCallback((signal: StoredTraceSignal) => {
+    const voyage = useVoyageStore.getState().currentVoyage;
+    const signedIn = useUserStore.getState().user;
+    if (voyage && signedIn) DetectionResultService.storeTraceSignal(voyage.id, signedIn.id, signal);
+  }, []);
+
+  // Only stretches long enough to be idle under some threshold are worth replaying
+  const recordQuietStretch = useCallback((model: ActivityModelState, until: number) => {
+    if (model.mediaPlaying || until - model.lastInputAt < SENSITIVITY_MINIMUMS.idleThresholdMs) return;
+    recordSignal({ kind: 'idle', at: model.lastInputAt, until, reading: isReadingLike(model) });
+  }, [recordSignal]);
+
+  // Feed one input to the activity model
+  const recordInput = useCallback((input: ActivityInput) => {
+    const previous = activityModelRef.current;
+    activityModelRef.current = recordActivityInput(previous, input);
+
+    const { lastInputAt } = activityModelRef.current;
+    if (lastInputAt !== previous.lastInputAt) recordQuietStretch(previous, lastInputAt);
+  }, [recordQuietStretch]);
+
+  // Media playback on the page, or in the active tab as reported by the extension
+  const handleMediaChange = useCallback(() => {
+    const previous = activityModelRef.current;
+    recordInput({ kind: 'media', at: Date.now(), playing: isPageMediaPlaying() || extensionAudibleRef.current });
+    if (activityModelRef.current.lastInputAt === previous.lastInputAt) return;
+
+    debugLog('ACTIVITY', `Media ${activityModelRef.current.mediaPlaying ? 'playing' : 'stopped'}`);
+    if (observationsRef.current.get('idle')?.distracted) forget('idle');
+    setActivityStatus('active');
+  }, [recordInput, forget, debugLog]);
+
+  // With the extension connected, a tab switch it has already classified is not also a blind tab_switch
+  const isTabSwitchCoveredByExtension = useCallback((switchedAt: number) =>
+    ExtensionBridgeService.isConnected() &&
+    lastExtensionEventAtRef.current >= switchedAt - EXTENSION_EVENT_WINDOW_MS,
+  []);
+
   // Tab switching detection using Page Visibility API
   const handleVisibilityChange = useCallback(() => {
     const shouldMonitor = isVoyageActive && !isExploringRef.current;
@@ -174,10 +298,10 @@ export const useAdvancedDistraction = ({
     });
 
     // Store tab switch detection result regardless of distraction
-    if (currentVoyage && user) {
+    if (voyageId && userId) {
       DetectionResultService.storeTabSwitchDetection({
-        voyageId: currentVoyage.id,
-        userId: user.id,
+        voyageId,
+        userId,
         detected: isHidden,
         visibilityState: document.visibilityState,
         timestamp: new Date(currentTime),
@@ -195,19 +319,19 @@ export const useAdvancedDistraction = ({
         isTabHidden: true
       }));
 
-      // Set timeout for distraction detection (5 seconds)
+      // Set timeout for distraction detection (tab switch grace period)
+      const graceMs = thresholdsRef.current.tabSwitchGraceMs;
       distractionTimeoutRef.current = setTimeout(() => {
+        if (isTabSwitchCoveredByExtension(startTime)) {
+          debugLog('TAB_SWITCH', 'Extension classified the new tab - skipping tab switch distraction');
+          return;
+        }
+
         setTabSwitchState(prev => {
           if (prev.isTabHidden && !prev.isDistracted) {
-            debugLog('TAB_SWITCH', '🚨 DISTRACTION TRIGGERED - user away for 5+ seconds');
+            debugLog('TAB_SWITCH', `🚨 DISTRACTION TRIGGERED - user away for ${graceMs / 1000}+ seconds`);
 
-            // Record distraction
-            setTimeout(() => {
-              recordDistraction({
-                type: 'tab_switch',
-                timestamp: startTime,
-              });
-            }, 0);
+            setTimeout(() => observe(tabObservation(startTime, 'tab hidden')), 0);
 
             return {
               ...prev,
@@ -216,7 +340,7 @@ export const useAdvancedDistraction = ({
           }
           return prev;
         });
-      }, 5000);
+      }, tabGraceEndsAt(startTime, thresholdsRef.current) - startTime);
     } else {
       // Tab became visible - user returned
       debugLog('TAB_SWITCH', 'User returned to tab', {
@@ -227,11 +351,11 @@ export const useAdvancedDistraction = ({
       });
 
       // Store return-to-tab detection result
-      if (currentVoyage && user && tabSwitchState.startTime) {
+      if (voyageId && userId && tabSwitchState.startTime) {
         const duration = currentTime - tabSwitchState.startTime;
         DetectionResultService.storeTabSwitchDetection({
-          voyageId: currentVoyage.id,
-          userId: user.id,
+          voyageId,
+          userId,
           detected: false, // User returned
           durationMs: duration,
           visibilityState: document.visibilityState,
@@ -247,42 +371,30 @@ export const useAdvancedDistraction = ({
 
       // Handle distraction completion
       setTabSwitchState(prev => {
-        if (prev.startTime) {
-          const duration = Date.now() - prev.startTime;
-
-          if (duration >= 5000 && !hasTriggeredDistractionRef.current) {
-            hasTriggeredDistractionRef.current = true;
-            debugLog('TAB_SWITCH', '🚨 DISTRACTION TRIGGERED on return - user was away long enough', {
-              duration: `${Math.round(duration / 1000)} seconds`,
-              wasTriggered: prev.isDistracted
-            });
-
-            // Record the distraction event
-            setTimeout(() => {
-              recordDistraction({
-                type: 'tab_switch',
-                timestamp: prev.startTime!,
-                duration,
-              });
-            }, 0);
+        const hiddenSince = prev.startTime;
+        const duration = hiddenSince ? currentTime - hiddenSince : 0;
+        const outcome = hiddenSince
+          ? tabReturnOutcome(hiddenSince, prev.isDistracted, currentTime, thresholdsRef.current)
+          : prev.isDistracted ? 'keep' : 'clear';
+
+        if (hiddenSince && outcome === 'trigger' && !isTabSwitchCoveredByExtension(hiddenSince)) {
+          debugLog('TAB_SWITCH', '🚨 DISTRACTION TRIGGERED on return - user was away long enough', {
+            duration: `${Math.round(duration / 1000)} seconds`
+          });
 
-            // Return the distracted state so the UI can react
-            debugLog('TAB_SWITCH', '🎤 Setting distraction state for voice alert processing');
-            return {
-              ...prev,
-              isDistracted: true,
-              isTabHidden: false
-            };
-          }
-          else if (duration < 5000) {
-            debugLog('TAB_SWITCH', 'User returned quickly - no distraction triggered', {
-              duration: `${Math.round(duration / 1000)} seconds`
-            });
-          }
+          setTimeout(() => observe(tabObservation(hiddenSince, `away ${Math.round(duration / 1000)}s`)), 0);
+
+          // Return the distracted state so the UI can react
+          debugLog('TAB_SWITCH', '🎤 Setting distraction state for voice alert processing');
+          return {
+            ...prev,
+            isDistracted: true,
+            isTabHidden: false
+          };
         }
 
         // If already distracted, preserve the distracted state when returning to tab
-        if (prev.isDistracted) {
+        if (outcome === 'keep') {
           debugLog('TAB_SWITCH', 'Preserving existing distraction state on return');
           return {
             ...prev,
@@ -290,7 +402,14 @@ export const useAdvancedDistraction = ({
           };
         }
 
+        if (hiddenSince && outcome === 'clear') {
+          debugLog('TAB_SWITCH', 'User returned quickly - no distraction triggered', {
+            duration: `${Math.round(duration / 1000)} seconds`
+          });
+        }
+
         // Only clear distraction state for quick returns with no existing distraction
+        setTimeout(() => forget('tab_visibility'), 0);
         return {
           ...prev,
           isDistracted: false,
@@ -299,8 +418,8 @@ export const useAdvancedDistraction = ({
         };
       });
 
-      // Reset activity tracking
-      lastActivityTime.current = Date.now();
+      // Coming back to the tab counts as input
+      recordInput({ kind: 'focus', at: Date.now(), focused: true });
 
       // Check URL when returning to tab (in case user navigated while away)
       setTimeout(() => {
@@ -308,7 +427,93 @@ export const useAdvancedDistraction = ({
         checkUrlChange();
       }, 100);
     }
-  }, [isVoyageActive, recordDistraction, debugLog, currentVoyage, user]);
+  }, [isVoyageActive, observe, forget, recordInput, debugLog, voyageId, userId, isTabSwitchCoveredByExtension]);
+
+  // Classify a URL (the page's own, or a tab reported by the extension) and update URL state
+  const applyUrlEvaluation = useCallback((url: string, source: Extract<DistractionSource, 'url' | 'browser_extension'>) => {
+    // User rules first, then the destination's related apps, then the global defaults
+    const evaluation = SiteRuleService.evaluateUrl(
+      url,
+      siteRulesRef.current,
+      destinationRef.current?.related_apps || []
+    );
+    debugLog('URL', 'URL evaluated', { ...evaluation, reportedBy: source });
+
+    const distractionType: DistractionDetectionEvent['type'] | null =
+      evaluation.verdict === 'distracting' ? evaluation.category || 'irrelevant_browsing' : null;
+    const isTaskRelated = evaluation.verdict === 'allowed';
+    const confidence = URL_VERDICT_CONFIDENCE[evaluation.source];
+
+    // Every verdict goes into the trace, work sites included; the URL itself is not kept
+    recordSignal({
+      kind: 'url',
+      at: Date.now(),
+      source,
+      distracted: !isTaskRelated,
+      confidence,
+      type: isTaskRelated ? undefined : distractionType || 'irrelevant_browsing',
+      detail: evaluation.source
+    });
+
+    if (distractionType) {
+      debugLog('URL', 'Distracting site detected', { url, source, type: distractionType });
+      setUrlState(prev => ({
+        ...prev,
+        isDistracted: true,
+        startTime: Date.now(),
+        currentUrl: url,
+        distractionType
+      }));
+
+      observe({
+        source,
+        distracted: true,
+        confidence,
+        timestamp: Date.now(),
+        type: distractionType,
+        detail: `${evaluation.source}: ${url}`,
+      });
+    } else if (!isTaskRelated) {
+      // Not covered by any rule or list - treat as unrelated to the task
+      debugLog('URL', 'Potentially irrelevant site detected', { url, source });
+      setUrlState(prev => ({
+        ...prev,
+        isDistracted: true,
+        startTime: Date.now(),
+        currentUrl: url,
+        distractionType: 'irrelevant_browsing'
+      }));
+
+      observe({
+        source,
+        distracted: true,
+        confidence,
+        timestamp: Date.now(),
+        type: 'irrelevant_browsing',
+        detail: `unrecognized: ${url}`,
+      });
+    } else {
+      // User returned to task-related site
+      observe({
+        source,
+        distracted: false,
+        confidence,
+        timestamp: Date.now(),
+        detail: `${evaluation.source}: ${url}`,
+      });
+      setUrlState(prev => {
+        if (!prev.isDistracted) return { ...prev, currentUrl: url };
+        debugLog('URL', 'Clearing distraction due to return to task', { url, source });
+        return {
+          ...prev,
+          isDistracted: false,
+          startTime: null,
+          currentUrl: url,
+          distractionType: null
+        };
+      });
+    }
+  }, [observe, recordSignal, debugLog]);
 
   // URL checking for blacklisted/irrelevant content
   const checkUrlChange = useCallback(() => {
@@ -322,115 +527,104 @@ export const useAdvancedDistraction = ({
     debugLog('URL', 'URL changed detected', { from: previousUrl, to: currentUrl });
     lastUrlRef.current = currentUrl;
 
-    // Enhanced URL checking with specific distraction types
-    let distractionType: DistractionDetectionEvent['type'] | null = null;
+    applyUrlEvaluation(currentUrl, 'url');
+  }, [isVoyageActive, applyUrlEvaluation, debugLog]);
 
-    // Check for specific distraction types
-    for (const [domain, type] of Object.entries(ENHANCED_DISTRACTION_MAPPING)) {
-      if (currentUrl.toLowerCase().includes(domain.toLowerCase())) {
-        distractionType = type as DistractionDetectionEvent['type'];
-        break;
-      }
-    }
+  // Active-tab reports from the companion browser extension
+  const handleExtensionTabEvent = useCallback((event: ExtensionTabEvent) => {
+    if (!isVoyageActive || isExploringRef.current) return;
 
-    // Fallback to general blacklist check
-    if (!distractionType) {
-      const isBlacklisted = DISTRACTION_BLACKLIST.some(item =>
-        currentUrl.toLowerCase().includes(item.toLowerCase())
-      );
+    setExtensionTab(event);
 
-      if (isBlacklisted) {
-        distractionType = 'irrelevant_browsing';
-      }
+    // Another application's sound is not visible to the extension
+    extensionAudibleRef.current = event.focused && Boolean(event.audible);
+    handleMediaChange();
+
+    if (!event.focused || !event.url) {
+      // Another application has focus - the extension cannot see what it is
+      debugLog('EXTENSION', 'Browser lost focus', event);
+      return;
     }
 
-    // Check if task-related (simplified check)
-    const isTaskRelated = destinationRef.current?.related_apps?.some((app: string) =>
-      currentUrl.toLowerCase().includes(app.toLowerCase())
-    ) || false;
+    if (event.url === lastExtensionUrlRef.current) return;
+    lastExtensionUrlRef.current = event.url;
+    lastExtensionEventAtRef.current = Date.now();
 
-    if (distractionType) {
-      debugLog('URL', 'Distracting site detected', { url: currentUrl, type: distractionType });
-      setUrlState(prev => ({
-        ...prev,
-        isDistracted: true,
-        startTime: Date.now(),
-        currentUrl,
-        distractionType: distractionType as 'blacklisted_content' | 'irrelevant_browsing'
-      }));
+    debugLog('EXTENSION', 'Active tab changed', { url: event.url, title: event.title, type: event.type });
 
-      recordDistraction({
-        type: distractionType,
+    if (ExtensionBridgeService.isAppUrl(event.url)) {
+      // Back on MindBoat - counts as a return to the task
+      recordSignal({ kind: 'url', at: Date.now(), source: 'browser_extension', distracted: false, confidence: 1, detail: 'back on MindBoat' });
+      observe({
+        source: 'browser_extension',
+        distracted: false,
+        confidence: 1,
         timestamp: Date.now(),
+        detail: 'back on MindBoat',
       });
-    } else if (!isTaskRelated) {
-      // Check if it's an irrelevant site (not blacklisted but not related to task)
-      const isProductivitySite = PRODUCTIVITY_WHITELIST.some(item =>
-        currentUrl.toLowerCase().includes(item.toLowerCase())
+      setUrlState(prev => prev.isDistracted
+        ? { ...prev, isDistracted: false, startTime: null, currentUrl: event.url!, distractionType: null }
+        : prev
       );
-
-      if (!isProductivitySite) {
-        debugLog('URL', 'Potentially irrelevant site detected', { url: currentUrl });
-        setUrlState(prev => ({
-          ...prev,
-          isDistracted: true,
-          startTime: Date.now(),
-          currentUrl,
-          distractionType: 'irrelevant_content'
-        }));
-
-        recordDistraction({
-          type: 'irrelevant_browsing',
-          timestamp: Date.now(),
-        });
-      }
-    } else if (isTaskRelated && urlState.isDistracted) {
-      // User returned to task-related site
-      debugLog('URL', 'Clearing distraction due to return to task');
-      setUrlState(prev => ({
-        ...prev,
-        isDistracted: false,
-        startTime: null,
-        distractionType: null
-      }));
+      return;
     }
-  }, [isVoyageActive, currentDestination, recordDistraction, debugLog]);
 
-  // Activity monitoring
-  const handleActivity = useCallback(() => {
+    applyUrlEvaluation(event.url, 'browser_extension');
+  }, [isVoyageActive, applyUrlEvaluation, observe, recordSignal, handleMediaChange, debugLog]);
+
+  // Activity monitoring - raw events go through the activity model, which ignores wiggles and stray keys
+  const handleActivity = useCallback((event: Event) => {
     const shouldMonitor = isVoyageActive && !isExploringRef.current;
     if (!shouldMonitor) return;
 
-    lastActivityTime.current = Date.now();
+    const at = Date.now();
+    let input: ActivityInput;
+    switch (event.type) {
+      case 'mousemove':
+        input = { kind: 'pointer', at, x: (event as MouseEvent).clientX, y: (event as MouseEvent).clientY };
+        break;
+      case 'keydown':
+        input = { kind: 'key', at, key: (event as KeyboardEvent).key };
+        break;
+      case 'focus':
+      case 'blur':
+        input = { kind: 'focus', at, focused: event.type === 'focus' };
+        break;
+      case 'scroll':
+        input = { kind: 'scroll', at };
+        break;
+      default:
+        input = { kind: 'click', at };
+    }
+
+    const previous = activityModelRef.current;
+    recordInput(input);
+    if (activityModelRef.current.lastInputAt === previous.lastInputAt) return;
 
     // Check URL on activity to catch any navigation
     checkUrlChange();
 
-    // Clear idle timeout if user becomes active
-    if (idleTimeoutRef.current) {
-      clearTimeout(idleTimeoutRef.current);
+    // Activity ends an idle stretch
+    if (observationsRef.current.get('idle')?.distracted) {
+      debugLog('ACTIVITY', 'Activity resumed after idle', { kind: activityModelRef.current.lastInputKind });
+      forget('idle');
     }
+    setActivityStatus('active');
+  }, [isVoyageActive, recordInput, checkUrlChange, forget, debugLog]);
 
-    // Set new idle timeout (90 seconds)
-    idleTimeoutRef.current = setTimeout(() => {
-      const timeSinceActivity = Date.now() - lastActivityTime.current;
-      if (timeSinceActivity >= 90000 && !combinedState.isDistracted && !tabSwitchState.isDistracted) {
-        debugLog('ACTIVITY', 'Idle distraction triggered after 90s of inactivity');
+  // Idle check against the profile's idle threshold and reading allowance
+  const checkIdle = useCallback(() => {
+    const assessment = assessActivity(activityModelRef.current, Date.now(), thresholdsRef.current);
 
-        // Set as combined distraction for simplicity
-        setCombinedState(prev => ({
-          ...prev,
-          isDistracted: true,
-          startTime: Date.now() - timeSinceActivity
-        }));
+    setActivityStatus(prev => {
+      if (prev !== assessment.status) debugLog('ACTIVITY', `Activity ${assessment.status}`, assessment.reason);
+      return assessment.status;
+    });
 
-        recordDistraction({
-          type: 'idle',
-          timestamp: Date.now() - timeSinceActivity,
-        });
-      }
-    }, 90000);
-  }, [isVoyageActive, checkUrlChange, debugLog]);
+    if (assessment.status === 'idle' && !observationsRef.current.get('idle')?.distracted) {
+      observe(idleObservation(assessment));
+    }
+  }, [observe, debugLog]);
 
   // Combined screenshot + camera analysis with result storage
   const performCombinedAnalysis = useCallback(async () => {
@@ -441,8 +635,23 @@ export const useAdvancedDistraction = ({
     setCombinedState(prev => ({ ...prev, isActive: true }));
 
     try {
-      const { ScreenshotService } = await import('../services/ScreenshotService');
-      if (!ScreenshotService.isPermissionGranted()) {
+      // Redaction settings are read per capture so changes apply mid-voyage
+      const redaction = usePrivacyStore.getState().redaction;
+      // Camera-only analysis sends no screen, so it runs with or without screen sharing
+      const needsScreen = redaction.mode !== 'camera_only';
+
+      // Nothing is analysed until the user re-shares - a partial or black view would mislead the model
+      if (needsScreen && ScreenshotService.getSharingStatus().state === 'lost') {
+        debugLog('COMBINED', 'Screen sharing lost - skipping screenshot analysis');
+        setCombinedState(prev => ({
+          ...prev,
+          isActive: false,
+          error: 'Screen sharing lost'
+        }));
+        return;
+      }
+
+      if (needsScreen && !ScreenshotService.isPermissionGranted()) {
         debugLog('COMBINED', 'Screen sharing not available - skipping screenshot analysis');
         setCombinedState(prev => ({
           ...prev,
@@ -452,39 +661,117 @@ export const useAdvancedDistraction = ({
         return;
       }
 
-      const screenshot = await ScreenshotService.captureScreenshot(cameraStream ?? undefined);
+      const screenshot = await ScreenshotService.captureScreenshot(cameraStream ?? undefined, redaction);
       if (!screenshot) {
         debugLog('COMBINED', 'No screenshot captured');
         return;
       }
 
+      // Skip the model when screen and camera match the last analyzed capture.
+      // A pending camera issue always gets a fresh look so its allowance can run out.
+      const change = ScreenshotService.detectChange(screenshot);
+      const carried = lastUsableAnalysisRef.current;
+      if (!change.changed && carried && cameraIssueSinceRef.current === null) {
+        ScreenshotService.markSkipped();
+        debugLog('COMBINED', 'Screen unchanged - carrying previous verdict forward', change);
+
+        if (voyageId && userId) {
+          await DetectionResultService.storeCombinedDetection({
+            voyageId,
+            userId,
+            analysisResult: carried.analysis,
+            confidenceLevel: carried.analysis.confidenceLevel,
+            distractionDetected: carried.distractionDetected,
+            distractionType: carried.analysis.distractionType,
+            prefilterSkipped: true,
+            screenChangeDistance: change.screenDistance,
+            redaction: screenshot.redaction,
+          });
+        }
+
+        // The carried verdict is still current evidence
+        (['screenshot', 'camera'] as const).forEach(source => {
+          const previous = observationsRef.current.get(source);
+          if (previous) observationsRef.current.set(source, { ...previous, timestamp: Date.now() });
+        });
+        refuse();
+
+        setCombinedState(prev => ({
+          ...prev,
+          lastCheck: Date.now(),
+          skippedAnalyses: prev.skippedAnalyses + 1
+        }));
+        return;
+      }
+      debugLog('COMBINED', 'Sending capture to the vision model', { reason: change.reason, screenDistance: change.screenDistance });
+
       // Perform analysis using the captured screenshot
       const analysis = await GeminiService.analyzeScreenshot(
         screenshot.blob,
-        user?.lighthouse_goal || 'Focus on work',
+        lighthouseGoal || 'Focus on work',
         destinationRef.current?.destination_name || 'Focus task',
-        destinationRef.current?.related_apps || []
+        destinationRef.current?.related_apps || [],
+        getRedactionPromptNote(redaction)
       );
 
-      if (analysis && currentVoyage && user) {
+      if (analysis && voyageId && userId) {
         const currentTime = Date.now();
+        // Only judge what the model was actually shown
+        const screenSent = screenshot.redaction.mode !== 'camera_only';
+        const cameraSent = screenshot.includesCamera;
+        const distractionDetected = (screenSent && !analysis.contentRelevant) ||
+          hasCameraIssue({ ...analysis, screenSent, cameraSent });
 
         // 🔧 STORE DETECTION RESULT REGARDLESS OF DISTRACTION
         await DetectionResultService.storeCombinedDetection({
-          voyageId: currentVoyage.id,
-          userId: user.id,
+          voyageId,
+          userId,
           analysisResult: analysis,
           confidenceLevel: analysis.confidenceLevel,
-          distractionDetected: !analysis.contentRelevant || 
-            (cameraStream && analysis.cameraAnalysis &&
-            (!analysis.cameraAnalysis.personPresent || !analysis.cameraAnalysis.appearsFocused)),
+          distractionDetected,
           distractionType: analysis.distractionType,
+          screenChangeDistance: change.screenDistance,
+          redaction: screenshot.redaction,
         });
 
+        // Unparseable or failed analyses are recorded above but carry no verdict
+        if (!GeminiService.isUsableAnalysis(analysis)) {
+          debugLog('COMBINED', 'Analysis unusable - keeping previous state', {
+            status: analysis.analysisStatus,
+            errors: analysis.analysisErrors
+          });
+          setCombinedState(prev => ({
+            ...prev,
+            isActive: false,
+            error: `Analysis ${analysis.analysisStatus}`
+          }));
+          return;
+        }
+
+        // This capture becomes the baseline for the pre-filter
+        ScreenshotService.markAnalyzed(screenshot);
+        lastUsableAnalysisRef.current = { analysis, distractionDetected };
+
         // Check if distraction detected
-        const isContentIrrelevant = !analysis.contentRelevant;
-        const cameraIssues = cameraStream && analysis.cameraAnalysis &&
-          (!analysis.cameraAnalysis.personPresent || !analysis.cameraAnalysis.appearsFocused);
+        const verdict: VisionVerdict = { ...analysis, screenSent, cameraSent };
+        const isContentIrrelevant = screenSent && !analysis.contentRelevant;
+        const cameraIssueSeen = hasCameraIssue(verdict);
+
+        // Camera issues only count once they outlast the profile's camera allowance
+        if (!cameraIssueSeen) {
+          cameraIssueSinceRef.current = null;
+        } else if (cameraIssueSinceRef.current === null) {
+          cameraIssueSinceRef.current = currentTime;
+        }
+        const observations = visionObservations(
+          verdict,
+          currentTime,
+          cameraIssueSinceRef.current,
+          thresholdsRef.current.cameraAbsenceThresholdMs
+        );
+        observations.forEach(observation => observationsRef.current.set(observation.source, observation));
+        const cameraIssues = observations.some(o => o.source === 'camera' && o.distracted);
+        refuse();
 
         if (isContentIrrelevant || cameraIssues) {
           setCombinedState(prev => {
@@ -495,14 +782,6 @@ export const useAdvancedDistraction = ({
                 cameraAnalysis: analysis.cameraAnalysis
               });
 
-              // Record distraction
-              setTimeout(() => {
-                recordDistraction({
-                  type: cameraIssues ? 'camera_distraction' : 'tab_switch',
-                  timestamp: currentTime,
-                });
-              }, 0);
-
               return {
                 ...prev,
                 isDistracted: true,
@@ -552,7 +831,7 @@ export const useAdvancedDistraction = ({
     } finally {
       setCombinedState(prev => ({ ...prev, isActive: false }));
     }
-  }, [isVoyageActive, cameraStream, currentDestination, recordDistraction, debugLog, currentVoyage, user]);
+  }, [isVoyageActive, cameraStream, currentDestination, refuse, debugLog, voyageId, userId, lighthouseGoal]);
 
   // Set up all monitoring systems
   useEffect(() => {
@@ -564,7 +843,7 @@ export const useAdvancedDistraction = ({
       if (combinedCheckInterval.current) clearInterval(combinedCheckInterval.current);
       if (urlCheckInterval.current) clearInterval(urlCheckInterval.current);
       if (distractionTimeoutRef.current) clearTimeout(distractionTimeoutRef.current);
-      if (idleTimeoutRef.current) clearTimeout(idleTimeoutRef.current);
+      if (idleCheckInterval.current) clearInterval(idleCheckInterval.current);
 
       setTabSwitchState({
         isDistracted: false,
@@ -580,7 +859,8 @@ export const useAdvancedDistraction = ({
         error: null,
         lastCameraAnalysis: null,
         lastScreenshotAnalysis: null,
-        isActive: false
+        isActive: false,
+        skippedAnalyses: 0
       });
 
       setUrlState({
@@ -590,6 +870,9 @@ export const useAdvancedDistraction = ({
         distractionType: null
       });
 
+      observationsRef.current.clear();
+      setFusedState(INITIAL_FUSED_STATE);
+
       debugLog('SYSTEM', 'Monitoring stopped - all detection cleared');
       return;
     }
@@ -601,7 +884,9 @@ export const useAdvancedDistraction = ({
     });
 
     // Initialize activity tracking
-    lastActivityTime.current = Date.now();
+    activityModelRef.current = createActivityModel(Date.now(), document.hasFocus());
+    handleMediaChange();
+    setActivityStatus('active');
     lastUrlRef.current = window.location.href;
 
     // Set up tab switching detection
@@ -611,7 +896,12 @@ export const useAdvancedDistraction = ({
     document.addEventListener('mousemove', handleActivity);
     document.addEventListener('keydown', handleActivity);
     document.addEventListener('click', handleActivity);
-    document.addEventListener('scroll', handleActivity);
+    document.addEventListener('scroll', handleActivity, true); // Capture scrolls inside panels too
+    window.addEventListener('focus', handleActivity);
+    window.addEventListener('blur', handleActivity);
+
+    // Media events do not bubble - listen in the capture phase
+    MEDIA_EVENTS.forEach(type => document.addEventListener(type, handleMediaChange, true));
 
     // Set up URL monitoring
     window.addEventListener('popstate', checkUrlChange);
@@ -620,10 +910,10 @@ export const useAdvancedDistraction = ({
       checkUrlChange();
     }, 5000);
 
-    // Set up combined analysis (every 60 seconds)
+    // Set up combined analysis (profile screenshot interval)
     combinedCheckInterval.current = setInterval(() => {
       performCombinedAnalysis();
-    }, 60000);
+    }, thresholds.screenshotIntervalMs);
 
     // Initial checks
     setTimeout(() => {
@@ -631,22 +921,8 @@ export const useAdvancedDistraction = ({
       checkUrlChange();
     }, 100);
 
-    // Initial idle timeout
-    idleTimeoutRef.current = setTimeout(() => {
-      const timeSinceActivity = Date.now() - lastActivityTime.current;
-      if (timeSinceActivity >= 90000 && !tabSwitchState.isDistracted && !combinedState.isDistracted) {
-        debugLog('ACTIVITY', 'Initial idle timeout triggered');
-        setCombinedState(prev => ({
-          ...prev,
-          isDistracted: true,
-          startTime: Date.now() - timeSinceActivity
-        }));
-        recordDistraction({
-          type: 'idle',
-          timestamp: Date.now() - timeSinceActivity,
-        });
-      }
-    }, 90000);
+    // Idle checks (profile idle threshold plus reading allowance)
+    idleCheckInterval.current = setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
 
     return () => {
       debugLog('SYSTEM', 'Cleaning up all monitoring systems');
@@ -656,24 +932,72 @@ export const useAdvancedDistraction = ({
       document.removeEventListener('mousemove', handleActivity);
       document.removeEventListener('keydown', handleActivity);
       document.removeEventListener('click', handleActivity);
-      document.removeEventListener('scroll', handleActivity);
+      document.removeEventListener('scroll', handleActivity, true);
+      window.removeEventListener('focus', handleActivity);
+      window.removeEventListener('blur', handleActivity);
+      MEDIA_EVENTS.forEach(type => document.removeEventListener(type, handleMediaChange, true));
       window.removeEventListener('popstate', checkUrlChange);
 
       // Clear intervals and timeouts
       if (combinedCheckInterval.current) clearInterval(combinedCheckInterval.current);
       if (urlCheckInterval.current) clearInterval(urlCheckInterval.current);
       if (distractionTimeoutRef.current) clearTimeout(distractionTimeoutRef.current);
-      if (idleTimeoutRef.current) clearTimeout(idleTimeoutRef.current);
+      if (idleCheckInterval.current) clearInterval(idleCheckInterval.current);
+    };
+  }, [isVoyageActive, isExploring, handleVisibilityChange, handleActivity, handleMediaChange, checkIdle, checkUrlChange, performCombinedAnalysis, debugLog, cameraStream, currentDestination, thresholds]);
+
+  // Pauses and exploring go into the trace; the quiet stretch in progress ends with monitoring
+  const wasMonitoringRef = useRef(false);
+  useEffect(() => {
+    if (isMonitoring === wasMonitoringRef.current) return;
+    wasMonitoringRef.current = isMonitoring;
+    if (!isVoyageInProgress) return; // The voyage's end closes the trace
+
+    const at = Date.now();
+    if (!isMonitoring) recordQuietStretch(activityModelRef.current, at);
+    recordSignal({
+      kind: 'monitoring',
+      at,
+      active: isMonitoring,
+      reason: isMonitoring ? null : isPaused ? 'paused' : 'exploring'
+    });
+  }, [isMonitoring, isVoyageInProgress, isPaused, recordSignal, recordQuietStretch]);
+
+  // Ask the companion extension for active-tab reports while monitoring
+  useEffect(() => {
+    if (!isVoyageActive || isExploring) return;
+
+    lastExtensionUrlRef.current = null;
+    ExtensionBridgeService.startReporting();
+    const unsubscribe = ExtensionBridgeService.subscribe(handleExtensionTabEvent);
+
+    return () => {
+      unsubscribe();
+      ExtensionBridgeService.stopReporting();
     };
-  }, [isVoyageActive, isExploring, handleVisibilityChange, handleActivity, checkUrlChange, performCombinedAnalysis, recordDistraction, cameraStream, currentDestination]);
+  }, [isVoyageActive, isExploring, handleExtensionTabEvent]);
+
+  // Follow shared surfaces so a lost screen shows up right away
+  useEffect(() => {
+    setScreenSharing(ScreenshotService.getSharingStatus());
+    return ScreenshotService.subscribeToSharing(status => {
+      if (status.state === 'lost') debugLog('COMBINED', 'Screen sharing lost', status.lost);
+      setScreenSharing(status);
+    });
+  }, [debugLog]);
 
   /**
    * Handle user response to distraction alert
    */
   const handleDistractionResponse = useCallback(async (response: 'return_to_course' | 'exploring') => {
     console.log('[RESPONSE] Handling distraction response', { response });
+    recordSignal({ kind: 'response', at: Date.now(), response });
 
     if (response === 'return_to_course') {
+      // The user's answer outranks every detector: start fusion from a clean slate
+      observationsRef.current.clear();
+      setFusedState(INITIAL_FUSED_STATE);
+
       // Clear all distraction states
       setTabSwitchState(prev => ({
         ...prev,
@@ -695,34 +1019,40 @@ export const useAdvancedDistraction = ({
       }));
     }
 
-    // Record the response if there was an active distraction
-    const activeStartTime = tabSwitchState.startTime || combinedState.startTime || urlState.startTime;
-    if (activeStartTime) {
-      const duration = Date.now() - activeStartTime;
-      setTimeout(() => {
-        recordDistraction({
-          type: getDominantDistractionType(),
-          timestamp: activeStartTime,
-          duration,
-        });
-      }, 0);
-    }
-  }, [recordDistraction, tabSwitchState.startTime, combinedState.startTime, urlState.startTime]);
+    // Close the open distraction event with the user's answer
+    await resolveDistraction(response);
+  }, [resolveDistraction, recordSignal]);
 
-  // Helper function to determine dominant distraction type
-  const getDominantDistractionType = useCallback(() => {
-    if (tabSwitchState.isDistracted) return 'tab_switch';
-    if (urlState.isDistracted) return urlState.distractionType || 'tab_switch';
-    if (combinedState.isDistracted) return 'camera_distraction';
-    return 'tab_switch';
-  }, [tabSwitchState.isDistracted, urlState.isDistracted, urlState.distractionType, combinedState.isDistracted]);
+  // Re-check once a pending state change has waited out its debounce
+  const recheckAt = fusionRecheckAt(fusedState);
+  useEffect(() => {
+    if (recheckAt === null) return;
+
+    const timer = setTimeout(refuse, Math.max(0, recheckAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [recheckAt, refuse]);
+
+  // The fused verdict is the single source of truth for the UI and recorded events
+  const isDistracted = fusedState.isDistracted;
+  const distractionType = fusedState.type || 'tab_switch';
 
-  // 🔧 KEY FIX: Combined distraction state - THIS IS THE CRITICAL PART
-  const isDistracted = tabSwitchState.isDistracted || combinedState.isDistracted || urlState.isDistracted;
-  const distractionType = getDominantDistractionType();
+  // Open an event when fusion turns distracted; one that clears on its own while
+  // monitoring means the user found their way back
+  const wasDistractedRef = useRef(false);
+  useEffect(() => {
+    const transition = fusionTransition(wasDistractedRef.current, fusedState, Date.now());
+    if (transition?.kind === 'open') {
+      debugLog('FUSION', 'Distraction declared', fusedState.explanation);
+      recordDistraction(transition.event);
+    } else if (transition?.kind === 'clear' && isMonitoring) {
+      debugLog('FUSION', 'Distraction cleared', fusedState.explanation);
+      resolveDistraction('return_to_course');
+    }
+    wasDistractedRef.current = isDistracted;
+  }, [isDistracted, fusedState, isMonitoring, recordDistraction, resolveDistraction, debugLog]);
 
   // 🔧 DEBUG: Log distraction state changes (optimized to prevent excessive logging)
-  const prevDistractionStateRef = useRef({ isDistracted: false, distractionType: 'tab_switch' as const });
+  const prevDistractionStateRef = useRef<{ isDistracted: boolean; distractionType: string }>({ isDistracted: false, distractionType: 'tab_switch' });
   useEffect(() => {
     const currentState = { isDistracted, distractionType };
     const prevState = prevDistractionStateRef.current;
@@ -733,34 +1063,50 @@ export const useAdvancedDistraction = ({
       console.log('[DISTRACTION_STATE] 🚨 Distraction state changed', {
         isDistracted,
         distractionType,
-        tabSwitch: tabSwitchState.isDistracted,
-        combined: combinedState.isDistracted,
-        url: urlState.isDistracted,
+        score: fusedState.score,
+        explanation: fusedState.explanation,
         isExploring,
         timestamp: new Date().toISOString()
       });
       prevDistractionStateRef.current = currentState;
     }
-  }, [isDistracted, distractionType, tabSwitchState.isDistracted, combinedState.isDistracted, urlState.isDistracted, isExploring]);
+  }, [isDistracted, distractionType, fusedState.score, fusedState.explanation, isExploring]);
 
   // Memoized diagnostics to prevent unnecessary re-renders
   const diagnostics = useMemo(() => ({
     tabSwitch: tabSwitchState,
     combined: combinedState,
     url: urlState,
+    fusion: fusedState,
     monitoring: isMonitoring,
-    voyageActive: isVoyageActive,
+    voyageActive: isVoyageInProgress,
+    paused: isPaused,
     exploring: isExploring,
     geminiConfigured: GeminiService.isConfigured(),
+    visionProvider: GeminiService.getProviderName(),
+    sensitivity: {
+      profile: currentDestination?.sensitivity_profile || 'standard',
+      ...thresholds
+    },
+    extension: {
+      connected: ExtensionBridgeService.isConnected(),
+      lastTab: extensionTab
+    },
+    activity: {
+      status: activityStatus,
+      ...getActivityCadence(activityModelRef.current, Date.now())
+    },
     cameraAvailable: !!cameraStream,
-    screenSharingAvailable: false // Simplified for performance
-  }), [tabSwitchState, combinedState, urlState, isMonitoring, isVoyageActive, isExploring, cameraStream]);
+    screenSharing
+  }), [screenSharing, tabSwitchState, combinedState, urlState, fusedState, isMonitoring, isVoyageInProgress, isPaused, isExploring, cameraStream, currentDestination, thresholds, extensionTab, activityStatus]);
 
   return {
     isDistracted,
     distractionType,
+    distractionExplanation: fusedState.explanation,
     confidenceLevel: combinedState.confidenceLevel,
     isMonitoring,
+    screenSharing,
     diagnostics,
     handleDistractionResponse
   };
@@ -3,6 +3,8 @@ import { createClient } from '@supabase/supabase-js';
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
+export const isSupabaseConfigured = !!(supabaseUrl && supabaseAnonKey);
+
 // Create a fallback client if environment variables are missing
 let supabase: any;
 
@@ -63,18 +65,21 @@ export type Database = {
         Row: {
           id: string;
           lighthouse_goal: string | null;
+          timezone: string;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id: string;
           lighthouse_goal?: string | null;
+          timezone?: string;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
           lighthouse_goal?: string | null;
+          timezone?: string;
           updated_at?: string;
         };
       };
@@ -88,6 +93,10 @@ export type Database = {
           related_apps: string[];
           color_theme: string;
           created_at: string;
+          sensitivity_profile: 'relaxed' | 'standard' | 'strict' | 'custom';
+          sensitivity_thresholds: Record<string, number> | null;
+          status: 'active' | 'completed' | 'archived';
+          status_changed_at: string | null;
         };
         Insert: {
           id?: string;
@@ -98,6 +107,10 @@ export type Database = {
           related_apps: string[];
           color_theme?: string;
           created_at?: string;
+          sensitivity_profile?: 'relaxed' | 'standard' | 'strict' | 'custom';
+          sensitivity_thresholds?: Record<string, number> | null;
+          status?: 'active' | 'completed' | 'archived';
+          status_changed_at?: string | null;
         };
         Update: {
           id?: string;
@@ -107,6 +120,10 @@ export type Database = {
           description?: string;
           related_apps?: string[];
           color_theme?: string;
+          sensitivity_profile?: 'relaxed' | 'standard' | 'strict' | 'custom';
+          sensitivity_thresholds?: Record<string, number> | null;
+          status?: 'active' | 'completed' | 'archived';
+          status_changed_at?: string | null;
         };
       };
       voyages: {
@@ -119,8 +136,10 @@ export type Database = {
           planned_duration: number | null;
           actual_duration: number | null;
           distraction_count: number;
-          status: 'active' | 'completed' | 'abandoned';
+          status: 'active' | 'paused' | 'completed' | 'abandoned';
           weather_mood: string;
+          total_paused_ms: number | null;
+          last_heartbeat_at: string | null;
           created_at: string;
         };
         Insert: {
@@ -132,8 +151,10 @@ export type Database = {
           planned_duration?: number | null;
           actual_duration?: number | null;
           distraction_count?: number;
-          status?: 'active' | 'completed' | 'abandoned';
+          status?: 'active' | 'paused' | 'completed' | 'abandoned';
           weather_mood?: string;
+          total_paused_ms?: number | null;
+          last_heartbeat_at?: string | null;
           created_at?: string;
         };
         Update: {
@@ -145,8 +166,69 @@ export type Database = {
           planned_duration?: number | null;
           actual_duration?: number | null;
           distraction_count?: number;
-          status?: 'active' | 'completed' | 'abandoned';
+          status?: 'active' | 'paused' | 'completed' | 'abandoned';
           weather_mood?: string;
+          total_paused_ms?: number | null;
+          last_heartbeat_at?: string | null;
+        };
+      };
+      voyage_pauses: {
+        Row: {
+          id: string;
+          voyage_id: string;
+          paused_at: string;
+          resumed_at: string | null;
+          duration_ms: number | null;
+          reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          voyage_id: string;
+          paused_at?: string;
+          resumed_at?: string | null;
+          duration_ms?: number | null;
+          reason?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          voyage_id?: string;
+          paused_at?: string;
+          resumed_at?: string | null;
+          duration_ms?: number | null;
+          reason?: string | null;
+        };
+      };
+      site_rules: {
+        Row: {
+          id: string;
+          user_id: string;
+          pattern: string;
+          rule_type: 'block' | 'allow';
+          category: string | null;
+          note: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          pattern: string;
+          rule_type: 'block' | 'allow';
+          category?: string | null;
+          note?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          pattern?: string;
+          rule_type?: 'block' | 'allow';
+          category?: string | null;
+          note?: string | null;
+          updated_at?: string;
         };
       };
       distraction_events: {
@@ -184,6 +266,13 @@ export type Database = {
           total_focus_time: number;
           voyage_count: number;
           generated_at: string;
+          highlights: string[];
+          pattern_observed: string | null;
+          tomorrow_suggestion: string | null;
+          generation_source: 'llm' | 'fallback' | null;
+          journal_entry: string | null;
+          journal_rating: number | null;
+          journal_updated_at: string | null;
         };
         Insert: {
           id?: string;
@@ -193,6 +282,13 @@ export type Database = {
           total_focus_time: number;
           voyage_count: number;
           generated_at?: string;
+          highlights?: string[];
+          pattern_observed?: string | null;
+          tomorrow_suggestion?: string | null;
+          generation_source?: 'llm' | 'fallback' | null;
+          journal_entry?: string | null;
+          journal_rating?: number | null;
+          journal_updated_at?: string | null;
         };
         Update: {
           id?: string;
@@ -202,6 +298,45 @@ export type Database = {
           total_focus_time?: number;
           voyage_count?: number;
           generated_at?: string;
+          highlights?: string[];
+          pattern_observed?: string | null;
+          tomorrow_suggestion?: string | null;
+          generation_source?: 'llm' | 'fallback' | null;
+          journal_entry?: string | null;
+          journal_rating?: number | null;
+          journal_updated_at?: string | null;
+        };
+      };
+      weekly_reflections: {
+        Row: {
+          id: string;
+          user_id: string;
+          week_start: string;
+          reflection_text: string;
+          highlights: string[];
+          pattern_observed: string | null;
+          tomorrow_suggestion: string | null;
+          generation_source: 'llm' | 'fallback' | null;
+          generated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          week_start: string;
+          reflection_text: string;
+          highlights?: string[];
+          pattern_observed?: string | null;
+          tomorrow_suggestion?: string | null;
+          generation_source?: 'llm' | 'fallback' | null;
+          generated_at?: string;
+        };
+        Update: {
+          reflection_text?: string;
+          highlights?: string[];
+          pattern_observed?: string | null;
+          tomorrow_suggestion?: string | null;
+          generation_source?: 'llm' | 'fallback' | null;
+          generated_at?: string;
         };
       };
     };
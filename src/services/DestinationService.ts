@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import type { Destination } from '../types';
+import type { Destination, Voyage } from '../types';
 
 export interface CreateDestinationInput {
   originalTask: string;
@@ -30,6 +30,11 @@ export class DestinationService {
 
         if (aiError) throw aiError;
         destinationData = aiData;
+
+        // The function falls back on its own when the LLM is unavailable or replies badly
+        if (aiData?.source === 'fallback') {
+          console.warn('Destination generated by the fallback:', aiData.fallback_reason);
+        }
       } catch (aiError) {
         console.warn('AI generation failed, using fallback:', aiError);
         destinationData = this.generateDestinationFallback(input.originalTask);
@@ -77,19 +82,36 @@ export class DestinationService {
   }
 
   /**
-   * Get destinations with usage statistics
+   * Get destinations with usage statistics from their completed voyages
    */
   static async getUserDestinationsWithStats(userId: string): Promise<DestinationWithStats[]> {
+    const destinations = await this.getUserDestinations(userId);
+
     try {
-      const { data, error } = await supabase
-        .rpc('get_destinations_with_stats', { user_id: userId });
+      const { data: voyages, error } = await supabase
+        .from('voyages')
+        .select('destination_id, actual_duration, start_time')
+        .eq('user_id', userId)
+        .eq('status', 'completed');
 
       if (error) throw error;
-      return data || [];
+      const completed: Pick<Voyage, 'destination_id' | 'actual_duration' | 'start_time'>[] = voyages || [];
+
+      return destinations.map(dest => {
+        const destVoyages = completed.filter(v => v.destination_id === dest.id);
+        return {
+          ...dest,
+          voyage_count: destVoyages.length,
+          total_focus_time: destVoyages.reduce((sum, v) => sum + (v.actual_duration || 0), 0),
+          last_visited: destVoyages.reduce<string | null>(
+            (latest, v) => !latest || v.start_time > latest ? v.start_time : latest,
+            null
+          ),
+        };
+      });
     } catch (error) {
-      console.error('Failed to get destinations with stats:', error);
+      console.error('Failed to get destination stats:', error);
       // Fallback to basic destinations without stats
-      const destinations = await this.getUserDestinations(userId);
       return destinations.map(dest => ({
         ...dest,
         voyage_count: 0,
@@ -144,7 +166,10 @@ export class DestinationService {
    */
   static async updateDestination(
     destinationId: string, 
-    updates: Partial<Pick<Destination, 'destination_name' | 'description' | 'color_theme'>>
+    updates: Partial<Pick<
+      Destination,
+      'destination_name' | 'description' | 'color_theme' | 'sensitivity_profile' | 'sensitivity_thresholds' | 'status'
+    >>
   ): Promise<Destination> {
     try {
       const { data, error } = await supabase
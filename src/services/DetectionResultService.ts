@@ -6,26 +6,39 @@
  */
 
 import { supabase } from '../lib/supabase';
-import type { ScreenshotAnalysisResult } from './GeminiService';
+import { SyncQueueService } from './SyncQueueService';
+import type { AnalysisStatus, ScreenshotAnalysisResult } from './GeminiService';
+import type { RedactionSummary } from './ScreenshotService';
+import type { StoredTraceSignal } from '../utils/detectionReplay';
+import type { RedactionMode } from '../types';
 
 export interface DetectionResult {
   id: string;
   voyage_id: string;
   user_id: string;
   detection_timestamp: string;
-  detection_type: 'combined' | 'tab_switch' | 'both';
+  detection_type: 'combined' | 'tab_switch' | 'both' | 'signal';
   
   // Combined detection fields
   combined_analysis_result?: ScreenshotAnalysisResult;
   combined_confidence_level?: number;
   combined_distraction_detected?: boolean;
   combined_distraction_type?: string;
+  analysis_status?: AnalysisStatus;
+  analysis_error?: string;
+  prefilter_skipped?: boolean; // Model not called - screen unchanged, previous verdict carried forward
+  screen_change_distance?: number | null;
+  redaction_mode?: RedactionMode | null;
+  redaction_details?: RedactionSummary | null;
   
   // Tab switch detection fields
   tab_switch_detected?: boolean;
   tab_switch_duration_ms?: number;
   tab_switch_visibility_state?: string;
   tab_switch_timestamp?: string;
+
+  // Raw detector signal kept for replay (detection_type 'signal')
+  trace_signal?: StoredTraceSignal | null;
   
   created_at: string;
 }
@@ -37,6 +50,18 @@ export interface CombinedDetectionInput {
   confidenceLevel: number;
   distractionDetected: boolean;
   distractionType?: string;
+  prefilterSkipped?: boolean;
+  screenChangeDistance?: number | null;
+  redaction?: RedactionSummary;
+}
+
+export interface AnalysisReliability {
+  total: number;
+  valid: number;
+  repaired: number;
+  parseFailed: number;
+  requestFailed: number;
+  successRate: number; // Percentage of analyses with a usable verdict
 }
 
 export interface TabSwitchDetectionInput {
@@ -53,28 +78,45 @@ export class DetectionResultService {
    * Store combined detection result (screenshot + camera analysis)
    */
   static async storeCombinedDetection(input: CombinedDetectionInput): Promise<DetectionResult | null> {
+    const row = {
+      voyage_id: input.voyageId,
+      user_id: input.userId,
+      detection_timestamp: new Date().toISOString(),
+      detection_type: 'combined',
+      combined_analysis_result: input.analysisResult,
+      combined_confidence_level: input.confidenceLevel,
+      combined_distraction_detected: input.distractionDetected,
+      combined_distraction_type: input.distractionType,
+      analysis_status: input.analysisResult.analysisStatus ?? 'valid',
+      analysis_error: input.analysisResult.analysisErrors?.join('; ') || null,
+      prefilter_skipped: input.prefilterSkipped ?? false,
+      screen_change_distance: input.screenChangeDistance ?? null,
+      redaction_mode: input.redaction?.mode ?? null,
+      redaction_details: input.redaction ?? null,
+    };
+
+    // Local voyages have no server row yet - queue until they are synced
+    if (SyncQueueService.isLocalId(input.voyageId)) {
+      SyncQueueService.enqueueInsert('detection_results', row);
+      return null;
+    }
+
     try {
       const { data, error } = await supabase
         .from('detection_results')
-        .insert({
-          voyage_id: input.voyageId,
-          user_id: input.userId,
-          detection_type: 'combined',
-          combined_analysis_result: input.analysisResult,
-          combined_confidence_level: input.confidenceLevel,
-          combined_distraction_detected: input.distractionDetected,
-          combined_distraction_type: input.distractionType,
-        })
+        .insert(row)
         .select()
         .single();
 
       if (error) {
-        console.warn('Failed to store combined detection result:', error);
+        console.warn('Failed to store combined detection result, queueing for sync:', error);
+        SyncQueueService.enqueueInsert('detection_results', row);
         return null;
       }
 
       console.log('✅ Combined detection result stored:', {
         id: data.id,
+        skipped: row.prefilter_skipped,
         distraction: input.distractionDetected,
         type: input.distractionType,
         confidence: input.confidenceLevel
@@ -91,23 +133,33 @@ export class DetectionResultService {
    * Store tab switch detection result
    */
   static async storeTabSwitchDetection(input: TabSwitchDetectionInput): Promise<DetectionResult | null> {
+    const row = {
+      voyage_id: input.voyageId,
+      user_id: input.userId,
+      detection_timestamp: input.timestamp.toISOString(),
+      detection_type: 'tab_switch',
+      tab_switch_detected: input.detected,
+      tab_switch_duration_ms: input.durationMs,
+      tab_switch_visibility_state: input.visibilityState,
+      tab_switch_timestamp: input.timestamp.toISOString(),
+    };
+
+    // Local voyages have no server row yet - queue until they are synced
+    if (SyncQueueService.isLocalId(input.voyageId)) {
+      SyncQueueService.enqueueInsert('detection_results', row);
+      return null;
+    }
+
     try {
       const { data, error } = await supabase
         .from('detection_results')
-        .insert({
-          voyage_id: input.voyageId,
-          user_id: input.userId,
-          detection_type: 'tab_switch',
-          tab_switch_detected: input.detected,
-          tab_switch_duration_ms: input.durationMs,
-          tab_switch_visibility_state: input.visibilityState,
-          tab_switch_timestamp: input.timestamp.toISOString(),
-        })
+        .insert(row)
         .select()
         .single();
 
       if (error) {
-        console.warn('Failed to store tab switch detection result:', error);
+        console.warn('Failed to store tab switch detection result, queueing for sync:', error);
+        SyncQueueService.enqueueInsert('detection_results', row);
         return null;
       }
 
@@ -125,6 +177,36 @@ export class DetectionResultService {
     }
   }
 
+  /**
+   * Store a raw detector signal for detection replay
+   */
+  static async storeTraceSignal(voyageId: string, userId: string, signal: StoredTraceSignal): Promise<void> {
+    const row = {
+      voyage_id: voyageId,
+      user_id: userId,
+      detection_timestamp: new Date(signal.at).toISOString(),
+      detection_type: 'signal',
+      trace_signal: signal,
+    };
+
+    // Local voyages have no server row yet - queue until they are synced
+    if (SyncQueueService.isLocalId(voyageId)) {
+      SyncQueueService.enqueueInsert('detection_results', row);
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('detection_results').insert(row);
+
+      if (error) {
+        console.warn('Failed to store trace signal, queueing for sync:', error);
+        SyncQueueService.enqueueInsert('detection_results', row);
+      }
+    } catch (error) {
+      console.error('Error storing trace signal:', error);
+    }
+  }
+
   /**
    * Get all detection results for a voyage
    */
@@ -199,6 +281,50 @@ export class DetectionResultService {
     }
   }
 
+  /**
+   * Measure how often the vision model returned a usable analysis
+   */
+  static async getAnalysisReliability(userId: string, sinceDays: number = 7): Promise<AnalysisReliability> {
+    const empty: AnalysisReliability = {
+      total: 0, valid: 0, repaired: 0, parseFailed: 0, requestFailed: 0, successRate: 0
+    };
+
+    try {
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - sinceDays);
+
+      const { data, error } = await supabase
+        .from('detection_results')
+        .select('analysis_status')
+        .eq('user_id', userId)
+        .eq('detection_type', 'combined')
+        .eq('prefilter_skipped', false)
+        .gte('detection_timestamp', cutoffDate.toISOString());
+
+      if (error || !data) {
+        if (error) console.warn('Failed to get analysis reliability:', error);
+        return empty;
+      }
+
+      const count = (status: AnalysisStatus) =>
+        data.filter((d: { analysis_status?: AnalysisStatus }) => d.analysis_status === status).length;
+      const valid = count('valid');
+      const repaired = count('repaired');
+
+      return {
+        total: data.length,
+        valid,
+        repaired,
+        parseFailed: count('parse_failed'),
+        requestFailed: count('request_failed'),
+        successRate: data.length > 0 ? Math.round(((valid + repaired) / data.length) * 100) : 0
+      };
+    } catch (error) {
+      console.error('Error getting analysis reliability:', error);
+      return empty;
+    }
+  }
+
   /**
    * Get tab switch detection patterns for analysis
    */
@@ -244,32 +370,4 @@ export class DetectionResultService {
       return { totalSwitches: 0, averageDuration: 0, switchFrequency: 0 };
     }
   }
-
-  /**
-   * Clean up old detection results (for privacy/storage management)
-   */
-  static async cleanupOldDetectionResults(olderThanDays: number = 30): Promise<number> {
-    try {
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
-
-      const { data, error } = await supabase
-        .from('detection_results')
-        .delete()
-        .lt('detection_timestamp', cutoffDate.toISOString())
-        .select('id');
-
-      if (error) {
-        console.warn('Failed to cleanup old detection results:', error);
-        return 0;
-      }
-
-      const deletedCount = data?.length || 0;
-      console.log(`🧹 Cleaned up ${deletedCount} old detection results`);
-      return deletedCount;
-    } catch (error) {
-      console.error('Error cleaning up old detection results:', error);
-      return 0;
-    }
-  }
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+/**
+ * Detection Trace Service
+ *
+ * Exports a voyage's raw detection signals from `detection_results` as a JSON
+ * trace for offline replay (see utils/detectionReplay): tab hide/return rows,
+ * vision analyses, and the URL, idle, response and monitoring signals the
+ * detection hook stores as they happen. Distraction events are only exported
+ * as what the voyage recorded, never turned back into signals.
+ * Voyages from before signals were stored have no URL, idle or response signals.
+ */
+
+import { supabase } from '../lib/supabase';
+import { DetectionResultService, type DetectionResult } from './DetectionResultService';
+import { DistractionService, type DistractionEvent } from './DistractionService';
+import { GeminiService } from './GeminiService';
+import { resolveSensitivityThresholds } from '../config/sensitivity';
+import {
+  DETECTION_TRACE_VERSION,
+  type DetectionTrace,
+  type TraceDistraction,
+  type TraceSignal
+} from '../utils/detectionReplay';
+
+const toTime = (value: string) => new Date(value).getTime();
+
+export class DetectionTraceService {
+  /**
+   * Build the trace for one voyage
+   */
+  static async exportVoyageTrace(voyageId: string): Promise<DetectionTrace | null> {
+    try {
+      const { data: voyage, error } = await supabase
+        .from('voyages')
+        .select(`
+          id, start_time, end_time,
+          destination:destinations(destination_name, sensitivity_profile, sensitivity_thresholds)
+        `)
+        .eq('id', voyageId)
+        .single();
+
+      if (error) throw error;
+      if (!voyage) return null;
+
+      const [results, events] = await Promise.all([
+        DetectionResultService.getVoyageDetectionResults(voyageId),
+        DistractionService.getVoyageDistractions(voyageId)
+      ]);
+
+      const signals = results
+        .flatMap(DetectionTraceService.signalsFromResult)
+        .sort((a, b) => a.at - b.at);
+
+      const lastSignalAt = signals.length > 0 ? signals[signals.length - 1].at : toTime(voyage.start_time);
+
+      return {
+        version: DETECTION_TRACE_VERSION,
+        voyageId,
+        exportedAt: new Date().toISOString(),
+        startedAt: toTime(voyage.start_time),
+        endedAt: voyage.end_time ? toTime(voyage.end_time) : lastSignalAt,
+        destinationName: voyage.destination?.destination_name || null,
+        thresholds: resolveSensitivityThresholds(voyage.destination),
+        signals,
+        recorded: events.map(DetectionTraceService.toTraceDistraction)
+      };
+    } catch (error) {
+      console.error('Failed to export detection trace:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save a trace as a JSON file in the browser
+   */
+  static downloadTrace(trace: DetectionTrace): void {
+    const blob = new Blob([JSON.stringify(trace, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mindboat-trace-${trace.voyageId}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private static signalsFromResult(result: DetectionResult): TraceSignal[] {
+    const at = toTime(result.detection_timestamp);
+
+    if (result.detection_type === 'signal') {
+      return result.trace_signal ? [result.trace_signal] : [];
+    }
+
+    if (result.detection_type === 'tab_switch') {
+      return [{
+        kind: 'tab',
+        at: result.tab_switch_timestamp ? toTime(result.tab_switch_timestamp) : at,
+        hidden: Boolean(result.tab_switch_detected)
+      }];
+    }
+
+    if (result.prefilter_skipped) {
+      return [{ kind: 'vision', at, skipped: true, verdict: null }];
+    }
+
+    const analysis = result.combined_analysis_result;
+    if (!analysis || !GeminiService.isUsableAnalysis({ analysisStatus: result.analysis_status })) {
+      return [{ kind: 'vision', at, skipped: false, verdict: null }];
+    }
+
+    const mode = result.redaction_mode || 'full';
+    return [{
+      kind: 'vision',
+      at,
+      skipped: false,
+      verdict: {
+        screenSent: mode !== 'camera_only',
+        // Rows from before the camera flag was stored assume the mode's default
+        cameraSent: result.redaction_details?.includesCamera ?? mode !== 'screen_only',
+        contentRelevant: analysis.contentRelevant,
+        confidenceLevel: analysis.confidenceLevel,
+        distractionType: analysis.distractionType,
+        cameraAnalysis: analysis.cameraAnalysis
+      }
+    }];
+  }
+
+  private static toTraceDistraction(event: DistractionEvent): TraceDistraction {
+    return {
+      type: event.type,
+      source: event.source || null,
+      startedAt: toTime(event.detected_at),
+      endedAt: event.ended_at ? toTime(event.ended_at) : null,
+      resolution: event.resolution || null
+    };
+  }
+}
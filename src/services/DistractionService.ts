@@ -1,18 +1,139 @@
+/**
+ * Distraction Service
+ *
+ * Distraction events have a lifecycle: a row is opened when a detector first
+ * flags the distraction and closed with its end time, resolution and duration
+ * when it ends. Rows for local (unsynced) voyages go through the sync queue.
+ */
+
 import { supabase } from '../lib/supabase';
-import type { DistractionDetectionEvent } from '../types';
+import { SyncQueueService } from './SyncQueueService';
+import type {
+  DistractionDetectionEvent,
+  DistractionEvent,
+  DistractionResolution
+} from '../types';
+
+export type { DistractionEvent };
 
-export interface DistractionEvent {
+export interface DistractionInterval {
   id: string;
-  voyage_id: string;
-  detected_at: string;
-  duration_seconds: number | null;
-  type: 'tab_switch' | 'idle' | 'camera_distraction';
-  user_response: 'return_to_course' | 'exploring' | 'ignored' | null;
+  type: DistractionEvent['type'];
+  source: DistractionEvent['source'];
+  resolution: DistractionResolution | null;
+  start: Date;
+  end: Date;
+  isOpen: boolean; // true when the end is an estimate because the event was never closed
 }
 
 export class DistractionService {
   /**
-   * Record a distraction event
+   * Open a distraction event when a detector first flags it
+   * Returns the row ID, which is a local ID when the insert was queued
+   */
+  static async openDistraction(voyageId: string, event: DistractionDetectionEvent): Promise<string> {
+    const row = {
+      voyage_id: voyageId,
+      detected_at: new Date(event.timestamp).toISOString(),
+      type: event.type,
+      source: event.source || null,
+      is_resolved: false,
+    };
+    const localId = SyncQueueService.createLocalId('distraction');
+
+    // Local voyages have no server row yet - queue the event until they are synced
+    if (SyncQueueService.isLocalId(voyageId)) {
+      SyncQueueService.enqueueInsert('distraction_events', row, localId);
+      return localId;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('distraction_events')
+        .insert(row)
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return data.id;
+    } catch (error) {
+      console.warn('Failed to open distraction event, queueing for sync:', error);
+      SyncQueueService.enqueueInsert('distraction_events', row, localId);
+      return localId;
+    }
+  }
+
+  /**
+   * Close an open distraction event
+   */
+  static async closeDistraction(
+    distractionId: string,
+    startedAt: number,
+    resolution: DistractionResolution,
+    endedAt: Date = new Date()
+  ): Promise<void> {
+    const update = {
+      ended_at: endedAt.toISOString(),
+      duration_seconds: Math.max(0, Math.round((endedAt.getTime() - startedAt) / 1000)),
+      resolution,
+      is_resolved: true,
+      // Only an answer to the alert counts as a user response
+      ...((resolution === 'return_to_course' || resolution === 'exploring') && { user_response: resolution }),
+    };
+
+    if (SyncQueueService.isLocalId(distractionId)) {
+      SyncQueueService.enqueueUpdate('distraction_events', distractionId, update);
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('distraction_events')
+        .update(update)
+        .eq('id', distractionId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.warn('Failed to close distraction event, queueing for sync:', error);
+      SyncQueueService.enqueueUpdate('distraction_events', distractionId, update);
+    }
+  }
+
+  /**
+   * Close every event still open on a voyage (e.g. one interrupted by a crash)
+   */
+  static async closeOpenDistractions(
+    voyageId: string,
+    resolution: DistractionResolution,
+    endedAt: Date
+  ): Promise<void> {
+    if (SyncQueueService.isLocalId(voyageId)) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('distraction_events')
+        .select('id, detected_at')
+        .eq('voyage_id', voyageId)
+        .eq('is_resolved', false);
+
+      if (error) throw error;
+
+      await Promise.all((data || []).map((event: { id: string; detected_at: string }) =>
+        this.closeDistraction(
+          event.id,
+          new Date(event.detected_at).getTime(),
+          resolution,
+          // Never end an event before it started
+          new Date(Math.max(endedAt.getTime(), new Date(event.detected_at).getTime()))
+        )
+      ));
+    } catch (error) {
+      console.warn('Failed to close open distraction events:', error);
+    }
+  }
+
+  /**
+   * Record a complete distraction event in one step
    */
   static async recordDistraction(
     voyageId: string, 
@@ -20,13 +141,17 @@ export class DistractionService {
     userResponse?: 'return_to_course' | 'exploring' | 'ignored'
   ): Promise<DistractionEvent> {
     try {
+      const endedAt = event.duration ? new Date(event.timestamp + event.duration) : null;
       const { data, error } = await supabase
         .from('distraction_events')
         .insert({
           voyage_id: voyageId,
           detected_at: new Date(event.timestamp).toISOString(),
+          ended_at: endedAt ? endedAt.toISOString() : null,
           duration_seconds: event.duration ? Math.floor(event.duration / 1000) : null,
           type: event.type,
+          source: event.source || null,
+          is_resolved: !!endedAt,
           user_response: userResponse || null,
         })
         .select()
@@ -65,7 +190,7 @@ export class DistractionService {
   }
 
   /**
-   * Get distraction events for a voyage
+   * Get distraction events for a voyage, oldest first
    */
   static async getVoyageDistractions(voyageId: string): Promise<DistractionEvent[]> {
     try {
@@ -83,6 +208,34 @@ export class DistractionService {
     }
   }
 
+  /**
+   * Turn events into start/end intervals clipped to the voyage
+   * Open events without a duration are drawn until the voyage ended.
+   */
+  static toIntervals(events: DistractionEvent[], voyageStart: Date, voyageEnd: Date): DistractionInterval[] {
+    return events.map(event => {
+      const start = new Date(Math.max(new Date(event.detected_at).getTime(), voyageStart.getTime()));
+      let endTime: number;
+      if (event.ended_at) {
+        endTime = new Date(event.ended_at).getTime();
+      } else if (event.duration_seconds) {
+        endTime = start.getTime() + event.duration_seconds * 1000;
+      } else {
+        endTime = voyageEnd.getTime();
+      }
+
+      return {
+        id: event.id,
+        type: event.type,
+        source: event.source,
+        resolution: event.resolution || null,
+        start,
+        end: new Date(Math.min(Math.max(endTime, start.getTime()), voyageEnd.getTime())),
+        isOpen: !event.ended_at && !event.duration_seconds,
+      };
+    });
+  }
+
   /**
    * Get distraction patterns for analytics
    */
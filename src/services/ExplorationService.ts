@@ -0,0 +1,139 @@
+/**
+ * Exploration Service
+ *
+ * Each stretch of exploration mode is stored as an interval: opened when the
+ * user chooses to explore and closed when they return to course, the voyage's
+ * exploration budget runs out, or the voyage ends. Rows for local (unsynced)
+ * voyages go through the sync queue.
+ */
+
+import { supabase } from '../lib/supabase';
+import { SyncQueueService } from './SyncQueueService';
+import type { ExplorationEndReason, ExplorationInterval } from '../types';
+
+export type { ExplorationInterval };
+
+export class ExplorationService {
+  /**
+   * Open an exploration interval
+   * Returns the row ID, which is a local ID when the insert was queued
+   */
+  static async openInterval(voyageId: string, startedAt: number): Promise<string> {
+    const row = {
+      voyage_id: voyageId,
+      started_at: new Date(startedAt).toISOString(),
+    };
+    const localId = SyncQueueService.createLocalId('exploration');
+
+    if (SyncQueueService.isLocalId(voyageId)) {
+      SyncQueueService.enqueueInsert('exploration_intervals', row, localId);
+      return localId;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('exploration_intervals')
+        .insert(row)
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return data.id;
+    } catch (error) {
+      console.warn('Failed to open exploration interval, queueing for sync:', error);
+      SyncQueueService.enqueueInsert('exploration_intervals', row, localId);
+      return localId;
+    }
+  }
+
+  /**
+   * Close an open exploration interval
+   */
+  static async closeInterval(
+    intervalId: string,
+    startedAt: number,
+    reason: ExplorationEndReason,
+    endedAt: Date = new Date()
+  ): Promise<void> {
+    const update = {
+      ended_at: endedAt.toISOString(),
+      duration_ms: Math.max(0, endedAt.getTime() - startedAt),
+      end_reason: reason,
+    };
+
+    if (SyncQueueService.isLocalId(intervalId)) {
+      SyncQueueService.enqueueUpdate('exploration_intervals', intervalId, update);
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('exploration_intervals')
+        .update(update)
+        .eq('id', intervalId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.warn('Failed to close exploration interval, queueing for sync:', error);
+      SyncQueueService.enqueueUpdate('exploration_intervals', intervalId, update);
+    }
+  }
+
+  /**
+   * Close every interval still open on a voyage (e.g. one interrupted by a crash)
+   */
+  static async closeOpenIntervals(
+    voyageId: string,
+    reason: ExplorationEndReason,
+    endedAt: Date
+  ): Promise<void> {
+    if (SyncQueueService.isLocalId(voyageId)) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('exploration_intervals')
+        .select('id, started_at')
+        .eq('voyage_id', voyageId)
+        .is('ended_at', null);
+
+      if (error) throw error;
+
+      await Promise.all((data || []).map((interval: { id: string; started_at: string }) => {
+        const startedAt = new Date(interval.started_at).getTime();
+        return this.closeInterval(interval.id, startedAt, reason, new Date(Math.max(endedAt.getTime(), startedAt)));
+      }));
+    } catch (error) {
+      console.warn('Failed to close open exploration intervals:', error);
+    }
+  }
+
+  /**
+   * Get exploration intervals for a voyage, oldest first
+   */
+  static async getVoyageIntervals(voyageId: string): Promise<ExplorationInterval[]> {
+    try {
+      const { data, error } = await supabase
+        .from('exploration_intervals')
+        .select('*')
+        .eq('voyage_id', voyageId)
+        .order('started_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Failed to get exploration intervals:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Total exploring time; intervals left open count until `voyageEnd`
+   */
+  static totalDurationMs(intervals: ExplorationInterval[], voyageEnd: Date): number {
+    return intervals.reduce((sum, interval) => {
+      if (interval.duration_ms != null) return sum + interval.duration_ms;
+      const endedAt = interval.ended_at ? new Date(interval.ended_at) : voyageEnd;
+      return sum + Math.max(0, endedAt.getTime() - new Date(interval.started_at).getTime());
+    }, 0);
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Extension Bridge Service
+ *
+ * Receives active-tab updates from the MindBoat Companion browser extension
+ * (see /extension). The page itself can only see its own URL; the extension
+ * reports the tab and window the user actually switched to.
+ *
+ * Two transports carry the same messages:
+ * - window.postMessage via the extension's content script (no configuration)
+ * - externally_connectable port, when VITE_MINDBOAT_EXTENSION_ID is set
+ *
+ * The extension only reports while the app has asked it to (during a voyage).
+ */
+
+export const EXTENSION_MESSAGE_SOURCE = 'mindboat-extension';
+export const APP_MESSAGE_SOURCE = 'mindboat-app';
+export const EXTENSION_PROTOCOL_VERSION = 1;
+
+// Wait before reconnecting a dropped externally_connectable port (the service worker restarts on connect)
+const EXTERNAL_RECONNECT_DELAY_MS = 1000;
+
+export interface ExtensionTabEvent {
+  type: 'tab_activated' | 'tab_updated' | 'window_focus';
+  url?: string;
+  title?: string;
+  tabId?: number;
+  windowId?: number;
+  focused: boolean; // false when the browser lost focus to another application
+  audible?: boolean; // The tab is playing sound
+  timestamp: number;
+}
+
+type ExtensionMessage =
+  | { source: typeof EXTENSION_MESSAGE_SOURCE; version: number; type: 'hello' }
+  | ({ source: typeof EXTENSION_MESSAGE_SOURCE; version: number } & ExtensionTabEvent);
+
+type AppMessage = {
+  source: typeof APP_MESSAGE_SOURCE;
+  version: number;
+  type: 'ping' | 'start_reporting' | 'stop_reporting';
+};
+
+// Minimal shape of the Chrome runtime API used for externally_connectable
+interface ExtensionPort {
+  postMessage: (message: unknown) => void;
+  disconnect: () => void;
+  onMessage: { addListener: (listener: (message: unknown) => void) => void };
+  onDisconnect: { addListener: (listener: () => void) => void };
+}
+
+interface ChromeRuntime {
+  connect?: (extensionId: string, connectInfo?: { name?: string }) => ExtensionPort;
+}
+
+const isExtensionMessage = (data: unknown): data is ExtensionMessage =>
+  typeof data === 'object' &&
+  data !== null &&
+  (data as { source?: unknown }).source === EXTENSION_MESSAGE_SOURCE &&
+  typeof (data as { type?: unknown }).type === 'string';
+
+export class ExtensionBridgeService {
+  private static initialized = false;
+  private static connected = false;
+  private static reporting = false;
+  private static port: ExtensionPort | null = null;
+  private static lastEvent: ExtensionTabEvent | null = null;
+  private static listeners = new Set<(event: ExtensionTabEvent) => void>();
+
+  /**
+   * Start listening for the extension on both transports
+   */
+  static initialize() {
+    if (this.initialized || typeof window === 'undefined') return;
+    this.initialized = true;
+
+    window.addEventListener('message', (event: MessageEvent) => {
+      // Only accept messages the content script posted into this page
+      if (event.source !== window || event.origin !== window.location.origin) return;
+      this.handleMessage(event.data);
+    });
+
+    this.connectExternal();
+
+    // Ask an already-loaded content script to announce itself
+    this.send('ping');
+  }
+
+  /**
+   * Ask the extension to report tab changes (call when a voyage starts sailing)
+   */
+  static startReporting() {
+    this.initialize();
+    this.reporting = true;
+    this.send('start_reporting');
+  }
+
+  /**
+   * Ask the extension to stop reporting tab changes
+   */
+  static stopReporting() {
+    this.reporting = false;
+    this.send('stop_reporting');
+  }
+
+  /**
+   * Subscribe to tab events; returns an unsubscribe function
+   */
+  static subscribe(listener: (event: ExtensionTabEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether the companion extension has announced itself
+   */
+  static isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Most recent tab event from the extension
+   */
+  static getLastEvent(): ExtensionTabEvent | null {
+    return this.lastEvent;
+  }
+
+  /**
+   * Check whether a reported URL is the MindBoat app itself
+   */
+  static isAppUrl(url: string): boolean {
+    try {
+      return new URL(url).origin === window.location.origin;
+    } catch {
+      return false;
+    }
+  }
+
+  private static connectExternal() {
+    const extensionId = import.meta.env.VITE_MINDBOAT_EXTENSION_ID;
+    const runtime = (window as unknown as { chrome?: { runtime?: ChromeRuntime } }).chrome?.runtime;
+    if (!extensionId || !runtime?.connect) return;
+
+    try {
+      const port = runtime.connect(extensionId, { name: 'mindboat-app' });
+      // Only a port the extension answered on is worth reconnecting - otherwise it is not installed
+      let answered = false;
+      port.onMessage.addListener(message => {
+        answered = true;
+        this.handleMessage(message);
+      });
+      port.onDisconnect.addListener(() => {
+        this.port = null;
+        this.connected = false;
+        console.log('[ExtensionBridge] Extension port disconnected');
+
+        // The service worker was shut down or restarted; its hello on the new port re-sends the reporting state
+        if (answered) setTimeout(() => this.connectExternal(), EXTERNAL_RECONNECT_DELAY_MS);
+      });
+      this.port = port;
+    } catch (error) {
+      console.warn('[ExtensionBridge] Could not connect to extension:', error);
+    }
+  }
+
+  private static send(type: AppMessage['type']) {
+    const message: AppMessage = { source: APP_MESSAGE_SOURCE, version: EXTENSION_PROTOCOL_VERSION, type };
+
+    if (this.port) {
+      this.port.postMessage(message);
+    }
+    window.postMessage(message, window.location.origin);
+  }
+
+  private static handleMessage(data: unknown) {
+    if (!isExtensionMessage(data)) return;
+
+    if (data.version !== EXTENSION_PROTOCOL_VERSION) {
+      console.warn('[ExtensionBridge] Unsupported extension protocol version:', data.version);
+      return;
+    }
+
+    if (data.type === 'hello') {
+      if (!this.connected) {
+        console.log('[ExtensionBridge] Companion extension connected');
+      }
+      this.connected = true;
+      // Re-send the reporting state in case the extension reloaded mid-voyage
+      if (this.reporting) this.send('start_reporting');
+      return;
+    }
+
+    this.connected = true;
+    const event: ExtensionTabEvent = {
+      type: data.type,
+      url: data.url,
+      title: data.title,
+      tabId: data.tabId,
+      windowId: data.windowId,
+      audible: data.audible,
+      focused: data.focused,
+      timestamp: data.timestamp || Date.now(),
+    };
+    this.lastEvent = event;
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[ExtensionBridge] Tab event listener failed:', error);
+      }
+    });
+  }
+}
@@ -1,14 +1,36 @@
 /**
  * Gemini AI Service for Image Analysis
  * 
- * This service handles all interactions with Google's Gemini 2.5 Flash model
- * for analyzing camera images and screenshots to detect user distraction.
+ * This service builds the analysis prompts for camera images and screenshots and
+ * parses the model's reply into a result. The model itself is a pluggable
+ * VisionProvider (Gemini by default, or a local / mock provider from config).
  */
 
 import { 
+  ANALYSIS_REPAIR_PROMPT,
   CAMERA_ANALYSIS_PROMPT, 
-  SCREENSHOT_ANALYSIS_PROMPT 
+  SCREENSHOT_ANALYSIS_PROMPT,
+  fillPrompt
 } from '../config/prompts';
+import {
+  extractJsonObject,
+  validateCameraAnalysis,
+  validateScreenshotAnalysis
+} from '../utils/analysisValidation';
+import type { AnalysisValidation } from '../utils/analysisValidation';
+import { createVisionProvider } from './VisionProvider';
+import type { VisionProvider } from './VisionProvider';
+import type { VisionProviderName } from '../config/vision';
+import type { DistractionDetectionEvent } from '../types';
+
+/**
+ * How the model reply was obtained:
+ * - valid: first reply passed validation
+ * - repaired: first reply failed, the repair retry passed
+ * - parse_failed: both replies failed validation (result is a neutral placeholder)
+ * - request_failed: the provider call itself failed (result is a neutral placeholder)
+ */
+export type AnalysisStatus = 'valid' | 'repaired' | 'parse_failed' | 'request_failed';
 
 export interface CameraAnalysisResult {
   personPresent: boolean;
@@ -16,11 +38,13 @@ export interface CameraAnalysisResult {
   confidenceLevel: number;
   observations: string;
   distractionIndicators: string[];
+  analysisStatus?: AnalysisStatus;
+  analysisErrors?: string[];
 }
 
 export interface ScreenshotAnalysisResult {
   contentRelevant: boolean;
-  distractionType?: string;
+  distractionType?: DistractionDetectionEvent['type'];
   confidenceLevel: number;
   detectedApps: string[];
   distractionLevel: 'none' | 'mild' | 'moderate' | 'high';
@@ -37,25 +61,38 @@ export interface ScreenshotAnalysisResult {
     cameraObservations: string;
     physicalDistraction?: string;
   };
+  analysisStatus?: AnalysisStatus;
+  analysisErrors?: string[];
 }
 
 export class GeminiService {
-  private static apiKey: string | null = null;
-  private static baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+  private static provider: VisionProvider | null = null;
 
   /**
-   * Initialize the service with API key
+   * Initialize the service with the vision provider selected in config
    * 
-   * IMPORTANT: Add your Gemini API key to your .env file as VITE_GEMINI_API_KEY
-   * Get your API key from: https://makersuite.google.com/app/apikey
+   * IMPORTANT: Set VITE_VISION_PROVIDER in your .env file ('gemini', 'local' or 'mock').
+   * The Gemini provider needs VITE_GEMINI_API_KEY - get one from: https://makersuite.google.com/app/apikey
    */
   static initialize() {
-    this.apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    
-    if (!this.apiKey) {
-      console.warn('Gemini API key not found. Please add VITE_GEMINI_API_KEY to your .env file.');
-      console.warn('Get your API key from: https://makersuite.google.com/app/apikey');
+    this.provider = createVisionProvider();
+  }
+
+  /**
+   * Replace the vision provider (e.g. a MockVisionProvider in tests)
+   */
+  static setProvider(provider: VisionProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Get the active vision provider
+   */
+  static getProvider(): VisionProvider {
+    if (!this.provider) {
+      this.initialize();
     }
+    return this.provider!;
   }
 
   /**
@@ -76,63 +113,55 @@ export class GeminiService {
   }
 
   /**
-   * Make a request to Gemini API with image and text
+   * Send a prompt and image to the active vision provider
    */
-  private static async makeGeminiRequest(
+  private static async makeVisionRequest(
     prompt: string, 
     imageBase64: string, 
     mimeType: string = 'image/jpeg'
-  ): Promise<any> {
-    if (!this.apiKey) {
-      throw new Error('Gemini API key not configured. Please add VITE_GEMINI_API_KEY to your .env file.');
-    }
+  ): Promise<string> {
+    return this.getProvider().generate({ prompt, imageBase64, mimeType });
+  }
 
-    const url = `${this.baseUrl}/models/gemini-2.0-flash-exp:generateContent?key=${this.apiKey}`;
-    
-    const requestBody = {
-      contents: [
-        {
-          parts: [
-            {
-              text: prompt
-            },
-            {
-              inline_data: {
-                mime_type: mimeType,
-                data: imageBase64
-              }
-            }
-          ]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.1, // Low temperature for consistent analysis
-        topK: 1,
-        topP: 1,
-        maxOutputTokens: 1000,
+  /**
+   * Request an analysis and validate it, retrying once with a repair prompt
+   */
+  private static async requestValidatedAnalysis<T>(
+    prompt: string,
+    imageBase64: string,
+    validate: (raw: unknown) => AnalysisValidation<T>
+  ): Promise<{ status: 'valid' | 'repaired'; value: T } | { status: 'parse_failed'; errors: string[] }> {
+    const parse = (responseText: string): AnalysisValidation<T> => {
+      try {
+        return validate(extractJsonObject(responseText));
+      } catch (parseError) {
+        return {
+          valid: false,
+          errors: [parseError instanceof Error ? parseError.message : 'Response is not valid JSON']
+        };
       }
     };
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+    const responseText = await this.makeVisionRequest(prompt, imageBase64);
+    const first = parse(responseText);
+    if (first.valid) {
+      return { status: 'valid', value: first.value };
     }
 
-    const data = await response.json();
-    
-    if (!data.candidates || !data.candidates[0]?.content?.parts?.[0]?.text) {
-      throw new Error('Invalid response format from Gemini API');
+    console.warn('Analysis response failed validation, retrying with repair prompt:', first.errors);
+
+    const repairPrompt = `${prompt}\n\n${fillPrompt(ANALYSIS_REPAIR_PROMPT, {
+      errors: first.errors.map(error => `- ${error}`).join('\n'),
+      previousResponse: responseText.substring(0, 2000)
+    })}`;
+
+    const repaired = parse(await this.makeVisionRequest(repairPrompt, imageBase64));
+    if (repaired.valid) {
+      return { status: 'repaired', value: repaired.value };
     }
 
-    return data.candidates[0].content.parts[0].text;
+    console.warn('Analysis response still invalid after repair retry:', repaired.errors);
+    return { status: 'parse_failed', errors: repaired.errors };
   }
 
   /**
@@ -143,56 +172,33 @@ export class GeminiService {
     userGoal: string,
     currentTask: string
   ): Promise<CameraAnalysisResult> {
+    // Neutral placeholder when no usable verdict exists - callers should check analysisStatus
+    const unusableResult = (status: AnalysisStatus, errors: string[]): CameraAnalysisResult => ({
+      personPresent: true,
+      appearsFocused: true,
+      confidenceLevel: 0,
+      observations: `Analysis failed: ${errors.join('; ')}`,
+      distractionIndicators: ['analysis_failed'],
+      analysisStatus: status,
+      analysisErrors: errors
+    });
+
     try {
       const imageBase64 = await this.imageToBase64(imageBlob);
       
-      const prompt = CAMERA_ANALYSIS_PROMPT
-        .replace('{userGoal}', userGoal)
-        .replace('{currentTask}', currentTask);
+      const prompt = fillPrompt(CAMERA_ANALYSIS_PROMPT, { userGoal, currentTask });
 
-      const responseText = await this.makeGeminiRequest(prompt, imageBase64);
-      
-      // Try to parse JSON response
-      try {
-        const jsonMatch = responseText.match(/\{.*\}/s);
-        if (jsonMatch) {
-          const result = JSON.parse(jsonMatch[0]);
-          return {
-            personPresent: result.personPresent || false,
-            appearsFocused: result.appearsFocused || false,
-            confidenceLevel: result.confidenceLevel || 0,
-            observations: result.observations || 'No observations',
-            distractionIndicators: result.distractionIndicators || []
-          };
-        }
-      } catch (parseError) {
-        console.warn('Failed to parse Gemini camera analysis response as JSON:', parseError);
+      const result = await this.requestValidatedAnalysis(prompt, imageBase64, validateCameraAnalysis);
+
+      if (result.status === 'parse_failed') {
+        return unusableResult('parse_failed', result.errors);
       }
 
-      // Fallback: analyze text response for key indicators
-      const lowerResponse = responseText.toLowerCase();
-      const personPresent = lowerResponse.includes('person') && !lowerResponse.includes('no person');
-      const appearsFocused = lowerResponse.includes('focused') || lowerResponse.includes('concentrat');
-
-      return {
-        personPresent,
-        appearsFocused,
-        confidenceLevel: 50, // Medium confidence for fallback
-        observations: responseText.substring(0, 200),
-        distractionIndicators: []
-      };
+      return { ...result.value, analysisStatus: result.status };
 
     } catch (error) {
       console.error('Camera analysis failed:', error);
-      
-      // Return safe fallback - assume person is present and focused to avoid false positives
-      return {
-        personPresent: true,
-        appearsFocused: true,
-        confidenceLevel: 0,
-        observations: `Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        distractionIndicators: ['analysis_failed']
-      };
+      return unusableResult('request_failed', [error instanceof Error ? error.message : 'Unknown error']);
     }
   }
 
@@ -204,106 +210,74 @@ export class GeminiService {
     imageBlob: Blob,
     userGoal: string,
     currentTask: string,
-    relatedApps: string[]
+    relatedApps: string[],
+    privacyNote: string = '' // Tells the model which parts of the image were redacted
   ): Promise<ScreenshotAnalysisResult> {
+    // Neutral placeholder when no usable verdict exists - callers should check analysisStatus
+    const unusableResult = (status: AnalysisStatus, errors: string[]): ScreenshotAnalysisResult => ({
+      contentRelevant: true,
+      distractionType: undefined,
+      confidenceLevel: 0,
+      detectedApps: [],
+      distractionLevel: 'none',
+      reasoning: `Analysis failed: ${errors.join('; ')}`,
+      suggestedAction: 'continue',
+      screenAnalysis: {
+        contentType: 'unknown',
+        isProductiveContent: true,
+        screenObservations: 'Analysis failed - no screen data'
+      },
+      cameraAnalysis: {
+        personPresent: true,
+        appearsFocused: true,
+        cameraObservations: 'Analysis failed - no camera data'
+      },
+      analysisStatus: status,
+      analysisErrors: errors
+    });
+
     try {
       const imageBase64 = await this.imageToBase64(imageBlob);
       
-      const prompt = SCREENSHOT_ANALYSIS_PROMPT
-        .replace('{userGoal}', userGoal)
-        .replace('{currentTask}', currentTask)
-        .replace('{relatedApps}', JSON.stringify(relatedApps));
+      const prompt = fillPrompt(SCREENSHOT_ANALYSIS_PROMPT, {
+        userGoal,
+        currentTask,
+        relatedApps: JSON.stringify(relatedApps)
+      }) + privacyNote;
 
-      const responseText = await this.makeGeminiRequest(prompt, imageBase64);
-      
-      // Try to parse JSON response
-      try {
-        const jsonMatch = responseText.match(/\{.*\}/s);
-        if (jsonMatch) {
-          const result = JSON.parse(jsonMatch[0]);
-          return {
-            contentRelevant: result.contentRelevant || false,
-            distractionType: result.distractionType || null,
-            confidenceLevel: result.confidenceLevel || 0,
-            detectedApps: result.detectedApps || [],
-            distractionLevel: result.distractionLevel || 'none',
-            reasoning: result.reasoning || 'No reasoning provided',
-            suggestedAction: result.suggestedAction || 'continue',
-            screenAnalysis: result.screenAnalysis || {
-              contentType: 'unknown',
-              isProductiveContent: true,
-              screenObservations: 'Screen analysis not available'
-            },
-            cameraAnalysis: result.cameraAnalysis || {
-              personPresent: true,
-              appearsFocused: true,
-              cameraObservations: 'Camera analysis not available',
-              physicalDistraction: null
-            }
-          };
-        }
-      } catch (parseError) {
-        console.warn('Failed to parse Gemini screenshot analysis response as JSON:', parseError);
+      const result = await this.requestValidatedAnalysis(prompt, imageBase64, validateScreenshotAnalysis);
+
+      if (result.status === 'parse_failed') {
+        return unusableResult('parse_failed', result.errors);
       }
 
-      // Fallback: analyze text response for key indicators
-      const lowerResponse = responseText.toLowerCase();
-      const contentRelevant = lowerResponse.includes('relevant') || lowerResponse.includes('productive');
-      const hasDistraction = lowerResponse.includes('distract') || lowerResponse.includes('social media');
-
-      return {
-        contentRelevant: contentRelevant && !hasDistraction,
-        distractionType: null,
-        confidenceLevel: 50,
-        detectedApps: [],
-        distractionLevel: hasDistraction ? 'moderate' : 'none',
-        reasoning: responseText.substring(0, 200),
-        suggestedAction: hasDistraction ? 'gentle_reminder' : 'continue',
-        screenAnalysis: {
-          contentType: 'web content',
-          isProductiveContent: !hasDistraction,
-          screenObservations: 'Fallback analysis - screen content parsed from text'
-        },
-        cameraAnalysis: {
-          personPresent: true,
-          appearsFocused: true,
-          cameraObservations: 'Fallback analysis - camera not analyzed',
-          physicalDistraction: null
-        }
-      };
+      return { ...result.value, analysisStatus: result.status };
 
     } catch (error) {
       console.error('Screenshot analysis failed:', error);
-      
-      // Return safe fallback - assume content is relevant to avoid false positives
-      return {
-        contentRelevant: true,
-        distractionType: null,
-        confidenceLevel: 0,
-        detectedApps: [],
-        distractionLevel: 'none',
-        reasoning: `Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        suggestedAction: 'continue',
-        screenAnalysis: {
-          contentType: 'unknown',
-          isProductiveContent: true,
-          screenObservations: 'Analysis failed - no screen data'
-        },
-        cameraAnalysis: {
-          personPresent: true,
-          appearsFocused: true,
-          cameraObservations: 'Analysis failed - no camera data',
-          physicalDistraction: null
-        }
-      };
+      return unusableResult('request_failed', [error instanceof Error ? error.message : 'Unknown error']);
     }
   }
 
+  /**
+   * Check whether an analysis result carries a real model verdict
+   */
+  static isUsableAnalysis(result: { analysisStatus?: AnalysisStatus }): boolean {
+    return result.analysisStatus !== 'parse_failed' && result.analysisStatus !== 'request_failed';
+  }
+
   /**
    * Check if the service is properly configured
    */
   static isConfigured(): boolean {
-    return !!this.apiKey;
+    return this.getProvider().isConfigured();
+  }
+
+  /**
+   * Name of the active vision provider
+   */
+  static getProviderName(): VisionProviderName {
+    return this.getProvider().name;
   }
 
   /**
@@ -314,18 +288,7 @@ export class GeminiService {
     message: string;
     instructions?: string;
   } {
-    if (this.isConfigured()) {
-      return {
-        isConfigured: true,
-        message: 'Gemini AI service is properly configured and ready to use.'
-      };
-    }
-
-    return {
-      isConfigured: false,
-      message: 'Gemini AI service is not configured.',
-      instructions: 'Please add your Gemini API key to the .env file as VITE_GEMINI_API_KEY. Get your API key from: https://makersuite.google.com/app/apikey'
-    };
+    return this.getProvider().getConfigurationStatus();
   }
 }
 
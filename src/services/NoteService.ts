@@ -0,0 +1,165 @@
+/**
+ * Note Service
+ *
+ * Inbox for notes captured in exploration mode, across all voyages. Notes can
+ * be searched (full-text over `content`), tagged, attached to an existing
+ * destination, or promoted into a new destination of their own.
+ */
+
+import { supabase } from '../lib/supabase';
+import { DestinationService } from './DestinationService';
+import type { Destination, ExplorationNote } from '../types';
+
+type DestinationSummary = Pick<Destination, 'id' | 'destination_name' | 'color_theme'>;
+
+export interface InboxNote extends ExplorationNote {
+  voyage: {
+    id: string;
+    start_time: string;
+    destination: DestinationSummary | null;
+  };
+  destination: DestinationSummary | null; // Where the note was filed
+}
+
+export interface NoteFilters {
+  query?: string; // Full-text search over the note content
+  tag?: string;
+  status?: 'inbox' | 'filed' | 'all'; // inbox = not attached to a destination yet
+}
+
+const INBOX_NOTE_SELECT = `
+  *,
+  voyage:voyages!inner(id, start_time, user_id, destination:destinations(id, destination_name, color_theme)),
+  destination:destinations(id, destination_name, color_theme)
+`;
+
+export class NoteService {
+  /**
+   * Lowercase, trimmed, unique tags without a leading '#'
+   */
+  static normalizeTags(tags: string[]): string[] {
+    return Array.from(new Set(
+      tags
+        .map(tag => tag.trim().replace(/^#+/, '').toLowerCase())
+        .filter(Boolean)
+    ));
+  }
+
+  /**
+   * Get a user's exploration notes, newest first
+   */
+  static async getInbox(userId: string, filters: NoteFilters = {}): Promise<InboxNote[]> {
+    let request = supabase
+      .from('exploration_notes')
+      .select(INBOX_NOTE_SELECT)
+      .eq('voyage.user_id', userId);
+
+    if (filters.query?.trim()) {
+      request = request.textSearch('search_vector', filters.query.trim(), { type: 'websearch', config: 'english' });
+    }
+    if (filters.tag) {
+      request = request.contains('tags', [filters.tag]);
+    }
+    if (filters.status === 'inbox') {
+      request = request.is('destination_id', null);
+    } else if (filters.status === 'filed') {
+      request = request.not('destination_id', 'is', null);
+    }
+
+    const { data, error } = await request.order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to load exploration notes:', error);
+      throw new Error('Unable to load your notes.');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get notes captured on a destination's voyages or filed under it, newest first
+   */
+  static async getDestinationNotes(userId: string, destinationId: string): Promise<InboxNote[]> {
+    const [fromVoyages, filed] = await Promise.all([
+      supabase
+        .from('exploration_notes')
+        .select(INBOX_NOTE_SELECT)
+        .eq('voyage.user_id', userId)
+        .eq('voyage.destination_id', destinationId),
+      supabase
+        .from('exploration_notes')
+        .select(INBOX_NOTE_SELECT)
+        .eq('voyage.user_id', userId)
+        .eq('destination_id', destinationId),
+    ]);
+
+    const error = fromVoyages.error || filed.error;
+    if (error) {
+      console.error('Failed to load destination notes:', error);
+      throw new Error('Unable to load notes for this destination.');
+    }
+
+    const notes = new Map<string, InboxNote>();
+    for (const note of [...(fromVoyages.data || []), ...(filed.data || [])]) {
+      notes.set(note.id, note);
+    }
+
+    return [...notes.values()].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  /**
+   * Replace a note's tags
+   */
+  static async updateTags(noteId: string, tags: string[]): Promise<string[]> {
+    const normalized = this.normalizeTags(tags);
+
+    const { error } = await supabase
+      .from('exploration_notes')
+      .update({ tags: normalized })
+      .eq('id', noteId);
+
+    if (error) {
+      console.error('Failed to update note tags:', error);
+      throw new Error('Unable to save tags.');
+    }
+
+    return normalized;
+  }
+
+  /**
+   * File a note under an existing destination (null puts it back in the inbox)
+   */
+  static async attachToDestination(noteId: string, destinationId: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('exploration_notes')
+      .update({ destination_id: destinationId })
+      .eq('id', noteId);
+
+    if (error) {
+      console.error('Failed to attach note to destination:', error);
+      throw new Error('Unable to file this note.');
+    }
+  }
+
+  /**
+   * Turn a note into a new destination and file the note under it
+   */
+  static async promoteToDestination(note: ExplorationNote, userId: string): Promise<Destination> {
+    const destination = await DestinationService.createDestination({
+      originalTask: note.content,
+      userId,
+    });
+
+    const { error } = await supabase
+      .from('exploration_notes')
+      .update({ destination_id: destination.id, promoted_at: new Date().toISOString() })
+      .eq('id', note.id);
+
+    if (error) {
+      // The destination exists either way - the note just stays in the inbox
+      console.warn('Failed to link promoted note to its destination:', error);
+    }
+
+    return destination;
+  }
+}
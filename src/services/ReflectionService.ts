@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase';
+import { addDays, getBrowserTimeZone, getLocalDate, getPreviousDate, getZonedDayRange } from '../utils/timezone';
 
 export interface DailyReflection {
   id: string;
@@ -8,27 +9,65 @@ export interface DailyReflection {
   total_focus_time: number;
   voyage_count: number;
   generated_at: string;
+  highlights: string[];
+  pattern_observed: string | null;
+  tomorrow_suggestion: string | null;
+  generation_source: 'llm' | 'fallback' | null;
+  journal_entry: string | null;
+  journal_rating: number | null; // 1-5
+  journal_updated_at: string | null;
 }
 
+// The user's own entry next to the seagull's reflection
+export interface ReflectionJournal {
+  journal_entry: string | null;
+  journal_rating: number | null;
+}
+
+// Weekly digest, kept per week so the Captain's Log does not regenerate it
+export interface WeeklyReflection {
+  id: string;
+  user_id: string;
+  week_start: string; // Monday, YYYY-MM-DD
+  reflection_text: string;
+  highlights: string[];
+  pattern_observed: string | null;
+  tomorrow_suggestion: string | null;
+  generation_source: 'llm' | 'fallback' | null;
+  generated_at: string;
+}
+
+// Structured reflection returned by the generate-reflection edge function
+export interface ReflectionInsights {
+  reflection: string;
+  highlights: string[];
+  pattern_observed: string | null;
+  tomorrow_suggestion: string | null;
+  source?: 'llm' | 'fallback';
+}
+
+// The function answers 429 once a user has used up today's LLM reflections
+const isRateLimited = (error: unknown): boolean =>
+  (error as { context?: Response } | null)?.context?.status === 429;
+
 export class ReflectionService {
   /**
    * Generate daily reflection using AI
+   * The day is the calendar day containing `date` in the user's time zone.
    */
-  static async generateDailyReflection(userId: string, date: Date): Promise<DailyReflection> {
+  static async generateDailyReflection(
+    userId: string,
+    date: Date,
+    timeZone: string = getBrowserTimeZone()
+  ): Promise<DailyReflection> {
     try {
       // Get voyages data for the day
-      const dayStart = new Date(date);
-      dayStart.setHours(0, 0, 0, 0);
-      const dayEnd = new Date(date);
-      dayEnd.setHours(23, 59, 59, 999);
+      const localDate = getLocalDate(timeZone, date);
+      const { start: dayStart, end: dayEnd } = getZonedDayRange(localDate, timeZone);
 
       const { data: voyages, error: voyageError } = await supabase
         .from('voyages')
-        .select(`
-          *,
-          destination:destinations(destination_name, description),
-          distraction_events(type, duration_seconds, user_response)
-        `)
+        .select('actual_duration')
         .eq('user_id', userId)
         .gte('start_time', dayStart.toISOString())
         .lte('start_time', dayEnd.toISOString());
@@ -38,25 +77,32 @@ export class ReflectionService {
       const totalFocusTime = voyages?.reduce((sum, v) => sum + (v.actual_duration || 0), 0) || 0;
       const voyageCount = voyages?.length || 0;
 
-      let reflectionText = null;
+      let insights: ReflectionInsights | null = null;
 
       // Try to generate AI reflection if there's activity
       if (voyageCount > 0) {
         try {
+          // The function reads the day's voyages, distractions, notes and voice analysis itself
           const { data: aiReflection, error: aiError } = await supabase.functions.invoke('generate-reflection', {
             body: {
-              voyages,
-              totalFocusTime,
-              voyageCount,
-              date: date.toISOString()
+              type: 'daily',
+              dayStart: dayStart.toISOString(),
+              dayEnd: dayEnd.toISOString(),
+              date: localDate
             }
           });
 
           if (aiError) throw aiError;
-          reflectionText = aiReflection.reflection;
+          insights = aiReflection;
         } catch (aiError) {
+          if (isRateLimited(aiError)) {
+            // Keep today's existing reflection rather than replacing it with a template
+            const existing = await this.getDailyReflection(userId, date, timeZone);
+            if (existing?.reflection_text) return existing;
+          }
+
           console.warn('AI reflection generation failed, using fallback:', aiError);
-          reflectionText = this.generateFallbackReflection(voyages, totalFocusTime, voyageCount);
+          insights = this.generateFallbackReflection(totalFocusTime, voyageCount);
         }
       }
 
@@ -65,11 +111,16 @@ export class ReflectionService {
         .from('daily_reflections')
         .upsert({
           user_id: userId,
-          date: date.toISOString().split('T')[0],
-          reflection_text: reflectionText,
+          date: localDate,
+          reflection_text: insights?.reflection ?? null,
           total_focus_time: totalFocusTime,
           voyage_count: voyageCount,
-        })
+          highlights: insights?.highlights ?? [],
+          pattern_observed: insights?.pattern_observed ?? null,
+          tomorrow_suggestion: insights?.tomorrow_suggestion ?? null,
+          generation_source: insights ? insights.source ?? 'fallback' : null,
+          generated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,date' })
         .select()
         .single();
 
@@ -84,15 +135,31 @@ export class ReflectionService {
   /**
    * Get daily reflection for a specific date
    */
-  static async getDailyReflection(userId: string, date: Date): Promise<DailyReflection | null> {
+  static async getDailyReflection(
+    userId: string,
+    date: Date,
+    timeZone: string = getBrowserTimeZone()
+  ): Promise<DailyReflection | null> {
+    return this.getReflectionForDate(userId, getLocalDate(timeZone, date));
+  }
+
+  /**
+   * Get the reflection for the user's previous local day, written overnight by the scheduled job
+   */
+  static async getYesterdayReflection(
+    userId: string,
+    timeZone: string = getBrowserTimeZone()
+  ): Promise<DailyReflection | null> {
+    return this.getReflectionForDate(userId, getPreviousDate(getLocalDate(timeZone)));
+  }
+
+  private static async getReflectionForDate(userId: string, date: string): Promise<DailyReflection | null> {
     try {
-      const dateStr = date.toISOString().split('T')[0];
-      
       const { data, error } = await supabase
         .from('daily_reflections')
         .select('*')
         .eq('user_id', userId)
-        .eq('date', dateStr)
+        .eq('date', date)
         .maybeSingle();
 
       if (error) throw error;
@@ -123,55 +190,150 @@ export class ReflectionService {
     }
   }
 
+  /**
+   * Get daily reflections from `from` to `to` (YYYY-MM-DD, inclusive), newest first
+   */
+  static async getReflectionsBetween(userId: string, from: string, to: string): Promise<DailyReflection[]> {
+    try {
+      const { data, error } = await supabase
+        .from('daily_reflections')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('date', from)
+        .lte('date', to)
+        .order('date', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Failed to get reflections:', error);
+      throw new Error("Unable to load your Captain's Log. Please try again.");
+    }
+  }
+
+  /**
+   * Save the user's journal entry and rating for a day that has a reflection
+   */
+  static async saveJournal(userId: string, date: string, journal: ReflectionJournal): Promise<DailyReflection> {
+    try {
+      const { data, error } = await supabase
+        .from('daily_reflections')
+        .update({
+          journal_entry: journal.journal_entry?.trim() || null,
+          journal_rating: journal.journal_rating,
+          journal_updated_at: new Date().toISOString(),
+        })
+        .eq('user_id', userId)
+        .eq('date', date)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Failed to save journal entry:', error);
+      throw new Error('Unable to save your journal entry. Please try again.');
+    }
+  }
+
+  /**
+   * Get saved weekly digests for weeks starting between `from` and `to`
+   */
+  static async getWeeklyReflections(userId: string, from: string, to: string): Promise<WeeklyReflection[]> {
+    try {
+      const { data, error } = await supabase
+        .from('weekly_reflections')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('week_start', from)
+        .lte('week_start', to);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Failed to get weekly reflections:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Generate and save the weekly digest for the week starting `weekStart` (YYYY-MM-DD)
+   * Replaces an earlier digest; template (fallback) digests can be written again later.
+   */
+  static async generateWeeklyReflection(userId: string, weekStart: string): Promise<WeeklyReflection> {
+    const insights = await this.generateWeeklySummary(userId, weekStart);
+
+    try {
+      const { data, error } = await supabase
+        .from('weekly_reflections')
+        .upsert({
+          user_id: userId,
+          week_start: weekStart,
+          reflection_text: insights.reflection,
+          highlights: insights.highlights,
+          pattern_observed: insights.pattern_observed,
+          tomorrow_suggestion: insights.tomorrow_suggestion,
+          generation_source: insights.source ?? 'fallback',
+          generated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,week_start' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Failed to save weekly reflection:', error);
+      throw new Error('Unable to save the weekly digest. Please try again.');
+    }
+  }
+
   /**
    * Generate weekly summary reflection
    */
-  static async generateWeeklySummary(userId: string, weekStart: Date): Promise<string> {
+  static async generateWeeklySummary(userId: string, weekStart: string): Promise<ReflectionInsights> {
     try {
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekEnd.getDate() + 6);
+      const weekEnd = addDays(weekStart, 6);
 
       const { data: reflections, error } = await supabase
         .from('daily_reflections')
         .select('*')
         .eq('user_id', userId)
-        .gte('date', weekStart.toISOString().split('T')[0])
-        .lte('date', weekEnd.toISOString().split('T')[0])
+        .gte('date', weekStart)
+        .lte('date', weekEnd)
         .order('date', { ascending: true });
 
       if (error) throw error;
 
       if (!reflections || reflections.length === 0) {
-        return "A quiet week on the seas of focus. Sometimes the strongest sailors take time to prepare for their next great voyage.";
+        return this.toInsights("A quiet week on the seas of focus. Sometimes the strongest sailors take time to prepare for their next great voyage.");
       }
 
       // Try AI generation for weekly summary
       try {
         const { data: aiSummary, error: aiError } = await supabase.functions.invoke('generate-reflection', {
           body: {
-            reflections,
             type: 'weekly_summary',
-            weekStart: weekStart.toISOString(),
-            weekEnd: weekEnd.toISOString()
+            weekStart,
+            weekEnd
           }
         });
 
         if (aiError) throw aiError;
-        return aiSummary.reflection;
+        return aiSummary;
       } catch (aiError) {
         console.warn('AI weekly summary failed, using fallback:', aiError);
-        return this.generateFallbackWeeklySummary(reflections);
+        return this.toInsights(this.generateFallbackWeeklySummary(reflections));
       }
     } catch (error) {
       console.error('Failed to generate weekly summary:', error);
-      return "Your week of focused sailing continues. Every moment of attention is a step toward your lighthouse.";
+      return this.toInsights("Your week of focused sailing continues. Every moment of attention is a step toward your lighthouse.");
     }
   }
 
   /**
    * Fallback reflection generation when AI is unavailable
    */
-  private static generateFallbackReflection(voyages: any[], totalFocusTime: number, voyageCount: number): string {
+  private static generateFallbackReflection(totalFocusTime: number, voyageCount: number): ReflectionInsights {
     const templates = [
       `Today you sailed for ${totalFocusTime} minutes across ${voyageCount} voyage${voyageCount === 1 ? '' : 's'}. The seagull observed your steady progress toward your lighthouse.`,
       `${voyageCount} journey${voyageCount === 1 ? '' : 's'} completed today, accumulating ${totalFocusTime} minutes of focused navigation. Your determination is like the steady lighthouse beam.`,
@@ -179,14 +341,18 @@ export class ReflectionService {
     ];
 
     if (totalFocusTime === 0) {
-      return "Sometimes the sea is calm and we rest at harbor. Tomorrow brings new opportunities to set sail toward your dreams.";
+      return this.toInsights("Sometimes the sea is calm and we rest at harbor. Tomorrow brings new opportunities to set sail toward your dreams.");
     }
 
     if (totalFocusTime >= 120) { // 2+ hours
-      return `Remarkable dedication today! ${totalFocusTime} minutes of focused sailing shows the heart of a true navigator. Your lighthouse grows brighter with each voyage.`;
+      return this.toInsights(`Remarkable dedication today! ${totalFocusTime} minutes of focused sailing shows the heart of a true navigator. Your lighthouse grows brighter with each voyage.`);
     }
 
-    return templates[Math.floor(Math.random() * templates.length)];
+    return this.toInsights(templates[Math.floor(Math.random() * templates.length)]);
+  }
+
+  private static toInsights(reflection: string): ReflectionInsights {
+    return { reflection, highlights: [], pattern_observed: null, tomorrow_suggestion: null, source: 'fallback' };
   }
 
   /**
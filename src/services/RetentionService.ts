@@ -0,0 +1,60 @@
+/**
+ * Retention Service
+ *
+ * Per-user retention settings and a summary of what is currently stored.
+ * Deleting expired data happens in the database (`purge_expired_user_data`,
+ * scheduled nightly); voice note recordings by the `purge-voice-note-audio`
+ * edge function, scheduled just before it.
+ */
+
+import { supabase } from '../lib/supabase';
+import { DEFAULT_RETENTION_SETTINGS } from '../config/retention';
+import type { DataUsage, RetentionSettings } from '../types';
+
+export class RetentionService {
+  /**
+   * Get a user's retention settings (defaults if they never saved any)
+   */
+  static async getSettings(userId: string): Promise<RetentionSettings> {
+    const { data, error } = await supabase
+      .from('retention_settings')
+      .select('transcripts_days, detection_results_days, screenshot_analysis_days, exploration_notes_days')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to load retention settings:', error);
+      throw new Error('Unable to load your data retention settings.');
+    }
+
+    return data || DEFAULT_RETENTION_SETTINGS;
+  }
+
+  /**
+   * Save a user's retention settings
+   */
+  static async saveSettings(userId: string, settings: RetentionSettings): Promise<void> {
+    const { error } = await supabase
+      .from('retention_settings')
+      .upsert({ user_id: userId, ...settings }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Failed to save retention settings:', error);
+      throw new Error('Unable to save your data retention settings.');
+    }
+  }
+
+  /**
+   * How much of each kind of data is stored for the signed-in user
+   */
+  static async getDataUsage(): Promise<DataUsage> {
+    const { data, error } = await supabase.rpc('get_data_usage');
+
+    if (error) {
+      console.error('Failed to load data usage:', error);
+      throw new Error('Unable to load how much data is stored.');
+    }
+
+    return data;
+  }
+}
@@ -3,22 +3,96 @@
  * 
  * Captures screenshots of the current page including the camera view
  * for AI analysis to detect if the user is working on relevant content.
+ *
+ * Each capture also gets a difference hash (dHash) of the screen and of the
+ * camera frame. Comparing them with the last analyzed capture lets callers
+ * skip the vision model when nothing has meaningfully changed.
+ *
+ * Captures pass through the user's redaction settings (config/privacy) before
+ * they are encoded: downscaling, pixelated regions, and dropping or blacking
+ * out the screen or camera.
+ *
+ * Several surfaces (monitors or single windows) can be shared at once; they
+ * are captured side by side in one image. A surface whose track ends, or
+ * that keeps producing black frames, puts sharing into a `lost` state: no
+ * captures are taken until the user re-shares or dismisses it.
  */
 
 import { GeminiService } from './GeminiService';
 import type { ScreenshotAnalysisResult } from './GeminiService';
+import { DEFAULT_REDACTION_SETTINGS, REDACTION_BLOCK_SIZE } from '../config/privacy';
+import type { RedactionMode, RedactionSettings } from '../types';
 
 export interface ScreenshotData {
   blob: Blob;
   timestamp: number;
   includesCamera: boolean;
+  screenHash: string;
+  cameraHash: string | null;
+  redaction: RedactionSummary;
 }
 
+// What was actually removed from a capture - stored with each detection result
+export interface RedactionSummary {
+  mode: RedactionMode;
+  width: number;
+  height: number;
+  downscaled: boolean;
+  blurredRegions: number; // Regions pixelated on each shared surface
+  cameraBlackedOut: boolean;
+  includesCamera?: boolean; // A camera picture reached the model (absent on older rows)
+}
+
+export type SharedSurfaceKind = 'monitor' | 'window' | 'browser' | 'unknown';
+
+export interface SharedSurface {
+  id: string;
+  label: string;
+  kind: SharedSurfaceKind;
+}
+
+export interface ScreenSharingStatus {
+  state: 'inactive' | 'active' | 'lost';
+  surfaces: SharedSurface[];
+  lost: { at: number; reason: 'track_ended' | 'blank_frames'; surface: string } | null;
+}
+
+export interface ScreenChange {
+  changed: boolean;
+  reason: 'disabled' | 'no_baseline' | 'screen_changed' | 'camera_changed' | 'skip_limit' | 'unchanged';
+  screenDistance: number | null; // Hash bits (of 64) that differ from the last analyzed capture
+  cameraDistance: number | null;
+  consecutiveSkips: number;
+}
+
+export const SCREENSHOT_PREFILTER = {
+  enabled: import.meta.env.VITE_SCREENSHOT_PREFILTER !== 'false',
+  screenDistanceThreshold: 4, // Cursor blinks and clock ticks stay below this
+  cameraDistanceThreshold: 6, // Camera frames are noisier than screens
+  maxConsecutiveSkips: 4, // Ask the model at least every fifth capture
+};
+
+// dHash compares each pixel with its right neighbour on a 9x8 grayscale thumbnail
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// A surface whose brightest thumbnail cell stays below this (0-255) is showing a blank picture
+const BLANK_FRAME_MAX_LUMINANCE = 8;
+// Consecutive blank captures before sharing counts as lost
+const BLANK_CAPTURE_LIMIT = 2;
+
 export class ScreenshotService {
   private static canvas: HTMLCanvasElement | null = null;
   private static context: CanvasRenderingContext2D | null = null;
-  private static screenStream: MediaStream | null = null;
-  private static permissionGranted: boolean = false;
+  private static surfaces: { info: SharedSurface; stream: MediaStream }[] = [];
+  private static sharingLost: ScreenSharingStatus['lost'] = null;
+  private static blankCaptures = 0;
+  private static sharingListeners = new Set<(status: ScreenSharingStatus) => void>();
+  private static compositeCanvas: HTMLCanvasElement | null = null;
+  private static hashCanvas: HTMLCanvasElement | null = null;
+  private static hashContext: CanvasRenderingContext2D | null = null;
+  private static lastAnalyzed: Pick<ScreenshotData, 'screenHash' | 'cameraHash'> | null = null;
+  private static consecutiveSkips = 0;
 
   /**
    * Initialize the screenshot service
@@ -26,13 +100,38 @@ export class ScreenshotService {
   static initialize() {
     this.canvas = document.createElement('canvas');
     this.context = this.canvas.getContext('2d');
+    this.hashCanvas = document.createElement('canvas');
+    this.hashCanvas.width = HASH_WIDTH;
+    this.hashCanvas.height = HASH_HEIGHT;
+    this.hashContext = this.hashCanvas.getContext('2d', { willReadFrequently: true });
   }
 
   /**
    * Check if screen sharing permission is already granted
    */
   static isPermissionGranted(): boolean {
-    return this.permissionGranted && !!this.screenStream;
+    return this.surfaces.length > 0;
+  }
+
+  /**
+   * Current shared surfaces and whether sharing was lost
+   */
+  static getSharingStatus(): ScreenSharingStatus {
+    return {
+      state: this.sharingLost ? 'lost' : this.surfaces.length > 0 ? 'active' : 'inactive',
+      surfaces: this.surfaces.map(surface => surface.info),
+      lost: this.sharingLost
+    };
+  }
+
+  /**
+   * Listen for sharing changes; returns an unsubscribe function
+   */
+  static subscribeToSharing(listener: (status: ScreenSharingStatus) => void): () => void {
+    this.sharingListeners.add(listener);
+    return () => {
+      this.sharingListeners.delete(listener);
+    };
   }
 
   /**
@@ -40,61 +139,129 @@ export class ScreenshotService {
    * This is now called during voyage preparation instead of first screenshot
    */
   static async requestScreenPermission(): Promise<boolean> {
-    if (this.permissionGranted && this.screenStream) {
+    if (this.surfaces.length > 0) {
       return true;
     }
 
+    return this.addScreenSurface();
+  }
+
+  /**
+   * Share another monitor or window; it is captured alongside the others.
+   * Sharing anything new also clears a lost state (this is how users re-share).
+   */
+  static async addScreenSurface(): Promise<boolean> {
     try {
-      this.screenStream = await navigator.mediaDevices.getDisplayMedia({
+      const stream = await navigator.mediaDevices.getDisplayMedia({
         video: {
-          mediaSource: 'screen',
           width: { ideal: 1920 },
           height: { ideal: 1080 }
         },
         audio: false
       });
 
-      this.permissionGranted = true;
-      
-      // Listen for stream ending (user stops sharing)
-      this.screenStream.getVideoTracks()[0].addEventListener('ended', () => {
-        console.log('[ScreenshotService] Screen sharing ended by user');
-        this.screenStream = null;
-        this.permissionGranted = false;
+      const track = stream.getVideoTracks()[0];
+      const settings = track.getSettings() as MediaTrackSettings & { displaySurface?: string };
+      const kind: SharedSurfaceKind = settings.displaySurface === 'monitor' || settings.displaySurface === 'window' ||
+        settings.displaySurface === 'browser'
+        ? settings.displaySurface
+        : 'unknown';
+      const info: SharedSurface = {
+        id: `surface-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        label: track.label || (kind === 'window' ? 'Window' : 'Screen'),
+        kind
+      };
+
+      // Listen for stream ending (user stops sharing, window closed, monitor unplugged)
+      track.addEventListener('ended', () => {
+        console.warn('[ScreenshotService] Shared surface ended:', info.label);
+        this.handleSurfaceLost(info.id, 'track_ended');
       });
 
+      this.surfaces.push({ info, stream });
+      this.sharingLost = null;
+      this.blankCaptures = 0;
+      this.resetChangeDetection();
+      this.notifySharingListeners();
+
       return true;
     } catch (error) {
       console.warn('[ScreenshotService] Screen capture permission denied:', error);
-      this.permissionGranted = false;
       return false;
     }
   }
 
+  /**
+   * Stop sharing one surface on purpose (not treated as lost)
+   */
+  static removeScreenSurface(id: string): void {
+    const surface = this.surfaces.find(s => s.info.id === id);
+    if (!surface) return;
+
+    this.surfaces = this.surfaces.filter(s => s !== surface);
+    surface.stream.getTracks().forEach(track => track.stop());
+    this.resetChangeDetection();
+    this.notifySharingListeners();
+  }
+
+  /**
+   * Carry on with whatever is still shared (possibly nothing) after a loss
+   */
+  static dismissSharingLost(): void {
+    this.sharingLost = null;
+    this.blankCaptures = 0;
+    this.resetChangeDetection();
+    this.notifySharingListeners();
+  }
+
   /**
    * Capture a screenshot of the current page including camera view
    * Now uses pre-granted permission instead of requesting it
    */
-  static async captureScreenshot(cameraStream?: MediaStream): Promise<ScreenshotData> {
+  static async captureScreenshot(
+    cameraStream?: MediaStream,
+    redaction: RedactionSettings = DEFAULT_REDACTION_SETTINGS
+  ): Promise<ScreenshotData> {
     try {
+      // Camera-only captures never read the screen, so they need no shared surface
+      const cameraOnly = redaction.mode === 'camera_only';
+
+      // Never analyse a partial or blank view - wait for the user to re-share
+      if (this.sharingLost && !cameraOnly) {
+        throw new Error(`Screen sharing lost (${this.sharingLost.surface}). Please share your screen again.`);
+      }
+
       // Check if we have screen permission (should be granted during voyage preparation)
-      if (!this.permissionGranted || !this.screenStream) {
+      if (this.surfaces.length === 0 && !cameraOnly) {
         throw new Error('Screen capture permission not granted. Please grant permission during voyage preparation.');
       }
 
-      const pageStream = this.screenStream!;
-
-      // Create video elements for page and camera
-      const pageVideo = document.createElement('video');
+      // Create video elements for every shared surface and the camera
+      const surfaceVideos = await Promise.all((cameraOnly ? [] : this.surfaces).map(async surface => {
+        const video = document.createElement('video');
+        video.srcObject = surface.stream;
+        video.muted = true;
+        await new Promise(resolve => {
+          video.onloadedmetadata = resolve;
+        });
+        await video.play();
+        return { info: surface.info, video };
+      }));
       const cameraVideo = document.createElement('video');
 
-      // Setup page video
-      pageVideo.srcObject = pageStream;
-      pageVideo.muted = true;
-      await new Promise(resolve => {
-        pageVideo.onloadedmetadata = resolve;
-      });
-      await pageVideo.play();
+      // A minimized window or sleeping monitor shares black frames rather than ending
+      const blankSurface = surfaceVideos.find(({ video }) => this.isBlankFrame(video));
+      if (blankSurface) {
+        this.blankCaptures++;
+        if (this.blankCaptures >= BLANK_CAPTURE_LIMIT) {
+          this.handleSurfaceLost(blankSurface.info.id, 'blank_frames');
+        }
+        throw new Error(`Shared surface "${blankSurface.info.label}" is showing a blank picture.`);
+      }
+      this.blankCaptures = 0;
+
+      const composite = cameraOnly ? null : this.composeSurfaces(surfaceVideos.map(({ video }) => video));
+      const pageVideo = composite?.canvas ?? null;
 
       // Setup camera video if available
       let hasCameraStream = false;
@@ -120,15 +287,47 @@ export class ScreenshotService {
       const canvas = this.canvas!;
       const ctx = this.context!;
 
-      // Set canvas size to match page video
-      canvas.width = pageVideo.videoWidth;
-      canvas.height = pageVideo.videoHeight;
+      if (cameraOnly && !hasCameraStream) {
+        throw new Error('Camera-only redaction needs an active camera.');
+      }
+
+      // The main image is the screen, or the camera frame in camera-only mode
+      const mainSource = pageVideo ?? cameraVideo;
+      const sourceWidth = pageVideo ? pageVideo.width : cameraVideo.videoWidth;
+      const sourceHeight = pageVideo ? pageVideo.height : cameraVideo.videoHeight;
+
+      // Downscale to the privacy resolution before anything is drawn
+      const scale = redaction.maxWidth && sourceWidth > redaction.maxWidth
+        ? redaction.maxWidth / sourceWidth
+        : 1;
+      canvas.width = Math.round(sourceWidth * scale);
+      canvas.height = Math.round(sourceHeight * scale);
 
       // Draw page content
-      ctx.drawImage(pageVideo, 0, 0);
+      ctx.drawImage(mainSource, 0, 0, canvas.width, canvas.height);
+
+      // Hash before any overlay or redaction so only real content changes count.
+      // Hashes stay in the browser. Without a screen, only the camera can change.
+      const screenHash = pageVideo ? this.computeDifferenceHash(pageVideo, pageVideo.width, pageVideo.height) : '';
+      const cameraHash = hasCameraStream
+        ? this.computeDifferenceHash(cameraVideo, cameraVideo.videoWidth, cameraVideo.videoHeight)
+        : null;
+
+      // Regions are fractions of one surface, so they are applied within each surface's slot
+      let blurredRegions = 0;
+      composite?.slots.forEach(slot => {
+        blurredRegions = this.pixelateRegions(canvas, ctx, redaction, {
+          x: Math.round(slot.x * scale),
+          y: 0,
+          width: Math.round(slot.width * scale),
+          height: canvas.height
+        });
+      });
 
       // Draw camera overlay in bottom-left corner if available
-      if (hasCameraStream) {
+      const drawCameraOverlay = hasCameraStream && redaction.mode === 'full';
+      const cameraBlackedOut = drawCameraOverlay && redaction.blackOutCamera;
+      if (drawCameraOverlay) {
         const cameraWidth = Math.floor(canvas.width / 6); // 1/6 of width
         const cameraHeight = Math.floor(canvas.height / 6); // 1/6 of height
         const cameraX = 20; // 20px from left edge
@@ -138,13 +337,18 @@ export class ScreenshotService {
         ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
         ctx.fillRect(cameraX - 5, cameraY - 5, cameraWidth + 10, cameraHeight + 10);
 
-        // Draw camera content
-        ctx.drawImage(cameraVideo, cameraX, cameraY, cameraWidth, cameraHeight);
+        if (cameraBlackedOut) {
+          ctx.fillStyle = 'black';
+          ctx.fillRect(cameraX, cameraY, cameraWidth, cameraHeight);
+        } else {
+          // Draw camera content
+          ctx.drawImage(cameraVideo, cameraX, cameraY, cameraWidth, cameraHeight);
+        }
 
         // Add label
         ctx.fillStyle = 'white';
         ctx.font = '12px Arial';
-        ctx.fillText('Camera', cameraX, cameraY - 10);
+        ctx.fillText(cameraBlackedOut ? 'Camera hidden' : 'Camera', cameraX, cameraY - 10);
       }
 
       // Convert canvas to blob
@@ -161,10 +365,23 @@ export class ScreenshotService {
       // Don't stop the screen stream - reuse it for future screenshots
       // Only clean up temporary video elements (they're garbage collected)
 
+      const includesCamera = cameraOnly || (drawCameraOverlay && !cameraBlackedOut);
+
       return {
         blob,
         timestamp: Date.now(),
-        includesCamera: hasCameraStream
+        includesCamera,
+        screenHash,
+        cameraHash,
+        redaction: {
+          mode: redaction.mode,
+          width: canvas.width,
+          height: canvas.height,
+          downscaled: scale < 1,
+          blurredRegions,
+          cameraBlackedOut,
+          includesCamera
+        }
       };
 
     } catch (error) {
@@ -173,6 +390,208 @@ export class ScreenshotService {
     }
   }
 
+  /**
+   * Compare a capture with the last analyzed one
+   */
+  static detectChange(screenshot: ScreenshotData): ScreenChange {
+    const base = { consecutiveSkips: this.consecutiveSkips };
+
+    if (!SCREENSHOT_PREFILTER.enabled) {
+      return { ...base, changed: true, reason: 'disabled', screenDistance: null, cameraDistance: null };
+    }
+
+    if (!this.lastAnalyzed) {
+      return { ...base, changed: true, reason: 'no_baseline', screenDistance: null, cameraDistance: null };
+    }
+
+    const screenDistance = this.hammingDistance(screenshot.screenHash, this.lastAnalyzed.screenHash);
+    // Camera appearing or disappearing is always a change
+    const cameraDistance = screenshot.cameraHash && this.lastAnalyzed.cameraHash
+      ? this.hammingDistance(screenshot.cameraHash, this.lastAnalyzed.cameraHash)
+      : screenshot.cameraHash === this.lastAnalyzed.cameraHash ? 0 : HASH_WIDTH * HASH_HEIGHT;
+    const distances = { screenDistance, cameraDistance };
+
+    if (screenDistance > SCREENSHOT_PREFILTER.screenDistanceThreshold) {
+      return { ...base, ...distances, changed: true, reason: 'screen_changed' };
+    }
+    if (cameraDistance > SCREENSHOT_PREFILTER.cameraDistanceThreshold) {
+      return { ...base, ...distances, changed: true, reason: 'camera_changed' };
+    }
+    if (this.consecutiveSkips >= SCREENSHOT_PREFILTER.maxConsecutiveSkips) {
+      return { ...base, ...distances, changed: true, reason: 'skip_limit' };
+    }
+
+    return { ...base, ...distances, changed: false, reason: 'unchanged' };
+  }
+
+  /**
+   * Make this capture the baseline for future comparisons (call after a usable analysis)
+   */
+  static markAnalyzed(screenshot: ScreenshotData): void {
+    this.lastAnalyzed = { screenHash: screenshot.screenHash, cameraHash: screenshot.cameraHash };
+    this.consecutiveSkips = 0;
+  }
+
+  /**
+   * Count a capture that was not sent to the model
+   */
+  static markSkipped(): void {
+    this.consecutiveSkips++;
+  }
+
+  /**
+   * Forget the baseline (e.g. when a new voyage starts)
+   */
+  static resetChangeDetection(): void {
+    this.lastAnalyzed = null;
+    this.consecutiveSkips = 0;
+  }
+
+  /**
+   * Lay the shared surfaces side by side at a common height
+   * Returns where each surface landed, in composite pixels.
+   */
+  private static composeSurfaces(videos: HTMLVideoElement[]): {
+    canvas: HTMLCanvasElement;
+    slots: { x: number; width: number }[];
+  } {
+    if (!this.compositeCanvas) {
+      this.compositeCanvas = document.createElement('canvas');
+    }
+
+    const canvas = this.compositeCanvas;
+    const height = Math.max(...videos.map(video => video.videoHeight));
+    const widths = videos.map(video => Math.round(video.videoWidth * (height / video.videoHeight)));
+    canvas.width = widths.reduce((sum, width) => sum + width, 0);
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    let x = 0;
+    const slots = videos.map((video, index) => {
+      const slot = { x, width: widths[index] };
+      ctx.drawImage(video, x, 0, widths[index], height);
+      x += widths[index];
+      return slot;
+    });
+
+    return { canvas, slots };
+  }
+
+  private static isBlankFrame(video: HTMLVideoElement): boolean {
+    if (!video.videoWidth || !video.videoHeight) return true;
+    if (!this.hashCanvas || !this.hashContext) {
+      this.initialize();
+    }
+
+    const ctx = this.hashContext!;
+    ctx.drawImage(video, 0, 0, video.videoWidth, video.videoHeight, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+    for (let i = 0; i < data.length; i += 4) {
+      if (Math.max(data[i], data[i + 1], data[i + 2]) >= BLANK_FRAME_MAX_LUMINANCE) return false;
+    }
+    return true;
+  }
+
+  private static handleSurfaceLost(id: string, reason: 'track_ended' | 'blank_frames'): void {
+    const surface = this.surfaces.find(s => s.info.id === id);
+    if (!surface) return;
+
+    this.surfaces = this.surfaces.filter(s => s !== surface);
+    surface.stream.getTracks().forEach(track => track.stop());
+    this.sharingLost = { at: Date.now(), reason, surface: surface.info.label };
+    this.notifySharingListeners();
+  }
+
+  private static notifySharingListeners(): void {
+    const status = this.getSharingStatus();
+    this.sharingListeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.warn('[ScreenshotService] Sharing listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Pixelate the user's redaction regions within one surface's area of the canvas; returns how many were applied
+   */
+  private static pixelateRegions(
+    canvas: HTMLCanvasElement,
+    ctx: CanvasRenderingContext2D,
+    redaction: RedactionSettings,
+    area: { x: number; y: number; width: number; height: number }
+  ): number {
+    let applied = 0;
+    const blocks = document.createElement('canvas');
+    const blocksCtx = blocks.getContext('2d');
+    if (!blocksCtx) return 0;
+
+    for (const region of redaction.blurRegions) {
+      const x = area.x + Math.max(0, Math.floor(region.x * area.width));
+      const y = area.y + Math.max(0, Math.floor(region.y * area.height));
+      const width = Math.min(area.x + area.width - x, Math.ceil(region.width * area.width));
+      const height = Math.min(area.y + area.height - y, Math.ceil(region.height * area.height));
+      if (width <= 0 || height <= 0) continue;
+
+      // Shrink the region to a few pixels, then stretch it back without smoothing
+      blocks.width = Math.max(1, Math.ceil(width / REDACTION_BLOCK_SIZE));
+      blocks.height = Math.max(1, Math.ceil(height / REDACTION_BLOCK_SIZE));
+      blocksCtx.drawImage(canvas, x, y, width, height, 0, 0, blocks.width, blocks.height);
+
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(blocks, 0, 0, blocks.width, blocks.height, x, y, width, height);
+      ctx.imageSmoothingEnabled = true;
+      applied++;
+    }
+
+    return applied;
+  }
+
+  /**
+   * Difference hash of an image as 16 hex characters
+   */
+  private static computeDifferenceHash(source: CanvasImageSource, width: number, height: number): string {
+    if (!this.hashCanvas || !this.hashContext) {
+      this.initialize();
+    }
+
+    const ctx = this.hashContext!;
+    ctx.drawImage(source, 0, 0, width, height, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+    const luminance = (x: number, y: number) => {
+      const i = (y * HASH_WIDTH + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+
+    let hash = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      let row = 0;
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        row = (row << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+      }
+      hash += row.toString(16).padStart(2, '0');
+    }
+    return hash;
+  }
+
+  private static hammingDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < a.length; i += 2) {
+      let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+      while (diff) {
+        distance += diff & 1;
+        diff >>= 1;
+      }
+    }
+    return distance;
+  }
+
   static async captureAndAnalyze(userGoal: string, currentTask: string, relatedApps: string[]): Promise<{ screenshot: ScreenshotData, analysis: ScreenshotAnalysisResult }> {
     const screenshot = await this.captureScreenshot();
 
@@ -204,10 +623,12 @@ export class ScreenshotService {
    * Stop screen sharing and clean up
    */
   static stopScreenSharing(): void {
-    if (this.screenStream) {
-      this.screenStream.getTracks().forEach(track => track.stop());
-      this.screenStream = null;
-      this.permissionGranted = false;
+    if (this.surfaces.length > 0 || this.sharingLost) {
+      this.surfaces.forEach(surface => surface.stream.getTracks().forEach(track => track.stop()));
+      this.surfaces = [];
+      this.sharingLost = null;
+      this.blankCaptures = 0;
+      this.notifySharingListeners();
       console.log('[ScreenshotService] Screen sharing stopped');
     }
   }
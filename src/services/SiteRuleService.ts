@@ -0,0 +1,244 @@
+/**
+ * Site Rule Service
+ *
+ * Stores each user's own blocklist/allowlist and decides whether a URL is
+ * distracting. Evaluation order:
+ * 1. The user's site rules (most specific match wins)
+ * 2. The current destination's related apps
+ * 3. The built-in defaults in config/prompts
+ *
+ * Patterns are a host with an optional path:
+ * - `reddit.com` matches the host and all its subdomains
+ * - `*.google.com` matches subdomains only
+ * - `linkedin.com/feed` matches that path and everything below it
+ * - `youtube.com/*tutorial*` uses `*` as a wildcard within the path
+ */
+
+import { supabase } from '../lib/supabase';
+import {
+  DISTRACTION_BLACKLIST,
+  DISTRACTION_CATEGORY_MAPPING,
+  PRODUCTIVITY_WHITELIST
+} from '../config/prompts';
+import type { SiteRule, SiteRuleCategory } from '../types';
+
+export interface CreateSiteRuleInput {
+  userId: string;
+  pattern: string;
+  ruleType: SiteRule['rule_type'];
+  category?: SiteRuleCategory;
+  note?: string;
+}
+
+export interface UrlEvaluation {
+  verdict: 'allowed' | 'distracting' | 'unrecognized';
+  source: 'user_rule' | 'related_apps' | 'default_category' | 'default_blocklist' | 'default_allowlist' | 'none';
+  category?: SiteRuleCategory;
+  rule?: SiteRule;
+}
+
+export const SITE_RULE_CATEGORIES: SiteRuleCategory[] = [
+  'social_media',
+  'entertainment',
+  'shopping',
+  'news_browsing',
+  'irrelevant_browsing',
+];
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+const wildcardToRegExp = (value: string): RegExp =>
+  new RegExp(`^${value.split('*').map(escapeRegExp).join('.*')}`);
+
+export class SiteRuleService {
+  /**
+   * Normalize a pattern for storage: lowercase, no scheme, no leading www.
+   */
+  static normalizePattern(pattern: string): string {
+    return pattern
+      .trim()
+      .toLowerCase()
+      .replace(/^[a-z]+:\/\//, '')
+      .replace(/^www\./, '');
+  }
+
+  /**
+   * Check whether a URL matches a site rule pattern
+   */
+  static matchesPattern(url: string, pattern: string): boolean {
+    let host: string;
+    let path: string;
+    try {
+      const parsed = new URL(url);
+      host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+      path = `${parsed.pathname}${parsed.search}`.toLowerCase();
+    } catch {
+      return false;
+    }
+
+    const normalized = this.normalizePattern(pattern);
+    if (!normalized) return false;
+
+    const slashIndex = normalized.indexOf('/');
+    const hostPattern = slashIndex === -1 ? normalized : normalized.slice(0, slashIndex);
+    const pathPattern = slashIndex === -1 ? '' : normalized.slice(slashIndex);
+
+    let hostMatches: boolean;
+    if (hostPattern.startsWith('*.') && !hostPattern.slice(2).includes('*')) {
+      hostMatches = host.endsWith(hostPattern.slice(1));
+    } else if (hostPattern.includes('*')) {
+      hostMatches = new RegExp(`${wildcardToRegExp(hostPattern).source}$`).test(host);
+    } else {
+      hostMatches = host === hostPattern || host.endsWith(`.${hostPattern}`);
+    }
+
+    if (!hostMatches) return false;
+    if (!pathPattern || pathPattern === '/') return true;
+
+    return pathPattern.includes('*')
+      ? wildcardToRegExp(pathPattern).test(path)
+      : path.startsWith(pathPattern);
+  }
+
+  /**
+   * Decide whether a URL is distracting for this user and destination
+   */
+  static evaluateUrl(url: string, rules: SiteRule[], relatedApps: string[] = []): UrlEvaluation {
+    const lowerUrl = url.toLowerCase();
+
+    // 1. User rules - the longest (most specific) matching pattern wins; allow wins ties
+    const matchingRule = rules
+      .filter(rule => this.matchesPattern(url, rule.pattern))
+      .sort((a, b) =>
+        b.pattern.length - a.pattern.length ||
+        (a.rule_type === 'allow' ? -1 : 0) - (b.rule_type === 'allow' ? -1 : 0)
+      )[0];
+
+    if (matchingRule) {
+      return matchingRule.rule_type === 'allow'
+        ? { verdict: 'allowed', source: 'user_rule', rule: matchingRule }
+        : {
+          verdict: 'distracting',
+          source: 'user_rule',
+          category: matchingRule.category || 'irrelevant_browsing',
+          rule: matchingRule
+        };
+    }
+
+    // 2. Apps the destination was created for
+    if (relatedApps.some(app => app && lowerUrl.includes(app.toLowerCase()))) {
+      return { verdict: 'allowed', source: 'related_apps' };
+    }
+
+    // 3. Global defaults
+    for (const [domain, category] of Object.entries(DISTRACTION_CATEGORY_MAPPING)) {
+      if (lowerUrl.includes(domain.toLowerCase())) {
+        return { verdict: 'distracting', source: 'default_category', category };
+      }
+    }
+
+    if (DISTRACTION_BLACKLIST.some(item => lowerUrl.includes(item.toLowerCase()))) {
+      return { verdict: 'distracting', source: 'default_blocklist', category: 'irrelevant_browsing' };
+    }
+
+    if (PRODUCTIVITY_WHITELIST.some(item => lowerUrl.includes(item.toLowerCase()))) {
+      return { verdict: 'allowed', source: 'default_allowlist' };
+    }
+
+    return { verdict: 'unrecognized', source: 'none' };
+  }
+
+  /**
+   * Get all site rules for a user
+   */
+  static async getUserRules(userId: string): Promise<SiteRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('site_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Failed to get site rules:', error);
+      throw new Error('Unable to load site rules. Please try again.');
+    }
+  }
+
+  /**
+   * Create a site rule
+   */
+  static async createRule(input: CreateSiteRuleInput): Promise<SiteRule> {
+    const pattern = this.normalizePattern(input.pattern);
+    if (!pattern) {
+      throw new Error('Please enter a site pattern.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('site_rules')
+        .insert({
+          user_id: input.userId,
+          pattern,
+          rule_type: input.ruleType,
+          category: input.ruleType === 'block' ? input.category || 'irrelevant_browsing' : null,
+          note: input.note?.trim() || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Failed to create site rule:', error);
+      throw new Error('Unable to save site rule. It may already exist.');
+    }
+  }
+
+  /**
+   * Update a site rule
+   */
+  static async updateRule(
+    ruleId: string,
+    updates: Partial<Pick<SiteRule, 'pattern' | 'rule_type' | 'category' | 'note'>>
+  ): Promise<SiteRule> {
+    try {
+      const { data, error } = await supabase
+        .from('site_rules')
+        .update({
+          ...updates,
+          ...(updates.pattern !== undefined && { pattern: this.normalizePattern(updates.pattern) }),
+          ...(updates.rule_type === 'allow' && { category: null }),
+        })
+        .eq('id', ruleId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Failed to update site rule:', error);
+      throw new Error('Unable to update site rule. Please try again.');
+    }
+  }
+
+  /**
+   * Delete a site rule
+   */
+  static async deleteRule(ruleId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('site_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to delete site rule:', error);
+      throw new Error('Unable to delete site rule. Please try again.');
+    }
+  }
+}
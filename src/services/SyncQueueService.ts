@@ -0,0 +1,407 @@
+/**
+ * Sync Queue Service
+ *
+ * Offline-first outbox for rows that could not be written to Supabase
+ * (local voyages, their distraction events, exploration notes and intervals, and detection results).
+ * Entries are persisted in IndexedDB and replayed in order when connectivity returns.
+ *
+ * - Inserts carry an idempotency key stored as `client_id`, so retries upsert instead of duplicating
+ * - Local IDs (`local-...`) are remapped to server UUIDs as their rows are synced
+ * - Entries left behind are retried with backoff; entries whose parent row was dropped are dropped too,
+ *   and entries waiting on a parent that is not queued count those passes toward the attempt limit
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+
+export type SyncTable = 'voyages' | 'distraction_events' | 'exploration_notes' | 'exploration_intervals' | 'detection_results';
+
+export interface OutboxEntry {
+  idempotencyKey: string;
+  table: SyncTable;
+  operation: 'insert' | 'update';
+  payload: Record<string, unknown>;
+  localId?: string; // ID the inserted row is known by locally
+  targetId?: string; // Row to update (may be a local ID)
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  remaining: number;
+}
+
+const DB_NAME = 'mindboat-sync';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+const ID_MAP_STORE = 'id_map';
+
+// Entries that keep failing are dropped so they cannot block the queue forever
+const MAX_ATTEMPTS = 20;
+
+// Delay before retrying entries a flush left behind, doubled after each flush that syncs nothing
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+// Payload fields that may reference a local voyage ID
+const VOYAGE_REFERENCE_FIELDS = ['voyage_id'];
+
+// A local ID's server UUID, or null once its insert was dropped
+interface IdMapping {
+  localId: string;
+  serverId: string | null;
+}
+
+type ResolvedEntry =
+  | { status: 'ready'; entry: OutboxEntry }
+  | { status: 'waiting'; parentId: string }
+  | { status: 'orphaned' };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'idempotencyKey' });
+          outbox.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(ID_MAP_STORE)) {
+          db.createObjectStore(ID_MAP_STORE, { keyPath: 'localId' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const createIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  // RFC 4122 v4 fallback for older browsers
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+export class SyncQueueService {
+  private static enabled = false;
+  private static isFlushing = false;
+  private static onlineListenerRegistered = false;
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private static retryDelayMs = RETRY_BASE_DELAY_MS;
+
+  /**
+   * Create an ID for a row that has no server row yet
+   * Random rather than time-based, so rows created in the same millisecond never share a mapping.
+   */
+  static createLocalId(kind?: string): string {
+    return `local-${kind ? `${kind}-` : ''}${createIdempotencyKey()}`;
+  }
+
+  /**
+   * Check whether an ID was generated locally and has no server row yet
+   */
+  static isLocalId(id: string): boolean {
+    return id.startsWith('local-');
+  }
+
+  /**
+   * Enable queueing and replay (only for signed-in Supabase users)
+   */
+  static start(): void {
+    if (!isSupabaseConfigured || typeof indexedDB === 'undefined') return;
+
+    this.enabled = true;
+
+    if (!this.onlineListenerRegistered) {
+      window.addEventListener('online', () => {
+        this.flush();
+      });
+      this.onlineListenerRegistered = true;
+    }
+
+    this.flush();
+  }
+
+  /**
+   * Disable queueing (demo mode or signed out); queued entries are kept
+   */
+  static stop(): void {
+    this.enabled = false;
+    this.clearRetry();
+  }
+
+  /**
+   * Queue an insert for later replay
+   * Returns the idempotency key, or null when queueing is disabled
+   */
+  static async enqueueInsert(
+    table: SyncTable,
+    payload: Record<string, unknown>,
+    localId?: string
+  ): Promise<string | null> {
+    return this.enqueue({ table, operation: 'insert', payload, localId });
+  }
+
+  /**
+   * Queue an update of an existing (possibly still local) row
+   */
+  static async enqueueUpdate(
+    table: SyncTable,
+    targetId: string,
+    payload: Record<string, unknown>
+  ): Promise<string | null> {
+    return this.enqueue({ table, operation: 'update', payload, targetId });
+  }
+
+  /**
+   * Number of entries waiting to be synced
+   */
+  static async getPendingCount(): Promise<number> {
+    if (typeof indexedDB === 'undefined') return 0;
+
+    try {
+      return await runRequest<number>(OUTBOX_STORE, 'readonly', store => store.count());
+    } catch (error) {
+      console.warn('Failed to count pending sync entries:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Resolve a local ID to its server UUID (returns the input when unmapped)
+   */
+  static async resolveId(id: string): Promise<string> {
+    if (!this.isLocalId(id)) return id;
+
+    const mapping = await this.getMapping(id);
+    return mapping?.serverId ?? id;
+  }
+
+  /**
+   * Replay queued entries in order
+   * Entries that still reference an unsynced local row are left for a later flush;
+   * entries that reference a dropped row are dropped with it.
+   */
+  static async flush(): Promise<SyncResult> {
+    if (!this.enabled || this.isFlushing) {
+      return { synced: 0, remaining: await this.getPendingCount() };
+    }
+
+    this.isFlushing = true;
+    let synced = 0;
+
+    try {
+      const entries = await runRequest<OutboxEntry[]>(
+        OUTBOX_STORE,
+        'readonly',
+        store => store.index('createdAt').getAll()
+      );
+
+      for (const entry of entries) {
+        if (typeof navigator !== 'undefined' && !navigator.onLine) break;
+
+        const resolved = await this.resolveEntry(entry);
+        if (resolved.status === 'orphaned') {
+          await this.dropEntry(entry, 'Parent row was dropped');
+          continue;
+        }
+        if (resolved.status === 'waiting') {
+          // A queued parent has its own attempt limit, and dropping it drops this entry too.
+          // A parent nobody will insert never syncs, so those passes count as attempts.
+          const parentQueued = entries.some(e => e.localId === resolved.parentId && e.operation === 'insert');
+          if (!parentQueued) await this.recordFailure(entry, `Parent row ${resolved.parentId} is not queued`);
+          continue;
+        }
+
+        try {
+          await this.replay(resolved.entry);
+          await runRequest(OUTBOX_STORE, 'readwrite', store => store.delete(entry.idempotencyKey));
+          synced++;
+        } catch (error) {
+          await this.recordFailure(entry, error instanceof Error ? error.message : String(error));
+        }
+      }
+    } catch (error) {
+      console.error('Sync queue flush failed:', error);
+    } finally {
+      this.isFlushing = false;
+    }
+
+    const remaining = await this.getPendingCount();
+
+    if (synced > 0) {
+      console.log('✅ Sync queue flushed:', { synced, remaining });
+    }
+
+    this.scheduleRetry(remaining, synced > 0);
+    return { synced, remaining };
+  }
+
+  /**
+   * Flush again later while entries remain; backs off while nothing syncs
+   */
+  private static scheduleRetry(remaining: number, progressed: boolean): void {
+    this.clearRetry();
+
+    if (!this.enabled || remaining === 0 || progressed) {
+      this.retryDelayMs = RETRY_BASE_DELAY_MS;
+    }
+    if (!this.enabled || remaining === 0) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, this.retryDelayMs);
+    this.retryDelayMs = Math.min(this.retryDelayMs * 2, RETRY_MAX_DELAY_MS);
+  }
+
+  private static clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Count a failed pass; the entry is dropped once it reaches the attempt limit
+   */
+  private static async recordFailure(entry: OutboxEntry, lastError: string): Promise<void> {
+    const attempts = entry.attempts + 1;
+
+    if (attempts >= MAX_ATTEMPTS) {
+      await this.dropEntry(entry, `Failed ${attempts} times: ${lastError}`);
+    } else {
+      console.warn('Failed to sync entry, will retry:', { table: entry.table, lastError });
+      await runRequest(OUTBOX_STORE, 'readwrite', store => store.put({ ...entry, attempts, lastError }));
+    }
+  }
+
+  /**
+   * Remove an entry for good; rows that depend on the row it would have inserted follow it
+   */
+  private static async dropEntry(entry: OutboxEntry, reason: string): Promise<void> {
+    console.error('Dropping sync entry:', { entry, reason });
+    await runRequest(OUTBOX_STORE, 'readwrite', store => store.delete(entry.idempotencyKey));
+
+    const { localId } = entry;
+    if (localId) {
+      await runRequest(ID_MAP_STORE, 'readwrite', store =>
+        store.put({ localId, serverId: null } satisfies IdMapping)
+      );
+    }
+  }
+
+  private static getMapping(id: string): Promise<IdMapping | undefined> {
+    return runRequest<IdMapping | undefined>(ID_MAP_STORE, 'readonly', store => store.get(id));
+  }
+
+  private static async enqueue(
+    entry: Pick<OutboxEntry, 'table' | 'operation' | 'payload' | 'localId' | 'targetId'>
+  ): Promise<string | null> {
+    if (!this.enabled) return null;
+
+    const outboxEntry: OutboxEntry = {
+      ...entry,
+      idempotencyKey: createIdempotencyKey(),
+      createdAt: Date.now(),
+      attempts: 0,
+    };
+
+    try {
+      await runRequest(OUTBOX_STORE, 'readwrite', store => store.put(outboxEntry));
+      return outboxEntry.idempotencyKey;
+    } catch (error) {
+      console.error('Failed to queue entry for sync:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace local IDs with server UUIDs
+   * Waiting if any are not synced yet, orphaned if any were dropped.
+   */
+  private static async resolveEntry(entry: OutboxEntry): Promise<ResolvedEntry> {
+    const payload = { ...entry.payload };
+    const references = [
+      ...VOYAGE_REFERENCE_FIELDS.map(field => ({ field, id: payload[field] })),
+      { field: null, id: entry.targetId },
+    ];
+    let targetId = entry.targetId;
+
+    for (const { field, id } of references) {
+      if (typeof id !== 'string' || !this.isLocalId(id)) continue;
+
+      const mapping = await this.getMapping(id);
+      if (!mapping) return { status: 'waiting', parentId: id };
+      if (mapping.serverId === null) return { status: 'orphaned' };
+
+      if (field) payload[field] = mapping.serverId;
+      else targetId = mapping.serverId;
+    }
+
+    return { status: 'ready', entry: { ...entry, payload, targetId } };
+  }
+
+  private static async replay(entry: OutboxEntry): Promise<void> {
+    if (entry.operation === 'insert') {
+      const { data, error } = await supabase
+        .from(entry.table)
+        .upsert({ ...entry.payload, client_id: entry.idempotencyKey }, { onConflict: 'client_id' })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      if (entry.localId) {
+        await runRequest(ID_MAP_STORE, 'readwrite', store => store.put({ localId: entry.localId, serverId: data.id }));
+      }
+      return;
+    }
+
+    const { error } = await supabase
+      .from(entry.table)
+      .update(entry.payload)
+      .eq('id', entry.targetId);
+
+    if (error) throw error;
+
+    // Completed voyages get their statistics once the final update lands
+    if (entry.table === 'voyages' && entry.payload.status === 'completed') {
+      const { error: statsError } = await supabase
+        .rpc('calculate_voyage_statistics_precise', { voyage_id_param: entry.targetId });
+
+      if (statsError) {
+        console.warn('Failed to calculate statistics for synced voyage:', statsError);
+      }
+    }
+  }
+}
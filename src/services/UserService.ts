@@ -1,9 +1,11 @@
 import { supabase } from '../lib/supabase';
 import type { User } from '../types';
+import { getBrowserTimeZone } from '../utils/timezone';
 
 export interface UserProfile {
   id: string;
   lighthouse_goal: string | null;
+  timezone: string; // IANA time zone; reflections use its day boundaries
   created_at: string;
   updated_at: string;
 }
@@ -51,6 +53,39 @@ export class UserService {
     }
   }
 
+  /**
+   * Store the browser's time zone on the profile when it has changed
+   * Returns the time zone now on the profile.
+   */
+  static async syncTimeZone(userId: string): Promise<string> {
+    const timeZone = getBrowserTimeZone();
+
+    try {
+      const { data: profile, error: profileError } = await supabase
+        .from('user_profiles')
+        .select('timezone')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (profileError) throw profileError;
+      if (profile?.timezone === timeZone) return timeZone;
+
+      const { error } = await supabase
+        .from('user_profiles')
+        .upsert({
+          id: userId,
+          timezone: timeZone,
+          updated_at: new Date().toISOString(),
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.warn('Failed to sync time zone:', error);
+    }
+
+    return timeZone;
+  }
+
   /**
    * Get user statistics for analytics
    */
@@ -0,0 +1,282 @@
+/**
+ * Vision Providers
+ *
+ * A vision provider sends a prompt plus one image to a model and returns the raw
+ * text reply. GeminiService builds the prompts and parses the reply, so every
+ * provider yields the same analysis result shape.
+ *
+ * - GeminiVisionProvider: Google Gemini REST API
+ * - LocalVisionProvider: Local OpenAI-compatible or Ollama-style HTTP server
+ * - MockVisionProvider: Deterministic canned replies for tests and offline demos
+ */
+
+import { VISION_PROVIDER_CONFIG } from '../config/vision';
+import type { VisionProviderConfig, VisionProviderName } from '../config/vision';
+
+export interface VisionRequest {
+  prompt: string;
+  imageBase64: string;
+  mimeType: string;
+}
+
+export interface VisionProvider {
+  readonly name: VisionProviderName;
+  isConfigured(): boolean;
+  generate(request: VisionRequest): Promise<string>;
+  getConfigurationStatus(): {
+    isConfigured: boolean;
+    message: string;
+    instructions?: string;
+  };
+}
+
+export class GeminiVisionProvider implements VisionProvider {
+  readonly name = 'gemini' as const;
+  private baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+
+  constructor(private config: VisionProviderConfig = VISION_PROVIDER_CONFIG) {
+    if (!config.gemini.apiKey) {
+      console.warn('Gemini API key not found. Please add VITE_GEMINI_API_KEY to your .env file.');
+      console.warn('Get your API key from: https://makersuite.google.com/app/apikey');
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.gemini.apiKey;
+  }
+
+  async generate({ prompt, imageBase64, mimeType }: VisionRequest): Promise<string> {
+    if (!this.config.gemini.apiKey) {
+      throw new Error('Gemini API key not configured. Please add VITE_GEMINI_API_KEY to your .env file.');
+    }
+
+    const url = `${this.baseUrl}/models/${this.config.gemini.model}:generateContent?key=${this.config.gemini.apiKey}`;
+
+    const requestBody = {
+      contents: [
+        {
+          parts: [
+            {
+              text: prompt
+            },
+            {
+              inline_data: {
+                mime_type: mimeType,
+                data: imageBase64
+              }
+            }
+          ]
+        }
+      ],
+      generationConfig: {
+        temperature: this.config.temperature,
+        topK: 1,
+        topP: 1,
+        maxOutputTokens: this.config.maxOutputTokens,
+      }
+    };
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.candidates || !data.candidates[0]?.content?.parts?.[0]?.text) {
+      throw new Error('Invalid response format from Gemini API');
+    }
+
+    return data.candidates[0].content.parts[0].text;
+  }
+
+  getConfigurationStatus() {
+    if (this.isConfigured()) {
+      return {
+        isConfigured: true,
+        message: 'Gemini AI service is properly configured and ready to use.'
+      };
+    }
+
+    return {
+      isConfigured: false,
+      message: 'Gemini AI service is not configured.',
+      instructions: 'Please add your Gemini API key to the .env file as VITE_GEMINI_API_KEY. Get your API key from: https://makersuite.google.com/app/apikey'
+    };
+  }
+}
+
+export class LocalVisionProvider implements VisionProvider {
+  readonly name = 'local' as const;
+
+  constructor(private config: VisionProviderConfig = VISION_PROVIDER_CONFIG) {}
+
+  isConfigured(): boolean {
+    return !!this.config.local.baseUrl && !!this.config.local.model;
+  }
+
+  async generate(request: VisionRequest): Promise<string> {
+    const { baseUrl, api, apiKey } = this.config.local;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const isOpenAi = api === 'openai';
+    const url = isOpenAi ? `${baseUrl}/v1/chat/completions` : `${baseUrl}/api/generate`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(isOpenAi ? this.buildOpenAiBody(request) : this.buildOllamaBody(request))
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Local vision API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    const text = isOpenAi ? data.choices?.[0]?.message?.content : data.response;
+
+    if (typeof text !== 'string' || !text) {
+      throw new Error(`Invalid response format from local ${api} vision API`);
+    }
+
+    return text;
+  }
+
+  getConfigurationStatus() {
+    const { baseUrl, api, model } = this.config.local;
+
+    if (this.isConfigured()) {
+      return {
+        isConfigured: true,
+        message: `Local vision model "${model}" (${api}) at ${baseUrl} is selected.`
+      };
+    }
+
+    return {
+      isConfigured: false,
+      message: 'Local vision model is not configured.',
+      instructions: 'Set VITE_LOCAL_VISION_URL and VITE_LOCAL_VISION_MODEL in your .env file, and VITE_LOCAL_VISION_API to "openai" or "ollama".'
+    };
+  }
+
+  private buildOpenAiBody({ prompt, imageBase64, mimeType }: VisionRequest) {
+    return {
+      model: this.config.local.model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${imageBase64}` } }
+          ]
+        }
+      ],
+      temperature: this.config.temperature,
+      max_tokens: this.config.maxOutputTokens,
+    };
+  }
+
+  private buildOllamaBody({ prompt, imageBase64 }: VisionRequest) {
+    return {
+      model: this.config.local.model,
+      prompt,
+      images: [imageBase64],
+      stream: false,
+      format: 'json',
+      options: {
+        temperature: this.config.temperature,
+        num_predict: this.config.maxOutputTokens,
+      }
+    };
+  }
+}
+
+export class MockVisionProvider implements VisionProvider {
+  readonly name = 'mock' as const;
+  readonly requests: VisionRequest[] = [];
+
+  /**
+   * @param respond Optional reply builder; defaults to a focused, on-task verdict
+   */
+  constructor(private respond?: (request: VisionRequest) => string) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(request: VisionRequest): Promise<string> {
+    this.requests.push(request);
+
+    if (this.respond) {
+      return this.respond(request);
+    }
+
+    // Camera prompts ask for personPresent at the top level, screenshot prompts for contentRelevant
+    if (!request.prompt.includes('contentRelevant')) {
+      return JSON.stringify({
+        personPresent: true,
+        appearsFocused: true,
+        confidenceLevel: 90,
+        observations: 'Mock provider: person at desk facing the screen',
+        distractionIndicators: []
+      });
+    }
+
+    return JSON.stringify({
+      contentRelevant: true,
+      distractionType: null,
+      confidenceLevel: 90,
+      detectedApps: [],
+      distractionLevel: 'none',
+      reasoning: 'Mock provider: content treated as relevant',
+      suggestedAction: 'continue',
+      screenAnalysis: {
+        contentType: 'mock',
+        isProductiveContent: true,
+        screenObservations: 'Mock provider: no real screen analysis'
+      },
+      cameraAnalysis: {
+        personPresent: true,
+        appearsFocused: true,
+        cameraObservations: 'Mock provider: no real camera analysis',
+        physicalDistraction: null
+      }
+    });
+  }
+
+  getConfigurationStatus() {
+    return {
+      isConfigured: true,
+      message: 'Mock vision provider is active - detection results are canned.'
+    };
+  }
+}
+
+/**
+ * Create the provider selected in the vision config
+ */
+export const createVisionProvider = (
+  config: VisionProviderConfig = VISION_PROVIDER_CONFIG
+): VisionProvider => {
+  switch (config.provider) {
+    case 'local':
+      return new LocalVisionProvider(config);
+    case 'mock':
+      return new MockVisionProvider();
+    default:
+      return new GeminiVisionProvider(config);
+  }
+};
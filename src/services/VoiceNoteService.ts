@@ -0,0 +1,313 @@
+/**
+ * Voice Note Service
+ *
+ * Records voice notes in exploration mode: the audio via MediaRecorder and,
+ * at the same time, a transcript via the browser's speech recognition.
+ * - Audio is uploaded to the private `voice-notes` storage bucket
+ * - In demo mode (or when the upload fails) it is kept in IndexedDB instead,
+ *   and the note's `audio_path` is `local:<key>`
+ * - Audio expires with the transcript retention period; the transcript text stays.
+ *   Stored recordings are deleted by the nightly `purge-voice-note-audio` job,
+ *   browser-kept ones here when the app loads
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import type { ExplorationNote } from '../types';
+
+export interface VoiceNoteRecording {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+  transcript: string;
+  confidence: number | null; // Average over recognized phrases; null when nothing was recognized
+}
+
+// The parts of the (still vendor-prefixed) SpeechRecognition API used here
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: {
+    resultIndex: number;
+    results: ArrayLike<{ isFinal: boolean; 0: { transcript: string; confidence: number } }>;
+  }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type SpeechRecognitionWindow = Window & {
+  SpeechRecognition?: new () => SpeechRecognitionLike;
+  webkitSpeechRecognition?: new () => SpeechRecognitionLike;
+};
+
+interface StoredAudio {
+  key: string;
+  blob: Blob;
+  createdAt?: number;
+  expiresAt?: number | null; // Expiry fixed at record time, on audio kept before createdAt was stored
+}
+
+const BUCKET = 'voice-notes';
+const LOCAL_PREFIX = 'local:';
+const DB_NAME = 'mindboat-voice-notes';
+const AUDIO_STORE = 'audio';
+
+// Recognition delivers its last phrase just before `end`; don't wait longer than this for it
+const TRANSCRIPTION_END_TIMEOUT_MS = 2000;
+
+// Signed playback links only need to outlive one listen
+const PLAYBACK_URL_TTL_SECONDS = 60 * 60;
+
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(AUDIO_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(AUDIO_STORE, mode).objectStore(AUDIO_STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export class VoiceNoteService {
+  private static recorder: MediaRecorder | null = null;
+  private static recognition: SpeechRecognitionLike | null = null;
+  private static stream: MediaStream | null = null;
+  private static chunks: Blob[] = [];
+  private static phrases: { transcript: string; confidence: number }[] = [];
+  private static transcriptionEnded: Promise<void> = Promise.resolve();
+  private static startedAt = 0;
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  static isRecording(): boolean {
+    return this.recorder?.state === 'recording';
+  }
+
+  /**
+   * Start recording audio and transcribing it
+   */
+  static async startRecording(): Promise<boolean> {
+    if (!this.isSupported() || this.isRecording()) return false;
+
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+      this.chunks = [];
+      this.phrases = [];
+      this.transcriptionEnded = Promise.resolve();
+      this.recorder = new MediaRecorder(this.stream, mimeType ? { mimeType } : undefined);
+      this.recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) this.chunks.push(event.data);
+      };
+      this.recorder.start();
+      this.startedAt = Date.now();
+
+      this.startTranscription();
+      return true;
+    } catch (error) {
+      console.error('🎤 [VOICE NOTE] Failed to start recording:', error);
+      this.releaseMicrophone();
+      return false;
+    }
+  }
+
+  /**
+   * Stop recording and return the audio with its transcript
+   */
+  static async stopRecording(): Promise<VoiceNoteRecording | null> {
+    const recorder = this.recorder;
+    if (!recorder || recorder.state === 'inactive') return null;
+
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+    const durationMs = Date.now() - this.startedAt;
+    recorder.stop();
+    this.recognition?.stop();
+
+    // The final phrase often arrives after the recorder stops
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    await Promise.all([
+      stopped,
+      Promise.race([
+        this.transcriptionEnded,
+        new Promise<void>(resolve => {
+          timeout = setTimeout(resolve, TRANSCRIPTION_END_TIMEOUT_MS);
+        }),
+      ]),
+    ]);
+    clearTimeout(timeout);
+
+    const mimeType = recorder.mimeType || 'audio/webm';
+    const blob = new Blob(this.chunks, { type: mimeType });
+    const phrases = this.phrases;
+
+    this.releaseMicrophone();
+
+    if (blob.size === 0) return null;
+
+    return {
+      blob,
+      mimeType,
+      durationMs,
+      transcript: phrases.map(phrase => phrase.transcript).join(' ').trim(),
+      confidence: phrases.length > 0
+        ? phrases.reduce((sum, phrase) => sum + phrase.confidence, 0) / phrases.length
+        : null,
+    };
+  }
+
+  /**
+   * Store a recording; returns the `audio_path` to save on the note
+   */
+  static async saveAudio(userId: string, recording: VoiceNoteRecording): Promise<string | null> {
+    const extension = FILE_EXTENSIONS[recording.mimeType.split(';')[0]] || 'webm';
+    const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`;
+
+    if (isSupabaseConfigured && !userId.startsWith('demo-')) {
+      const path = `${userId}/${fileName}`;
+      const { error } = await supabase.storage
+        .from(BUCKET)
+        .upload(path, recording.blob, { contentType: recording.mimeType });
+
+      if (!error) return path;
+      console.warn('🎤 [VOICE NOTE] Upload failed, keeping audio in the browser:', error);
+    }
+
+    try {
+      await runRequest('readwrite', store => store.put({
+        key: fileName,
+        blob: recording.blob,
+        createdAt: Date.now(),
+      } satisfies StoredAudio));
+      return `${LOCAL_PREFIX}${fileName}`;
+    } catch (error) {
+      console.error('🎤 [VOICE NOTE] Failed to keep audio in the browser:', error);
+      return null;
+    }
+  }
+
+  /**
+   * URL to play a note's audio; revoke `local:` object URLs when done
+   */
+  static async getPlaybackUrl(note: Pick<ExplorationNote, 'audio_path'>): Promise<string | null> {
+    if (!note.audio_path) return null;
+
+    try {
+      if (note.audio_path.startsWith(LOCAL_PREFIX)) {
+        const stored = await runRequest<StoredAudio | undefined>('readonly', store =>
+          store.get(note.audio_path!.slice(LOCAL_PREFIX.length))
+        );
+        return stored ? URL.createObjectURL(stored.blob) : null;
+      }
+
+      const { data, error } = await supabase.storage
+        .from(BUCKET)
+        .createSignedUrl(note.audio_path, PLAYBACK_URL_TTL_SECONDS);
+
+      if (error) throw error;
+      return data.signedUrl;
+    } catch (error) {
+      console.error('🎤 [VOICE NOTE] Failed to load audio:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete browser-kept audio past the current transcript retention period
+   * Recordings in storage are purged by the nightly `purge-voice-note-audio` job.
+   */
+  static async purgeExpiredBrowserAudio(transcriptsDays: number | null): Promise<number> {
+    const now = Date.now();
+    const cutoff = transcriptsDays === null ? null : now - transcriptsDays * 24 * 60 * 60 * 1000;
+
+    try {
+      const stored = await runRequest<StoredAudio[]>('readonly', store => store.getAll());
+      const expired = stored.filter(audio => audio.createdAt !== undefined
+        ? cutoff !== null && audio.createdAt <= cutoff
+        : audio.expiresAt != null && audio.expiresAt <= now);
+      await Promise.all(expired.map(audio => runRequest('readwrite', store => store.delete(audio.key))));
+      return expired.length;
+    } catch (error) {
+      console.warn('🎤 [VOICE NOTE] Failed to purge browser audio:', error);
+      return 0;
+    }
+  }
+
+  private static startTranscription(): void {
+    const speechWindow = window as SpeechRecognitionWindow;
+    const SpeechRecognition = speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+    if (!SpeechRecognition) return;
+
+    try {
+      this.recognition = new SpeechRecognition();
+      this.recognition.continuous = true;
+      this.recognition.interimResults = false;
+      this.recognition.onresult = (event) => {
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const result = event.results[i];
+          if (result.isFinal && result[0].transcript.trim()) {
+            this.phrases.push({
+              transcript: result[0].transcript.trim(),
+              confidence: result[0].confidence || 0.5,
+            });
+          }
+        }
+      };
+      this.recognition.onerror = (event) => {
+        console.warn('🎤 [VOICE NOTE] Transcription error:', event.error);
+      };
+      const recognition = this.recognition;
+      this.transcriptionEnded = new Promise(resolve => {
+        recognition.onend = () => resolve();
+      });
+      this.recognition.start();
+    } catch (error) {
+      // The audio is still recorded without a transcript
+      console.warn('🎤 [VOICE NOTE] Transcription unavailable:', error);
+      this.recognition = null;
+      this.transcriptionEnded = Promise.resolve();
+    }
+  }
+
+  private static releaseMicrophone(): void {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.recorder = null;
+    this.recognition = null;
+    this.chunks = [];
+  }
+}
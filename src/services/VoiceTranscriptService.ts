@@ -26,8 +26,7 @@ export class VoiceTranscriptService {
         continuous: true,
         saveTranscripts: true,
         autoAnalyze: true,
-        privacyMode: false,
-        retentionDays: 30
+        privacyMode: false
     };
 
     /**
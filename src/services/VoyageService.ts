@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import type { Voyage, DistractionDetectionEvent } from '../types';
+import type { Voyage, VoyagePause, DistractionDetectionEvent } from '../types';
 
 export interface StartVoyageInput {
   userId: string;
@@ -51,28 +51,38 @@ export class VoyageService {
 
   /**
    * End a voyage session
+   * Pass endTime to close a voyage retroactively (e.g. at its last heartbeat)
    */
-  static async endVoyage(voyageId: string): Promise<Voyage> {
+  static async endVoyage(voyageId: string, endTime: Date = new Date()): Promise<Voyage> {
     try {
-      const endTime = new Date();
-      
+
       // First get the voyage to calculate duration
       const { data: voyage, error: getError } = await supabase
         .from('voyages')
-        .select('start_time, distraction_count')
+        .select('start_time, distraction_count, status, total_paused_ms')
         .eq('id', voyageId)
         .single();
 
       if (getError) throw getError;
 
+      // Close any pause still open so its time is excluded as well
+      let totalPausedMs = voyage.total_paused_ms || 0;
+      if (voyage.status === 'paused') {
+        totalPausedMs += await this.closeOpenPause(voyageId, endTime);
+      }
+
       const startTime = new Date(voyage.start_time);
-      const actualDuration = Math.floor((endTime.getTime() - startTime.getTime()) / 60000); // minutes
+      const sailingMs = Math.max(0, endTime.getTime() - startTime.getTime() - totalPausedMs);
+      const actualDuration = Math.floor(sailingMs / 60000); // minutes
 
       const { data, error } = await supabase
         .from('voyages')
         .update({
           end_time: endTime.toISOString(),
+          last_heartbeat_at: endTime.toISOString(),
           actual_duration: actualDuration,
+          actual_duration_ms: sailingMs,
+          total_paused_ms: totalPausedMs,
           status: 'completed',
         })
         .eq('id', voyageId)
@@ -88,18 +98,139 @@ export class VoyageService {
   }
 
   /**
-   * Get active voyage for a user
+   * Pause an active voyage, opening a new pause interval
+   */
+  static async pauseVoyage(voyageId: string, reason?: string): Promise<void> {
+    try {
+      const { error: pauseError } = await supabase
+        .from('voyage_pauses')
+        .insert({
+          voyage_id: voyageId,
+          paused_at: new Date().toISOString(),
+          reason: reason || null,
+        });
+
+      if (pauseError) throw pauseError;
+
+      const { error } = await supabase
+        .from('voyages')
+        .update({ status: 'paused' })
+        .eq('id', voyageId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to pause voyage:', error);
+      throw new Error('Unable to pause voyage.');
+    }
+  }
+
+  /**
+   * Resume a paused voyage, closing its open pause interval
+   * Returns the length of the pause that was closed in milliseconds
+   */
+  static async resumeVoyage(voyageId: string): Promise<number> {
+    try {
+      const { data: voyage, error: getError } = await supabase
+        .from('voyages')
+        .select('total_paused_ms')
+        .eq('id', voyageId)
+        .single();
+
+      if (getError) throw getError;
+
+      const pausedMs = await this.closeOpenPause(voyageId, new Date());
+
+      const { error } = await supabase
+        .from('voyages')
+        .update({
+          status: 'active',
+          total_paused_ms: (voyage.total_paused_ms || 0) + pausedMs,
+        })
+        .eq('id', voyageId);
+
+      if (error) throw error;
+      return pausedMs;
+    } catch (error) {
+      console.error('Failed to resume voyage:', error);
+      throw new Error('Unable to resume voyage.');
+    }
+  }
+
+  /**
+   * Record a pause that has already ended, e.g. the gap while the app was closed
    */
-  static async getActiveVoyage(userId: string): Promise<VoyageWithDestination | null> {
+  static async recordClosedPause(voyageId: string, pausedAt: Date, resumedAt: Date, reason?: string): Promise<void> {
+    try {
+      const durationMs = Math.max(0, resumedAt.getTime() - pausedAt.getTime());
+
+      const { error } = await supabase
+        .from('voyage_pauses')
+        .insert({
+          voyage_id: voyageId,
+          paused_at: pausedAt.toISOString(),
+          resumed_at: resumedAt.toISOString(),
+          duration_ms: durationMs,
+          reason: reason || null,
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to record pause:', error);
+      throw new Error('Unable to record voyage pause.');
+    }
+  }
+
+  /**
+   * Report that the sailing client is still alive
+   */
+  static async recordHeartbeat(voyageId: string, at: Date = new Date()): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('voyages')
+        .update({ last_heartbeat_at: at.toISOString() })
+        .eq('id', voyageId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to record voyage heartbeat:', error);
+      // Don't throw error for heartbeats as the next one will retry
+    }
+  }
+
+  /**
+   * Get the pause intervals recorded for a voyage
+   */
+  static async getVoyagePauses(voyageId: string): Promise<VoyagePause[]> {
+    try {
+      const { data, error } = await supabase
+        .from('voyage_pauses')
+        .select('*')
+        .eq('voyage_id', voyageId)
+        .order('paused_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Failed to get voyage pauses:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get active (or paused) voyage for a user
+   */
+  static async getActiveVoyage(userId: string): Promise<Voyage | null> {
     try {
       const { data, error } = await supabase
         .from('voyages')
         .select(`
           *,
-          destination:destinations(id, destination_name, description, color_theme)
+          destination:destinations(*)
         `)
         .eq('user_id', userId)
-        .eq('status', 'active')
+        .in('status', ['active', 'paused'])
+        .order('start_time', { ascending: false })
+        .limit(1)
         .maybeSingle();
 
       if (error) throw error;
@@ -134,16 +265,37 @@ export class VoyageService {
     }
   }
 
+  /**
+   * Get the finished voyages sailed toward one destination, newest first
+   */
+  static async getDestinationVoyages(destinationId: string, limit = 20): Promise<Voyage[]> {
+    try {
+      const { data, error } = await supabase
+        .from('voyages')
+        .select('*')
+        .eq('destination_id', destinationId)
+        .in('status', ['completed', 'abandoned'])
+        .order('start_time', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Failed to get destination voyages:', error);
+      throw new Error('Unable to load voyages for this destination.');
+    }
+  }
+
   /**
    * Abandon an active voyage
    */
-  static async abandonVoyage(voyageId: string): Promise<void> {
+  static async abandonVoyage(voyageId: string, endTime: Date = new Date()): Promise<void> {
     try {
       const { error } = await supabase
         .from('voyages')
         .update({
           status: 'abandoned',
-          end_time: new Date().toISOString(),
+          end_time: endTime.toISOString(),
         })
         .eq('id', voyageId);
 
@@ -154,6 +306,28 @@ export class VoyageService {
     }
   }
 
+  /**
+   * Strict contract terms and outcome of a voyage
+   * (not part of the assessment RPC, which builds its voyage fields explicitly)
+   */
+  static async getContractOutcome(
+    voyageId: string
+  ): Promise<Pick<Voyage, 'contract' | 'early_end_justification' | 'exploring_ms' | 'weather_mood'> | null> {
+    try {
+      const { data, error } = await supabase
+        .from('voyages')
+        .select('contract, early_end_justification, exploring_ms, weather_mood')
+        .eq('id', voyageId)
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Failed to get voyage contract:', error);
+      return null;
+    }
+  }
+
   /**
    * Update voyage weather mood
    */
@@ -171,6 +345,37 @@ export class VoyageService {
     }
   }
 
+  /**
+   * Close the open pause interval of a voyage (if any)
+   * Returns the closed pause length in milliseconds
+   */
+  static async closeOpenPause(voyageId: string, resumedAt: Date): Promise<number> {
+    const { data: openPause, error: getError } = await supabase
+      .from('voyage_pauses')
+      .select('id, paused_at')
+      .eq('voyage_id', voyageId)
+      .is('resumed_at', null)
+      .order('paused_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (getError) throw getError;
+    if (!openPause) return 0;
+
+    const durationMs = Math.max(0, resumedAt.getTime() - new Date(openPause.paused_at).getTime());
+
+    const { error } = await supabase
+      .from('voyage_pauses')
+      .update({
+        resumed_at: resumedAt.toISOString(),
+        duration_ms: durationMs,
+      })
+      .eq('id', openPause.id);
+
+    if (error) throw error;
+    return durationMs;
+  }
+
   /**
    * Get voyage statistics for a date range
    */
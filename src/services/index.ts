@@ -10,10 +10,23 @@ export { DestinationService } from './DestinationService';
 export { VoyageService } from './VoyageService';
 export { DistractionService } from './DistractionService';
 export { ReflectionService } from './ReflectionService';
+export { SyncQueueService } from './SyncQueueService';
+export { SiteRuleService } from './SiteRuleService';
+export { ExtensionBridgeService } from './ExtensionBridgeService';
+export { DetectionTraceService } from './DetectionTraceService';
+export { ExplorationService } from './ExplorationService';
+export { NoteService } from './NoteService';
+export { VoiceNoteService } from './VoiceNoteService';
+export { RetentionService } from './RetentionService';
 
 // Re-export types for convenience
 export type { UserProfile } from './UserService';
 export type { CreateDestinationInput, DestinationWithStats } from './DestinationService';
 export type { StartVoyageInput, VoyageWithDestination } from './VoyageService';
-export type { DistractionEvent } from './DistractionService';
-export type { DailyReflection } from './ReflectionService';
\ No newline at end of file
+export type { DistractionEvent, DistractionInterval } from './DistractionService';
+export type { DailyReflection, ReflectionInsights, ReflectionJournal, WeeklyReflection } from './ReflectionService';
+export type { ExplorationInterval } from './ExplorationService';
+export type { InboxNote, NoteFilters } from './NoteService';
+export type { VoiceNoteRecording } from './VoiceNoteService';
+export type { OutboxEntry, SyncResult, SyncTable } from './SyncQueueService';
+export type { CreateSiteRuleInput, UrlEvaluation } from './SiteRuleService';
\ No newline at end of file
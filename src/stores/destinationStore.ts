@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
 import { useNotificationStore } from './notificationStore';
-import type { Destination } from '../types';
+import type { Destination, DestinationStatus, SensitivityProfile, SensitivityThresholds } from '../types';
 
 interface DestinationState {
   destinations: Destination[];
@@ -12,6 +12,12 @@ interface DestinationState {
   loadDestinations: (userId: string) => Promise<void>;
   createDestination: (task: string, userId: string) => Promise<Destination | null>;
   deleteDestination: (id: string) => Promise<void>;
+  updateDestinationSensitivity: (
+    id: string,
+    profile: SensitivityProfile,
+    thresholds?: Partial<SensitivityThresholds>
+  ) => Promise<Destination | null>;
+  updateDestinationStatus: (id: string, status: DestinationStatus) => Promise<Destination | null>;
   addDemoDestination: (task: string, userId: string) => Destination;
 }
 
@@ -175,6 +181,91 @@ export const useDestinationStore = create<DestinationState>((set, get) => ({
       set({ isLoading: false });
     }
   },
+
+  updateDestinationSensitivity: async (id, profile, thresholds) => {
+    const updates = {
+      sensitivity_profile: profile,
+      // Custom values are only kept for the custom profile
+      sensitivity_thresholds: profile === 'custom' ? thresholds || {} : undefined,
+    };
+
+    const applyLocally = () => {
+      let updated: Destination | null = null;
+      set(state => ({
+        destinations: state.destinations.map(d => {
+          if (d.id !== id) return d;
+          updated = { ...d, ...updates };
+          return updated;
+        })
+      }));
+      return updated;
+    };
+
+    // Demo destinations only live in memory
+    if (id.startsWith('demo-')) {
+      return applyLocally();
+    }
+
+    try {
+      const { error } = await supabase
+        .from('destinations')
+        .update({
+          sensitivity_profile: profile,
+          sensitivity_thresholds: updates.sensitivity_thresholds ?? null,
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      return applyLocally();
+    } catch (error) {
+      console.error('Failed to update destination sensitivity:', error);
+      useNotificationStore.getState().showError(
+        'Failed to save detection sensitivity. Please try again.',
+        'Update Error'
+      );
+      return null;
+    }
+  },
+
+  updateDestinationStatus: async (id, status) => {
+    const updates = { status, status_changed_at: new Date().toISOString() };
+
+    const applyLocally = () => {
+      let updated: Destination | null = null;
+      set(state => ({
+        destinations: state.destinations.map(d => {
+          if (d.id !== id) return d;
+          updated = { ...d, ...updates };
+          return updated;
+        })
+      }));
+      return updated;
+    };
+
+    // Demo destinations only live in memory
+    if (id.startsWith('demo-')) {
+      return applyLocally();
+    }
+
+    try {
+      const { error } = await supabase
+        .from('destinations')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+
+      return applyLocally();
+    } catch (error) {
+      console.error('Failed to update destination status:', error);
+      useNotificationStore.getState().showError(
+        'Failed to update the destination. Please try again.',
+        'Update Error'
+      );
+      return null;
+    }
+  },
 }));
 
 // Fallback destination generation function
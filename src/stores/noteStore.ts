@@ -0,0 +1,111 @@
+import { create } from 'zustand';
+import { NoteService, type InboxNote, type NoteFilters } from '../services/NoteService';
+import { useDestinationStore } from './destinationStore';
+import { useNotificationStore } from './notificationStore';
+import type { Destination } from '../types';
+
+interface NoteState {
+  notes: InboxNote[];
+  filters: NoteFilters;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadNotes: (userId: string, filters?: NoteFilters) => Promise<void>;
+  updateTags: (noteId: string, tags: string[]) => Promise<void>;
+  attachToDestination: (noteId: string, destination: Destination | null) => Promise<void>;
+  promoteToDestination: (noteId: string, userId: string) => Promise<Destination | null>;
+}
+
+const summarize = (destination: Destination) => ({
+  id: destination.id,
+  destination_name: destination.destination_name,
+  color_theme: destination.color_theme,
+});
+
+export const useNoteStore = create<NoteState>((set, get) => ({
+  notes: [],
+  filters: { status: 'inbox' },
+  isLoading: false,
+  error: null,
+
+  loadNotes: async (userId, filters = get().filters) => {
+    set({ filters });
+
+    // Demo users have no saved notes
+    if (userId.startsWith('demo-')) return;
+
+    set({ isLoading: true, error: null });
+
+    try {
+      const notes = await NoteService.getInbox(userId, filters);
+      // Ignore results for filters that have since changed
+      if (get().filters === filters) set({ notes });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load notes' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  updateTags: async (noteId, tags) => {
+    try {
+      const saved = await NoteService.updateTags(noteId, tags);
+      set(state => ({
+        notes: state.notes.map(note => note.id === noteId ? { ...note, tags: saved } : note)
+      }));
+    } catch (error) {
+      useNotificationStore.getState().showError(
+        error instanceof Error ? error.message : 'Failed to save tags',
+        'Notes'
+      );
+    }
+  },
+
+  attachToDestination: async (noteId, destination) => {
+    try {
+      await NoteService.attachToDestination(noteId, destination?.id ?? null);
+      set(state => ({
+        notes: state.notes.map(note => note.id === noteId
+          ? { ...note, destination_id: destination?.id ?? null, destination: destination ? summarize(destination) : null }
+          : note
+        )
+      }));
+    } catch (error) {
+      useNotificationStore.getState().showError(
+        error instanceof Error ? error.message : 'Failed to file note',
+        'Notes'
+      );
+    }
+  },
+
+  promoteToDestination: async (noteId, userId) => {
+    const note = get().notes.find(n => n.id === noteId);
+    if (!note) return null;
+
+    try {
+      const destination = await NoteService.promoteToDestination(note, userId);
+
+      // The new destination shows up in voyage preparation right away
+      useDestinationStore.setState(state => ({ destinations: [destination, ...state.destinations] }));
+      set(state => ({
+        notes: state.notes.map(n => n.id === noteId
+          ? { ...n, destination_id: destination.id, promoted_at: new Date().toISOString(), destination: summarize(destination) }
+          : n
+        )
+      }));
+
+      useNotificationStore.getState().showSuccess(
+        `"${destination.destination_name}" is ready to sail to.`,
+        'New Destination'
+      );
+      return destination;
+    } catch (error) {
+      useNotificationStore.getState().showError(
+        error instanceof Error ? error.message : 'Failed to create destination',
+        'Notes'
+      );
+      return null;
+    }
+  },
+}));
@@ -0,0 +1,76 @@
+import { create } from 'zustand';
+import { DEFAULT_REDACTION_SETTINGS } from '../config/privacy';
+import type { RedactionMode, RedactionRegion, RedactionSettings } from '../types';
+
+// Redaction depends on this screen's layout, so it is kept per device
+const REDACTION_SETTINGS_KEY = 'mindboat-redaction-settings';
+
+const readRedactionSettings = (): RedactionSettings => {
+  try {
+    const raw = localStorage.getItem(REDACTION_SETTINGS_KEY);
+    if (!raw) return DEFAULT_REDACTION_SETTINGS;
+
+    return { ...DEFAULT_REDACTION_SETTINGS, ...(JSON.parse(raw) as Partial<RedactionSettings>) };
+  } catch (error) {
+    console.warn('Failed to read redaction settings:', error);
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+};
+
+const writeRedactionSettings = (settings: RedactionSettings) => {
+  try {
+    localStorage.setItem(REDACTION_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save redaction settings:', error);
+  }
+};
+
+const clampFraction = (value: number) => Math.min(1, Math.max(0, value));
+
+interface PrivacyState {
+  redaction: RedactionSettings;
+
+  // Actions
+  setRedactionMode: (mode: RedactionMode) => void;
+  setMaxWidth: (maxWidth: number | null) => void;
+  setBlackOutCamera: (blackOutCamera: boolean) => void;
+  addBlurRegion: (region: Omit<RedactionRegion, 'id'>) => void;
+  removeBlurRegion: (id: string) => void;
+}
+
+export const usePrivacyStore = create<PrivacyState>((set, get) => {
+  const update = (changes: Partial<RedactionSettings>) => {
+    const redaction = { ...get().redaction, ...changes };
+    writeRedactionSettings(redaction);
+    set({ redaction });
+  };
+
+  return {
+    redaction: readRedactionSettings(),
+
+    setRedactionMode: (mode) => update({ mode }),
+
+    setMaxWidth: (maxWidth) => update({ maxWidth }),
+
+    setBlackOutCamera: (blackOutCamera) => update({ blackOutCamera }),
+
+    addBlurRegion: (region) => {
+      const x = clampFraction(region.x);
+      const y = clampFraction(region.y);
+      const width = Math.min(clampFraction(region.width), 1 - x);
+      const height = Math.min(clampFraction(region.height), 1 - y);
+      if (width <= 0 || height <= 0) return;
+
+      update({
+        blurRegions: [
+          ...get().redaction.blurRegions,
+          { id: `region-${Date.now()}`, label: region.label?.trim() || undefined, x, y, width, height }
+        ]
+      });
+    },
+
+    removeBlurRegion: (id) => update({
+      blurRegions: get().redaction.blurRegions.filter(region => region.id !== id)
+    }),
+  };
+});
@@ -0,0 +1,98 @@
+import { create } from 'zustand';
+import {
+  ReflectionService,
+  type DailyReflection,
+  type ReflectionJournal,
+  type WeeklyReflection,
+} from '../services/ReflectionService';
+import { useNotificationStore } from './notificationStore';
+import { getMonthWeeksRange } from '../utils/timezone';
+
+interface ReflectionState {
+  month: string | null; // YYYY-MM shown in the Captain's Log
+  reflections: DailyReflection[]; // Newest first, covering every week that touches the month
+  weeklyReflections: Record<string, WeeklyReflection>; // By week_start
+  generatingWeek: string | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadMonth: (userId: string, month: string) => Promise<void>;
+  saveJournal: (userId: string, date: string, journal: ReflectionJournal) => Promise<boolean>;
+  generateWeeklyReflection: (userId: string, weekStart: string) => Promise<void>;
+}
+
+export const useReflectionStore = create<ReflectionState>((set, get) => ({
+  month: null,
+  reflections: [],
+  weeklyReflections: {},
+  generatingWeek: null,
+  isLoading: false,
+  error: null,
+
+  loadMonth: async (userId, month) => {
+    set({ month });
+
+    // Demo users have no saved reflections
+    if (userId.startsWith('demo-')) {
+      set({ reflections: [], weeklyReflections: {} });
+      return;
+    }
+
+    set({ isLoading: true, error: null });
+
+    try {
+      const { from, to } = getMonthWeeksRange(month);
+      const [reflections, weekly] = await Promise.all([
+        ReflectionService.getReflectionsBetween(userId, from, to),
+        ReflectionService.getWeeklyReflections(userId, from, to),
+      ]);
+
+      // Ignore results for a month the user has already moved away from
+      if (get().month !== month) return;
+
+      set({
+        reflections,
+        weeklyReflections: Object.fromEntries(weekly.map(week => [week.week_start, week])),
+      });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load reflections' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  saveJournal: async (userId, date, journal) => {
+    try {
+      const saved = await ReflectionService.saveJournal(userId, date, journal);
+      set(state => ({
+        reflections: state.reflections.map(reflection => reflection.date === date ? saved : reflection)
+      }));
+      return true;
+    } catch (error) {
+      useNotificationStore.getState().showError(
+        error instanceof Error ? error.message : 'Failed to save journal entry',
+        "Captain's Log"
+      );
+      return false;
+    }
+  },
+
+  generateWeeklyReflection: async (userId, weekStart) => {
+    set({ generatingWeek: weekStart });
+
+    try {
+      const weekly = await ReflectionService.generateWeeklyReflection(userId, weekStart);
+      set(state => ({
+        weeklyReflections: { ...state.weeklyReflections, [weekStart]: weekly }
+      }));
+    } catch (error) {
+      useNotificationStore.getState().showError(
+        error instanceof Error ? error.message : 'Failed to write the weekly digest',
+        "Captain's Log"
+      );
+    } finally {
+      set({ generatingWeek: null });
+    }
+  },
+}));
@@ -0,0 +1,75 @@
+import { create } from 'zustand';
+import { RetentionService } from '../services/RetentionService';
+import { DEFAULT_RETENTION_SETTINGS } from '../config/retention';
+import { useNotificationStore } from './notificationStore';
+import type { DataUsage, RetentionSettings } from '../types';
+
+interface RetentionState {
+  settings: RetentionSettings;
+  usage: DataUsage | null;
+  loadedForUserId: string | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadSettings: (userId: string) => Promise<void>;
+  loadUsage: (userId: string) => Promise<void>;
+  updateSettings: (userId: string, changes: Partial<RetentionSettings>) => Promise<void>;
+}
+
+export const useRetentionStore = create<RetentionState>((set, get) => ({
+  settings: DEFAULT_RETENTION_SETTINGS,
+  usage: null,
+  loadedForUserId: null,
+  isLoading: false,
+  error: null,
+
+  loadSettings: async (userId) => {
+    // Demo users have no rows - keep whatever was chosen this session
+    if (userId.startsWith('demo-')) {
+      set({ loadedForUserId: userId });
+      return;
+    }
+
+    try {
+      const settings = await RetentionService.getSettings(userId);
+      set({ settings, loadedForUserId: userId });
+    } catch (error) {
+      console.warn('Failed to load retention settings:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to load retention settings' });
+    }
+  },
+
+  loadUsage: async (userId) => {
+    if (userId.startsWith('demo-')) return;
+
+    set({ isLoading: true, error: null });
+
+    try {
+      const usage = await RetentionService.getDataUsage();
+      set({ usage });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load data usage' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  updateSettings: async (userId, changes) => {
+    const previous = get().settings;
+    const settings = { ...previous, ...changes };
+    set({ settings });
+
+    if (userId.startsWith('demo-')) return;
+
+    try {
+      await RetentionService.saveSettings(userId, settings);
+    } catch (error) {
+      set({ settings: previous });
+      useNotificationStore.getState().showError(
+        error instanceof Error ? error.message : 'Failed to save retention settings',
+        'Data Retention'
+      );
+    }
+  },
+}));
@@ -0,0 +1,118 @@
+import { create } from 'zustand';
+import { SiteRuleService } from '../services/SiteRuleService';
+import { useNotificationStore } from './notificationStore';
+import type { SiteRule, SiteRuleCategory } from '../types';
+
+interface SiteRuleState {
+  rules: SiteRule[];
+  loadedForUserId: string | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadRules: (userId: string) => Promise<void>;
+  addRule: (
+    userId: string,
+    pattern: string,
+    ruleType: SiteRule['rule_type'],
+    category?: SiteRuleCategory,
+    note?: string
+  ) => Promise<SiteRule | null>;
+  deleteRule: (id: string) => Promise<void>;
+}
+
+export const useSiteRuleStore = create<SiteRuleState>((set, get) => ({
+  rules: [],
+  loadedForUserId: null,
+  isLoading: false,
+  error: null,
+
+  loadRules: async (userId) => {
+    // Demo users have no rows - keep whatever was added this session
+    if (userId.startsWith('demo-')) {
+      set({ loadedForUserId: userId });
+      return;
+    }
+
+    set({ isLoading: true, error: null });
+
+    try {
+      const rules = await SiteRuleService.getUserRules(userId);
+      set({ rules, loadedForUserId: userId });
+    } catch (error) {
+      console.warn('Failed to load site rules:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to load site rules' });
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  addRule: async (userId, pattern, ruleType, category, note) => {
+    const normalizedPattern = SiteRuleService.normalizePattern(pattern);
+    if (!normalizedPattern) return null;
+
+    if (get().rules.some(rule => rule.pattern === normalizedPattern)) {
+      useNotificationStore.getState().showWarning(
+        `You already have a rule for ${normalizedPattern}.`,
+        'Duplicate Rule'
+      );
+      return null;
+    }
+
+    // Demo users keep rules in memory only
+    if (userId.startsWith('demo-')) {
+      const now = new Date().toISOString();
+      const demoRule: SiteRule = {
+        id: `demo-${Date.now()}`,
+        user_id: userId,
+        pattern: normalizedPattern,
+        rule_type: ruleType,
+        category: ruleType === 'block' ? category || 'irrelevant_browsing' : undefined,
+        note: note?.trim() || undefined,
+        created_at: now,
+        updated_at: now,
+      };
+      set(state => ({ rules: [demoRule, ...state.rules] }));
+      return demoRule;
+    }
+
+    set({ isLoading: true, error: null });
+
+    try {
+      const rule = await SiteRuleService.createRule({
+        userId,
+        pattern: normalizedPattern,
+        ruleType,
+        category,
+        note,
+      });
+      set(state => ({ rules: [rule, ...state.rules] }));
+      return rule;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save site rule';
+      set({ error: message });
+      useNotificationStore.getState().showError(message, 'Site Rule Error');
+      return null;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  deleteRule: async (id) => {
+    if (!id.startsWith('demo-')) {
+      try {
+        await SiteRuleService.deleteRule(id);
+      } catch (error) {
+        useNotificationStore.getState().showError(
+          error instanceof Error ? error.message : 'Failed to delete site rule',
+          'Site Rule Error'
+        );
+        return;
+      }
+    }
+
+    set(state => ({
+      rules: state.rules.filter(rule => rule.id !== id)
+    }));
+  },
+}));
@@ -1,9 +1,38 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
+import { shallow } from 'zustand/shallow';
 import { supabase } from '../lib/supabase';
 import { useNotificationStore } from './notificationStore';
+import { VoyageService } from '../services/VoyageService';
+import { SyncQueueService } from '../services/SyncQueueService';
+import { DistractionService } from '../services/DistractionService';
 import { getHighPrecisionTime, calculatePreciseDuration } from '../utils/precisionTimer';
-import type { Voyage, DistractionDetectionEvent } from '../types';
+import { DISTRACTION_DEBOUNCE_MS } from '../config/fusion';
+import { distractionTimesOutAt, isPastDistractionDebounce } from '../utils/detectionTiming';
+import { getContractWeather } from '../config/contract';
+import { ExplorationService } from '../services/ExplorationService';
+import { getInitialExplorationBudgetMinutes } from '../config/exploration';
+import type {
+  Voyage,
+  VoyageContract,
+  DistractionDetectionEvent,
+  DistractionResolution,
+  ExplorationEndReason
+} from '../types';
+
+// The distraction event currently open for the voyage
+export interface OpenDistraction {
+  id: Promise<string>; // Resolves once the row is inserted (or queued)
+  type: DistractionDetectionEvent['type'];
+  source?: DistractionDetectionEvent['source'];
+  startedAt: number;
+}
+
+// The exploration interval currently open for the voyage
+export interface OpenExploration {
+  id: Promise<string>; // Resolves once the row is inserted (or queued)
+  startedAt: number;
+}
 
 interface VoyageState {
   currentVoyage: Voyage | null;
@@ -12,14 +41,33 @@ interface VoyageState {
   distractionCount: number;
   startTime: Date | null;
   preciseStartTime: number | null; // High precision start time in milliseconds
+  isPaused: boolean;
+  pausedAt: number | null; // High precision time the current pause started
+  totalPausedMs: number; // Closed pause time, excluded from focus metrics
   isLoading: boolean;
   error: string | null;
   lastDistractionTime: number | null;  // Track last distraction to prevent rapid duplicates
+  lastHeartbeatAt: string | null;
+  recoverableVoyage: RecoverableVoyage | null; // Voyage interrupted by a crash or reload
+  openDistraction: OpenDistraction | null;
+  openExploration: OpenExploration | null;
+  exploringMs: number; // Closed exploring time this voyage
 
   // Actions
-  startVoyage: (destinationId: string, userId: string, plannedDuration?: number) => Promise<void>;
-  endVoyage: () => Promise<Voyage | null>;
+  startVoyage: (destinationId: string, userId: string, plannedDuration?: number, contract?: VoyageContract | null) => Promise<void>;
+  endVoyage: (justification?: string) => Promise<Voyage | null>;
+  startExploring: () => void;
+  endExploring: (reason: ExplorationEndReason, endedAt?: Date) => Promise<void>;
+  getExploringMs: () => number;
+  pauseVoyage: (reason?: string) => Promise<void>;
+  resumeVoyage: () => Promise<void>;
+  sendHeartbeat: () => Promise<void>;
+  checkForInterruptedVoyage: (userId: string) => Promise<RecoverableVoyage | null>;
+  resumeInterruptedVoyage: () => Promise<Voyage | null>;
+  endInterruptedVoyage: () => Promise<Voyage | null>;
+  abandonInterruptedVoyage: () => Promise<void>;
   recordDistraction: (event: DistractionDetectionEvent) => Promise<void>;
+  resolveDistraction: (resolution: DistractionResolution, endedAt?: Date) => Promise<void>;
   loadVoyageHistory: (userId: string) => Promise<void>;
   resetVoyageState: () => void;
   
@@ -27,8 +75,67 @@ interface VoyageState {
   _shouldRecordDistraction: (timestamp: number) => boolean;
 }
 
-// Configuration for distraction debouncing
-const DISTRACTION_DEBOUNCE_MS = 10000; // 10 seconds - can be modified
+let distractionTimeout: ReturnType<typeof setTimeout> | null = null;
+
+const clearDistractionTimeout = () => {
+  if (distractionTimeout) {
+    clearTimeout(distractionTimeout);
+    distractionTimeout = null;
+  }
+};
+
+// How often the sailing screen reports that the voyage is still alive
+export const VOYAGE_HEARTBEAT_INTERVAL_MS = 30000;
+
+// Local copy of the in-progress voyage so it survives a crash or reload
+const VOYAGE_SNAPSHOT_KEY = 'mindboat-active-voyage';
+
+interface VoyageSnapshot {
+  voyage: Voyage | null;
+  preciseStartTime: number | null;
+  distractionCount: number;
+  isPaused: boolean;
+  pausedAt: number | null;
+  totalPausedMs: number;
+  lastHeartbeatAt: string | null;
+}
+
+export interface RecoverableVoyage {
+  voyage: Voyage;
+  lastHeartbeatAt: string; // Best estimate of when the voyage was last alive
+  snapshot: VoyageSnapshot | null;
+}
+
+const readVoyageSnapshot = (): VoyageSnapshot | null => {
+  try {
+    const raw = localStorage.getItem(VOYAGE_SNAPSHOT_KEY);
+    if (!raw) return null;
+
+    const snapshot = JSON.parse(raw) as VoyageSnapshot;
+    return snapshot.voyage ? snapshot : null;
+  } catch (error) {
+    console.warn('Failed to read voyage snapshot:', error);
+    return null;
+  }
+};
+
+const writeVoyageSnapshot = (snapshot: VoyageSnapshot) => {
+  try {
+    localStorage.setItem(VOYAGE_SNAPSHOT_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    console.warn('Failed to save voyage snapshot:', error);
+  }
+};
+
+const clearVoyageSnapshot = () => {
+  localStorage.removeItem(VOYAGE_SNAPSHOT_KEY);
+};
+
+const latestTimestamp = (...timestamps: Array<string | null | undefined>): string | null => {
+  const times = timestamps.filter((t): t is string => !!t);
+  if (times.length === 0) return null;
+  return times.reduce((latest, t) => (new Date(t) > new Date(latest) ? t : latest));
+};
 
 export const useVoyageStore = create<VoyageState>()(
   subscribeWithSelector((set, get) => ({
@@ -38,30 +145,42 @@ export const useVoyageStore = create<VoyageState>()(
   distractionCount: 0,
   startTime: null,
   preciseStartTime: null,
+  isPaused: false,
+  pausedAt: null,
+  totalPausedMs: 0,
   isLoading: false,
   error: null,
   lastDistractionTime: null,
+  lastHeartbeatAt: null,
+  recoverableVoyage: null,
+  openDistraction: null,
+  openExploration: null,
+  exploringMs: 0,
 
-  startVoyage: async (destinationId, userId, plannedDuration) => {
+  startVoyage: async (destinationId, userId, plannedDuration, contract = null) => {
     set({ isLoading: true, error: null });
 
     try {
       const startTime = new Date();
       const preciseStartTime = getHighPrecisionTime();
 
+      const voyageRow = {
+        user_id: userId,
+        destination_id: destinationId,
+        start_time: startTime.toISOString(),
+        planned_duration: plannedDuration,
+        planned_duration_ms: plannedDuration ? plannedDuration * 60000 : null, // Convert to milliseconds
+        start_time_precise_ms: Math.round(preciseStartTime),
+        status: 'active',
+        weather_mood: 'sunny', // Default weather
+        distraction_count: 0,
+        contract,
+        exploration_budget_minutes: getInitialExplorationBudgetMinutes(contract),
+      };
+
       const { data, error } = await supabase
         .from('voyages')
-        .insert({
-          user_id: userId,
-          destination_id: destinationId,
-          start_time: startTime.toISOString(),
-          planned_duration: plannedDuration,
-          planned_duration_ms: plannedDuration ? plannedDuration * 60000 : null, // Convert to milliseconds
-          start_time_precise_ms: Math.round(preciseStartTime),
-          status: 'active',
-          weather_mood: 'sunny', // Default weather
-          distraction_count: 0,
-        })
+        .insert(voyageRow)
         .select(`
           *,
           destination:destinations(*)
@@ -73,7 +192,7 @@ export const useVoyageStore = create<VoyageState>()(
         console.warn('Database voyage creation failed, creating local voyage:', error);
 
         const localVoyage: Voyage = {
-          id: `local-${Date.now()}`,
+          id: SyncQueueService.createLocalId(),
           user_id: userId,
           destination_id: destinationId,
           start_time: startTime.toISOString(),
@@ -82,14 +201,25 @@ export const useVoyageStore = create<VoyageState>()(
           weather_mood: 'sunny',
           distraction_count: 0,
           created_at: startTime.toISOString(),
+          contract,
+          exploration_budget_minutes: voyageRow.exploration_budget_minutes,
         };
 
+        // Upload the voyage once connectivity returns
+        SyncQueueService.enqueueInsert('voyages', voyageRow, localVoyage.id);
+
         set({
           currentVoyage: localVoyage,
           isVoyageActive: true,
           distractionCount: 0,
           startTime,
           preciseStartTime,
+          isPaused: false,
+          pausedAt: null,
+          totalPausedMs: 0,
+          lastHeartbeatAt: startTime.toISOString(),
+          openExploration: null,
+          exploringMs: 0,
         });
 
         // Reset distraction tracking for new voyage
@@ -104,6 +234,12 @@ export const useVoyageStore = create<VoyageState>()(
         distractionCount: 0,
         startTime,
         preciseStartTime,
+        isPaused: false,
+        pausedAt: null,
+        totalPausedMs: 0,
+        lastHeartbeatAt: startTime.toISOString(),
+        openExploration: null,
+        exploringMs: 0,
       });
 
       // Reset distraction tracking for new voyage
@@ -122,8 +258,8 @@ export const useVoyageStore = create<VoyageState>()(
     }
   },
 
-  endVoyage: async (): Promise<Voyage | null> => {
-    const { currentVoyage, distractionCount, preciseStartTime } = get();
+  endVoyage: async (justification?: string): Promise<Voyage | null> => {
+    const { currentVoyage, distractionCount, preciseStartTime, isPaused, pausedAt, totalPausedMs } = get();
     if (!currentVoyage) return null;
 
     set({ isLoading: true, error: null });
@@ -132,24 +268,48 @@ export const useVoyageStore = create<VoyageState>()(
       const endTime = new Date();
       const preciseEndTime = getHighPrecisionTime();
 
+      await get().resolveDistraction('voyage_ended', endTime);
+      await get().endExploring('voyage_ended', endTime);
+      const exploringMs = Math.round(get().getExploringMs());
+
+      // Paused time (including a pause still open) is not sailing time
+      const pausedMs = totalPausedMs + (isPaused && pausedAt ? calculatePreciseDuration(pausedAt, preciseEndTime) : 0);
+
       // Calculate actual duration from the voyage's start_time in the database
       const voyageStartTime = new Date(currentVoyage.start_time);
-      const actualDuration = Math.floor((endTime.getTime() - voyageStartTime.getTime()) / 60000); // minutes
+      const wallClockMs = endTime.getTime() - voyageStartTime.getTime();
+      const actualDuration = Math.floor(Math.max(0, wallClockMs - pausedMs) / 60000); // minutes
       
       // Calculate precise duration in milliseconds
-      const preciseDuration = preciseStartTime ? 
-        Math.round(calculatePreciseDuration(preciseStartTime, preciseEndTime)) : 
-        (endTime.getTime() - voyageStartTime.getTime());
-
-      // If it's a local voyage, just update local state
+      const preciseDuration = Math.max(0, (preciseStartTime ?
+        Math.round(calculatePreciseDuration(preciseStartTime, preciseEndTime)) :
+        wallClockMs) - Math.round(pausedMs));
+
+      const completionUpdate = {
+        end_time: endTime.toISOString(),
+        actual_duration: actualDuration,
+        actual_duration_ms: preciseDuration,
+        total_paused_ms: Math.round(pausedMs),
+        distraction_count: distractionCount,
+        status: 'completed' as const,
+        exploring_ms: exploringMs,
+        ...(justification ? { early_end_justification: justification } : {}),
+      };
+
+      // If it's a local voyage, update local state and queue the completion for sync
       if (currentVoyage.id.startsWith('local-')) {
+        SyncQueueService.enqueueUpdate('voyages', currentVoyage.id, completionUpdate);
+
         const updatedVoyage = {
           ...currentVoyage,
           end_time: endTime.toISOString(),
           actual_duration: actualDuration,
           actual_duration_ms: preciseDuration,
+          total_paused_ms: Math.round(pausedMs),
           distraction_count: distractionCount,
           status: 'completed' as const,
+          exploring_ms: exploringMs,
+          early_end_justification: justification || null,
         };
 
         set(state => ({
@@ -158,27 +318,36 @@ export const useVoyageStore = create<VoyageState>()(
           distractionCount: 0,
           startTime: null,
           preciseStartTime: null,
+          isPaused: false,
+          pausedAt: null,
+          totalPausedMs: 0,
+          openExploration: null,
+          exploringMs: 0,
           voyageHistory: [updatedVoyage, ...state.voyageHistory],
         }));
 
         return updatedVoyage;
       }
 
+      // Close the open pause interval before completing
+      if (isPaused) {
+        try {
+          await VoyageService.closeOpenPause(currentVoyage.id, endTime);
+        } catch (pauseError) {
+          console.warn('Failed to close open pause interval:', pauseError);
+        }
+      }
+
       const { data, error } = await supabase
         .from('voyages')
-        .update({
-          end_time: endTime.toISOString(),
-          actual_duration: actualDuration,
-          actual_duration_ms: preciseDuration,
-          distraction_count: distractionCount,
-          status: 'completed',
-        })
+        .update(completionUpdate)
         .eq('id', currentVoyage.id)
         .select()
         .single();
 
       if (error) {
-        console.warn('Database voyage update failed:', error);
+        console.warn('Database voyage update failed, queueing for sync:', error);
+        SyncQueueService.enqueueUpdate('voyages', currentVoyage.id, completionUpdate);
 
         // Return local updated voyage even if database update failed
         const localUpdatedVoyage = {
@@ -186,8 +355,11 @@ export const useVoyageStore = create<VoyageState>()(
           end_time: endTime.toISOString(),
           actual_duration: actualDuration,
           actual_duration_ms: preciseDuration,
+          total_paused_ms: Math.round(pausedMs),
           distraction_count: distractionCount,
           status: 'completed' as const,
+          exploring_ms: exploringMs,
+          early_end_justification: justification || null,
         };
 
         set(state => ({
@@ -196,6 +368,11 @@ export const useVoyageStore = create<VoyageState>()(
           distractionCount: 0,
           startTime: null,
           preciseStartTime: null,
+          isPaused: false,
+          pausedAt: null,
+          totalPausedMs: 0,
+          openExploration: null,
+          exploringMs: 0,
           voyageHistory: [localUpdatedVoyage, ...state.voyageHistory],
         }));
 
@@ -219,6 +396,11 @@ export const useVoyageStore = create<VoyageState>()(
           distractionCount: 0,
           startTime: null,
           preciseStartTime: null,
+          isPaused: false,
+          pausedAt: null,
+          totalPausedMs: 0,
+          openExploration: null,
+          exploringMs: 0,
           voyageHistory: [data, ...state.voyageHistory],
         }));
 
@@ -239,6 +421,283 @@ export const useVoyageStore = create<VoyageState>()(
     }
   },
 
+  startExploring: () => {
+    const { currentVoyage, openExploration } = get();
+    if (!currentVoyage || openExploration) return;
+
+    const startedAt = Date.now();
+    set({ openExploration: { id: ExplorationService.openInterval(currentVoyage.id, startedAt), startedAt } });
+  },
+
+  endExploring: async (reason, endedAt = new Date()) => {
+    const { openExploration } = get();
+    if (!openExploration) return;
+
+    set(state => ({
+      openExploration: null,
+      exploringMs: state.exploringMs + Math.max(0, endedAt.getTime() - openExploration.startedAt),
+    }));
+
+    try {
+      const intervalId = await openExploration.id;
+      await ExplorationService.closeInterval(intervalId, openExploration.startedAt, reason, endedAt);
+    } catch (error) {
+      console.warn('Failed to close exploration interval:', error);
+    }
+  },
+
+  getExploringMs: () => {
+    const { openExploration, exploringMs } = get();
+    return exploringMs + (openExploration ? Date.now() - openExploration.startedAt : 0);
+  },
+
+  pauseVoyage: async (reason) => {
+    const { currentVoyage, isPaused } = get();
+    if (!currentVoyage || isPaused) return;
+
+    // Nothing is detected while anchored, so an open distraction ends with the pause
+    const distractionResolved = get().resolveDistraction('voyage_paused');
+    // Paused time is not exploring time either
+    const explorationEnded = get().endExploring('voyage_paused');
+
+    set({
+      isPaused: true,
+      pausedAt: getHighPrecisionTime(),
+      currentVoyage: { ...currentVoyage, status: 'paused' },
+    });
+
+    await Promise.all([distractionResolved, explorationEnded]);
+    if (currentVoyage.id.startsWith('local-')) return;
+
+    try {
+      await VoyageService.pauseVoyage(currentVoyage.id, reason);
+    } catch (error) {
+      console.warn('Failed to persist voyage pause:', error);
+      // Keep the local pause so paused time is still excluded from this voyage
+    }
+  },
+
+  resumeVoyage: async () => {
+    const { currentVoyage, isPaused, pausedAt } = get();
+    if (!currentVoyage || !isPaused) return;
+
+    const pauseDuration = pausedAt ? calculatePreciseDuration(pausedAt) : 0;
+
+    set(state => ({
+      isPaused: false,
+      pausedAt: null,
+      totalPausedMs: state.totalPausedMs + pauseDuration,
+      currentVoyage: state.currentVoyage ? { ...state.currentVoyage, status: 'active' } : null,
+    }));
+
+    if (currentVoyage.id.startsWith('local-')) return;
+
+    try {
+      await VoyageService.resumeVoyage(currentVoyage.id);
+    } catch (error) {
+      console.warn('Failed to persist voyage resume:', error);
+    }
+  },
+
+  sendHeartbeat: async () => {
+    const { currentVoyage } = get();
+    if (!currentVoyage) return;
+
+    const now = new Date();
+    set({ lastHeartbeatAt: now.toISOString() });
+
+    if (!currentVoyage.id.startsWith('local-')) {
+      await VoyageService.recordHeartbeat(currentVoyage.id, now);
+    }
+  },
+
+  checkForInterruptedVoyage: async (userId) => {
+    if (get().currentVoyage) return null;
+
+    const snapshot = readVoyageSnapshot();
+
+    let serverVoyage: Voyage | null = null;
+    try {
+      serverVoyage = await VoyageService.getActiveVoyage(userId);
+    } catch (error) {
+      console.warn('Could not check for an in-progress voyage:', error);
+    }
+
+    let recoverableVoyage: RecoverableVoyage | null = null;
+
+    if (serverVoyage) {
+      const matchingSnapshot = snapshot?.voyage?.id === serverVoyage.id ? snapshot : null;
+      recoverableVoyage = {
+        voyage: serverVoyage,
+        lastHeartbeatAt: latestTimestamp(serverVoyage.last_heartbeat_at, matchingSnapshot?.lastHeartbeatAt)
+          || serverVoyage.start_time,
+        snapshot: matchingSnapshot,
+      };
+    } else if (snapshot?.voyage && snapshot.voyage.id.startsWith('local-')) {
+      // Local voyages only exist in the snapshot
+      recoverableVoyage = {
+        voyage: { ...snapshot.voyage, user_id: userId },
+        lastHeartbeatAt: snapshot.lastHeartbeatAt || snapshot.voyage.start_time,
+        snapshot,
+      };
+    } else if (snapshot) {
+      // The database no longer considers this voyage in progress
+      clearVoyageSnapshot();
+    }
+
+    set({ recoverableVoyage });
+    return recoverableVoyage;
+  },
+
+  resumeInterruptedVoyage: async () => {
+    const { recoverableVoyage } = get();
+    if (!recoverableVoyage) return null;
+
+    const { voyage, snapshot, lastHeartbeatAt } = recoverableVoyage;
+    const now = new Date();
+    const lastAlive = new Date(lastHeartbeatAt);
+    const wasPaused = snapshot ? snapshot.isPaused : voyage.status === 'paused';
+
+    // The time the app was closed is not sailing time - treat it as a pause
+    const gapMs = wasPaused ? 0 : Math.max(0, now.getTime() - lastAlive.getTime());
+    const totalPausedMs = (snapshot?.totalPausedMs ?? voyage.total_paused_ms ?? 0) + gapMs;
+
+    set({
+      currentVoyage: voyage,
+      isVoyageActive: true,
+      distractionCount: Math.max(snapshot?.distractionCount ?? 0, voyage.distraction_count || 0),
+      startTime: new Date(voyage.start_time),
+      preciseStartTime: snapshot?.preciseStartTime ?? new Date(voyage.start_time).getTime(),
+      isPaused: wasPaused,
+      pausedAt: wasPaused ? (snapshot?.pausedAt ?? lastAlive.getTime()) : null,
+      totalPausedMs,
+      lastDistractionTime: null,
+      recoverableVoyage: null,
+    });
+
+    if (!voyage.id.startsWith('local-') && gapMs > 0) {
+      try {
+        await VoyageService.recordClosedPause(voyage.id, lastAlive, now, 'recovery');
+      } catch (error) {
+        console.warn('Failed to record recovery gap as a pause:', error);
+      }
+    }
+
+    // Nobody could respond to a distraction left open when the app closed
+    if (!voyage.id.startsWith('local-')) {
+      await DistractionService.closeOpenDistractions(voyage.id, 'timed_out', lastAlive);
+      await ExplorationService.closeOpenIntervals(voyage.id, 'returned', lastAlive);
+    }
+
+    await get().sendHeartbeat();
+
+    useNotificationStore.getState().showSuccess(
+      'Your voyage has been restored. The time the app was closed is not counted.',
+      'Voyage Resumed'
+    );
+
+    return voyage;
+  },
+
+  endInterruptedVoyage: async () => {
+    const { recoverableVoyage } = get();
+    if (!recoverableVoyage) return null;
+
+    const { voyage, snapshot, lastHeartbeatAt } = recoverableVoyage;
+    const endTime = new Date(lastHeartbeatAt);
+
+    set({ isLoading: true, error: null });
+
+    try {
+      let endedVoyage: Voyage;
+
+      if (voyage.id.startsWith('local-')) {
+        const openPauseMs = snapshot?.isPaused && snapshot.pausedAt
+          ? Math.max(0, endTime.getTime() - snapshot.pausedAt)
+          : 0;
+        const pausedMs = (snapshot?.totalPausedMs ?? 0) + openPauseMs;
+        const sailingMs = Math.max(0, endTime.getTime() - new Date(voyage.start_time).getTime() - pausedMs);
+
+        const completionUpdate = {
+          end_time: endTime.toISOString(),
+          actual_duration: Math.floor(sailingMs / 60000),
+          actual_duration_ms: Math.round(sailingMs),
+          total_paused_ms: Math.round(pausedMs),
+          distraction_count: snapshot?.distractionCount ?? voyage.distraction_count,
+          status: 'completed' as const,
+        };
+
+        SyncQueueService.enqueueUpdate('voyages', voyage.id, completionUpdate);
+        endedVoyage = { ...voyage, ...completionUpdate };
+      } else {
+        endedVoyage = await VoyageService.endVoyage(voyage.id, endTime);
+        await DistractionService.closeOpenDistractions(voyage.id, 'voyage_ended', endTime);
+        await ExplorationService.closeOpenIntervals(voyage.id, 'voyage_ended', endTime);
+
+        try {
+          const { error: statsError } = await supabase
+            .rpc('calculate_voyage_statistics_precise', { voyage_id_param: voyage.id });
+
+          if (statsError) {
+            console.warn('Failed to calculate voyage statistics:', statsError);
+          }
+        } catch (statsError) {
+          console.warn('Error calculating voyage statistics:', statsError);
+        }
+      }
+
+      clearVoyageSnapshot();
+      set(state => ({
+        recoverableVoyage: null,
+        voyageHistory: [endedVoyage, ...state.voyageHistory],
+      }));
+
+      return endedVoyage;
+    } catch (error) {
+      console.error('Failed to end interrupted voyage:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to end voyage' });
+
+      useNotificationStore.getState().showError(
+        'Failed to close your previous voyage. Please try again.',
+        'Voyage Error'
+      );
+
+      return null;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  abandonInterruptedVoyage: async () => {
+    const { recoverableVoyage } = get();
+    if (!recoverableVoyage) return;
+
+    const { voyage, lastHeartbeatAt } = recoverableVoyage;
+
+    try {
+      if (voyage.id.startsWith('local-')) {
+        SyncQueueService.enqueueUpdate('voyages', voyage.id, {
+          status: 'abandoned',
+          end_time: new Date(lastHeartbeatAt).toISOString(),
+        });
+      } else {
+        await VoyageService.abandonVoyage(voyage.id, new Date(lastHeartbeatAt));
+        await DistractionService.closeOpenDistractions(voyage.id, 'voyage_ended', new Date(lastHeartbeatAt));
+        await ExplorationService.closeOpenIntervals(voyage.id, 'voyage_ended', new Date(lastHeartbeatAt));
+      }
+
+      clearVoyageSnapshot();
+      set({ recoverableVoyage: null });
+    } catch (error) {
+      console.error('Failed to abandon interrupted voyage:', error);
+
+      useNotificationStore.getState().showError(
+        'Failed to abandon your previous voyage. Please try again.',
+        'Voyage Error'
+      );
+    }
+  },
+
   _shouldRecordDistraction: (timestamp: number): boolean => {
     const { lastDistractionTime } = get();
     
@@ -249,7 +708,7 @@ export const useVoyageStore = create<VoyageState>()(
     
     // Only record if enough time has passed since last distraction
     const timeSinceLastDistraction = timestamp - lastDistractionTime;
-    const shouldRecord = timeSinceLastDistraction >= DISTRACTION_DEBOUNCE_MS;
+    const shouldRecord = isPastDistractionDebounce(lastDistractionTime, timestamp);
     
     if (import.meta.env.DEV) {
       console.log(`🔄 [DEBOUNCE] Distraction debounce check:`, {
@@ -264,8 +723,16 @@ export const useVoyageStore = create<VoyageState>()(
   },
 
   recordDistraction: async (event) => {
-    const { currentVoyage } = get();
-    if (!currentVoyage) return;
+    const { currentVoyage, isPaused, openDistraction } = get();
+    if (!currentVoyage || isPaused) return;
+
+    // Detectors keep reporting while a distraction lasts - it is one event until resolved
+    if (openDistraction) {
+      if (import.meta.env.DEV) {
+        console.log(`⏭️ [DISTRACTION] Already open (${openDistraction.type}) - not opening another`);
+      }
+      return;
+    }
 
     // Check if we should record this distraction (debouncing)
     const shouldRecord = get()._shouldRecordDistraction(event.timestamp);
@@ -277,50 +744,83 @@ export const useVoyageStore = create<VoyageState>()(
       return;
     }
 
+    // Open the event right away so concurrent detectors join it
+    const opened: OpenDistraction = {
+      id: DistractionService.openDistraction(currentVoyage.id, event),
+      type: event.type,
+      source: event.source,
+      startedAt: event.timestamp,
+    };
+
     // Record this distraction timestamp and increment counter
     set(state => ({ 
       distractionCount: state.distractionCount + 1,
-      lastDistractionTime: event.timestamp
+      lastDistractionTime: event.timestamp,
+      openDistraction: opened,
     }));
 
+    clearDistractionTimeout();
+    const openedAt = Date.now();
+    distractionTimeout = setTimeout(() => {
+      if (get().openDistraction === opened) {
+        get().resolveDistraction('timed_out');
+      }
+    }, distractionTimesOutAt(openedAt) - openedAt);
+
     if (import.meta.env.DEV) {
-      console.log(`📊 [DISTRACTION] Recorded new distraction (#${get().distractionCount})`, {
+      console.log(`📊 [DISTRACTION] Opened distraction (#${get().distractionCount})`, {
         type: event.type,
-        timestamp: new Date(event.timestamp).toLocaleTimeString(),
-        duration: event.duration ? `${Math.round(event.duration / 1000)}s` : 'ongoing'
+        source: event.source,
+        timestamp: new Date(event.timestamp).toLocaleTimeString()
       });
     }
 
-    try {
-      // Try to save to database
-      const { error } = await supabase
-        .from('distraction_events')
-        .insert({
-          voyage_id: currentVoyage.id,
-          detected_at: new Date(event.timestamp).toISOString(),
-          duration_seconds: event.duration ? Math.round(event.duration / 1000) : null,
-          type: event.type,
-        });
+    // Strict voyages turn the weather once the distraction budget is spent
+    const { distractionCount } = get();
+    const weatherMood = currentVoyage.contract?.strict
+      ? getContractWeather(currentVoyage.contract, distractionCount)
+      : currentVoyage.weather_mood;
+    if (weatherMood !== currentVoyage.weather_mood) {
+      set(state => ({
+        currentVoyage: state.currentVoyage && { ...state.currentVoyage, weather_mood: weatherMood }
+      }));
+    }
 
-      if (error && !currentVoyage.id.startsWith('local-')) {
-        console.warn('Failed to save distraction event:', error);
+    // Update voyage distraction count in database (if not local)
+    if (!currentVoyage.id.startsWith('local-')) {
+      try {
+        await supabase
+          .from('voyages')
+          .update({ distraction_count: distractionCount, weather_mood: weatherMood })
+          .eq('id', currentVoyage.id);
+      } catch (updateError) {
+        console.warn('Failed to update voyage distraction count:', updateError);
       }
+    } else if (weatherMood !== currentVoyage.weather_mood) {
+      SyncQueueService.enqueueUpdate('voyages', currentVoyage.id, { weather_mood: weatherMood });
+    }
+  },
 
-      // Update voyage distraction count in database (if not local)
-      if (!currentVoyage.id.startsWith('local-')) {
-        try {
-          const { distractionCount } = get();
-          await supabase
-            .from('voyages')
-            .update({ distraction_count: distractionCount })
-            .eq('id', currentVoyage.id);
-        } catch (updateError) {
-          console.warn('Failed to update voyage distraction count:', updateError);
-        }
-      }
+  resolveDistraction: async (resolution, endedAt = new Date()) => {
+    const { openDistraction } = get();
+    if (!openDistraction) return;
+
+    clearDistractionTimeout();
+    set({ openDistraction: null });
+
+    if (import.meta.env.DEV) {
+      console.log(`✅ [DISTRACTION] Closed distraction`, {
+        type: openDistraction.type,
+        resolution,
+        duration: `${Math.round((endedAt.getTime() - openDistraction.startedAt) / 1000)}s`
+      });
+    }
+
+    try {
+      const distractionId = await openDistraction.id;
+      await DistractionService.closeDistraction(distractionId, openDistraction.startedAt, resolution, endedAt);
     } catch (error) {
-      console.warn('Failed to record distraction:', error);
-      // Keep local counter updated even if database fails
+      console.warn('Failed to resolve distraction:', error);
     }
   },
 
@@ -375,8 +875,38 @@ export const useVoyageStore = create<VoyageState>()(
       distractionCount: 0,
       startTime: null,
       preciseStartTime: null,
+      isPaused: false,
+      pausedAt: null,
+      totalPausedMs: 0,
       lastDistractionTime: null,
+      lastHeartbeatAt: null,
+      openDistraction: null,
+      openExploration: null,
+      exploringMs: 0,
       error: null,
     });
+    clearDistractionTimeout();
+  },
+})));
+
+// Keep the local snapshot in sync with the in-progress voyage.
+// It is only cleared when a voyage ends, so an untouched snapshot survives startup.
+useVoyageStore.subscribe(
+  (state): VoyageSnapshot => ({
+    voyage: state.currentVoyage,
+    preciseStartTime: state.preciseStartTime,
+    distractionCount: state.distractionCount,
+    isPaused: state.isPaused,
+    pausedAt: state.pausedAt,
+    totalPausedMs: state.totalPausedMs,
+    lastHeartbeatAt: state.lastHeartbeatAt,
+  }),
+  (snapshot, previousSnapshot) => {
+    if (snapshot.voyage) {
+      writeVoyageSnapshot(snapshot);
+    } else if (previousSnapshot.voyage) {
+      clearVoyageSnapshot();
+    }
   },
-})));
\ No newline at end of file
+  { equalityFn: shallow }
+);
\ No newline at end of file
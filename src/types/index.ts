@@ -6,6 +6,19 @@ export interface User {
   updated_at: string;
 }
 
+export type SensitivityProfile = 'relaxed' | 'standard' | 'strict' | 'custom';
+
+export interface SensitivityThresholds {
+  tabSwitchGraceMs: number; // time away from the tab before it counts as a distraction
+  idleThresholdMs: number; // time without input before the user counts as idle
+  readingAllowanceMs: number; // extra quiet time allowed after reading input (scrolling, paging) or while another window has focus
+  cameraAbsenceThresholdMs: number; // how long camera issues must persist before they count
+  screenshotIntervalMs: number; // time between screenshot + camera analyses
+}
+
+// Where a destination stands; archived destinations are put away without being reached
+export type DestinationStatus = 'active' | 'completed' | 'archived';
+
 export interface Destination {
   id: string;
   user_id: string;
@@ -15,6 +28,10 @@ export interface Destination {
   related_apps: string[];
   color_theme: string;
   created_at: string;
+  sensitivity_profile?: SensitivityProfile;
+  sensitivity_thresholds?: Partial<SensitivityThresholds>; // only used by the custom profile
+  status?: DestinationStatus; // treated as 'active' when missing
+  status_changed_at?: string | null;
 }
 
 export interface Voyage {
@@ -27,22 +44,98 @@ export interface Voyage {
   planned_duration?: number; // minutes
   actual_duration?: number; // minutes
   distraction_count: number;
-  status: 'active' | 'completed' | 'abandoned';
+  status: 'active' | 'paused' | 'completed' | 'abandoned';
   weather_mood: string;
   created_at: string;
+  total_paused_ms?: number; // time spent paused, excluded from actual_duration
+  last_heartbeat_at?: string; // last time the sailing client reported it was alive
+  contract?: VoyageContract | null; // Strict mode terms, fixed when the voyage starts
+  early_end_justification?: string | null; // Why a strict voyage ended before its planned duration
+  exploring_ms?: number; // Time spent exploring after a distraction
+  exploration_budget_minutes?: number | null; // Exploring time allowed this voyage
   // Voice recording fields
   voice_recording_enabled?: boolean;
   total_transcript_duration?: number; // seconds
   transcript_confidence_avg?: number;
 }
 
+// Terms a strict voyage commits to before it sets sail
+export interface VoyageContract {
+  strict: boolean;
+  distraction_budget: number; // Distractions allowed before penalties start
+  exploring_cap_minutes: number; // Total 'exploring' time allowed per voyage
+  penalty_per_distraction: number; // Focus score points lost per distraction over budget
+}
+
+export interface VoyagePause {
+  id: string;
+  voyage_id: string;
+  paused_at: string;
+  resumed_at?: string;
+  duration_ms?: number;
+  reason?: string;
+}
+
+export type SiteRuleCategory =
+  'social_media' | 'entertainment' | 'shopping' | 'news_browsing' | 'irrelevant_browsing';
+
+export interface SiteRule {
+  id: string;
+  user_id: string;
+  pattern: string; // host with optional path; `*` is a wildcard, otherwise the path is a prefix
+  rule_type: 'block' | 'allow';
+  category?: SiteRuleCategory; // reported distraction type for block rules
+  note?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Detector that opened a distraction event
+export type DistractionSource = 'tab_visibility' | 'url' | 'browser_extension' | 'vision' | 'idle';
+
+// How an open distraction event was closed
+export type DistractionResolution = 'return_to_course' | 'exploring' | 'timed_out' | 'voyage_ended' | 'voyage_paused';
+
 export interface DistractionEvent {
   id: string;
   voyage_id: string;
-  detected_at: string;
-  duration_seconds?: number;
-  type: 'tab_switch' | 'idle' | 'camera_distraction';
-  user_response?: 'return_to_course' | 'exploring' | 'ignored';
+  detected_at: string; // start of the distraction
+  ended_at?: string | null; // null while the distraction is still open
+  duration_seconds?: number | null;
+  type: DistractionDetectionEvent['type'];
+  source?: DistractionSource | null;
+  resolution?: DistractionResolution | null;
+  is_resolved?: boolean;
+  user_response?: 'return_to_course' | 'exploring' | 'ignored' | null;
+}
+
+// Note captured in exploration mode
+export interface ExplorationNote {
+  id: string;
+  voyage_id: string;
+  content: string;
+  type: 'text' | 'voice';
+  created_at: string;
+  tags?: string[];
+  destination_id?: string | null; // Destination the note was attached to or promoted into
+  promoted_at?: string | null; // Set when the note became a new destination
+  audio_path?: string | null; // Storage object path, or `local:<key>` for audio kept in the browser
+  audio_mime_type?: string | null;
+  audio_duration_ms?: number | null;
+  transcript_confidence?: number | null; // 0-1, for the transcript in `content`
+  audio_expires_at?: string | null; // When the audio was deleted for retention; the transcript stays
+}
+
+export type ExplorationEndReason = 'returned' | 'budget_exhausted' | 'voyage_ended' | 'voyage_paused';
+
+// One stretch of exploration mode during a voyage
+export interface ExplorationInterval {
+  id: string;
+  voyage_id: string;
+  started_at: string;
+  ended_at?: string | null; // null while still exploring
+  duration_ms?: number | null;
+  end_reason?: ExplorationEndReason | null;
 }
 
 export interface DailyReflection {
@@ -53,6 +146,13 @@ export interface DailyReflection {
   total_focus_time: number; // minutes
   voyage_count: number;
   generated_at: string;
+  highlights?: string[]; // What went well, from the seagull
+  pattern_observed?: string | null;
+  tomorrow_suggestion?: string | null;
+  generation_source?: 'llm' | 'fallback' | null;
+  journal_entry?: string | null; // The user's own notes on the day
+  journal_rating?: number | null; // 1-5
+  journal_updated_at?: string | null;
 }
 
 export interface DistractionDetectionEvent {
@@ -64,6 +164,52 @@ export interface DistractionDetectionEvent {
   'camera_distraction' | 'blacklisted_content'; // Legacy types
   timestamp: number;
   duration?: number;
+  source?: DistractionSource;
+}
+
+// Screenshot Redaction
+export type RedactionMode = 'full' | 'screen_only' | 'camera_only';
+
+export interface RedactionRegion {
+  id: string;
+  label?: string;
+  // Fractions (0-1) of each shared screen or window, so regions survive resolution changes
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RedactionSettings {
+  mode: RedactionMode; // what the vision model gets to see
+  maxWidth: number | null; // downscale captures wider than this; null keeps full resolution
+  blurRegions: RedactionRegion[];
+  blackOutCamera: boolean; // replace the camera picture-in-picture with a black box
+}
+
+// Data Retention - days to keep each kind of captured data; null keeps it until deleted by hand
+export interface RetentionSettings {
+  transcripts_days: number | null;
+  detection_results_days: number | null;
+  screenshot_analysis_days: number | null; // vision payloads only; the detection verdict stays
+  exploration_notes_days: number | null;
+}
+
+export type RetentionKind = keyof RetentionSettings;
+
+export interface DataUsageEntry {
+  count: number;
+  bytes: number;
+  oldest: string | null;
+}
+
+// What is currently stored for a user, per kind of data
+export interface DataUsage {
+  transcripts: DataUsageEntry;
+  detection_results: DataUsageEntry;
+  screenshot_analyses: DataUsageEntry;
+  exploration_notes: DataUsageEntry;
+  voice_note_audio: DataUsageEntry;
 }
 
 export interface PermissionState {
@@ -181,5 +327,4 @@ export interface VoiceRecordingSettings {
   saveTranscripts: boolean;
   autoAnalyze: boolean;
   privacyMode: boolean; // Anonymize transcripts
-  retentionDays: number; // How long to keep data
 }
\ No newline at end of file
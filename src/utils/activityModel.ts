@@ -0,0 +1,187 @@
+/**
+ * Activity Model
+ *
+ * Turns raw input events into a judgement of whether someone is working,
+ * reading or gone. Only deliberate input counts: a typing burst rather than a
+ * stray key, a pointer gesture that actually goes somewhere rather than a
+ * wiggle, a click, a scroll. Media playing (a lecture, a screencast) keeps
+ * someone active without any input. When the last input was reading-like
+ * (scrolling, paging) or another window has focus, the destination's reading
+ * allowance is added to the idle threshold.
+ *
+ * Pure functions over plain timestamps; the hook feeds DOM events in.
+ */
+
+import { ACTIVITY_SETTINGS } from '../config/activity';
+import type { SensitivityThresholds } from '../types';
+
+export type ActivityInput =
+  | { kind: 'key'; at: number; key: string }
+  | { kind: 'pointer'; at: number; x: number; y: number }
+  | { kind: 'click'; at: number }
+  | { kind: 'scroll'; at: number }
+  | { kind: 'focus'; at: number; focused: boolean }
+  | { kind: 'media'; at: number; playing: boolean };
+
+export type ActivityKind = 'typing' | 'pointer' | 'click' | 'reading' | 'focus' | 'media';
+
+export type ActivityStatus = 'active' | 'reading' | 'idle';
+
+export interface ActivityModelState {
+  lastInputAt: number; // Last input that counted
+  lastInputKind: ActivityKind | null;
+  pageFocused: boolean;
+  mediaPlaying: boolean;
+  recentKeys: number[]; // Keystrokes inside the typing burst window
+  gesture: { x: number; y: number; lastAt: number } | null; // Pointer gesture in progress
+  history: { kind: ActivityKind; at: number }[]; // Counted inputs, for cadence
+}
+
+export interface ActivityAssessment {
+  status: ActivityStatus;
+  quietMs: number; // Time since the last counted input
+  lastInputAt: number;
+  reason: string;
+}
+
+export interface ActivityCadence {
+  keyBurstsPerMinute: number;
+  scrollsPerMinute: number;
+  pointerGesturesPerMinute: number;
+}
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+export const createActivityModel = (now: number, pageFocused = true): ActivityModelState => ({
+  lastInputAt: now,
+  lastInputKind: null,
+  pageFocused,
+  mediaPlaying: false,
+  recentKeys: [],
+  gesture: null,
+  history: [],
+});
+
+const counted = (state: ActivityModelState, kind: ActivityKind, at: number): ActivityModelState => {
+  const previous = state.history[state.history.length - 1];
+  // Scroll and pointer events arrive in floods - one entry per second is enough for cadence
+  const history = previous && previous.kind === kind && at - previous.at < 1000
+    ? state.history
+    : [...state.history.filter(entry => at - entry.at < ACTIVITY_SETTINGS.historyWindowMs), { kind, at }];
+
+  return { ...state, lastInputAt: at, lastInputKind: kind, history };
+};
+
+/**
+ * Apply one input event to the model
+ */
+export const recordActivityInput = (state: ActivityModelState, input: ActivityInput): ActivityModelState => {
+  switch (input.kind) {
+    case 'key': {
+      if (MODIFIER_KEYS.includes(input.key)) return state;
+      if (ACTIVITY_SETTINGS.readingKeys.includes(input.key)) return counted(state, 'reading', input.at);
+
+      const recentKeys = [
+        ...state.recentKeys.filter(at => input.at - at < ACTIVITY_SETTINGS.typingBurstWindowMs),
+        input.at
+      ];
+      return recentKeys.length >= ACTIVITY_SETTINGS.typingBurstKeys
+        ? counted({ ...state, recentKeys }, 'typing', input.at)
+        : { ...state, recentKeys };
+    }
+
+    case 'pointer': {
+      const { gesture } = state;
+      if (!gesture || input.at - gesture.lastAt > ACTIVITY_SETTINGS.pointerGestureGapMs) {
+        return { ...state, gesture: { x: input.x, y: input.y, lastAt: input.at } };
+      }
+
+      const displacement = Math.hypot(input.x - gesture.x, input.y - gesture.y);
+      if (displacement < ACTIVITY_SETTINGS.pointerMinDisplacementPx) {
+        return { ...state, gesture: { ...gesture, lastAt: input.at } };
+      }
+      // Measure the next stretch of the gesture from here
+      return counted({ ...state, gesture: { x: input.x, y: input.y, lastAt: input.at } }, 'pointer', input.at);
+    }
+
+    case 'click':
+      return counted(state, 'click', input.at);
+
+    case 'scroll':
+      return counted(state, 'reading', input.at);
+
+    case 'focus':
+      // Coming back to the window is input; leaving it is not
+      return input.focused
+        ? counted({ ...state, pageFocused: true }, 'focus', input.at)
+        : { ...state, pageFocused: false };
+
+    case 'media':
+      // Playback starting or stopping is engagement; the quiet clock restarts when it stops
+      return input.playing === state.mediaPlaying
+        ? state
+        : counted({ ...state, mediaPlaying: input.playing }, 'media', input.at);
+  }
+};
+
+/**
+ * Whether a quiet stretch from here earns the reading allowance
+ */
+export const isReadingLike = (state: ActivityModelState): boolean =>
+  !state.pageFocused || state.lastInputKind === 'reading';
+
+/**
+ * How long a quiet stretch lasts before it counts as idle
+ */
+export const idleAfterMs = (
+  readingLike: boolean,
+  thresholds: Pick<SensitivityThresholds, 'idleThresholdMs' | 'readingAllowanceMs'>
+): number => thresholds.idleThresholdMs + (readingLike ? thresholds.readingAllowanceMs : 0);
+
+/**
+ * Decide whether the user is active, reading or idle at `now`
+ */
+export const assessActivity = (
+  state: ActivityModelState,
+  now: number,
+  thresholds: Pick<SensitivityThresholds, 'idleThresholdMs' | 'readingAllowanceMs'>
+): ActivityAssessment => {
+  const quietMs = Math.max(0, now - state.lastInputAt);
+  const base = { quietMs, lastInputAt: state.lastInputAt };
+
+  if (state.mediaPlaying) {
+    return { ...base, status: 'active', reason: 'media playing' };
+  }
+
+  if (quietMs < thresholds.idleThresholdMs) {
+    return { ...base, status: 'active', reason: state.lastInputKind ? `recent ${state.lastInputKind}` : 'just started' };
+  }
+
+  const readingReason = !isReadingLike(state)
+    ? null
+    : !state.pageFocused
+      ? 'another window has focus'
+      : 'last input was scrolling or paging';
+
+  if (readingReason && quietMs < idleAfterMs(true, thresholds)) {
+    return { ...base, status: 'reading', reason: `reading allowance - ${readingReason}` };
+  }
+
+  return { ...base, status: 'idle', reason: `no input for ${Math.round(quietMs / 1000)}s` };
+};
+
+/**
+ * Input rates over the model's history window
+ */
+export const getActivityCadence = (state: ActivityModelState, now: number): ActivityCadence => {
+  const recent = state.history.filter(entry => now - entry.at < ACTIVITY_SETTINGS.historyWindowMs);
+  const minutes = ACTIVITY_SETTINGS.historyWindowMs / 60000;
+  const perMinute = (kind: ActivityKind) =>
+    Math.round((recent.filter(entry => entry.kind === kind).length / minutes) * 10) / 10;
+
+  return {
+    keyBurstsPerMinute: perMinute('typing'),
+    scrollsPerMinute: perMinute('reading'),
+    pointerGesturesPerMinute: perMinute('pointer'),
+  };
+};
@@ -0,0 +1,251 @@
+/**
+ * Runtime validation for vision model analysis replies
+ *
+ * Model output is untrusted text. These validators extract the JSON object,
+ * coerce loosely-typed values (e.g. "true", "Moderate", 0.8) into the expected
+ * shape and report every field that could not be coerced, so callers can ask
+ * the model for a repair instead of guessing.
+ */
+
+import type { CameraAnalysisResult, ScreenshotAnalysisResult } from '../services/GeminiService';
+import { VISION_DISTRACTION_TYPES } from './distractionFusion';
+
+export type AnalysisValidation<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: string[] };
+
+type DistractionLevel = ScreenshotAnalysisResult['distractionLevel'];
+type SuggestedAction = ScreenshotAnalysisResult['suggestedAction'];
+
+const DISTRACTION_LEVELS: Record<string, DistractionLevel> = {
+  none: 'none',
+  no: 'none',
+  low: 'mild',
+  mild: 'mild',
+  minor: 'mild',
+  medium: 'moderate',
+  moderate: 'moderate',
+  high: 'high',
+  severe: 'high',
+};
+
+const SUGGESTED_ACTIONS: Record<string, SuggestedAction> = {
+  continue: 'continue',
+  none: 'continue',
+  gentle_reminder: 'gentle_reminder',
+  reminder: 'gentle_reminder',
+  remind: 'gentle_reminder',
+  intervention_needed: 'intervention_needed',
+  intervention: 'intervention_needed',
+  intervene: 'intervention_needed',
+};
+
+/**
+ * Extract the first balanced JSON object from a model reply
+ * Handles markdown code fences and prose before or after the object.
+ */
+export function extractJsonObject(text: string): unknown {
+  const start = text.indexOf('{');
+  if (start === -1) {
+    throw new Error('No JSON object found in response');
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return JSON.parse(text.slice(start, i + 1));
+      }
+    }
+  }
+
+  throw new Error('Unterminated JSON object in response');
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const normalizeKey = (value: string): string =>
+  value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+function coerceBoolean(value: unknown, field: string, errors: string[]): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'true' || normalized === 'yes') return true;
+    if (normalized === 'false' || normalized === 'no') return false;
+  }
+  errors.push(`${field} must be a boolean`);
+  return false;
+}
+
+/**
+ * Coerce confidence to an integer in 0-100 (0-1 fractions are scaled up)
+ */
+function coerceConfidence(value: unknown, errors: string[]): number {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    errors.push('confidenceLevel must be a number between 0 and 100');
+    return 0;
+  }
+  const scaled = number > 0 && number < 1 ? number * 100 : number;
+  return Math.round(Math.min(100, Math.max(0, scaled)));
+}
+
+function coerceEnum<T extends string>(
+  value: unknown,
+  field: string,
+  allowed: Record<string, T>,
+  errors: string[]
+): T | undefined {
+  if (typeof value === 'string') {
+    const key = normalizeKey(value);
+    if (Object.prototype.hasOwnProperty.call(allowed, key)) return allowed[key];
+  }
+  errors.push(`${field} must be one of ${[...new Set(Object.values(allowed))].join(', ')}`);
+  return undefined;
+}
+
+/**
+ * Coerce an optional enum: absent or null is fine, an unknown value is an error
+ */
+function coerceOptionalEnum<T extends string>(
+  value: unknown,
+  field: string,
+  allowed: Record<string, T>,
+  errors: string[]
+): T | undefined {
+  const text = coerceOptionalString(value);
+  if (text === undefined || normalizeKey(text) === 'none') return undefined;
+  return coerceEnum(value, field, allowed, errors);
+}
+
+function coerceString(value: unknown, fallback: string): string {
+  return typeof value === 'string' && value.trim() ? value.trim() : fallback;
+}
+
+function coerceOptionalString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed && trimmed.toLowerCase() !== 'null' ? trimmed : undefined;
+}
+
+function coerceStringArray(value: unknown, field: string, errors: string[]): string[] {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  errors.push(`${field} must be an array of strings`);
+  return [];
+}
+
+/**
+ * Validate a camera analysis reply
+ */
+export function validateCameraAnalysis(raw: unknown): AnalysisValidation<CameraAnalysisResult> {
+  if (!isRecord(raw)) {
+    return { valid: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const value: CameraAnalysisResult = {
+    personPresent: coerceBoolean(raw.personPresent, 'personPresent', errors),
+    appearsFocused: coerceBoolean(raw.appearsFocused, 'appearsFocused', errors),
+    confidenceLevel: coerceConfidence(raw.confidenceLevel, errors),
+    observations: coerceString(raw.observations, 'No observations'),
+    distractionIndicators: coerceStringArray(raw.distractionIndicators, 'distractionIndicators', errors),
+  };
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value };
+}
+
+/**
+ * Validate a screenshot (screen + camera view) analysis reply
+ */
+export function validateScreenshotAnalysis(raw: unknown): AnalysisValidation<ScreenshotAnalysisResult> {
+  if (!isRecord(raw)) {
+    return { valid: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const contentRelevant = coerceBoolean(raw.contentRelevant, 'contentRelevant', errors);
+  const distractionLevel = coerceEnum(raw.distractionLevel, 'distractionLevel', DISTRACTION_LEVELS, errors);
+  const suggestedAction = coerceEnum(raw.suggestedAction, 'suggestedAction', SUGGESTED_ACTIONS, errors);
+  const confidenceLevel = coerceConfidence(raw.confidenceLevel, errors);
+  const detectedApps = coerceStringArray(raw.detectedApps, 'detectedApps', errors);
+  const distractionType = coerceOptionalEnum(raw.distractionType, 'distractionType', VISION_DISTRACTION_TYPES, errors);
+
+  let screenAnalysis: ScreenshotAnalysisResult['screenAnalysis'] = {
+    contentType: 'unknown',
+    isProductiveContent: contentRelevant,
+    screenObservations: 'Screen analysis not provided',
+  };
+  if (raw.screenAnalysis !== undefined) {
+    if (isRecord(raw.screenAnalysis)) {
+      screenAnalysis = {
+        contentType: coerceString(raw.screenAnalysis.contentType, 'unknown'),
+        isProductiveContent: coerceBoolean(
+          raw.screenAnalysis.isProductiveContent,
+          'screenAnalysis.isProductiveContent',
+          errors
+        ),
+        screenObservations: coerceString(raw.screenAnalysis.screenObservations, 'No observations'),
+      };
+    } else {
+      errors.push('screenAnalysis must be an object');
+    }
+  }
+
+  // A missing camera view is normal (camera off); a malformed one is not
+  let cameraAnalysis: ScreenshotAnalysisResult['cameraAnalysis'] = {
+    personPresent: true,
+    appearsFocused: true,
+    cameraObservations: 'Camera analysis not provided',
+  };
+  if (raw.cameraAnalysis !== undefined && raw.cameraAnalysis !== null) {
+    if (isRecord(raw.cameraAnalysis)) {
+      cameraAnalysis = {
+        personPresent: coerceBoolean(raw.cameraAnalysis.personPresent, 'cameraAnalysis.personPresent', errors),
+        appearsFocused: coerceBoolean(raw.cameraAnalysis.appearsFocused, 'cameraAnalysis.appearsFocused', errors),
+        cameraObservations: coerceString(raw.cameraAnalysis.cameraObservations, 'No observations'),
+        physicalDistraction: coerceOptionalString(raw.cameraAnalysis.physicalDistraction),
+      };
+    } else {
+      errors.push('cameraAnalysis must be an object');
+    }
+  }
+
+  if (errors.length > 0 || !distractionLevel || !suggestedAction) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      contentRelevant,
+      distractionType,
+      confidenceLevel,
+      detectedApps,
+      distractionLevel,
+      reasoning: coerceString(raw.reasoning, 'No reasoning provided'),
+      suggestedAction,
+      screenAnalysis,
+      cameraAnalysis,
+    },
+  };
+}
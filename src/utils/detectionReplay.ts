@@ -0,0 +1,322 @@
+/**
+ * Detection Replay
+ *
+ * Feeds a recorded detection trace through the detection logic on a simulated
+ * clock and reports the distraction events that would have been recorded under
+ * a given threshold config. Grace, debounce, idle and timeout rules come from
+ * utils/detectionTiming, as in useAdvancedDistraction and voyageStore; timers
+ * fire at their simulated times instead of waiting.
+ *
+ * Traces come from DetectionTraceService.exportVoyageTrace; run them headless
+ * with `npm run replay -- <trace.json>`.
+ */
+
+import { FUSION_CONFIG, type FusionConfig, type ObservationSource } from '../config/fusion';
+import {
+  fuseObservations,
+  hasCameraIssue,
+  visionObservations,
+  INITIAL_FUSED_STATE,
+  type DetectorObservation,
+  type VisionVerdict
+} from './distractionFusion';
+import {
+  distractionTimesOutAt,
+  fusionRecheckAt,
+  fusionTransition,
+  idleObservation,
+  isPastDistractionDebounce,
+  tabGraceEndsAt,
+  tabObservation,
+  tabReturnOutcome
+} from './detectionTiming';
+import { idleAfterMs } from './activityModel';
+import type {
+  DistractionDetectionEvent,
+  DistractionResolution,
+  DistractionSource,
+  SensitivityThresholds
+} from '../types';
+
+export const DETECTION_TRACE_VERSION = 2;
+
+/**
+ * One raw detector signal, timestamped in epoch milliseconds
+ */
+export type TraceSignal =
+  | { kind: 'tab'; at: number; hidden: boolean }
+  | { kind: 'idle'; at: number; until: number | null; reading?: boolean } // No input from `at` until `until`; reading = earns the reading allowance
+  | {
+      kind: 'url';
+      at: number;
+      source: 'url' | 'browser_extension';
+      distracted: boolean;
+      confidence: number;
+      type?: DistractionDetectionEvent['type'];
+      detail?: string;
+    }
+  | { kind: 'vision'; at: number; skipped: boolean; verdict: VisionVerdict | null } // null = unusable analysis
+  | { kind: 'response'; at: number; response: 'return_to_course' | 'exploring' } // The user's answer to an alert
+  | { kind: 'monitoring'; at: number; active: boolean; reason: 'paused' | 'exploring' | null };
+
+// Signals stored as-is in detection_results.trace_signal; tab and vision signals have their own rows
+export type StoredTraceSignal = Exclude<TraceSignal, { kind: 'tab' } | { kind: 'vision' }>;
+
+export interface TraceDistraction {
+  type: DistractionDetectionEvent['type'];
+  source: DistractionSource | null;
+  startedAt: number;
+  endedAt: number | null;
+  resolution: DistractionResolution | null;
+}
+
+export interface DetectionTrace {
+  version: number;
+  voyageId: string;
+  exportedAt: string;
+  startedAt: number;
+  endedAt: number;
+  destinationName: string | null;
+  thresholds: SensitivityThresholds; // What the voyage ran with
+  signals: TraceSignal[];
+  recorded: TraceDistraction[]; // What the voyage actually recorded
+}
+
+export interface ReplayOptions {
+  thresholds?: Partial<SensitivityThresholds>;
+  fusion?: Partial<Omit<FusionConfig, 'sources'>> & { sources?: Partial<FusionConfig['sources']> };
+}
+
+export interface ReplayReport {
+  thresholds: SensitivityThresholds;
+  fusion: FusionConfig;
+  distractions: TraceDistraction[];
+  recorded: TraceDistraction[];
+  summary: {
+    replayed: number;
+    recorded: number;
+    replayedDistractedMs: number;
+    recordedDistractedMs: number;
+  };
+}
+
+const distractedMs = (distractions: TraceDistraction[], endedAt: number) =>
+  distractions.reduce((sum, d) => sum + Math.max(0, (d.endedAt ?? endedAt) - d.startedAt), 0);
+
+/**
+ * Replay a trace and report the distraction events it would produce
+ */
+export const replayTrace = (trace: DetectionTrace, options: ReplayOptions = {}): ReplayReport => {
+  const thresholds: SensitivityThresholds = { ...trace.thresholds, ...options.thresholds };
+  const fusion: FusionConfig = {
+    ...FUSION_CONFIG,
+    ...options.fusion,
+    sources: { ...FUSION_CONFIG.sources, ...options.fusion?.sources },
+  };
+
+  const observations = new Map<ObservationSource, DetectorObservation>();
+  const distractions: TraceDistraction[] = [];
+  const timers: { at: number; run: (now: number) => void }[] = [];
+  const schedule = (at: number, run: (now: number) => void) => timers.push({ at, run });
+
+  let fused = INITIAL_FUSED_STATE;
+  let open: TraceDistraction | null = null;
+  let lastOpenedAt: number | null = null;
+  let tabHiddenAt: number | null = null;
+  let tabTriggered = false;
+  let cameraIssueSince: number | null = null;
+  let monitoring = true;
+  let monitoringRun = 0; // Detector timers from before a pause or exploring do not fire after it
+
+  const close = (now: number, resolution: DistractionResolution) => {
+    if (!open) return;
+    open.endedAt = now;
+    open.resolution = resolution;
+    open = null;
+  };
+
+  const scheduleDetector = (at: number, run: (now: number) => void) => {
+    const scheduledIn = monitoringRun;
+    schedule(at, now => {
+      if (monitoring && monitoringRun === scheduledIn) run(now);
+    });
+  };
+
+  // Same transitions as the hook's fusion effect and voyageStore.recordDistraction
+  const evaluate = (now: number) => {
+    const wasDistracted = fused.isDistracted;
+    fused = fuseObservations(Array.from(observations.values()), fused, now, fusion);
+
+    const transition = fusionTransition(wasDistracted, fused, now);
+    if (transition?.kind === 'open') {
+      const { event } = transition;
+      if (!open && isPastDistractionDebounce(lastOpenedAt, event.timestamp)) {
+        const opened: TraceDistraction = {
+          type: event.type,
+          source: event.source ?? null,
+          startedAt: event.timestamp,
+          endedAt: null,
+          resolution: null,
+        };
+        open = opened;
+        lastOpenedAt = event.timestamp;
+        distractions.push(opened);
+        schedule(distractionTimesOutAt(now), at => {
+          if (open === opened) close(at, 'timed_out');
+        });
+      }
+    } else if (transition?.kind === 'clear' && monitoring) {
+      close(now, 'return_to_course');
+    }
+
+    const recheckAt = fusionRecheckAt(fused, fusion);
+    if (recheckAt !== null) scheduleDetector(recheckAt, evaluate);
+  };
+
+  const observe = (observation: DetectorObservation, now: number) => {
+    observations.set(observation.source, observation);
+    evaluate(now);
+  };
+
+  const forget = (source: ObservationSource, now: number) => {
+    if (observations.delete(source)) evaluate(now);
+  };
+
+  // What the hook does when monitoring stops: every detector starts over
+  const resetDetectors = () => {
+    observations.clear();
+    fused = INITIAL_FUSED_STATE;
+    tabHiddenAt = null;
+    tabTriggered = false;
+    cameraIssueSince = null;
+  };
+
+  const apply = (signal: TraceSignal) => {
+    const now = signal.at;
+    if (!monitoring && signal.kind !== 'monitoring') return;
+
+    switch (signal.kind) {
+      case 'tab':
+        if (signal.hidden) {
+          const hiddenAt = now;
+          tabHiddenAt = hiddenAt;
+          tabTriggered = false;
+          scheduleDetector(tabGraceEndsAt(hiddenAt, thresholds), at => {
+            if (tabHiddenAt === hiddenAt && !tabTriggered) {
+              tabTriggered = true;
+              observe(tabObservation(hiddenAt, 'tab hidden'), at);
+            }
+          });
+        } else if (tabHiddenAt !== null) {
+          const outcome = tabReturnOutcome(tabHiddenAt, tabTriggered, now, thresholds);
+          if (outcome === 'trigger') {
+            tabTriggered = true;
+            observe(tabObservation(tabHiddenAt, `away ${Math.round((now - tabHiddenAt) / 1000)}s`), now);
+          } else if (outcome === 'clear') {
+            forget('tab_visibility', now);
+          }
+          tabHiddenAt = null;
+        }
+        break;
+
+      case 'idle': {
+        const { until } = signal;
+        // Same allowance as assessActivity: reading-like stretches get longer before they count
+        scheduleDetector(now + idleAfterMs(signal.reading ?? false, thresholds), at => {
+          if (until === null || until > at) {
+            observe(idleObservation({ lastInputAt: now, reason: `no input for ${Math.round((at - now) / 1000)}s` }), at);
+          }
+        });
+        if (until !== null) {
+          scheduleDetector(until, at => {
+            if (observations.get('idle')?.distracted) forget('idle', at);
+          });
+        }
+        break;
+      }
+
+      case 'url':
+        observe({
+          source: signal.source,
+          distracted: signal.distracted,
+          confidence: signal.confidence,
+          timestamp: now,
+          type: signal.type,
+          detail: signal.detail,
+        }, now);
+        break;
+
+      case 'vision':
+        if (signal.skipped) {
+          // The carried verdict is still current evidence
+          (['screenshot', 'camera'] as const).forEach(source => {
+            const previous = observations.get(source);
+            if (previous) observations.set(source, { ...previous, timestamp: now });
+          });
+          evaluate(now);
+        } else if (signal.verdict) {
+          if (!hasCameraIssue(signal.verdict)) {
+            cameraIssueSince = null;
+          } else if (cameraIssueSince === null) {
+            cameraIssueSince = now;
+          }
+          visionObservations(signal.verdict, now, cameraIssueSince, thresholds.cameraAbsenceThresholdMs)
+            .forEach(observation => observations.set(observation.source, observation));
+          evaluate(now);
+        }
+        break;
+
+      case 'response':
+        // Returning to course outranks every detector: fusion starts from a clean slate
+        if (signal.response === 'return_to_course') {
+          observations.clear();
+          fused = INITIAL_FUSED_STATE;
+          tabHiddenAt = null;
+          tabTriggered = false;
+        }
+        close(now, signal.response);
+        break;
+
+      case 'monitoring':
+        if (signal.active === monitoring) break;
+        monitoring = signal.active;
+        monitoringRun++;
+        resetDetectors();
+        // Pausing ends the open distraction; exploring leaves it to the user's answer or the timeout
+        if (!signal.active && signal.reason === 'paused') close(now, 'voyage_paused');
+        break;
+    }
+  };
+
+  // Walk signals and simulated timers in time order
+  const signals = [...trace.signals].sort((a, b) => a.at - b.at);
+  let index = 0;
+  while (index < signals.length || timers.length > 0) {
+    timers.sort((a, b) => a.at - b.at);
+    const timer = timers[0];
+    const signal = signals[index];
+
+    if (timer && (!signal || timer.at <= signal.at)) {
+      timers.shift();
+      if (timer.at <= trace.endedAt) timer.run(timer.at);
+    } else {
+      index++;
+      apply(signal);
+    }
+  }
+
+  close(trace.endedAt, 'voyage_ended');
+
+  return {
+    thresholds,
+    fusion,
+    distractions,
+    recorded: trace.recorded,
+    summary: {
+      replayed: distractions.length,
+      recorded: trace.recorded.length,
+      replayedDistractedMs: distractedMs(distractions, trace.endedAt),
+      recordedDistractedMs: distractedMs(trace.recorded, trace.endedAt),
+    },
+  };
+};
@@ -0,0 +1,108 @@
+/**
+ * Detection Timing
+ *
+ * The grace, debounce, idle and timeout rules between detector signals and
+ * recorded distraction events. useAdvancedDistraction and voyageStore run them
+ * on real timers; utils/detectionReplay runs them on a simulated clock, so a
+ * replayed trace follows the same rules as the voyage it came from.
+ *
+ * Pure functions over plain timestamps.
+ */
+
+import {
+  FUSION_CONFIG,
+  DISTRACTION_DEBOUNCE_MS,
+  DISTRACTION_RESPONSE_TIMEOUT_MS,
+  type FusionConfig
+} from '../config/fusion';
+import { toDistractionSource, type DetectorObservation, type FusedDistractionState } from './distractionFusion';
+import type { ActivityAssessment } from './activityModel';
+import type { DistractionDetectionEvent, SensitivityThresholds } from '../types';
+
+// What to do with a tab absence when the user comes back
+export type TabReturnOutcome = 'trigger' | 'keep' | 'clear';
+
+// How a new fused verdict changes the open distraction event
+export type FusionTransition =
+  | { kind: 'open'; event: DistractionDetectionEvent }
+  | { kind: 'clear' }
+  | null;
+
+/**
+ * When a hidden tab becomes a distraction if the user has not come back
+ */
+export const tabGraceEndsAt = (hiddenAt: number, thresholds: Pick<SensitivityThresholds, 'tabSwitchGraceMs'>) =>
+  hiddenAt + thresholds.tabSwitchGraceMs;
+
+/**
+ * Decide on a tab absence at the moment the user returns
+ * An absence that already triggered stays until the user responds.
+ */
+export const tabReturnOutcome = (
+  hiddenAt: number,
+  triggered: boolean,
+  returnedAt: number,
+  thresholds: Pick<SensitivityThresholds, 'tabSwitchGraceMs'>
+): TabReturnOutcome => {
+  if (triggered) return 'keep';
+  return returnedAt >= tabGraceEndsAt(hiddenAt, thresholds) ? 'trigger' : 'clear';
+};
+
+export const tabObservation = (hiddenAt: number, detail: string): DetectorObservation => ({
+  source: 'tab_visibility',
+  distracted: true,
+  confidence: 1,
+  timestamp: hiddenAt,
+  type: 'tab_switch',
+  detail,
+});
+
+export const idleObservation = (assessment: Pick<ActivityAssessment, 'lastInputAt' | 'reason'>): DetectorObservation => ({
+  source: 'idle',
+  distracted: true,
+  confidence: 1,
+  timestamp: assessment.lastInputAt,
+  type: 'idle',
+  detail: assessment.reason,
+});
+
+/**
+ * When fusion should look again at a state change waiting out its debounce
+ */
+export const fusionRecheckAt = (fused: FusedDistractionState, config: FusionConfig = FUSION_CONFIG): number | null => {
+  if (fused.pendingSince === null) return null;
+  return fused.pendingSince + (fused.isDistracted ? config.exitDebounceMs : config.enterDebounceMs);
+};
+
+/**
+ * Compare two fused verdicts: turning distracted opens an event, clearing on its own closes it
+ */
+export const fusionTransition = (
+  wasDistracted: boolean,
+  fused: FusedDistractionState,
+  now: number
+): FusionTransition => {
+  if (!wasDistracted && fused.isDistracted && fused.type) {
+    return {
+      kind: 'open',
+      event: {
+        type: fused.type,
+        source: fused.source ? toDistractionSource(fused.source) : undefined,
+        timestamp: fused.since ?? now,
+      },
+    };
+  }
+  if (wasDistracted && !fused.isDistracted) return { kind: 'clear' };
+  return null;
+};
+
+/**
+ * Whether a distraction starting at `startedAt` may open a new event
+ */
+export const isPastDistractionDebounce = (lastOpenedAt: number | null, startedAt: number) =>
+  lastOpenedAt === null || startedAt - lastOpenedAt >= DISTRACTION_DEBOUNCE_MS;
+
+/**
+ * When an open distraction nobody responded to is closed as timed out
+ */
+export const distractionTimesOutAt = (openedAt: number) => openedAt + DISTRACTION_RESPONSE_TIMEOUT_MS;
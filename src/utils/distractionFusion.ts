@@ -0,0 +1,257 @@
+/**
+ * Distraction Fusion
+ *
+ * Pure functions that combine detector observations into one distraction
+ * state. Each observation votes distracted (+1) or focused (-1), weighted by
+ * its source weight, its confidence and how recent it is. The weighted mean
+ * is the fused score; hysteresis and debounce keep the state from flapping.
+ *
+ * Nothing here touches React or the browser, so it can be exercised with
+ * plain timestamps.
+ */
+
+import { FUSION_CONFIG, type FusionConfig, type ObservationSource } from '../config/fusion';
+import type { DistractionDetectionEvent, DistractionSource } from '../types';
+
+export interface DetectorObservation {
+  source: ObservationSource;
+  distracted: boolean; // this detector's opinion
+  confidence: number; // 0-1
+  timestamp: number; // when the observed state began or the sample was taken
+  type?: DistractionDetectionEvent['type']; // suggested distraction type when distracted
+  detail?: string; // short human-readable reason
+}
+
+export interface FusionContribution {
+  source: ObservationSource;
+  distracted: boolean;
+  weight: number; // effective weight after confidence and recency
+  type?: DistractionDetectionEvent['type'];
+  detail?: string;
+  timestamp: number;
+}
+
+export interface FusedDistractionState {
+  isDistracted: boolean;
+  type: DistractionDetectionEvent['type'] | null;
+  source: ObservationSource | null; // strongest signal behind the current verdict
+  score: number; // -1 (focused) .. 1 (distracted)
+  since: number | null; // when the current distraction started
+  pendingSince: number | null; // a state change waiting out its debounce
+  contributions: FusionContribution[];
+  explanation: string;
+}
+
+export const INITIAL_FUSED_STATE: FusedDistractionState = {
+  isDistracted: false,
+  type: null,
+  source: null,
+  score: 0,
+  since: null,
+  pendingSince: null,
+  contributions: [],
+  explanation: 'No observations yet',
+};
+
+/**
+ * Distraction types a vision model may name, by normalized spelling
+ * Only these reach distraction_events; anything else is treated as off-task browsing.
+ */
+export const VISION_DISTRACTION_TYPES: Record<string, DistractionDetectionEvent['type']> = {
+  social_media: 'social_media',
+  social: 'social_media',
+  entertainment: 'entertainment',
+  video: 'entertainment',
+  gaming: 'entertainment',
+  shopping: 'shopping',
+  news_browsing: 'news_browsing',
+  news: 'news_browsing',
+  irrelevant_browsing: 'irrelevant_browsing',
+  browsing: 'irrelevant_browsing',
+  phone_usage: 'phone_usage',
+  phone: 'phone_usage',
+  looking_away: 'looking_away',
+  camera_absence: 'camera_absence',
+  absent: 'camera_absence',
+  eating_drinking: 'eating_drinking',
+  eating: 'eating_drinking',
+  drinking: 'eating_drinking',
+  conversation: 'conversation',
+  talking: 'conversation',
+  notification_popup: 'notification_popup',
+  notification: 'notification_popup',
+  task_switching: 'task_switching',
+  external_interruption: 'external_interruption',
+};
+
+/**
+ * Map a model-supplied distraction type to a known one, or null
+ */
+export const toVisionDistractionType = (value: unknown): DistractionDetectionEvent['type'] | null => {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return Object.prototype.hasOwnProperty.call(VISION_DISTRACTION_TYPES, key) ? VISION_DISTRACTION_TYPES[key] : null;
+};
+
+/**
+ * Map an observation source to the detector recorded on distraction events
+ */
+export const toDistractionSource = (source: ObservationSource): DistractionSource =>
+  source === 'screenshot' || source === 'camera' ? 'vision' : source;
+
+/**
+ * The parts of a vision analysis the detectors act on
+ */
+export interface VisionVerdict {
+  screenSent: boolean; // judge only what the model was actually shown
+  cameraSent: boolean;
+  contentRelevant: boolean;
+  confidenceLevel: number; // 0-100
+  distractionType?: string;
+  cameraAnalysis?: { personPresent: boolean; appearsFocused: boolean } | null;
+}
+
+/**
+ * Whether the camera shows someone away or unfocused
+ */
+export const hasCameraIssue = (verdict: VisionVerdict): boolean =>
+  Boolean(verdict.cameraSent && verdict.cameraAnalysis &&
+    (!verdict.cameraAnalysis.personPresent || !verdict.cameraAnalysis.appearsFocused));
+
+/**
+ * Observations from one usable vision analysis
+ * A camera issue only counts once it has lasted `cameraAllowanceMs` since
+ * `cameraIssueSince`; before that the camera offers no opinion.
+ */
+export const visionObservations = (
+  verdict: VisionVerdict,
+  timestamp: number,
+  cameraIssueSince: number | null,
+  cameraAllowanceMs: number
+): DetectorObservation[] => {
+  const observations: DetectorObservation[] = [];
+  const confidence = verdict.confidenceLevel / 100;
+
+  if (verdict.screenSent) {
+    observations.push({
+      source: 'screenshot',
+      distracted: !verdict.contentRelevant,
+      confidence,
+      timestamp,
+      type: toVisionDistractionType(verdict.distractionType) ?? 'irrelevant_browsing',
+      detail: verdict.contentRelevant ? 'screen content on task' : 'screen content off task',
+    });
+  }
+
+  const cameraIssueSeen = hasCameraIssue(verdict);
+  const cameraIssues = cameraIssueSeen && cameraIssueSince !== null &&
+    timestamp - cameraIssueSince >= cameraAllowanceMs;
+
+  if (verdict.cameraSent && verdict.cameraAnalysis && (!cameraIssueSeen || cameraIssues)) {
+    const personPresent = verdict.cameraAnalysis.personPresent;
+    observations.push({
+      source: 'camera',
+      distracted: cameraIssues,
+      // Being at the desk says less about the task than being away does
+      confidence: cameraIssues ? confidence : confidence / 2,
+      timestamp,
+      type: personPresent ? 'camera_distraction' : 'camera_absence',
+      detail: cameraIssues ? (personPresent ? 'not focused' : 'nobody at the desk') : 'focused',
+    });
+  }
+
+  return observations;
+};
+
+/**
+ * Effective weight of one observation at `now` (0 when too old)
+ */
+export const observationWeight = (
+  observation: DetectorObservation,
+  now: number,
+  config: FusionConfig = FUSION_CONFIG
+): number => {
+  const settings = config.sources[observation.source];
+  const age = Math.max(0, now - observation.timestamp);
+
+  if (settings.maxAgeMs !== null && age > settings.maxAgeMs) return 0;
+
+  const recency = settings.halfLifeMs ? Math.pow(0.5, age / settings.halfLifeMs) : 1;
+  const confidence = Math.min(1, Math.max(0, observation.confidence));
+  return settings.weight * confidence * recency;
+};
+
+const describe = (state: Pick<FusedDistractionState, 'isDistracted' | 'score'>, contributions: FusionContribution[]) => {
+  if (contributions.length === 0) return 'No current observations';
+
+  const signals = contributions
+    .map(c => `${c.source} ${c.distracted ? 'distracted' : 'focused'}${c.detail ? ` (${c.detail})` : ''} w=${c.weight.toFixed(2)}`)
+    .join('; ');
+  return `${state.isDistracted ? 'Distracted' : 'Focused'}, score ${state.score.toFixed(2)}: ${signals}`;
+};
+
+/**
+ * Fuse the latest observation from each detector into a distraction state
+ */
+export const fuseObservations = (
+  observations: DetectorObservation[],
+  previous: FusedDistractionState,
+  now: number,
+  config: FusionConfig = FUSION_CONFIG
+): FusedDistractionState => {
+  const contributions: FusionContribution[] = observations
+    .map(observation => ({
+      source: observation.source,
+      distracted: observation.distracted,
+      weight: observationWeight(observation, now, config),
+      type: observation.type,
+      detail: observation.detail,
+      timestamp: observation.timestamp,
+    }))
+    .filter(c => c.weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  const evidence = contributions.reduce((sum, c) => sum + c.weight, 0);
+  const score = evidence > 0
+    ? contributions.reduce((sum, c) => sum + (c.distracted ? c.weight : -c.weight), 0) / evidence
+    : 0;
+
+  // Hysteresis: entering needs a clear majority, staying only needs the score above exitScore
+  const wantsDistracted = previous.isDistracted
+    ? score > config.exitScore && evidence > 0
+    : score >= config.enterScore && evidence >= config.minEvidence;
+
+  let isDistracted = previous.isDistracted;
+  let pendingSince: number | null = null;
+
+  if (wantsDistracted !== previous.isDistracted) {
+    pendingSince = previous.pendingSince ?? now;
+    const delay = wantsDistracted ? config.enterDebounceMs : config.exitDebounceMs;
+    if (now - pendingSince >= delay) {
+      isDistracted = wantsDistracted;
+      pendingSince = null;
+    }
+  }
+
+  // The strongest signal agreeing with the verdict explains it
+  const dominant = contributions.find(c => c.distracted === isDistracted) || null;
+
+  let since: number | null = null;
+  if (isDistracted) {
+    since = previous.isDistracted && previous.since !== null
+      ? previous.since
+      : Math.min(now, dominant?.timestamp ?? now);
+  }
+
+  const state = {
+    isDistracted,
+    type: isDistracted ? dominant?.type || 'irrelevant_browsing' : null,
+    source: dominant?.source || null,
+    score,
+    since,
+    pendingSince,
+    contributions,
+  };
+
+  return { ...state, explanation: describe(state, contributions) };
+};
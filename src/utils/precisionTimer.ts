@@ -200,21 +200,24 @@ export function createPrecisionStopwatch(): {
 
 /**
  * Calculate focus quality score based on distraction data
- * Returns a score from 0-100 based on time spent focused vs distracted
+ * Returns a score from 0-100 based on time spent focused vs distracted.
+ * Paused time is removed from the total so breaks neither help nor hurt the score.
  */
 export function calculateFocusQuality(
   totalDuration: number,
-  distractionEvents: Array<{ duration?: number }>
+  distractionEvents: Array<{ duration?: number }>,
+  pausedDuration: number = 0
 ): number {
-  if (totalDuration <= 0) return 0;
+  const sailingDuration = totalDuration - Math.max(0, pausedDuration);
+  if (sailingDuration <= 0) return 0;
   
   const totalDistractionTime = distractionEvents.reduce(
     (sum, event) => sum + (event.duration || 0),
     0
   );
   
-  const focusTime = Math.max(0, totalDuration - totalDistractionTime);
-  const focusRatio = focusTime / totalDuration;
+  const focusTime = Math.max(0, sailingDuration - totalDistractionTime);
+  const focusRatio = focusTime / sailingDuration;
   
   return Math.round(focusRatio * 100);
 }
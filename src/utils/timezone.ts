@@ -0,0 +1,51 @@
+/**
+ * Time Zone Day Boundaries
+ *
+ * Shared with the edge functions, so the app and the nightly reflection job
+ * agree on where a user's day starts and ends. Calendar helpers below work on
+ * YYYY-MM-DD dates.
+ */
+
+import { isValidTimeZone } from '../../supabase/functions/_shared/timezone';
+
+export {
+  getLocalDate,
+  getPreviousDate,
+  getZonedDayRange,
+  isValidTimeZone
+} from '../../supabase/functions/_shared/timezone';
+
+/**
+ * This browser's IANA time zone, falling back to UTC
+ */
+export const getBrowserTimeZone = (): string => {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return isValidTimeZone(timeZone) ? timeZone : 'UTC';
+};
+
+/**
+ * The date `days` after a YYYY-MM-DD date (negative for earlier dates)
+ */
+export const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+/**
+ * Monday of the week containing a YYYY-MM-DD date
+ */
+export const getWeekStart = (date: string): string => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay(); // 0 = Sunday
+  return addDays(date, -((weekday + 6) % 7));
+};
+
+/**
+ * First and last day of the full weeks (Monday-Sunday) that cover a YYYY-MM month
+ */
+export const getMonthWeeksRange = (month: string): { from: string; to: string } => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).toISOString().split('T')[0];
+
+  return {
+    from: getWeekStart(`${month}-01`),
+    to: addDays(getWeekStart(lastDay), 6),
+  };
+};
@@ -0,0 +1,120 @@
+/**
+ * LLM Provider for Edge Functions
+ *
+ * Generation runs server-side so the provider key never reaches the browser.
+ * Set these as function secrets (`supabase secrets set ...`):
+ *
+ * - LLM_PROVIDER: 'gemini' (default) or 'openai' for any OpenAI-compatible API
+ * - LLM_API_KEY: API key for the provider
+ * - LLM_MODEL: Model name (defaults to gemini-2.0-flash / gpt-4o-mini)
+ * - LLM_BASE_URL: Base URL for 'openai' providers (defaults to https://api.openai.com/v1)
+ */
+
+export type LlmProviderName = 'gemini' | 'openai';
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  apiKey?: string;
+  model: string;
+  baseUrl: string;
+  temperature: number;
+  maxOutputTokens: number;
+  timeoutMs: number;
+}
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  gemini: 'gemini-2.0-flash',
+  openai: 'gpt-4o-mini',
+};
+
+export const getLlmConfig = (): LlmConfig => {
+  const provider: LlmProviderName = Deno.env.get('LLM_PROVIDER') === 'openai' ? 'openai' : 'gemini';
+
+  return {
+    provider,
+    apiKey: Deno.env.get('LLM_API_KEY'),
+    model: Deno.env.get('LLM_MODEL') || DEFAULT_MODELS[provider],
+    baseUrl: (Deno.env.get('LLM_BASE_URL') || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    temperature: 0.8,
+    maxOutputTokens: 800,
+    timeoutMs: 15000,
+  };
+};
+
+/**
+ * Send a prompt and parse the reply as JSON
+ * Throws when the provider is not configured, fails, or replies with something other than JSON.
+ */
+export async function generateJson(prompt: string, config: LlmConfig = getLlmConfig()): Promise<unknown> {
+  if (!config.apiKey) {
+    throw new Error('LLM_API_KEY is not set');
+  }
+
+  const text = config.provider === 'openai'
+    ? await callOpenAiCompatible(prompt, config)
+    : await callGemini(prompt, config);
+
+  // Models sometimes wrap JSON in a markdown code fence despite being asked not to
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error('LLM reply was not valid JSON');
+  }
+}
+
+async function callGemini(prompt: string, config: LlmConfig): Promise<string> {
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${config.model}:generateContent?key=${config.apiKey}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: AbortSignal.timeout(config.timeoutMs),
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: config.temperature,
+          maxOutputTokens: config.maxOutputTokens,
+          responseMimeType: 'application/json',
+        },
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Gemini request failed with ${response.status}`);
+  }
+
+  const data = await response.json();
+  const text = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (typeof text !== 'string') throw new Error('Gemini reply had no text');
+  return text;
+}
+
+async function callOpenAiCompatible(prompt: string, config: LlmConfig): Promise<string> {
+  const response = await fetch(`${config.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${config.apiKey}`,
+    },
+    signal: AbortSignal.timeout(config.timeoutMs),
+    body: JSON.stringify({
+      model: config.model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: config.temperature,
+      max_tokens: config.maxOutputTokens,
+      response_format: { type: 'json_object' },
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`LLM request failed with ${response.status}`);
+  }
+
+  const data = await response.json();
+  const text = data?.choices?.[0]?.message?.content;
+  if (typeof text !== 'string') throw new Error('LLM reply had no text');
+  return text;
+}
@@ -0,0 +1,96 @@
+/**
+ * Prompts sent by edge functions
+ *
+ * Generation runs server-side, but the prompts are plain strings shared with
+ * the app (re-exported from src/config/prompts.ts). They stay under
+ * functions/_shared so every function bundle includes them; keep this module
+ * free of runtime-specific APIs.
+ */
+
+/**
+ * CUSTOMIZABLE: Main prompt for generating destinations from user tasks
+ *
+ * This prompt transforms user tasks into creative, inspiring destination names.
+ * You can modify this to change the style, language, or creativity level.
+ * The reply must keep the JSON keys below - generate-destination validates them.
+ */
+export const DESTINATION_GENERATION_PROMPT = `
+Transform this user task into a magical sailing destination:
+
+Task: "{task}"
+The user's lighthouse goal (the larger purpose this task serves): "{lighthouseGoal}"
+
+Return a JSON object with:
+- destinationName: A creative, inspiring destination name (preferably in Chinese, but English is fine)
+- description: A poetic 2-sentence description of this place
+- relatedApps: Array of 3-5 relevant applications/websites that would be used for this task
+- colorTheme: A hex color that represents this destination (e.g. "#3B82F6")
+
+Examples:
+- Task: "Write research paper" → "学术大陆" (Academic Continent)
+- Task: "Learn piano" → "艺术琴泉" (Artistic Piano Springs)  
+- Task: "Build app" → "代码峡湾" (Code Fjords)
+
+Make it magical and inspiring while being practical. Focus on creating a sense of adventure and purpose.
+Where it fits, let the description hint at how this destination brings the user closer to their lighthouse.
+Reply with the JSON object only.
+`.trim();
+
+/**
+ * CUSTOMIZABLE: Prompt for the seagull's daily reflection
+ *
+ * {dayData} is a JSON summary of the day's voyages, distractions, exploration
+ * notes and voice analysis. The reply keys are validated by generate-reflection.
+ */
+export const DAILY_REFLECTION_PROMPT = `
+You are the seagull companion perched on the mast of the user's boat in MindBoat, a focus app where work sessions are voyages to destinations.
+Write the user's reflection on their day in your voice: warm, a little playful, nautical, never preachy. Speak to the user as "you".
+
+The user's lighthouse goal (their larger purpose): "{lighthouseGoal}"
+Date: {date}
+
+What happened today:
+{dayData}
+
+Return a JSON object with:
+- reflection: 3-5 sentences of prose about the day, grounded in the details above
+- highlights: Array of 1-3 short, specific things that went well
+- patternObserved: One sentence naming a pattern you noticed (e.g. when or how distractions happened), or null if there is none
+- tomorrowSuggestion: One concrete, kind suggestion for tomorrow
+
+Only mention things present in the data. Reply with the JSON object only.
+`.trim();
+
+/**
+ * CUSTOMIZABLE: Prompt for the seagull's weekly summary
+ *
+ * {weekData} is a JSON list of the week's daily reflections.
+ */
+export const WEEKLY_SUMMARY_PROMPT = `
+You are the seagull companion perched on the mast of the user's boat in MindBoat, a focus app where work sessions are voyages to destinations.
+Review the user's week from the ship's logbook in your voice: warm, a little playful, nautical, never preachy. Speak to the user as "you".
+
+The user's lighthouse goal (their larger purpose): "{lighthouseGoal}"
+Week: {weekStart} to {weekEnd}
+
+Daily logbook entries:
+{weekData}
+
+Return a JSON object with:
+- reflection: 4-6 sentences summarizing the week, grounded in the entries above
+- highlights: Array of 1-3 short, specific things that went well this week
+- patternObserved: One sentence naming a pattern across the days, or null if there is none
+- tomorrowSuggestion: One concrete, kind suggestion for the week ahead
+
+Only mention things present in the data. Reply with the JSON object only.
+`.trim();
+
+/**
+ * Fill a prompt's `{placeholder}`s in one pass
+ * Values are inserted literally: `$` sequences are not expanded and a value
+ * containing another placeholder is not filled again.
+ */
+export const fillPrompt = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key] : placeholder
+  );
@@ -0,0 +1,272 @@
+/**
+ * Daily Reflections
+ *
+ * Builds the seagull's reflection on one day of a user's voyages: loads the
+ * day's voyages, distractions, exploration notes and voice analysis, asks the
+ * LLM, and falls back to templates when that fails. Used by generate-reflection
+ * (on request, rate limited) and generate-daily-reflections (nightly job).
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { generateJson } from './llm.ts';
+import { DAILY_REFLECTION_PROMPT, fillPrompt } from './prompts.ts';
+
+// Keep the prompt small - the seagull doesn't need every word
+const MAX_NOTES_PER_VOYAGE = 10;
+const MAX_NOTE_LENGTH = 200;
+const MAX_VOICE_ANALYSIS_LENGTH = 600;
+
+export interface ReflectionResponse {
+  reflection: string;
+  highlights: string[];
+  pattern_observed: string | null;
+  tomorrow_suggestion: string | null;
+  source: 'llm' | 'fallback'; // Which path produced the reflection
+  fallback_reason?: string;
+}
+
+export type ReflectionInsights = Omit<ReflectionResponse, 'source' | 'fallback_reason'>;
+
+export interface VoyageRow {
+  start_time: string;
+  status: string;
+  planned_duration: number | null;
+  actual_duration: number | null;
+  distraction_count: number | null;
+  exploring_ms: number | null;
+  destination: { destination_name: string } | null;
+  distraction_events: { type: string; duration_seconds: number | null }[];
+  exploration_notes: { content: string; type: string; tags: string[] | null }[];
+  voice_analysis: { analysis_type: string; analysis_data: unknown }[];
+}
+
+const VOYAGE_SELECT = `
+  start_time, status, planned_duration, actual_duration, distraction_count, exploring_ms,
+  destination:destinations(destination_name),
+  distraction_events(type, duration_seconds),
+  exploration_notes(content, type, tags),
+  voice_analysis(analysis_type, analysis_data)
+`;
+
+export const NO_VOYAGES_REFLECTION: ReflectionInsights = {
+  reflection: "Sometimes the sea is calm and we rest at harbor. Tomorrow brings new opportunities to set sail toward your dreams.",
+  highlights: [],
+  pattern_observed: null,
+  tomorrow_suggestion: 'Pick one destination tonight so tomorrow starts with a heading.',
+};
+
+export const withSource = (insights: ReflectionInsights, reason: string): ReflectionResponse => ({
+  ...insights,
+  source: 'fallback',
+  fallback_reason: reason,
+});
+
+export async function getLighthouseGoal(supabase: SupabaseClient, userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('lighthouse_goal')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Failed to load lighthouse goal:', error);
+    return null;
+  }
+
+  return data?.lighthouse_goal ?? null;
+}
+
+/**
+ * Voyages started between `dayStart` and `dayEnd`, with everything the prompt needs
+ */
+export async function loadDayVoyages(
+  supabase: SupabaseClient,
+  userId: string,
+  dayStart: string,
+  dayEnd: string
+): Promise<VoyageRow[]> {
+  const { data, error } = await supabase
+    .from('voyages')
+    .select(VOYAGE_SELECT)
+    .eq('user_id', userId)
+    .gte('start_time', dayStart)
+    .lte('start_time', dayEnd)
+    .order('start_time', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export const getTotalFocusTime = (voyages: VoyageRow[]) =>
+  voyages.reduce((sum, v) => sum + (v.actual_duration || 0), 0);
+
+export const buildDailyPrompt = (lighthouseGoal: string | null, date: string, voyages: VoyageRow[]) =>
+  fillPrompt(DAILY_REFLECTION_PROMPT, {
+    lighthouseGoal: lighthouseGoal || 'not set',
+    date,
+    dayData: JSON.stringify(summarizeDay(voyages), null, 2),
+  });
+
+/**
+ * Ask the LLM for a reflection, falling back to templates on failure
+ */
+export async function generateReflection(
+  prompt: string,
+  fallback: () => ReflectionInsights
+): Promise<ReflectionResponse> {
+  try {
+    return { ...parseReflection(await generateJson(prompt)), source: 'llm' };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn('LLM reflection failed, using fallback:', reason);
+    return withSource(fallback(), reason);
+  }
+}
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length)}...` : text;
+
+/**
+ * Count and minutes of each distraction type
+ */
+function getDistractionBreakdown(voyages: VoyageRow[]): Record<string, { count: number; minutes: number }> {
+  const breakdown: Record<string, { count: number; minutes: number }> = {};
+
+  for (const event of voyages.flatMap(v => v.distraction_events || [])) {
+    const entry = breakdown[event.type] ||= { count: 0, minutes: 0 };
+    entry.count += 1;
+    entry.minutes += Math.round((event.duration_seconds || 0) / 60);
+  }
+
+  return breakdown;
+}
+
+/**
+ * The day's data as the prompt sees it
+ */
+function summarizeDay(voyages: VoyageRow[]) {
+  return {
+    total_focus_minutes: voyages.reduce((sum, v) => sum + (v.actual_duration || 0), 0),
+    distraction_breakdown: getDistractionBreakdown(voyages),
+    voyages: voyages.map(v => ({
+      destination: v.destination?.destination_name ?? 'Unknown',
+      started_at: v.start_time,
+      status: v.status,
+      planned_minutes: v.planned_duration,
+      focused_minutes: v.actual_duration ?? 0,
+      exploring_minutes: Math.round((v.exploring_ms || 0) / 60000),
+      distractions: v.distraction_events?.length ?? v.distraction_count ?? 0,
+      exploration_notes: (v.exploration_notes || [])
+        .slice(0, MAX_NOTES_PER_VOYAGE)
+        .map(note => truncate(note.content, MAX_NOTE_LENGTH)),
+      voice_analysis: (v.voice_analysis || []).map(analysis => ({
+        type: analysis.analysis_type,
+        data: truncate(JSON.stringify(analysis.analysis_data), MAX_VOICE_ANALYSIS_LENGTH),
+      })),
+    })),
+  };
+}
+
+/**
+ * Check the LLM reply shape
+ * Throws with the reason when it is wrong.
+ */
+function parseReflection(value: unknown): ReflectionInsights {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('LLM reply was not a JSON object');
+  }
+
+  const { reflection, highlights, patternObserved, tomorrowSuggestion } = value as Record<string, unknown>;
+
+  if (typeof reflection !== 'string' || !reflection.trim()) {
+    throw new Error('reflection is missing');
+  }
+  if (!Array.isArray(highlights) || !highlights.every(item => typeof item === 'string')) {
+    throw new Error('highlights must be an array of strings');
+  }
+  if (patternObserved != null && typeof patternObserved !== 'string') {
+    throw new Error('patternObserved must be a string or null');
+  }
+  if (typeof tomorrowSuggestion !== 'string') {
+    throw new Error('tomorrowSuggestion is missing');
+  }
+
+  return {
+    reflection: reflection.trim(),
+    highlights: highlights.map(item => item.trim()).filter(Boolean).slice(0, 3),
+    pattern_observed: typeof patternObserved === 'string' ? patternObserved.trim() || null : null,
+    tomorrow_suggestion: tomorrowSuggestion.trim() || null,
+  };
+}
+
+export function generateDailyReflectionFallback(voyages: VoyageRow[], totalFocusTime: number, voyageCount: number): ReflectionInsights {
+  // Analyze voyage data for insights
+  const destinations = voyages.map(v => v.destination?.destination_name).filter(Boolean);
+  const uniqueDestinations = [...new Set(destinations)];
+  const totalDistractions = voyages.reduce((sum, v) => sum + (v.distraction_count || 0), 0);
+  
+  // Calculate focus quality
+  const averageDistractions = totalDistractions / voyageCount;
+  const focusQuality = averageDistractions <= 1 ? 'excellent' : averageDistractions <= 3 ? 'good' : 'improving';
+  
+  // Seagull personality responses
+  const personalityElements = [
+    "🐦 *fluffs feathers thoughtfully*",
+    "🌊 The seagull observed your journey today...",
+    "⚓ From my perch on the mast, I witnessed...",
+    "🧭 Your feathered companion noticed..."
+  ];
+  
+  const encouragements = [
+    "Your determination reminds me of the steady lighthouse beam.",
+    "Like the tides, your focus grows stronger each day.",
+    "The winds of intention carried you well today.",
+    "Your voyage brings you closer to the lighthouse on the horizon."
+  ];
+  
+  const observations = [];
+  
+  if (totalFocusTime >= 120) {
+    observations.push("What impressive dedication! Over 2 hours of focused sailing shows the heart of a true navigator.");
+  } else if (totalFocusTime >= 60) {
+    observations.push("A solid hour of concentration - your focus flows like favorable winds.");
+  } else if (totalFocusTime >= 30) {
+    observations.push("Steady progress on the seas of attention. Every minute counts toward your destination.");
+  }
+  
+  if (uniqueDestinations.length > 1) {
+    observations.push(`You explored ${uniqueDestinations.length} different destinations today - quite the adventurous spirit!`);
+  }
+  
+  if (focusQuality === 'excellent') {
+    observations.push("Your focus was remarkably steady, like a ship guided by the stars.");
+  } else if (totalDistractions > 0) {
+    observations.push("Even with a few course corrections, you maintained your heading toward your goals.");
+  }
+  
+  // Construct reflection
+  const opening = personalityElements[Math.floor(Math.random() * personalityElements.length)];
+  const mainObservation = observations.length > 0 ? observations.join(' ') : 
+    `Today brought ${voyageCount} voyage${voyageCount === 1 ? '' : 's'} totaling ${totalFocusTime} minutes of focused navigation.`;
+  const closing = encouragements[Math.floor(Math.random() * encouragements.length)];
+  
+  // Structured fields from the numbers alone
+  const highlights = [`${totalFocusTime} minutes of focused sailing across ${voyageCount} voyage${voyageCount === 1 ? '' : 's'}`];
+  const noteCount = voyages.reduce((sum, v) => sum + (v.exploration_notes?.length || 0), 0);
+  if (noteCount > 0) {
+    highlights.push(`${noteCount} idea${noteCount === 1 ? '' : 's'} caught while exploring`);
+  }
+
+  const [topDistraction] = Object.entries(getDistractionBreakdown(voyages))
+    .sort(([, a], [, b]) => b.count - a.count);
+
+  return {
+    reflection: `${opening} ${mainObservation} ${closing}`,
+    highlights,
+    pattern_observed: topDistraction
+      ? `Most course changes today were ${topDistraction[0].replace(/_/g, ' ')} (${topDistraction[1].count}).`
+      : null,
+    tomorrow_suggestion: topDistraction
+      ? `Before setting sail tomorrow, close whatever invites ${topDistraction[0].replace(/_/g, ' ')}.`
+      : 'Set sail at the same hour tomorrow and keep the streak going.',
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Time Zone Day Boundaries
+ *
+ * Calendar days in a user's own IANA time zone (e.g. `Europe/Berlin`), using
+ * only `Intl`, so the same helpers run in edge functions and in the app
+ * (re-exported from src/utils/timezone.ts). Keep this module free of
+ * runtime-specific APIs.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isValidTimeZone = (timeZone: string | null | undefined): timeZone is string => {
+  if (!timeZone) return false;
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * How far the zone's wall clock is ahead of UTC at an instant, in ms
+ */
+const getTimeZoneOffsetMs = (timeZone: string, at: Date): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+
+  const wallClockAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClockAsUtc - Math.floor(at.getTime() / 1000) * 1000;
+};
+
+/**
+ * The calendar date (YYYY-MM-DD) at an instant in a time zone
+ */
+export const getLocalDate = (timeZone: string, at: Date = new Date()): string =>
+  // en-CA formats dates as YYYY-MM-DD
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(at);
+
+/**
+ * The date before a YYYY-MM-DD date
+ */
+export const getPreviousDate = (date: string): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) - DAY_MS).toISOString().split('T')[0];
+
+/**
+ * First and last instant of a calendar date in a time zone
+ * Handles days that are 23 or 25 hours long around daylight saving changes.
+ */
+export const getZonedDayRange = (date: string, timeZone: string): { start: Date; end: Date } => {
+  const startOfDay = (day: string) => {
+    const utcMidnight = Date.parse(`${day}T00:00:00Z`);
+    const guess = utcMidnight - getTimeZoneOffsetMs(timeZone, new Date(utcMidnight));
+    // The offset can differ at the guessed instant when a DST change falls in between
+    return new Date(utcMidnight - getTimeZoneOffsetMs(timeZone, new Date(guess)));
+  };
+
+  const nextDay = new Date(Date.parse(`${date}T00:00:00Z`) + DAY_MS).toISOString().split('T')[0];
+
+  return {
+    start: startOfDay(date),
+    end: new Date(startOfDay(nextDay).getTime() - 1),
+  };
+};
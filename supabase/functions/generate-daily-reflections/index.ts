@@ -0,0 +1,141 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  buildDailyPrompt,
+  generateDailyReflectionFallback,
+  generateReflection,
+  getLighthouseGoal,
+  getTotalFocusTime,
+  loadDayVoyages,
+} from '../_shared/reflection.ts';
+import { getLocalDate, getPreviousDate, getZonedDayRange, isValidTimeZone } from '../_shared/timezone.ts';
+
+/**
+ * Scheduled job (pg_cron, hourly) that writes yesterday's reflection for every
+ * active user once their local midnight has passed, so it is waiting the next
+ * time they open MindBoat. Only callable with the service role key.
+ */
+
+// Users with a voyage this recently may have sailed "yesterday" in their time zone
+const ACTIVE_WINDOW_HOURS = 50;
+
+// Users reflected on at once, to keep LLM calls within the function's time limit
+const CONCURRENCY = 5;
+
+type UserOutcome = 'generated' | 'fallback' | 'exists' | 'no_voyages' | 'failed';
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { 'Content-Type': 'application/json' } }
+);
+
+serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const admin = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const userIds = await getActiveUserIds(admin);
+    const timeZones = await getTimeZones(admin, userIds);
+
+    const counts: Record<UserOutcome, number> = { generated: 0, fallback: 0, exists: 0, no_voyages: 0, failed: 0 };
+
+    for (let i = 0; i < userIds.length; i += CONCURRENCY) {
+      const outcomes = await Promise.all(
+        userIds.slice(i, i + CONCURRENCY).map(userId =>
+          reflectOnYesterday(admin, userId, timeZones.get(userId) ?? 'UTC')
+        )
+      );
+      outcomes.forEach(outcome => counts[outcome]++);
+    }
+
+    return jsonResponse({ users: userIds.length, ...counts });
+  } catch (error) {
+    console.error('Error generating daily reflections:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
+
+async function getActiveUserIds(admin: SupabaseClient): Promise<string[]> {
+  const since = new Date(Date.now() - ACTIVE_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await admin
+    .from('voyages')
+    .select('user_id')
+    .gte('start_time', since);
+
+  if (error) throw error;
+  return [...new Set((data || []).map((row: { user_id: string }) => row.user_id))];
+}
+
+async function getTimeZones(admin: SupabaseClient, userIds: string[]): Promise<Map<string, string>> {
+  if (userIds.length === 0) return new Map();
+
+  const { data, error } = await admin
+    .from('user_profiles')
+    .select('id, timezone')
+    .in('id', userIds);
+
+  if (error) throw error;
+
+  return new Map(
+    (data || [])
+      .filter((row: { timezone: string | null }) => isValidTimeZone(row.timezone))
+      .map((row: { id: string; timezone: string }) => [row.id, row.timezone])
+  );
+}
+
+/**
+ * Write the reflection for the user's previous local day, unless it already exists
+ */
+async function reflectOnYesterday(admin: SupabaseClient, userId: string, timeZone: string): Promise<UserOutcome> {
+  const date = getPreviousDate(getLocalDate(timeZone));
+
+  try {
+    const { data: existing, error: existingError } = await admin
+      .from('daily_reflections')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('date', date)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    if (existing) return 'exists';
+
+    const { start, end } = getZonedDayRange(date, timeZone);
+    const voyages = await loadDayVoyages(admin, userId, start.toISOString(), end.toISOString());
+    if (voyages.length === 0) return 'no_voyages';
+
+    const totalFocusTime = getTotalFocusTime(voyages);
+    const lighthouseGoal = await getLighthouseGoal(admin, userId);
+
+    const result = await generateReflection(
+      buildDailyPrompt(lighthouseGoal, date, voyages),
+      () => generateDailyReflectionFallback(voyages, totalFocusTime, voyages.length)
+    );
+
+    const { error } = await admin
+      .from('daily_reflections')
+      .upsert({
+        user_id: userId,
+        date,
+        reflection_text: result.reflection,
+        highlights: result.highlights,
+        pattern_observed: result.pattern_observed,
+        tomorrow_suggestion: result.tomorrow_suggestion,
+        generation_source: result.source,
+        total_focus_time: totalFocusTime,
+        voyage_count: voyages.length,
+        generated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id,date' });
+
+    if (error) throw error;
+    return result.source === 'llm' ? 'generated' : 'fallback';
+  } catch (error) {
+    console.error(`Failed to generate reflection for ${userId} on ${date}:`, error);
+    return 'failed';
+  }
+}
@@ -1,10 +1,20 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { generateJson } from '../_shared/llm.ts';
+import { DESTINATION_GENERATION_PROMPT, fillPrompt } from '../_shared/prompts.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Same rule as validateColorTheme in src/utils/validators.ts
+const HEX_COLOR_PATTERN = /^#([0-9A-F]{3}){1,2}$/i;
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_RELATED_APPS = 8;
+
 interface DestinationRequest {
   task: string;
   userId: string;
@@ -17,6 +27,11 @@ interface DestinationResponse {
   color_theme: string;
 }
 
+interface GenerationResult extends DestinationResponse {
+  source: 'llm' | 'fallback'; // Which path produced the destination
+  fallback_reason?: string;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -35,12 +50,23 @@ serve(async (req) => {
       );
     }
 
-    // For now, we'll use a simple transformation algorithm
-    // In production, this would call OpenAI or another LLM service
-    const destination = generateDestinationFallback(task);
+    let result: GenerationResult;
+    try {
+      const lighthouseGoal = await getLighthouseGoal(req, userId);
+      const prompt = fillPrompt(DESTINATION_GENERATION_PROMPT, {
+        task,
+        lighthouseGoal: lighthouseGoal || 'not set',
+      });
+
+      result = { ...parseDestination(await generateJson(prompt)), source: 'llm' };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn('LLM destination generation failed, using fallback:', reason);
+      result = { ...generateDestinationFallback(task), source: 'fallback', fallback_reason: reason };
+    }
 
     return new Response(
-      JSON.stringify(destination),
+      JSON.stringify(result),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       }
@@ -59,6 +85,62 @@ serve(async (req) => {
   }
 });
 
+/**
+ * The caller's lighthouse goal, read with their own credentials so RLS applies
+ */
+async function getLighthouseGoal(req: Request, userId: string): Promise<string | null> {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+  );
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('lighthouse_goal')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Failed to load lighthouse goal:', error);
+    return null;
+  }
+
+  return data?.lighthouse_goal ?? null;
+}
+
+/**
+ * Check the LLM reply against the Destination fields it fills in
+ * Throws with the reason when the shape is wrong.
+ */
+function parseDestination(value: unknown): DestinationResponse {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('LLM reply was not a JSON object');
+  }
+
+  const { destinationName, description, relatedApps, colorTheme } = value as Record<string, unknown>;
+
+  if (typeof destinationName !== 'string' || !destinationName.trim()) {
+    throw new Error('destinationName is missing');
+  }
+  if (typeof description !== 'string' || !description.trim()) {
+    throw new Error('description is missing');
+  }
+  if (!Array.isArray(relatedApps) || relatedApps.length === 0 || !relatedApps.every(app => typeof app === 'string' && app.trim())) {
+    throw new Error('relatedApps must be a non-empty array of strings');
+  }
+  if (typeof colorTheme !== 'string' || !HEX_COLOR_PATTERN.test(colorTheme.trim())) {
+    throw new Error('colorTheme must be a valid hex color');
+  }
+
+  return {
+    destination_name: destinationName.trim().slice(0, MAX_NAME_LENGTH),
+    description: description.trim().slice(0, MAX_DESCRIPTION_LENGTH),
+    related_apps: relatedApps.map(app => app.trim()).slice(0, MAX_RELATED_APPS),
+    color_theme: colorTheme.trim(),
+  };
+}
+
 function generateDestinationFallback(task: string): DestinationResponse {
   const taskLower = task.toLowerCase();
   
@@ -1,25 +1,49 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { WEEKLY_SUMMARY_PROMPT, fillPrompt } from '../_shared/prompts.ts';
+import {
+  NO_VOYAGES_REFLECTION,
+  buildDailyPrompt,
+  generateDailyReflectionFallback,
+  generateReflection,
+  getLighthouseGoal,
+  getTotalFocusTime,
+  loadDayVoyages,
+  withSource,
+  type ReflectionInsights,
+} from '../_shared/reflection.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// CUSTOMIZABLE: LLM reflections per user per (UTC) day, daily and weekly combined
+const DAILY_GENERATION_LIMIT = Number(Deno.env.get('REFLECTION_DAILY_LIMIT') || 5);
+
 interface ReflectionRequest {
-  voyages?: any[];
-  totalFocusTime?: number;
-  voyageCount?: number;
-  date?: string;
-  reflections?: any[];
   type?: 'daily' | 'weekly_summary';
-  weekStart?: string;
+  dayStart?: string; // Daily: the user's local day
+  dayEnd?: string;
+  date?: string;
+  weekStart?: string; // Weekly: first and last date (YYYY-MM-DD)
   weekEnd?: string;
 }
 
-interface ReflectionResponse {
-  reflection: string;
+interface DailyReflectionRow {
+  date: string;
+  reflection_text: string | null;
+  total_focus_time: number | null;
+  voyage_count: number | null;
+  highlights: string[] | null;
+  pattern_observed: string | null;
 }
 
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+);
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -28,31 +52,67 @@ serve(async (req) => {
   try {
     const body: ReflectionRequest = await req.json();
 
+    // Read the user's data with their own credentials so RLS applies
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401);
+    }
+
+    const lighthouseGoal = await getLighthouseGoal(supabase, user.id);
+
     if (body.type === 'weekly_summary') {
-      const reflection = generateWeeklySummaryFallback(body.reflections || []);
-      return new Response(
-        JSON.stringify({ reflection }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      if (!body.weekStart || !body.weekEnd) {
+        return jsonResponse({ error: 'Missing required fields' }, 400);
+      }
+
+      const { data, error } = await supabase
+        .from('daily_reflections')
+        .select('date, reflection_text, total_focus_time, voyage_count, highlights, pattern_observed')
+        .gte('date', body.weekStart.split('T')[0])
+        .lte('date', body.weekEnd.split('T')[0])
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+      const reflections: DailyReflectionRow[] = data || [];
+
+      if (reflections.length === 0) {
+        return jsonResponse(withSource(generateWeeklySummaryFallback(reflections), 'No reflections this week'));
+      }
+
+      const prompt = fillPrompt(WEEKLY_SUMMARY_PROMPT, {
+        lighthouseGoal: lighthouseGoal || 'not set',
+        weekStart: body.weekStart.split('T')[0],
+        weekEnd: body.weekEnd.split('T')[0],
+        weekData: JSON.stringify(reflections, null, 2),
+      });
+
+      return await generateWithLimit(user.id, prompt, () => generateWeeklySummaryFallback(reflections));
     }
 
     // Daily reflection generation
-    const { voyages = [], totalFocusTime = 0, voyageCount = 0 } = body;
-
-    if (!voyages || voyageCount === 0) {
-      const reflection = "Sometimes the sea is calm and we rest at harbor. Tomorrow brings new opportunities to set sail toward your dreams.";
-      return new Response(
-        JSON.stringify({ reflection }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    if (!body.dayStart || !body.dayEnd) {
+      return jsonResponse({ error: 'Missing required fields' }, 400);
     }
 
-    // For now, use fallback generation (in production, this would call OpenAI)
-    const reflection = generateDailyReflectionFallback(voyages, totalFocusTime, voyageCount);
+    const voyages = await loadDayVoyages(supabase, user.id, body.dayStart, body.dayEnd);
 
-    return new Response(
-      JSON.stringify({ reflection }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    if (voyages.length === 0) {
+      return jsonResponse(withSource(NO_VOYAGES_REFLECTION, 'No voyages that day'));
+    }
+
+    const totalFocusTime = getTotalFocusTime(voyages);
+    const prompt = buildDailyPrompt(lighthouseGoal, (body.date || body.dayStart).split('T')[0], voyages);
+
+    return await generateWithLimit(
+      user.id,
+      prompt,
+      () => generateDailyReflectionFallback(voyages, totalFocusTime, voyages.length)
     );
 
   } catch (error) {
@@ -71,63 +131,54 @@ serve(async (req) => {
   }
 });
 
-function generateDailyReflectionFallback(voyages: any[], totalFocusTime: number, voyageCount: number): string {
-  // Analyze voyage data for insights
-  const destinations = voyages.map(v => v.destination?.destination_name).filter(Boolean);
-  const uniqueDestinations = [...new Set(destinations)];
-  const totalDistractions = voyages.reduce((sum, v) => sum + (v.distraction_count || 0), 0);
-  
-  // Calculate focus quality
-  const averageDistractions = totalDistractions / voyageCount;
-  const focusQuality = averageDistractions <= 1 ? 'excellent' : averageDistractions <= 3 ? 'good' : 'improving';
-  
-  // Seagull personality responses
-  const personalityElements = [
-    "🐦 *fluffs feathers thoughtfully*",
-    "🌊 The seagull observed your journey today...",
-    "⚓ From my perch on the mast, I witnessed...",
-    "🧭 Your feathered companion noticed..."
-  ];
-  
-  const encouragements = [
-    "Your determination reminds me of the steady lighthouse beam.",
-    "Like the tides, your focus grows stronger each day.",
-    "The winds of intention carried you well today.",
-    "Your voyage brings you closer to the lighthouse on the horizon."
-  ];
-  
-  const observations = [];
-  
-  if (totalFocusTime >= 120) {
-    observations.push("What impressive dedication! Over 2 hours of focused sailing shows the heart of a true navigator.");
-  } else if (totalFocusTime >= 60) {
-    observations.push("A solid hour of concentration - your focus flows like favorable winds.");
-  } else if (totalFocusTime >= 30) {
-    observations.push("Steady progress on the seas of attention. Every minute counts toward your destination.");
+/**
+ * Call the LLM if the user has generations left today, falling back to templates on failure
+ * A generation is reserved before the call and refunded when the LLM reply was not used.
+ */
+async function generateWithLimit(
+  userId: string,
+  prompt: string,
+  fallback: () => ReflectionInsights
+): Promise<Response> {
+  // The usage table has no client policies, so the quota is checked with the service role
+  const admin = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const day = new Date().toISOString().split('T')[0];
+  const { data: allowed, error } = await admin.rpc('consume_reflection_quota', {
+    p_user_id: userId,
+    p_day: day,
+    p_limit: DAILY_GENERATION_LIMIT,
+  });
+
+  if (error) {
+    console.warn('Failed to check reflection quota, using fallback:', error);
+    return jsonResponse(withSource(fallback(), 'Quota check failed'));
   }
-  
-  if (uniqueDestinations.length > 1) {
-    observations.push(`You explored ${uniqueDestinations.length} different destinations today - quite the adventurous spirit!`);
+  if (!allowed) {
+    return jsonResponse({ error: 'Daily reflection limit reached' }, 429);
   }
-  
-  if (focusQuality === 'excellent') {
-    observations.push("Your focus was remarkably steady, like a ship guided by the stars.");
-  } else if (totalDistractions > 0) {
-    observations.push("Even with a few course corrections, you maintained your heading toward your goals.");
+
+  const result = await generateReflection(prompt, fallback);
+
+  if (result.source === 'fallback') {
+    const { error: refundError } = await admin.rpc('refund_reflection_quota', { p_user_id: userId, p_day: day });
+    if (refundError) console.warn('Failed to refund reflection quota:', refundError);
   }
-  
-  // Construct reflection
-  const opening = personalityElements[Math.floor(Math.random() * personalityElements.length)];
-  const mainObservation = observations.length > 0 ? observations.join(' ') : 
-    `Today brought ${voyageCount} voyage${voyageCount === 1 ? '' : 's'} totaling ${totalFocusTime} minutes of focused navigation.`;
-  const closing = encouragements[Math.floor(Math.random() * encouragements.length)];
-  
-  return `${opening} ${mainObservation} ${closing}`;
+
+  return jsonResponse(result);
 }
 
-function generateWeeklySummaryFallback(reflections: any[]): string {
+function generateWeeklySummaryFallback(reflections: DailyReflectionRow[]): ReflectionInsights {
   if (reflections.length === 0) {
-    return "A week of preparation and reflection. Like tides, focus ebbs and flows. Next week holds new opportunities for discovery.";
+    return {
+      reflection: "A week of preparation and reflection. Like tides, focus ebbs and flows. Next week holds new opportunities for discovery.",
+      highlights: [],
+      pattern_observed: null,
+      tomorrow_suggestion: 'Choose one destination to sail toward early next week.',
+    };
   }
   
   const totalTime = reflections.reduce((sum, r) => sum + (r.total_focus_time || 0), 0);
@@ -161,5 +212,14 @@ function generateWeeklySummaryFallback(reflections: any[]): string {
   
   summary += "\n\n🌅 The horizon holds endless possibilities for the week ahead!";
   
-  return summary;
+  return {
+    reflection: summary,
+    highlights: activeDays > 0
+      ? [`${activeDays} active day${activeDays === 1 ? '' : 's'}, averaging ${averageDailyTime} minutes of focus`]
+      : [],
+    pattern_observed: null,
+    tomorrow_suggestion: activeDays >= 5
+      ? 'Keep the rhythm, and plan one rest day to come back fresh.'
+      : 'Try sailing at the same time each day to build a steady rhythm.',
+  };
 }
\ No newline at end of file
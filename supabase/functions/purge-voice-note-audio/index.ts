@@ -0,0 +1,66 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * Scheduled job (pg_cron, nightly) that deletes voice note recordings past
+ * retention from storage, so audio expires even for users who never open
+ * MindBoat again. Which notes are expired is decided in the database from each
+ * user's current retention settings. Only callable with the service role key.
+ */
+
+const BUCKET = 'voice-notes';
+
+// Recordings removed per round trip, and rounds per run
+const BATCH_SIZE = 500;
+const MAX_BATCHES = 20;
+
+interface ExpiredAudio {
+  note_id: string;
+  audio_path: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { 'Content-Type': 'application/json' } }
+);
+
+serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const admin = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+    let removed = 0;
+
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const { data, error } = await admin.rpc('list_expired_voice_note_audio', { p_limit: BATCH_SIZE });
+      if (error) throw error;
+
+      const expired: ExpiredAudio[] = data || [];
+      if (expired.length === 0) break;
+
+      // Objects first: a note whose audio_path is cleared no longer points at its recording
+      const { error: removeError } = await admin.storage
+        .from(BUCKET)
+        .remove(expired.map(audio => audio.audio_path));
+      if (removeError) throw removeError;
+
+      // The transcript stays; audio_expires_at records when the recording was deleted
+      const { error: updateError } = await admin
+        .from('exploration_notes')
+        .update({ audio_path: null, audio_expires_at: new Date().toISOString() })
+        .in('id', expired.map(audio => audio.note_id));
+      if (updateError) throw updateError;
+
+      removed += expired.length;
+      if (expired.length < BATCH_SIZE) break;
+    }
+
+    return jsonResponse({ removed });
+  } catch (error) {
+    console.error('Error purging voice note audio:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
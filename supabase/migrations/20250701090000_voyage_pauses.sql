@@ -0,0 +1,183 @@
+/*
+  # Voyage Pause & Resume
+
+  1. Schema Changes
+    - Allow `paused` as a voyage status
+    - Add `total_paused_ms` to `voyages` (sum of all closed pause intervals)
+
+  2. New Tables
+    - `voyage_pauses`
+      - `id` (uuid, primary key)
+      - `voyage_id` (uuid, references voyages)
+      - `paused_at` (timestamptz)
+      - `resumed_at` (timestamptz, null while the pause is open)
+      - `duration_ms` (bigint, set when the pause is closed)
+      - `reason` (text, optional)
+
+  3. Statistics
+    - `actual_duration` / `actual_duration_ms` hold sailing time with pauses excluded
+    - `calculate_voyage_statistics_precise` ignores distraction events recorded inside
+      a pause interval and refreshes `total_paused_ms`
+
+  4. Security
+    - Enable RLS on `voyage_pauses`
+    - Users can manage pauses for their own voyages
+*/
+
+-- Allow the paused status
+ALTER TABLE voyages DROP CONSTRAINT IF EXISTS voyages_status_check;
+ALTER TABLE voyages ADD CONSTRAINT voyages_status_check
+  CHECK (status IN ('active', 'paused', 'completed', 'abandoned'));
+
+-- Add total paused time to voyages
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'voyages' AND column_name = 'total_paused_ms'
+  ) THEN
+    ALTER TABLE voyages ADD COLUMN total_paused_ms bigint DEFAULT 0;
+  END IF;
+END $$;
+
+-- Create voyage pauses table
+CREATE TABLE IF NOT EXISTS voyage_pauses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  voyage_id uuid NOT NULL REFERENCES voyages(id) ON DELETE CASCADE,
+  paused_at timestamptz NOT NULL DEFAULT now(),
+  resumed_at timestamptz,
+  duration_ms bigint,
+  reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE voyage_pauses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage pauses for own voyages" ON voyage_pauses;
+CREATE POLICY "Users can manage pauses for own voyages"
+  ON voyage_pauses FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM voyages
+      WHERE voyages.id = voyage_pauses.voyage_id
+      AND voyages.user_id = auth.uid()
+    )
+  );
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_voyage_pauses_voyage_id ON voyage_pauses(voyage_id);
+CREATE INDEX IF NOT EXISTS idx_voyage_pauses_open ON voyage_pauses(voyage_id) WHERE resumed_at IS NULL;
+
+-- Function to get total paused time for a voyage (open pauses count up to now)
+CREATE OR REPLACE FUNCTION get_voyage_paused_duration(voyage_id_param uuid)
+RETURNS bigint AS $$
+DECLARE
+  paused_ms bigint;
+BEGIN
+  SELECT COALESCE(SUM(
+    COALESCE(
+      duration_ms,
+      (EXTRACT(EPOCH FROM (COALESCE(resumed_at, now()) - paused_at)) * 1000)::bigint
+    )
+  ), 0) INTO paused_ms
+  FROM voyage_pauses
+  WHERE voyage_id = voyage_id_param;
+
+  RETURN paused_ms;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Statistics calculation with paused time excluded
+CREATE OR REPLACE FUNCTION calculate_voyage_statistics_precise(voyage_id_param uuid)
+RETURNS void AS $$
+DECLARE
+  v_total_distraction_time integer := 0;
+  v_distraction_count integer := 0;
+  v_avg_duration real := 0;
+  v_return_count integer := 0;
+  v_most_common_type text;
+  v_focus_score integer;
+  v_voyage_duration_ms bigint;
+  v_paused_ms bigint;
+BEGIN
+  -- Precise sailing duration (already excludes pauses) and total paused time
+  SELECT get_voyage_precise_duration(voyage_id_param) INTO v_voyage_duration_ms;
+  SELECT get_voyage_paused_duration(voyage_id_param) INTO v_paused_ms;
+
+  -- Only count distraction events that happened while the voyage was sailing
+  WITH sailing_events AS (
+    SELECT de.*
+    FROM distraction_events de
+    WHERE de.voyage_id = voyage_id_param
+    AND NOT EXISTS (
+      SELECT 1 FROM voyage_pauses vp
+      WHERE vp.voyage_id = de.voyage_id
+      AND de.detected_at >= vp.paused_at
+      AND de.detected_at < COALESCE(vp.resumed_at, now())
+    )
+  ),
+  effective_durations AS (
+    SELECT
+      CASE
+        WHEN duration_seconds IS NOT NULL AND duration_seconds > 0 THEN duration_seconds
+        WHEN is_resolved = false THEN 30
+        ELSE 0
+      END as effective_duration,
+      user_response,
+      type
+    FROM sailing_events
+  )
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(effective_duration), 0),
+    COALESCE(AVG(effective_duration), 0),
+    COUNT(*) FILTER (WHERE user_response = 'return_to_course')
+  INTO v_distraction_count, v_total_distraction_time, v_avg_duration, v_return_count
+  FROM effective_durations;
+
+  -- Find most common distraction type outside of pauses
+  SELECT de.type INTO v_most_common_type
+  FROM distraction_events de
+  WHERE de.voyage_id = voyage_id_param
+  AND NOT EXISTS (
+    SELECT 1 FROM voyage_pauses vp
+    WHERE vp.voyage_id = de.voyage_id
+    AND de.detected_at >= vp.paused_at
+    AND de.detected_at < COALESCE(vp.resumed_at, now())
+  )
+  GROUP BY de.type
+  ORDER BY COUNT(*) DESC
+  LIMIT 1;
+
+  -- Calculate focus quality score using precise sailing duration
+  IF v_voyage_duration_ms > 0 THEN
+    v_focus_score := 100
+      - LEAST(50, v_distraction_count * 5)  -- Max 50 points for frequency
+      - LEAST(50, ROUND((v_total_distraction_time::real / (v_voyage_duration_ms::real / 1000)) * 100)); -- Max 50 points for time lost
+
+    -- Ensure score is between 0 and 100
+    v_focus_score := GREATEST(0, LEAST(100, v_focus_score));
+  ELSE
+    v_focus_score := 100;
+  END IF;
+
+  -- Update voyage with calculated statistics
+  UPDATE voyages SET
+    distraction_count = v_distraction_count,
+    total_distraction_time = v_total_distraction_time,
+    total_paused_ms = v_paused_ms,
+    focus_quality_score = v_focus_score,
+    avg_distraction_duration = v_avg_duration,
+    return_to_course_rate = CASE
+      WHEN v_distraction_count > 0 THEN (v_return_count::real / v_distraction_count * 100)
+      ELSE 100
+    END,
+    most_common_distraction = v_most_common_type
+  WHERE id = voyage_id_param;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION get_voyage_paused_duration(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_voyage_statistics_precise(uuid) TO authenticated;
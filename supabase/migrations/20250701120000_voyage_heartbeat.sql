@@ -0,0 +1,32 @@
+/*
+  # Voyage Heartbeat for Crash Recovery
+
+  1. Schema Changes
+    - Add `last_heartbeat_at` (timestamptz) to `voyages`
+      - Updated periodically by the client while a voyage is sailing or paused
+      - Used to estimate an honest end time when a voyage was interrupted
+        by a crash or reload and the user chooses to end it
+
+  2. Indexes
+    - Partial index on in-progress voyages for startup reconciliation
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'voyages' AND column_name = 'last_heartbeat_at'
+  ) THEN
+    ALTER TABLE voyages ADD COLUMN last_heartbeat_at timestamptz;
+  END IF;
+END $$;
+
+-- Existing in-progress voyages have no heartbeat yet; fall back to their start time
+UPDATE voyages
+SET last_heartbeat_at = start_time
+WHERE last_heartbeat_at IS NULL
+AND status IN ('active', 'paused');
+
+CREATE INDEX IF NOT EXISTS idx_voyages_in_progress_heartbeat
+  ON voyages(user_id, last_heartbeat_at)
+  WHERE status IN ('active', 'paused');
@@ -0,0 +1,52 @@
+/*
+  # Idempotency Keys for Offline Sync
+
+  1. Schema Changes
+    - Add `client_id` (uuid, unique) to:
+      - `voyages`
+      - `distraction_events`
+      - `exploration_notes`
+      - `detection_results`
+
+  2. Purpose
+    - Rows created while offline are queued in the browser and replayed later
+    - Each queued insert carries a client-generated `client_id`; replays upsert on it
+      so a retry after a lost response never creates a duplicate row
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'voyages' AND column_name = 'client_id'
+  ) THEN
+    ALTER TABLE voyages ADD COLUMN client_id uuid;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'distraction_events' AND column_name = 'client_id'
+  ) THEN
+    ALTER TABLE distraction_events ADD COLUMN client_id uuid;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'exploration_notes' AND column_name = 'client_id'
+  ) THEN
+    ALTER TABLE exploration_notes ADD COLUMN client_id uuid;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'detection_results' AND column_name = 'client_id'
+  ) THEN
+    ALTER TABLE detection_results ADD COLUMN client_id uuid;
+  END IF;
+END $$;
+
+-- Unique indexes back the ON CONFLICT (client_id) upserts used by the sync queue
+CREATE UNIQUE INDEX IF NOT EXISTS idx_voyages_client_id ON voyages(client_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_distraction_events_client_id ON distraction_events(client_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exploration_notes_client_id ON exploration_notes(client_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_detection_results_client_id ON detection_results(client_id);
@@ -0,0 +1,90 @@
+/*
+  # Analysis Status for Detection Results
+
+  1. Schema Changes
+    - Add `analysis_status` (text) to `detection_results`
+      - `valid`: model reply passed validation first time
+      - `repaired`: reply passed after one repair retry
+      - `parse_failed`: reply was still malformed after the retry
+      - `request_failed`: the model call itself failed
+    - Add `analysis_error` (text) with the validation or request errors
+
+  2. Reporting
+    - `get_voyage_detection_summary` now includes counts per analysis status
+      so model reliability can be measured per voyage
+
+  3. Indexes
+    - Index on (user_id, analysis_status) for reliability queries
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'detection_results' AND column_name = 'analysis_status'
+  ) THEN
+    ALTER TABLE detection_results ADD COLUMN analysis_status text DEFAULT 'valid'
+      CHECK (analysis_status IN ('valid', 'repaired', 'parse_failed', 'request_failed'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'detection_results' AND column_name = 'analysis_error'
+  ) THEN
+    ALTER TABLE detection_results ADD COLUMN analysis_error text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_detection_results_user_analysis_status
+  ON detection_results(user_id, analysis_status);
+
+-- Detection summary with analysis reliability counts
+CREATE OR REPLACE FUNCTION get_voyage_detection_summary(voyage_id_param uuid)
+RETURNS json AS $$
+DECLARE
+  summary json;
+BEGIN
+  WITH detection_stats AS (
+    SELECT 
+      COUNT(*) as total_detections,
+      COUNT(*) FILTER (WHERE detection_type = 'combined') as combined_detections,
+      COUNT(*) FILTER (WHERE detection_type = 'tab_switch') as tab_switch_detections,
+      COUNT(*) FILTER (WHERE combined_distraction_detected = true) as combined_distractions,
+      COUNT(*) FILTER (WHERE tab_switch_detected = true) as tab_switch_distractions,
+      AVG(combined_confidence_level) FILTER (
+        WHERE analysis_status IN ('valid', 'repaired')
+      ) as avg_confidence,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND analysis_status = 'valid') as analyses_valid,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND analysis_status = 'repaired') as analyses_repaired,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND analysis_status = 'parse_failed') as analyses_parse_failed,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND analysis_status = 'request_failed') as analyses_request_failed,
+      MIN(detection_timestamp) as first_detection,
+      MAX(detection_timestamp) as last_detection
+    FROM detection_results
+    WHERE voyage_id = voyage_id_param
+  )
+  SELECT json_build_object(
+    'total_detections', ds.total_detections,
+    'combined_detections', ds.combined_detections,
+    'tab_switch_detections', ds.tab_switch_detections,
+    'combined_distractions_detected', ds.combined_distractions,
+    'tab_switch_distractions_detected', ds.tab_switch_distractions,
+    'avg_confidence_level', ROUND(COALESCE(ds.avg_confidence, 0)::numeric, 1),
+    'analysis_status', json_build_object(
+      'valid', ds.analyses_valid,
+      'repaired', ds.analyses_repaired,
+      'parse_failed', ds.analyses_parse_failed,
+      'request_failed', ds.analyses_request_failed
+    ),
+    'detection_period', json_build_object(
+      'first_detection', ds.first_detection,
+      'last_detection', ds.last_detection
+    )
+  ) INTO summary
+  FROM detection_stats ds;
+  
+  RETURN COALESCE(summary, '{}'::json);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_voyage_detection_summary(uuid) TO authenticated;
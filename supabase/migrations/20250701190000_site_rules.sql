@@ -0,0 +1,54 @@
+/*
+  # Per-User Site Rules
+
+  1. New Tables
+    - `site_rules`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `pattern` (text) - host with optional path, e.g. `youtube.com/watch`,
+        `*.reddit.com`, `linkedin.com/feed*`
+      - `rule_type` (text) - `block` (distracting) or `allow` (work)
+      - `category` (text) - distraction category reported for block rules
+      - `note` (text, optional)
+
+  2. Evaluation
+    - URL checks evaluate the user's rules first, then the destination's
+      `related_apps`, then the built-in blocklist/allowlist
+
+  3. Security
+    - Enable RLS on `site_rules`
+    - Users can manage only their own rules
+*/
+
+CREATE TABLE IF NOT EXISTS site_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  pattern text NOT NULL CHECK (length(trim(pattern)) > 0),
+  rule_type text NOT NULL CHECK (rule_type IN ('block', 'allow')),
+  category text CHECK (category IN (
+    'social_media', 'entertainment', 'shopping', 'news_browsing', 'irrelevant_browsing'
+  )),
+  note text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, pattern)
+);
+
+-- Enable RLS
+ALTER TABLE site_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own site rules" ON site_rules;
+CREATE POLICY "Users can manage own site rules"
+  ON site_rules FOR ALL TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_site_rules_user_id ON site_rules(user_id);
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS update_site_rules_updated_at ON site_rules;
+CREATE TRIGGER update_site_rules_updated_at
+  BEFORE UPDATE ON site_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,32 @@
+/*
+  # Per-Destination Detection Sensitivity
+
+  1. Schema Changes
+    - Add `sensitivity_profile` (text) to `destinations`
+      - `relaxed`, `standard` (default), `strict` or `custom`
+    - Add `sensitivity_thresholds` (jsonb) to `destinations`
+      - Only read for the `custom` profile; keys are
+        `tabSwitchGraceMs`, `idleThresholdMs`, `cameraAbsenceThresholdMs`, `screenshotIntervalMs`
+      - Missing keys fall back to the standard profile
+
+  2. Notes
+    - The client reads the profile once when a voyage starts
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'destinations' AND column_name = 'sensitivity_profile'
+  ) THEN
+    ALTER TABLE destinations ADD COLUMN sensitivity_profile text NOT NULL DEFAULT 'standard'
+      CHECK (sensitivity_profile IN ('relaxed', 'standard', 'strict', 'custom'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'destinations' AND column_name = 'sensitivity_thresholds'
+  ) THEN
+    ALTER TABLE destinations ADD COLUMN sensitivity_thresholds jsonb;
+  END IF;
+END $$;
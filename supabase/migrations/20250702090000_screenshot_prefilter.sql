@@ -0,0 +1,92 @@
+/*
+  # Screenshot Pre-filter Results
+
+  1. Schema Changes
+    - Add `prefilter_skipped` (boolean) to `detection_results`
+      - true when the local pre-filter found the screen and camera unchanged since the
+        last analyzed capture, so the vision model was not called and the previous
+        verdict was carried forward
+    - Add `screen_change_distance` (integer) - bits that differed between the capture's
+      perceptual hash and the last analyzed capture (0-64, null when there was no baseline)
+
+  2. Reporting
+    - `get_voyage_detection_summary` now includes the number of skipped model calls
+    - Analysis status counts only cover captures that were actually sent to the model
+
+  3. Indexes
+    - Partial index on (voyage_id) for skipped captures
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'detection_results' AND column_name = 'prefilter_skipped'
+  ) THEN
+    ALTER TABLE detection_results ADD COLUMN prefilter_skipped boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'detection_results' AND column_name = 'screen_change_distance'
+  ) THEN
+    ALTER TABLE detection_results ADD COLUMN screen_change_distance integer
+      CHECK (screen_change_distance IS NULL OR screen_change_distance BETWEEN 0 AND 64);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_detection_results_prefilter_skipped
+  ON detection_results(voyage_id) WHERE prefilter_skipped = true;
+
+-- Detection summary with analysis reliability and pre-filter counts
+CREATE OR REPLACE FUNCTION get_voyage_detection_summary(voyage_id_param uuid)
+RETURNS json AS $$
+DECLARE
+  summary json;
+BEGIN
+  WITH detection_stats AS (
+    SELECT
+      COUNT(*) as total_detections,
+      COUNT(*) FILTER (WHERE detection_type = 'combined') as combined_detections,
+      COUNT(*) FILTER (WHERE detection_type = 'tab_switch') as tab_switch_detections,
+      COUNT(*) FILTER (WHERE combined_distraction_detected = true) as combined_distractions,
+      COUNT(*) FILTER (WHERE tab_switch_detected = true) as tab_switch_distractions,
+      AVG(combined_confidence_level) FILTER (
+        WHERE analysis_status IN ('valid', 'repaired') AND NOT prefilter_skipped
+      ) as avg_confidence,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND NOT prefilter_skipped AND analysis_status = 'valid') as analyses_valid,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND NOT prefilter_skipped AND analysis_status = 'repaired') as analyses_repaired,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND NOT prefilter_skipped AND analysis_status = 'parse_failed') as analyses_parse_failed,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND NOT prefilter_skipped AND analysis_status = 'request_failed') as analyses_request_failed,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND prefilter_skipped) as prefilter_skipped,
+      MIN(detection_timestamp) as first_detection,
+      MAX(detection_timestamp) as last_detection
+    FROM detection_results
+    WHERE voyage_id = voyage_id_param
+  )
+  SELECT json_build_object(
+    'total_detections', ds.total_detections,
+    'combined_detections', ds.combined_detections,
+    'tab_switch_detections', ds.tab_switch_detections,
+    'combined_distractions_detected', ds.combined_distractions,
+    'tab_switch_distractions_detected', ds.tab_switch_distractions,
+    'avg_confidence_level', ROUND(COALESCE(ds.avg_confidence, 0)::numeric, 1),
+    'analysis_status', json_build_object(
+      'valid', ds.analyses_valid,
+      'repaired', ds.analyses_repaired,
+      'parse_failed', ds.analyses_parse_failed,
+      'request_failed', ds.analyses_request_failed
+    ),
+    'prefilter_skipped', ds.prefilter_skipped,
+    'detection_period', json_build_object(
+      'first_detection', ds.first_detection,
+      'last_detection', ds.last_detection
+    )
+  ) INTO summary
+  FROM detection_stats ds;
+
+  RETURN COALESCE(summary, '{}'::json);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_voyage_detection_summary(uuid) TO authenticated;
@@ -0,0 +1,37 @@
+/*
+  # Redaction Mode for Detection Results
+
+  1. Schema Changes
+    - Add `redaction_mode` (text) to `detection_results`
+      - `full`: screen with the camera picture-in-picture
+      - `screen_only`: the camera frame was not sent
+      - `camera_only`: nothing on the screen was sent
+      - null for rows stored before redaction existed
+    - Add `redaction_details` (jsonb) describing what was removed from the capture
+      (resolution sent, whether it was downscaled, number of pixelated regions,
+      whether the camera was blacked out)
+
+  2. Indexes
+    - Index on (user_id, redaction_mode) so analyses can be compared per mode
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'detection_results' AND column_name = 'redaction_mode'
+  ) THEN
+    ALTER TABLE detection_results ADD COLUMN redaction_mode text
+      CHECK (redaction_mode IS NULL OR redaction_mode IN ('full', 'screen_only', 'camera_only'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'detection_results' AND column_name = 'redaction_details'
+  ) THEN
+    ALTER TABLE detection_results ADD COLUMN redaction_details jsonb;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_detection_results_user_redaction_mode
+  ON detection_results(user_id, redaction_mode);
@@ -0,0 +1,59 @@
+/*
+  # Distraction Event Lifecycle
+
+  1. Schema Changes
+    - Add `ended_at` (timestamptz) to `distraction_events`, set when the distraction is closed
+    - Add `resolution` (text) - how the distraction ended
+      - `return_to_course`: the user came back (via the alert or on their own)
+      - `exploring`: the user chose to explore
+      - `timed_out`: nobody responded before the response timeout
+      - `voyage_ended`: the voyage finished while the distraction was open
+    - Add `source` (text) - the detector that opened it
+      (`tab_visibility`, `url`, `browser_extension`, `vision`, `idle`)
+    - `is_resolved` is now written: false while open, true once closed
+    - `duration_seconds` is set from `ended_at - detected_at` when closed
+
+  2. Backfill
+    - Events recorded before this migration with a duration get `ended_at` and are marked resolved
+
+  3. Indexes
+    - Partial index on (voyage_id) for open events
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'distraction_events' AND column_name = 'ended_at'
+  ) THEN
+    ALTER TABLE distraction_events ADD COLUMN ended_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'distraction_events' AND column_name = 'resolution'
+  ) THEN
+    ALTER TABLE distraction_events ADD COLUMN resolution text
+      CHECK (resolution IS NULL OR resolution IN ('return_to_course', 'exploring', 'timed_out', 'voyage_ended'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'distraction_events' AND column_name = 'source'
+  ) THEN
+    ALTER TABLE distraction_events ADD COLUMN source text
+      CHECK (source IS NULL OR source IN ('tab_visibility', 'url', 'browser_extension', 'vision', 'idle'));
+  END IF;
+END $$;
+
+-- Legacy events with a known duration already describe a closed interval
+UPDATE distraction_events
+SET
+  ended_at = detected_at + make_interval(secs => duration_seconds),
+  is_resolved = true
+WHERE ended_at IS NULL
+  AND duration_seconds IS NOT NULL
+  AND duration_seconds > 0;
+
+CREATE INDEX IF NOT EXISTS idx_distraction_events_open
+  ON distraction_events(voyage_id) WHERE is_resolved = false;
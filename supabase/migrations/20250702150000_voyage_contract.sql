@@ -0,0 +1,34 @@
+/*
+  # Strict Voyage Contract
+
+  1. Schema Changes
+    - Add `contract` (jsonb) to `voyages` - terms of a strict voyage, fixed at start
+      `{ strict, distraction_budget, exploring_cap_minutes, penalty_per_distraction }`
+      NULL for regular voyages
+    - Add `early_end_justification` (text) - why a strict voyage ended before its planned duration
+    - Add `exploring_ms` (bigint) - time spent exploring after distractions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'voyages' AND column_name = 'contract'
+  ) THEN
+    ALTER TABLE voyages ADD COLUMN contract jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'voyages' AND column_name = 'early_end_justification'
+  ) THEN
+    ALTER TABLE voyages ADD COLUMN early_end_justification text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'voyages' AND column_name = 'exploring_ms'
+  ) THEN
+    ALTER TABLE voyages ADD COLUMN exploring_ms bigint DEFAULT 0;
+  END IF;
+END $$;
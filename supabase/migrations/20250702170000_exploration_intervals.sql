@@ -0,0 +1,65 @@
+/*
+  # Exploration Budget & Intervals
+
+  1. Schema Changes
+    - Add `exploration_budget_minutes` (integer) to `voyages` - exploring time allowed
+      for the voyage (a strict contract's exploring cap, otherwise the app default)
+
+  2. New Tables
+    - `exploration_intervals`
+      - `id` (uuid, primary key)
+      - `voyage_id` (uuid, references voyages)
+      - `started_at` (timestamptz)
+      - `ended_at` (timestamptz, null while exploring)
+      - `duration_ms` (bigint, set when the interval is closed)
+      - `end_reason` (text)
+        - `returned`: the user returned to course
+        - `budget_exhausted`: the voyage's exploration budget ran out
+        - `voyage_ended`: the voyage ended while exploring
+      - `client_id` (uuid, unique) - idempotency key for rows synced from the offline queue
+
+  3. Security
+    - Enable RLS on `exploration_intervals`
+    - Users can manage exploration intervals for their own voyages
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'voyages' AND column_name = 'exploration_budget_minutes'
+  ) THEN
+    ALTER TABLE voyages ADD COLUMN exploration_budget_minutes integer;
+  END IF;
+END $$;
+
+-- Create exploration intervals table
+CREATE TABLE IF NOT EXISTS exploration_intervals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  voyage_id uuid NOT NULL REFERENCES voyages(id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  duration_ms bigint,
+  end_reason text CHECK (end_reason IS NULL OR end_reason IN ('returned', 'budget_exhausted', 'voyage_ended')),
+  client_id uuid,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE exploration_intervals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage exploration intervals for own voyages" ON exploration_intervals;
+CREATE POLICY "Users can manage exploration intervals for own voyages"
+  ON exploration_intervals FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM voyages
+      WHERE voyages.id = exploration_intervals.voyage_id
+      AND voyages.user_id = auth.uid()
+    )
+  );
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_exploration_intervals_voyage_id ON exploration_intervals(voyage_id);
+CREATE INDEX IF NOT EXISTS idx_exploration_intervals_open ON exploration_intervals(voyage_id) WHERE ended_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exploration_intervals_client_id ON exploration_intervals(client_id);
@@ -0,0 +1,52 @@
+/*
+  # Exploration Notes Inbox
+
+  1. Schema Changes
+    - Add `tags` (text[]) to `exploration_notes` - user-chosen labels, lowercase
+    - Add `destination_id` (uuid, references destinations) - the destination the note
+      was attached to or promoted into; NULL while it sits in the inbox
+    - Add `promoted_at` (timestamptz) - set when the note became a new destination
+    - Add `search_vector` (tsvector, generated from `content`) for full-text search
+
+  2. Indexes
+    - GIN index on `search_vector` for full-text search
+    - GIN index on `tags` for tag filters
+    - Index on `destination_id`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'exploration_notes' AND column_name = 'tags'
+  ) THEN
+    ALTER TABLE exploration_notes ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'exploration_notes' AND column_name = 'destination_id'
+  ) THEN
+    ALTER TABLE exploration_notes ADD COLUMN destination_id uuid REFERENCES destinations(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'exploration_notes' AND column_name = 'promoted_at'
+  ) THEN
+    ALTER TABLE exploration_notes ADD COLUMN promoted_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'exploration_notes' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE exploration_notes ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+  END IF;
+END $$;
+
+-- Indexes for search and filters
+CREATE INDEX IF NOT EXISTS idx_exploration_notes_search ON exploration_notes USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_exploration_notes_tags ON exploration_notes USING gin(tags);
+CREATE INDEX IF NOT EXISTS idx_exploration_notes_destination_id ON exploration_notes(destination_id);
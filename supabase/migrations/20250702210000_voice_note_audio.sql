@@ -0,0 +1,82 @@
+/*
+  # Voice Note Audio
+
+  1. Schema Changes
+    - Add to `exploration_notes`:
+      - `audio_path` (text) - object path in the `voice-notes` bucket
+        (`<user id>/<file>`), or `local:<key>` for audio kept in the browser
+      - `audio_mime_type` (text)
+      - `audio_duration_ms` (integer)
+      - `transcript_confidence` (real, 0-1) - speech recognition confidence for `content`
+      - `audio_expires_at` (timestamptz) - end of the transcript retention period;
+        the audio is deleted after this, the transcript text stays
+
+  2. Storage
+    - Private `voice-notes` bucket
+    - Users can read, upload and delete objects in their own folder only
+
+  3. Indexes
+    - Partial index on `audio_expires_at` for notes that still have audio
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'exploration_notes' AND column_name = 'audio_path'
+  ) THEN
+    ALTER TABLE exploration_notes ADD COLUMN audio_path text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'exploration_notes' AND column_name = 'audio_mime_type'
+  ) THEN
+    ALTER TABLE exploration_notes ADD COLUMN audio_mime_type text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'exploration_notes' AND column_name = 'audio_duration_ms'
+  ) THEN
+    ALTER TABLE exploration_notes ADD COLUMN audio_duration_ms integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'exploration_notes' AND column_name = 'transcript_confidence'
+  ) THEN
+    ALTER TABLE exploration_notes ADD COLUMN transcript_confidence real
+      CHECK (transcript_confidence IS NULL OR (transcript_confidence >= 0 AND transcript_confidence <= 1));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'exploration_notes' AND column_name = 'audio_expires_at'
+  ) THEN
+    ALTER TABLE exploration_notes ADD COLUMN audio_expires_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_exploration_notes_audio_expires_at
+  ON exploration_notes(audio_expires_at) WHERE audio_path IS NOT NULL;
+
+-- Private bucket for voice note audio
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('voice-notes', 'voice-notes', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can read own voice notes" ON storage.objects;
+CREATE POLICY "Users can read own voice notes"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (bucket_id = 'voice-notes' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can upload own voice notes" ON storage.objects;
+CREATE POLICY "Users can upload own voice notes"
+  ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'voice-notes' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can delete own voice notes" ON storage.objects;
+CREATE POLICY "Users can delete own voice notes"
+  ON storage.objects FOR DELETE TO authenticated
+  USING (bucket_id = 'voice-notes' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,210 @@
+/*
+  # Data Retention
+
+  1. New Tables
+    - `retention_settings` - one row per user, days to keep each kind of data
+      (null keeps it until deleted by hand)
+      - `transcripts_days` - `voice_transcripts` and `voice_analysis`
+      - `detection_results_days` - `detection_results` rows
+      - `screenshot_analysis_days` - `detection_results.combined_analysis_result`
+        is cleared; the verdict columns stay
+      - `exploration_notes_days` - `exploration_notes`; notes whose recording is
+        still in storage are removed once the recording has been purged
+
+  2. Functions
+    - `purge_expired_user_data()` - deletes data past each user's retention,
+      using the column defaults for users without a settings row. Not callable
+      by clients; runs nightly via pg_cron
+    - `get_data_usage()` - count, approximate size and oldest item of each kind
+      of data stored for the calling user
+
+  3. Cleanup
+    - Drop `cleanup_voice_data`, replaced by the scheduled purge
+
+  4. Security
+    - Enable RLS on `retention_settings`
+    - Users can manage only their own settings
+*/
+
+CREATE TABLE IF NOT EXISTS retention_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  transcripts_days integer DEFAULT 30 CHECK (transcripts_days IS NULL OR transcripts_days > 0),
+  detection_results_days integer DEFAULT 30 CHECK (detection_results_days IS NULL OR detection_results_days > 0),
+  screenshot_analysis_days integer DEFAULT 7 CHECK (screenshot_analysis_days IS NULL OR screenshot_analysis_days > 0),
+  exploration_notes_days integer CHECK (exploration_notes_days IS NULL OR exploration_notes_days > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE retention_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own retention settings" ON retention_settings;
+CREATE POLICY "Users can manage own retention settings"
+  ON retention_settings FOR ALL TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS update_retention_settings_updated_at ON retention_settings;
+CREATE TRIGGER update_retention_settings_updated_at
+  BEFORE UPDATE ON retention_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Time-based deletes per user
+CREATE INDEX IF NOT EXISTS idx_voice_transcripts_created_at ON voice_transcripts(created_at);
+CREATE INDEX IF NOT EXISTS idx_detection_results_user_timestamp ON detection_results(user_id, detection_timestamp);
+
+CREATE OR REPLACE FUNCTION purge_expired_user_data()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy record;
+  affected integer;
+  transcripts_deleted integer := 0;
+  detection_results_deleted integer := 0;
+  screenshot_analyses_cleared integer := 0;
+  exploration_notes_deleted integer := 0;
+BEGIN
+  FOR policy IN
+    SELECT
+      u.id AS user_id,
+      CASE WHEN s.user_id IS NULL THEN 30 ELSE s.transcripts_days END AS transcripts_days,
+      CASE WHEN s.user_id IS NULL THEN 30 ELSE s.detection_results_days END AS detection_results_days,
+      CASE WHEN s.user_id IS NULL THEN 7 ELSE s.screenshot_analysis_days END AS screenshot_analysis_days,
+      s.exploration_notes_days
+    FROM auth.users u
+    LEFT JOIN retention_settings s ON s.user_id = u.id
+  LOOP
+    IF policy.transcripts_days IS NOT NULL THEN
+      DELETE FROM voice_transcripts t
+      USING voyages v
+      WHERE v.id = t.voyage_id
+        AND v.user_id = policy.user_id
+        AND t.created_at < now() - make_interval(days => policy.transcripts_days);
+      GET DIAGNOSTICS affected = ROW_COUNT;
+      transcripts_deleted := transcripts_deleted + affected;
+
+      DELETE FROM voice_analysis a
+      USING voyages v
+      WHERE v.id = a.voyage_id
+        AND v.user_id = policy.user_id
+        AND a.generated_at < now() - make_interval(days => policy.transcripts_days);
+    END IF;
+
+    IF policy.screenshot_analysis_days IS NOT NULL THEN
+      UPDATE detection_results
+      SET combined_analysis_result = NULL
+      WHERE user_id = policy.user_id
+        AND combined_analysis_result IS NOT NULL
+        AND detection_timestamp < now() - make_interval(days => policy.screenshot_analysis_days);
+      GET DIAGNOSTICS affected = ROW_COUNT;
+      screenshot_analyses_cleared := screenshot_analyses_cleared + affected;
+    END IF;
+
+    IF policy.detection_results_days IS NOT NULL THEN
+      DELETE FROM detection_results
+      WHERE user_id = policy.user_id
+        AND detection_timestamp < now() - make_interval(days => policy.detection_results_days);
+      GET DIAGNOSTICS affected = ROW_COUNT;
+      detection_results_deleted := detection_results_deleted + affected;
+    END IF;
+
+    IF policy.exploration_notes_days IS NOT NULL THEN
+      -- Recordings in storage are purged by the app first, so no object is orphaned
+      DELETE FROM exploration_notes n
+      USING voyages v
+      WHERE v.id = n.voyage_id
+        AND v.user_id = policy.user_id
+        AND n.created_at < now() - make_interval(days => policy.exploration_notes_days)
+        AND (n.audio_path IS NULL OR n.audio_path LIKE 'local:%');
+      GET DIAGNOSTICS affected = ROW_COUNT;
+      exploration_notes_deleted := exploration_notes_deleted + affected;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'transcripts', transcripts_deleted,
+    'detection_results', detection_results_deleted,
+    'screenshot_analyses', screenshot_analyses_cleared,
+    'exploration_notes', exploration_notes_deleted
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_user_data() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_data_usage()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'transcripts', (
+      SELECT jsonb_build_object(
+        'count', count(*),
+        'bytes', COALESCE(sum(pg_column_size(t.transcript_text)), 0),
+        'oldest', min(t.created_at)
+      )
+      FROM voice_transcripts t
+      JOIN voyages v ON v.id = t.voyage_id
+      WHERE v.user_id = auth.uid()
+    ),
+    'detection_results', (
+      SELECT jsonb_build_object(
+        'count', count(*),
+        'bytes', COALESCE(sum(pg_column_size(d.*)), 0),
+        'oldest', min(d.detection_timestamp)
+      )
+      FROM detection_results d
+      WHERE d.user_id = auth.uid()
+    ),
+    'screenshot_analyses', (
+      SELECT jsonb_build_object(
+        'count', count(*),
+        'bytes', COALESCE(sum(pg_column_size(d.combined_analysis_result)), 0),
+        'oldest', min(d.detection_timestamp)
+      )
+      FROM detection_results d
+      WHERE d.user_id = auth.uid() AND d.combined_analysis_result IS NOT NULL
+    ),
+    'exploration_notes', (
+      SELECT jsonb_build_object(
+        'count', count(*),
+        'bytes', COALESCE(sum(pg_column_size(n.content)), 0),
+        'oldest', min(n.created_at)
+      )
+      FROM exploration_notes n
+      JOIN voyages v ON v.id = n.voyage_id
+      WHERE v.user_id = auth.uid()
+    ),
+    'voice_note_audio', (
+      SELECT jsonb_build_object(
+        'count', count(*),
+        'bytes', COALESCE(sum((o.metadata->>'size')::bigint), 0),
+        'oldest', min(o.created_at)
+      )
+      FROM storage.objects o
+      WHERE o.bucket_id = 'voice-notes' AND (storage.foldername(o.name))[1] = auth.uid()::text
+    )
+  );
+$$;
+
+DROP FUNCTION IF EXISTS cleanup_voice_data(integer);
+
+-- Nightly purge
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'purge-expired-user-data') THEN
+    PERFORM cron.unschedule('purge-expired-user-data');
+  END IF;
+
+  PERFORM cron.schedule('purge-expired-user-data', '30 3 * * *', 'SELECT purge_expired_user_data()');
+END $$;
@@ -0,0 +1,87 @@
+/*
+  # Reflection Insights and Generation Limits
+
+  1. Schema Changes
+    - Add to `daily_reflections`:
+      - `highlights` (text[]) - what went well that day
+      - `pattern_observed` (text) - one pattern the seagull noticed
+      - `tomorrow_suggestion` (text)
+      - `generation_source` (text) - `llm` or `fallback`
+
+  2. New Tables
+    - `reflection_generation_usage` - LLM reflections generated per user and
+      (UTC) day, used by the generate-reflection edge function to rate limit
+
+  3. Functions
+    - `consume_reflection_quota(user, day, limit)` - atomically counts one
+      generation; returns false once the limit is reached. Service role only
+
+  4. Security
+    - RLS on `reflection_generation_usage` with no client policies; only the
+      edge function (service role) reads or writes it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_reflections' AND column_name = 'highlights'
+  ) THEN
+    ALTER TABLE daily_reflections ADD COLUMN highlights text[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_reflections' AND column_name = 'pattern_observed'
+  ) THEN
+    ALTER TABLE daily_reflections ADD COLUMN pattern_observed text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_reflections' AND column_name = 'tomorrow_suggestion'
+  ) THEN
+    ALTER TABLE daily_reflections ADD COLUMN tomorrow_suggestion text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_reflections' AND column_name = 'generation_source'
+  ) THEN
+    ALTER TABLE daily_reflections ADD COLUMN generation_source text
+      CHECK (generation_source IN ('llm', 'fallback'));
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS reflection_generation_usage (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  day date NOT NULL,
+  generation_count integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, day)
+);
+
+-- No policies: clients cannot read or reset their own counters
+ALTER TABLE reflection_generation_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION consume_reflection_quota(p_user_id uuid, p_day date, p_limit integer)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  used integer;
+BEGIN
+  INSERT INTO reflection_generation_usage (user_id, day, generation_count)
+  VALUES (p_user_id, p_day, 1)
+  ON CONFLICT (user_id, day) DO UPDATE
+    SET generation_count = reflection_generation_usage.generation_count + 1
+    WHERE reflection_generation_usage.generation_count < p_limit
+  RETURNING generation_count INTO used;
+
+  -- No row returned means the conflicting row was already at the limit
+  RETURN used IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_reflection_quota(uuid, date, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,54 @@
+/*
+  # Scheduled Daily Reflections
+
+  1. Schema Changes
+    - Add `timezone` to `user_profiles` - the user's IANA time zone
+      (e.g. `Europe/Berlin`), kept in sync by the app; day boundaries for
+      reflections use it
+
+  2. Scheduling
+    - Hourly pg_cron job `generate-daily-reflections` calls the edge function
+      of the same name through pg_net. The function writes yesterday's
+      reflection for each active user whose local midnight has passed, and
+      skips days that already have one
+    - Reads the project URL and service role key from Vault; create them once:
+        select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+        select vault.create_secret('<service-role-key>', 'service_role_key');
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_profiles' AND column_name = 'timezone'
+  ) THEN
+    ALTER TABLE user_profiles ADD COLUMN timezone text NOT NULL DEFAULT 'UTC';
+  END IF;
+END $$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'generate-daily-reflections') THEN
+    PERFORM cron.unschedule('generate-daily-reflections');
+  END IF;
+
+  PERFORM cron.schedule(
+    'generate-daily-reflections',
+    '5 * * * *',
+    $job$
+    SELECT net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+        || '/functions/v1/generate-daily-reflections',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := '{}'::jsonb,
+      timeout_milliseconds := 300000
+    )
+    $job$
+  );
+END $$;
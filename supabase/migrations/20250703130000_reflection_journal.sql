@@ -0,0 +1,66 @@
+/*
+  # Reflection Journal
+
+  1. Schema Changes
+    - Add to `daily_reflections`:
+      - `journal_entry` (text) - the user's own notes on the day, next to the seagull's
+      - `journal_rating` (smallint, 1-5) - how the day felt
+      - `journal_updated_at` (timestamptz)
+
+  2. New Tables
+    - `weekly_reflections` - the weekly digest shown at each week boundary in
+      the Captain's Log, kept so it is not regenerated on every visit
+      - `week_start` (date) - Monday of the week
+      - `reflection_text`, `highlights`, `pattern_observed`,
+        `tomorrow_suggestion`, `generation_source` - as on `daily_reflections`
+
+  3. Security
+    - Enable RLS on `weekly_reflections`
+    - Users can manage only their own weekly reflections
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_reflections' AND column_name = 'journal_entry'
+  ) THEN
+    ALTER TABLE daily_reflections ADD COLUMN journal_entry text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_reflections' AND column_name = 'journal_rating'
+  ) THEN
+    ALTER TABLE daily_reflections ADD COLUMN journal_rating smallint
+      CHECK (journal_rating BETWEEN 1 AND 5);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'daily_reflections' AND column_name = 'journal_updated_at'
+  ) THEN
+    ALTER TABLE daily_reflections ADD COLUMN journal_updated_at timestamptz;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS weekly_reflections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  week_start date NOT NULL,
+  reflection_text text NOT NULL,
+  highlights text[] NOT NULL DEFAULT '{}',
+  pattern_observed text,
+  tomorrow_suggestion text,
+  generation_source text CHECK (generation_source IN ('llm', 'fallback')),
+  generated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, week_start)
+);
+
+ALTER TABLE weekly_reflections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own weekly reflections" ON weekly_reflections;
+CREATE POLICY "Users can manage own weekly reflections"
+  ON weekly_reflections FOR ALL TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,31 @@
+/*
+  # Destination Status
+
+  1. Schema Changes
+    - Add `status` to `destinations` - `active` (default), `completed` once the
+      user has reached it, or `archived` to put it away without finishing
+    - Add `status_changed_at` (timestamptz)
+
+  2. Indexes
+    - `destinations(user_id, status)` for listing active destinations
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'destinations' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE destinations ADD COLUMN status text NOT NULL DEFAULT 'active'
+      CHECK (status IN ('active', 'completed', 'archived'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'destinations' AND column_name = 'status_changed_at'
+  ) THEN
+    ALTER TABLE destinations ADD COLUMN status_changed_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_destinations_user_status ON destinations(user_id, status);
@@ -0,0 +1,13 @@
+/*
+  # Distraction Paused Resolution
+
+  1. Schema Changes
+    - Allow `voyage_paused` as a `distraction_events.resolution`: the voyage was
+      paused while the distraction was open. The event ends at the pause, so
+      paused time never counts toward `duration_seconds`
+*/
+
+ALTER TABLE distraction_events DROP CONSTRAINT IF EXISTS distraction_events_resolution_check;
+
+ALTER TABLE distraction_events ADD CONSTRAINT distraction_events_resolution_check
+  CHECK (resolution IS NULL OR resolution IN ('return_to_course', 'exploring', 'timed_out', 'voyage_ended', 'voyage_paused'));
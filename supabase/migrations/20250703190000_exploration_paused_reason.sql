@@ -0,0 +1,13 @@
+/*
+  # Exploration Paused Reason
+
+  1. Schema Changes
+    - Allow `voyage_paused` as an `exploration_intervals.end_reason`: the voyage
+      was paused while exploring. Paused time is not exploring time, so the
+      interval closes at the pause and a new one opens on resume
+*/
+
+ALTER TABLE exploration_intervals DROP CONSTRAINT IF EXISTS exploration_intervals_end_reason_check;
+
+ALTER TABLE exploration_intervals ADD CONSTRAINT exploration_intervals_end_reason_check
+  CHECK (end_reason IS NULL OR end_reason IN ('returned', 'budget_exhausted', 'voyage_ended', 'voyage_paused'));
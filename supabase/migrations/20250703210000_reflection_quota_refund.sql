@@ -0,0 +1,27 @@
+/*
+  # Reflection Quota Refund
+
+  1. Functions
+    - `refund_reflection_quota(user, day)` - gives back one generation counted
+      by `consume_reflection_quota`. The generate-reflection edge function
+      reserves a generation before calling the LLM and refunds it when no LLM
+      reply was used (missing key, provider error, invalid reply), so only
+      real generations count toward the daily limit. Service role only
+*/
+
+CREATE OR REPLACE FUNCTION refund_reflection_quota(p_user_id uuid, p_day date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE reflection_generation_usage
+  SET generation_count = generation_count - 1
+  WHERE user_id = p_user_id
+    AND day = p_day
+    AND generation_count > 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refund_reflection_quota(uuid, date) FROM PUBLIC, anon, authenticated;
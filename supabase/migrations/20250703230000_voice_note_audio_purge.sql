@@ -0,0 +1,73 @@
+/*
+  # Voice Note Audio Purge
+
+  1. Functions
+    - `list_expired_voice_note_audio(limit)` - notes whose recording is in
+      storage and past retention under the user's current settings (not the
+      expiry stored when it was recorded): past `transcripts_days`, or past
+      `exploration_notes_days` so the note itself can then be deleted by
+      `purge_expired_user_data`. Service role only
+
+  2. Scheduling
+    - Nightly pg_cron job `purge-voice-note-audio` at 03:15, before
+      `purge-expired-user-data`, calls the edge function of the same name
+      through pg_net. The function removes the storage objects and clears the
+      notes' `audio_path`; `audio_expires_at` is set to when the recording was
+      deleted
+    - Uses the `project_url` and `service_role_key` Vault secrets created for
+      `generate-daily-reflections`
+*/
+
+CREATE OR REPLACE FUNCTION list_expired_voice_note_audio(p_limit integer DEFAULT 500)
+RETURNS TABLE (note_id uuid, audio_path text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT n.id, n.audio_path
+  FROM exploration_notes n
+  JOIN voyages v ON v.id = n.voyage_id
+  LEFT JOIN retention_settings s ON s.user_id = v.user_id
+  WHERE n.audio_path IS NOT NULL
+    AND n.audio_path NOT LIKE 'local:%'
+    AND (
+      -- Users without a settings row get the column default of 30 days
+      n.created_at < now() - make_interval(days => CASE WHEN s.user_id IS NULL THEN 30 ELSE s.transcripts_days END)
+      OR n.created_at < now() - make_interval(days => s.exploration_notes_days)
+    )
+  ORDER BY n.created_at
+  LIMIT p_limit;
+$$;
+
+REVOKE EXECUTE ON FUNCTION list_expired_voice_note_audio(integer) FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_exploration_notes_audio_created_at
+  ON exploration_notes(created_at) WHERE audio_path IS NOT NULL;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'purge-voice-note-audio') THEN
+    PERFORM cron.unschedule('purge-voice-note-audio');
+  END IF;
+
+  PERFORM cron.schedule(
+    'purge-voice-note-audio',
+    '15 3 * * *',
+    $job$
+    SELECT net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+        || '/functions/v1/purge-voice-note-audio',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := '{}'::jsonb,
+      timeout_milliseconds := 300000
+    )
+    $job$
+  );
+END $$;
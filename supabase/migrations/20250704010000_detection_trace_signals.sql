@@ -0,0 +1,83 @@
+/*
+  # Detection Trace Signals
+
+  1. Schema Changes
+    - Allow `signal` as a `detection_results.detection_type`: a raw detector
+      signal kept for detection replay (see utils/detectionReplay)
+    - Add `trace_signal` (jsonb) to `detection_results` - the signal itself:
+      - `url` - every URL verdict, including sites judged as work (no URL is stored)
+      - `idle` - stretches without counted input long enough to matter under any threshold
+      - `response` - the user's answer to a distraction alert
+      - `monitoring` - detection suspended or resumed (pause, exploring)
+
+  2. Reporting
+    - `get_voyage_detection_summary` leaves signal rows out of its counts
+*/
+
+ALTER TABLE detection_results DROP CONSTRAINT IF EXISTS detection_results_detection_type_check;
+
+ALTER TABLE detection_results ADD CONSTRAINT detection_results_detection_type_check
+  CHECK (detection_type IN ('combined', 'tab_switch', 'both', 'signal'));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'detection_results' AND column_name = 'trace_signal'
+  ) THEN
+    ALTER TABLE detection_results ADD COLUMN trace_signal jsonb;
+  END IF;
+END $$;
+
+-- Detection summary over detector results only
+CREATE OR REPLACE FUNCTION get_voyage_detection_summary(voyage_id_param uuid)
+RETURNS json AS $$
+DECLARE
+  summary json;
+BEGIN
+  WITH detection_stats AS (
+    SELECT
+      COUNT(*) as total_detections,
+      COUNT(*) FILTER (WHERE detection_type = 'combined') as combined_detections,
+      COUNT(*) FILTER (WHERE detection_type = 'tab_switch') as tab_switch_detections,
+      COUNT(*) FILTER (WHERE combined_distraction_detected = true) as combined_distractions,
+      COUNT(*) FILTER (WHERE tab_switch_detected = true) as tab_switch_distractions,
+      AVG(combined_confidence_level) FILTER (
+        WHERE analysis_status IN ('valid', 'repaired') AND NOT prefilter_skipped
+      ) as avg_confidence,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND NOT prefilter_skipped AND analysis_status = 'valid') as analyses_valid,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND NOT prefilter_skipped AND analysis_status = 'repaired') as analyses_repaired,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND NOT prefilter_skipped AND analysis_status = 'parse_failed') as analyses_parse_failed,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND NOT prefilter_skipped AND analysis_status = 'request_failed') as analyses_request_failed,
+      COUNT(*) FILTER (WHERE detection_type = 'combined' AND prefilter_skipped) as prefilter_skipped,
+      MIN(detection_timestamp) as first_detection,
+      MAX(detection_timestamp) as last_detection
+    FROM detection_results
+    WHERE voyage_id = voyage_id_param AND detection_type <> 'signal'
+  )
+  SELECT json_build_object(
+    'total_detections', ds.total_detections,
+    'combined_detections', ds.combined_detections,
+    'tab_switch_detections', ds.tab_switch_detections,
+    'combined_distractions_detected', ds.combined_distractions,
+    'tab_switch_distractions_detected', ds.tab_switch_distractions,
+    'avg_confidence_level', ROUND(COALESCE(ds.avg_confidence, 0)::numeric, 1),
+    'analysis_status', json_build_object(
+      'valid', ds.analyses_valid,
+      'repaired', ds.analyses_repaired,
+      'parse_failed', ds.analyses_parse_failed,
+      'request_failed', ds.analyses_request_failed
+    ),
+    'prefilter_skipped', ds.prefilter_skipped,
+    'detection_period', json_build_object(
+      'first_detection', ds.first_detection,
+      'last_detection', ds.last_detection
+    )
+  ) INTO summary
+  FROM detection_stats ds;
+
+  RETURN COALESCE(summary, '{}'::json);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_voyage_detection_summary(uuid) TO authenticated;